@@ -159,6 +159,12 @@ class DashboardClient {
     pctEl.textContent = F.percentWithSign(portfolio.totalPnLPercent);
     pctEl.className = `value pnl ${F.pnlClass(portfolio.totalPnLPercent)}`;
 
+    // After fees, gas and tick rounding
+    const netEl = document.getElementById('net-pnl');
+    netEl.textContent = F.currencyWithSign(portfolio.totalNetPnL);
+    netEl.className = `value pnl ${F.pnlClass(portfolio.totalNetPnL)}`;
+    netEl.title = `Fees ${F.currency(portfolio.totalFees)} · Gas ${F.currency(portfolio.totalGas)}`;
+
     document.getElementById('total-trades').textContent = portfolio.totalTrades;
   }
 
@@ -211,6 +217,7 @@ class DashboardClient {
       <div class="market-card" data-key="${market.marketKey}">
         <div class="market-header">
           <span class="market-name">${F.shortenMarketName(market.marketName, 45)}</span>
+          ${market.negRisk ? '<span class="market-badge" title="Multi-outcome market on the neg-risk exchange">NEG-RISK</span>' : ''}
           <span class="market-time ${market.isExpired ? 'expired' : ''}">${market.timeRemaining || '--'}</span>
         </div>
 
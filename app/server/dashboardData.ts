@@ -7,6 +7,7 @@ import marketTracker, { MarketStats } from '../../src/services/marketTracker';
 import priceStreamLogger from '../../src/services/priceStreamLogger';
 import { ENV } from '../../src/config/env';
 import getMyBalance from '../../src/utils/getMyBalance';
+import { emptyCosts, getPnLBreakdown } from '../../src/services/pnlAccounting';
 import { DashboardUpdate, MarketData, PortfolioSummary, PnLHistoryEntry } from './types';
 
 // Interface for PaperTrader (injected at runtime)
@@ -18,6 +19,7 @@ interface PaperTraderInterface {
     conditionId: string;
     totalPnl: number;
     pnlPercent: number;
+    netPnl?: number;
     priceUp: number;
     priceDown: number;
     sharesUp: number;
@@ -222,6 +224,8 @@ export class DashboardDataCollector {
     const totalPnLPercent = totalCostBasis > 0 ? (totalPnL / totalCostBasis) * 100 : 0;
     const pnlUpPercent = market.totalCostUp > 0 ? (pnlUp / market.totalCostUp) * 100 : 0;
     const pnlDownPercent = market.totalCostDown > 0 ? (pnlDown / market.totalCostDown) * 100 : 0;
+    const { feesUSD, gasUSD, roundingUSD, netPnl } = getPnLBreakdown(totalPnL, market.costs ?? emptyCosts());
+    const netPnLPercent = totalCostBasis > 0 ? (netPnl / totalCostBasis) * 100 : 0;
 
     // Calculate distribution
     const upPercent = totalInvested > 0 ? (market.investedUp / totalInvested) * 100 : 50;
@@ -277,6 +281,12 @@ export class DashboardDataCollector {
       pnlDownPercent,
       totalPnL,
       totalPnLPercent,
+      feesUSD,
+      gasUSD,
+      roundingUSD,
+      netPnL: netPnl,
+      netPnLPercent,
+      negRisk: market.negRisk === true,
       tradesUp: market.tradesUp,
       tradesDown: market.tradesDown,
       upPercent,
@@ -330,6 +340,9 @@ export class DashboardDataCollector {
     let totalCostBasis = 0;
     let totalValue = 0;
     let totalPnL = 0;
+    let totalFees = 0;
+    let totalGas = 0;
+    let totalNetPnL = 0;
     let totalTrades = 0;
 
     let invested15m = 0;
@@ -354,6 +367,9 @@ export class DashboardDataCollector {
       totalCostBasis += costBasis;
       totalValue += value;
       totalPnL += m.totalPnL;
+      totalFees += m.feesUSD;
+      totalGas += m.gasUSD;
+      totalNetPnL += m.netPnL;
       totalTrades += trades;
 
       if (m.category.includes('15m')) {
@@ -372,6 +388,7 @@ export class DashboardDataCollector {
     }
 
     const totalPnLPercent = totalCostBasis > 0 ? (totalPnL / totalCostBasis) * 100 : 0;
+    const totalNetPnLPercent = totalCostBasis > 0 ? (totalNetPnL / totalCostBasis) * 100 : 0;
     const pnl15mPercent = costBasis15m > 0 ? (pnl15m / costBasis15m) * 100 : 0;
     const pnl1hPercent = costBasis1h > 0 ? (pnl1h / costBasis1h) * 100 : 0;
 
@@ -395,6 +412,10 @@ export class DashboardDataCollector {
       totalValue,
       totalPnL,
       totalPnLPercent,
+      totalFees,
+      totalGas,
+      totalNetPnL,
+      totalNetPnLPercent,
       invested15m,
       value15m,
       pnl15m,
@@ -1,7 +1,7 @@
 /**
  * BETABOT Web Dashboard Server
  * Serves static files and broadcasts real-time dashboard updates via WebSocket
- * Also provides REST API for watchlist management
+ * Also provides REST API for watchlist management and Prometheus metrics at /metrics
  */
 
 import { createServer, IncomingMessage, ServerResponse } from 'http';
@@ -9,6 +9,7 @@ import { WebSocketServer, WebSocket } from 'ws';
 import * as fs from 'fs';
 import * as path from 'path';
 import { dashboardDataCollector } from './dashboardData';
+import { metrics, METRICS_CONTENT_TYPE, registry } from '../../src/services/metrics';
 import { ClientMessage } from './types';
 
 // MIME types for static file serving
@@ -140,6 +141,7 @@ export class AppServer {
       client.close();
     }
     this.clients.clear();
+    metrics.websocketClients.set(0);
 
     this.wss.close();
     this.httpServer.close();
@@ -172,6 +174,21 @@ export class AppServer {
       return;
     }
 
+    // Prometheus scrape endpoint
+    if (url === '/metrics' && method === 'GET') {
+      registry
+        .render()
+        .then((body) => {
+          res.writeHead(200, { 'Content-Type': METRICS_CONTENT_TYPE });
+          res.end(body);
+        })
+        .catch((err) => {
+          res.writeHead(500);
+          res.end(String(err));
+        });
+      return;
+    }
+
     // API Routes for watchlist management
     // Support both /api/watchlist/* and /watchlist/* paths
     if (url.startsWith('/api/') || url.startsWith('/watchlist')) {
@@ -469,6 +486,7 @@ export class AppServer {
   private setupWebSocket(): void {
     this.wss.on('connection', (ws: WebSocket) => {
       this.clients.add(ws);
+      metrics.websocketClients.set(this.clients.size);
       console.log(`[APP] Client connected (${this.clients.size} total)`);
 
       // Send immediate update on connection
@@ -477,6 +495,7 @@ export class AppServer {
       // Handle client disconnect
       ws.on('close', () => {
         this.clients.delete(ws);
+        metrics.websocketClients.set(this.clients.size);
         console.log(`[APP] Client disconnected (${this.clients.size} remaining)`);
       });
 
@@ -494,6 +513,7 @@ export class AppServer {
       ws.on('error', (err) => {
         console.error('[APP] WebSocket error:', err.message);
         this.clients.delete(ws);
+        metrics.websocketClients.set(this.clients.size);
       });
     });
   }
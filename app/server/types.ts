@@ -35,6 +35,16 @@ export interface MarketData {
   totalPnL: number;
   totalPnLPercent: number;
 
+  // Costs so far and PnL net of them (see pnlAccounting)
+  feesUSD: number;
+  gasUSD: number;
+  roundingUSD: number;
+  netPnL: number;
+  netPnLPercent: number;
+
+  // Multi-outcome market traded on the neg-risk exchange
+  negRisk: boolean;
+
   // Trade counts
   tradesUp: number;
   tradesDown: number;
@@ -50,6 +60,7 @@ export interface PnLHistoryEntry {
   conditionId: string;
   totalPnl: number;
   pnlPercent: number;
+  netPnl?: number;             // After fees, gas and rounding (absent in older history)
   priceUp: number;
   priceDown: number;
   sharesUp: number;
@@ -65,6 +76,10 @@ export interface PortfolioSummary {
   totalValue: number;
   totalPnL: number;
   totalPnLPercent: number;
+  totalFees: number;
+  totalGas: number;
+  totalNetPnL: number;
+  totalNetPnLPercent: number;
 
   // By market type
   invested15m: number;
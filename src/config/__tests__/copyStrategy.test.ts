@@ -1,9 +1,15 @@
 import type { CopyStrategyConfig } from '../copyStrategy';
 import {
+    applyCopyDelayFilter,
+    applySlippageGuard,
     calculateOrderSize,
     CopyStrategy,
+    estimateBuyFill,
+    getMaxAcceptablePrice,
     getTradeMultiplier,
+    kellyFraction,
     parseTieredMultipliers,
+    smoothEquityRatio,
     validateCopyStrategyConfig
 } from '../copyStrategy';
 
@@ -312,3 +318,258 @@ describe('calculateOrderSize with tiered multipliers', () => {
     });
 });
 
+
+describe('slippage guard', () => {
+    const config: CopyStrategyConfig = {
+        strategy: CopyStrategy.FIXED,
+        copySize: 50.0,
+        maxOrderSizeUSD: 1000.0,
+        minOrderSizeUSD: 1.0,
+    };
+    // $10 at 0.50, $11 at 0.55, $60 at 0.60
+    const asks = [
+        { price: 0.6, size: 100 },
+        { price: 0.5, size: 20 },
+        { price: 0.55, size: 20 },
+    ];
+
+    it('should compute the volume-weighted fill price across levels', () => {
+        const estimate = estimateBuyFill(asks, 21);
+        expect(estimate.filledTokens).toBeCloseTo(40);
+        expect(estimate.avgPrice).toBeCloseTo(0.525);
+        expect(estimate.worstPrice).toBe(0.55);
+        expect(estimate.fullyFilled).toBe(true);
+    });
+
+    it('should apply the stricter of the cents and percent limits', () => {
+        expect(getMaxAcceptablePrice(0.5, { maxSlippageCents: 5 })).toBeCloseTo(0.55);
+        expect(
+            getMaxAcceptablePrice(0.5, { maxSlippageCents: 5, maxSlippagePercent: 4 })
+        ).toBeCloseTo(0.52);
+        expect(getMaxAcceptablePrice(0.5, {})).toBe(Infinity);
+    });
+
+    it('should keep orders whose VWAP is within the limit', () => {
+        const calc = calculateOrderSize({ ...config, copySize: 20 }, 100, 1000, 0);
+        const result = applySlippageGuard(calc, asks, 0.5, { maxSlippageCents: 5 }, 1);
+        expect(result.finalAmount).toBe(20);
+        expect(result.reducedBySlippage).toBe(false);
+        expect(result.reasoning).toContain('VWAP');
+    });
+
+    it('should shrink orders to the size that stays within the limit', () => {
+        const calc = calculateOrderSize(config, 100, 1000, 0);
+        const result = applySlippageGuard(calc, asks, 0.5, { maxSlippageCents: 5 }, 1);
+        // Average price stays at or below 0.55
+        expect(result.finalAmount).toBeGreaterThan(21);
+        expect(result.finalAmount).toBeLessThan(50);
+        expect(estimateBuyFill(asks, result.finalAmount).avgPrice).toBeCloseTo(0.55);
+        expect(result.reducedBySlippage).toBe(true);
+        expect(result.reasoning).toContain('shrunk');
+    });
+
+    it('should skip orders when nothing fills within the limit', () => {
+        const calc = calculateOrderSize(config, 100, 1000, 0);
+        const result = applySlippageGuard(calc, asks, 0.4, { maxSlippageCents: 5 }, 1);
+        expect(result.finalAmount).toBe(0);
+        expect(result.reasoning).toContain('skipped');
+    });
+});
+
+describe('copy delay filter', () => {
+    const config: CopyStrategyConfig = {
+        strategy: CopyStrategy.FIXED,
+        copySize: 20.0,
+        maxOrderSizeUSD: 1000.0,
+        minOrderSizeUSD: 1.0,
+    };
+    const calc = calculateOrderSize(config, 100, 1000, 0);
+    const fresh = { delaySeconds: 2, referencePrice: 0.5, currentAsk: 0.5, timeToEndSeconds: 600 };
+    const limits = {
+        maxDelaySeconds: 30,
+        maxPriceDriftCents: 2,
+        minTimeToEndSeconds: 60,
+    };
+
+    it('should keep copies that are fresh, unmoved and far from market end', () => {
+        const result = applyCopyDelayFilter(calc, fresh, limits, 1);
+        expect(result.finalAmount).toBe(20);
+        expect(result.reducedByDelay).toBe(false);
+    });
+
+    it('should skip with the reason when any limit is exceeded', () => {
+        const late = applyCopyDelayFilter(calc, { ...fresh, delaySeconds: 45 }, limits, 1);
+        expect(late.finalAmount).toBe(0);
+        expect(late.reducedByDelay).toBe(true);
+        expect(late.reasoning).toContain('seen 45s late (limit 30s) - skipped');
+
+        const drifted = applyCopyDelayFilter(calc, { ...fresh, currentAsk: 0.53 }, limits, 1);
+        expect(drifted.finalAmount).toBe(0);
+        expect(drifted.reasoning).toContain('ask $0.5300 vs trader $0.5000');
+
+        const ending = applyCopyDelayFilter(calc, { ...fresh, timeToEndSeconds: 30 }, limits, 1);
+        expect(ending.finalAmount).toBe(0);
+        expect(ending.reasoning).toContain('30s to market end');
+    });
+
+    it('should ignore favourable drift and checks without inputs', () => {
+        const cheaper = applyCopyDelayFilter(calc, { ...fresh, currentAsk: 0.4 }, limits, 1);
+        expect(cheaper.finalAmount).toBe(20);
+
+        const unpriced = applyCopyDelayFilter(
+            calc,
+            { delaySeconds: 2, referencePrice: 0.5 },
+            limits,
+            1
+        );
+        expect(unpriced.finalAmount).toBe(20);
+    });
+
+    it('should taper copies over the second half of each limit when resizing', () => {
+        const resize = { ...limits, resize: true };
+        // Half the delay limit: still full size
+        expect(
+            applyCopyDelayFilter(calc, { ...fresh, delaySeconds: 15 }, resize, 1).finalAmount
+        ).toBe(20);
+        // 3/4 of the delay limit and 1.5¢ of 2¢ drift: half size each
+        const result = applyCopyDelayFilter(
+            calc,
+            { ...fresh, delaySeconds: 22.5, currentAsk: 0.515 },
+            resize,
+            1
+        );
+        expect(result.finalAmount).toBeCloseTo(5);
+        expect(result.reasoning).toContain('shrunk to $5.00');
+        // Shrunk below the minimum order: skipped
+        expect(
+            applyCopyDelayFilter(calc, { ...fresh, delaySeconds: 29 }, resize, 5).finalAmount
+        ).toBe(0);
+    });
+});
+
+describe('PROPORTIONAL strategy', () => {
+    const config: CopyStrategyConfig = {
+        strategy: CopyStrategy.PROPORTIONAL,
+        copySize: 100.0,
+        maxOrderSizeUSD: 1000.0,
+        minOrderSizeUSD: 1.0,
+        proportionalMinRatio: 0.01,
+        proportionalMaxRatio: 0.5,
+    };
+
+    it('should scale the trader order by the equity ratio and copySize', () => {
+        // We hold $5k, trader holds $100k: a $2k trade is 2% of their equity → $100 for us
+        const result = calculateOrderSize(config, 2000, 5000, 0, { equityRatio: 0.05 });
+        expect(result.finalAmount).toBeCloseTo(100);
+
+        const half = calculateOrderSize({ ...config, copySize: 50.0 }, 2000, 5000, 0, {
+            equityRatio: 0.05,
+        });
+        expect(half.finalAmount).toBeCloseTo(50);
+    });
+
+    it('should clamp the ratio to the configured bounds', () => {
+        const result = calculateOrderSize(config, 100, 5000, 0, { equityRatio: 3 });
+        expect(result.finalAmount).toBeCloseTo(50);
+        expect(result.reasoning).toContain('(clamped)');
+
+        expect(calculateOrderSize(config, 1000, 5000, 0, { equityRatio: 0.0001 }).finalAmount).toBeCloseTo(10);
+    });
+
+    it('should skip the trade when the trader equity is unknown', () => {
+        const result = calculateOrderSize(config, 2000, 5000, 0, {});
+        expect(result.finalAmount).toBe(0);
+        expect(result.belowMinimum).toBe(true);
+    });
+
+    it('should reject inverted bounds', () => {
+        const errors = validateCopyStrategyConfig({
+            ...config,
+            proportionalMinRatio: 0.5,
+            proportionalMaxRatio: 0.1,
+        });
+        expect(errors).toContain('proportionalMinRatio cannot be greater than proportionalMaxRatio');
+    });
+});
+
+describe('smoothEquityRatio', () => {
+    const halfLife = 60 * 60 * 1000;
+
+    it('should take the first sample as-is', () => {
+        expect(smoothEquityRatio(undefined, 0.2, 0, halfLife)).toBe(0.2);
+    });
+
+    it('should move halfway to the new sample after one half-life', () => {
+        expect(smoothEquityRatio(0.2, 0.4, halfLife, halfLife)).toBeCloseTo(0.3);
+        expect(smoothEquityRatio(0.2, 0.4, 0, halfLife)).toBeCloseTo(0.2);
+        expect(smoothEquityRatio(0.2, 0.4, 10 * halfLife, halfLife)).toBeCloseTo(0.4, 3);
+    });
+
+    it('should disable smoothing with a zero half-life', () => {
+        expect(smoothEquityRatio(0.2, 0.4, 1000, 0)).toBe(0.4);
+    });
+});
+
+describe('KELLY strategy', () => {
+    const config: CopyStrategyConfig = {
+        strategy: CopyStrategy.KELLY,
+        copySize: 25.0,
+        maxOrderSizeUSD: 100.0,
+        minOrderSizeUSD: 1.0,
+        kellyMaxFraction: 0.05,
+    };
+    const edge = (value: number) => ({
+        edge: value,
+        winRate: 0.4 + value,
+        avgPrice: 0.4,
+        samples: 50,
+        bucket: 'btc-updown-15m @ 0.4-0.6',
+    });
+
+    it('should compute the full-Kelly fraction for a binary share', () => {
+        // Buying at 0.40 with a 10pp edge (wins 50%): f* = 0.10 / 0.60
+        expect(kellyFraction(0.1, 0.4)).toBeCloseTo(1 / 6);
+        expect(kellyFraction(-0.05, 0.4)).toBe(0);
+        expect(kellyFraction(0.1, 1)).toBe(0);
+    });
+
+    it('should stake the fractional Kelly share of balance', () => {
+        // f* = 0.06 / 0.6 = 10%, quarter Kelly = 2.5% of $1000
+        const result = calculateOrderSize(config, 500, 1000, 0, { edge: edge(0.06), price: 0.4 });
+        expect(result.finalAmount).toBeCloseTo(25);
+        expect(result.reasoning).toContain('50 trades');
+    });
+
+    it('should cap the stake fraction and then the order size', () => {
+        const capped = calculateOrderSize(config, 500, 1000, 0, { edge: edge(0.3), price: 0.4 });
+        expect(capped.finalAmount).toBeCloseTo(50); // 5% of $1000
+
+        const maxed = calculateOrderSize(config, 500, 10000, 0, { edge: edge(0.3), price: 0.4 });
+        expect(maxed.finalAmount).toBe(100);
+        expect(maxed.cappedByMax).toBe(true);
+    });
+
+    it('should default the stake cap when a trader override leaves it unset', () => {
+        const override: CopyStrategyConfig = { ...config, kellyMaxFraction: undefined };
+        const capped = calculateOrderSize(override, 500, 1000, 0, { edge: edge(0.3), price: 0.4 });
+        expect(capped.finalAmount).toBeCloseTo(50); // default 5% of $1000
+    });
+
+    it('should keep a multiplied stake within the stake cap', () => {
+        const multiplied: CopyStrategyConfig = { ...config, tradeMultiplier: 3 };
+        // Quarter Kelly = 2.5% of $1000, tripled to $75, capped at 5%
+        const result = calculateOrderSize(multiplied, 500, 1000, 0, {
+            edge: edge(0.06),
+            price: 0.4,
+        });
+        expect(result.finalAmount).toBeCloseTo(50);
+        expect(result.reasoning).toContain('Capped at Kelly max');
+    });
+
+    it('should not copy without a positive measured edge', () => {
+        expect(calculateOrderSize(config, 500, 1000, 0, { price: 0.4 }).finalAmount).toBe(0);
+        expect(
+            calculateOrderSize(config, 500, 1000, 0, { edge: edge(-0.02), price: 0.4 }).finalAmount
+        ).toBe(0);
+    });
+});
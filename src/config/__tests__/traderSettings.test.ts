@@ -0,0 +1,97 @@
+/**
+ * Tests for per-trader copy settings from the watchlist
+ */
+import { CopyStrategy, CopyStrategyConfig } from '../copyStrategy';
+import {
+    isCategoryAllowed,
+    mergeTraderSettings,
+    parseTraderSettings,
+    resolveCopyStrategyConfig,
+    validateTraderSettings,
+} from '../traderSettings';
+
+const base: CopyStrategyConfig = {
+    strategy: CopyStrategy.PERCENTAGE,
+    copySize: 10,
+    maxOrderSizeUSD: 100,
+    minOrderSizeUSD: 1,
+};
+
+describe('parseTraderSettings', () => {
+    it('should coerce string values from commands into typed settings', () => {
+        const { settings, errors } = parseTraderSettings({
+            copyStrategy: {
+                strategy: 'fixed',
+                copySize: '25',
+                tieredMultipliers: '0-100:1,100+:0.5',
+            },
+            allowedCategories: 'BTC-updown, eth',
+            capitalAllocationUSD: '500',
+        });
+
+        expect(errors).toEqual([]);
+        expect(settings).toEqual({
+            copyStrategy: {
+                strategy: CopyStrategy.FIXED,
+                copySize: 25,
+                tieredMultipliers: [
+                    { min: 0, max: 100, multiplier: 1 },
+                    { min: 100, max: null, multiplier: 0.5 },
+                ],
+            },
+            allowedCategories: ['btc-updown', 'eth'],
+            capitalAllocationUSD: 500,
+        });
+    });
+
+    it('should report invalid values instead of keeping them', () => {
+        const { settings, errors } = parseTraderSettings({
+            copyStrategy: { strategy: 'YOLO', maxOrderSizeUSD: 'lots' },
+            capitalAllocationUSD: 0,
+        });
+
+        expect(errors).toEqual([
+            'Unknown strategy: YOLO',
+            'maxOrderSizeUSD must be 0 or a positive number',
+            'capitalAllocationUSD must be a positive number',
+        ]);
+        expect(settings).toEqual({ copyStrategy: {} });
+    });
+});
+
+describe('resolving and validating settings', () => {
+    it('should layer overrides over the global config and merge patches field by field', () => {
+        const settings = mergeTraderSettings(
+            { copyStrategy: { copySize: 5 }, blockedCategories: ['sports'] },
+            { copyStrategy: { maxOrderSizeUSD: 20 } }
+        );
+
+        expect(resolveCopyStrategyConfig(base, settings)).toEqual({
+            ...base,
+            copySize: 5,
+            maxOrderSizeUSD: 20,
+        });
+        expect(settings.blockedCategories).toEqual(['sports']);
+    });
+
+    it('should validate the resolved config', () => {
+        expect(validateTraderSettings(base, { copyStrategy: { minOrderSizeUSD: 500 } })).toEqual([
+            'minOrderSizeUSD cannot be greater than maxOrderSizeUSD',
+        ]);
+        expect(
+            validateTraderSettings(base, { allowedCategories: ['btc'], blockedCategories: ['btc'] })
+        ).toEqual(['Categories both allowed and blocked: btc']);
+    });
+});
+
+describe('isCategoryAllowed', () => {
+    it('should match categories by prefix, with blocks taking precedence', () => {
+        const settings = { allowedCategories: ['btc'], blockedCategories: ['btc-updown-5m'] };
+
+        expect(isCategoryAllowed('btc-updown-15m', settings)).toBe(true);
+        expect(isCategoryAllowed('btc-updown-5m', settings)).toBe(false);
+        expect(isCategoryAllowed('eth-updown-15m', settings)).toBe(false);
+        expect(isCategoryAllowed('btcfoo', settings)).toBe(false);
+        expect(isCategoryAllowed('anything', {})).toBe(true);
+    });
+});
@@ -2,18 +2,26 @@
  * Copy Trading Strategy Configuration
  *
  * This module defines the strategy for copying trades from followed traders.
- * Three strategies are supported:
+ * Four strategies are supported:
  * - PERCENTAGE: Copy a fixed percentage of trader's order size
  * - FIXED: Copy a fixed dollar amount per trade
  * - ADAPTIVE: Dynamically adjust percentage based on trader's order size
+ * - PROPORTIONAL: Scale trader's order by our equity / their equity
+ * - KELLY: Stake a fraction of our balance sized by the trader's measured edge
  */
 
 export enum CopyStrategy {
     PERCENTAGE = 'PERCENTAGE',
     FIXED = 'FIXED',
     ADAPTIVE = 'ADAPTIVE',
+    PROPORTIONAL = 'PROPORTIONAL',
+    KELLY = 'KELLY',
 }
 
+// KELLY defaults, also applied when a per-trader override switches a trader to KELLY
+export const DEFAULT_KELLY_MAX_FRACTION = 0.05;
+export const DEFAULT_KELLY_MIN_SAMPLES = 20;
+
 /**
  * Tier definition for tiered multipliers
  * Example: { min: 100, max: 500, multiplier: 0.2 }
@@ -33,6 +41,8 @@ export interface CopyStrategyConfig {
     // PERCENTAGE: Percentage of trader's order (e.g., 10.0 = 10%)
     // FIXED: Fixed dollar amount per trade (e.g., 50.0 = $50)
     // ADAPTIVE: Base percentage for adaptive scaling
+    // PROPORTIONAL: Percentage of the equity-proportional size (100.0 = same share of equity)
+    // KELLY: Kelly fraction in percent (e.g., 25.0 = quarter Kelly)
     copySize: number;
 
     // Adaptive strategy parameters (only used if strategy = ADAPTIVE)
@@ -40,6 +50,14 @@ export interface CopyStrategyConfig {
     adaptiveMaxPercent?: number; // Maximum percentage for small orders
     adaptiveThreshold?: number; // Threshold in USD to trigger adaptation
 
+    // Proportional strategy parameters (only used if strategy = PROPORTIONAL)
+    proportionalMinRatio?: number; // Floor on our equity / trader's equity
+    proportionalMaxRatio?: number; // Ceiling on our equity / trader's equity
+
+    // Kelly strategy parameters (only used if strategy = KELLY)
+    kellyMaxFraction?: number; // Cap on the stake as a fraction of balance (default: 0.05 = 5%)
+    kellyMinSamples?: number; // Resolved trades needed before a bucket's edge is trusted (default: 20)
+
     // Tiered multipliers (optional - applies to all strategies)
     // If set, multiplier is applied based on trader's order size
     tieredMultipliers?: MultiplierTier[];
@@ -55,6 +73,26 @@ export interface CopyStrategyConfig {
     maxDailyVolumeUSD?: number; // Maximum total volume per day (optional)
 }
 
+/**
+ * A trader's measured edge in a market bucket (see services/traderEdge)
+ */
+export interface TraderEdge {
+    edge: number; // Win rate minus average entry price (shrunk toward 0 for small samples)
+    winRate: number;
+    avgPrice: number;
+    samples: number; // Resolved trades behind the estimate
+    bucket: string; // Which history the estimate came from, e.g. "btc-updown-15m @ 0.4-0.6"
+}
+
+/**
+ * Per-trade inputs some strategies need beyond the trader's order size
+ */
+export interface SizingSignals {
+    equityRatio?: number; // Our equity / trader's equity (PROPORTIONAL)
+    edge?: TraderEdge; // Trader's measured edge for this market (KELLY)
+    price?: number; // Price of the copied fill (KELLY)
+}
+
 export interface OrderSizeCalculation {
     traderOrderSize: number; // Original trader's order size
     baseAmount: number; // Calculated amount before limits
@@ -63,9 +101,55 @@ export interface OrderSizeCalculation {
     cappedByMax: boolean; // Whether capped by MAX_ORDER_SIZE
     reducedByBalance: boolean; // Whether reduced due to balance
     belowMinimum: boolean; // Whether below minimum threshold
+    reducedBySlippage: boolean; // Whether shrunk/skipped by the order book slippage guard
+    reducedByRisk: boolean; // Whether shrunk/skipped by the portfolio risk manager
+    reducedByDelay: boolean; // Whether shrunk/skipped by the copy delay/price drift filter
     reasoning: string; // Human-readable explanation
 }
 
+/**
+ * Slippage limits for the pre-trade depth check, relative to the trader's fill price
+ * When both are set, the stricter one applies.
+ */
+export interface SlippageLimits {
+    maxSlippageCents?: number; // e.g. 3 = pay at most 3¢ above the trader's price
+    maxSlippagePercent?: number; // e.g. 5 = pay at most 5% above the trader's price
+}
+
+/**
+ * Limits on how stale a copy may be by the time we act on the trader's fill (0/unset = off)
+ * Price drift limits combine like SlippageLimits: the stricter one applies.
+ * With `resize`, a copy keeps its full size through the first half of each limit and then
+ * shrinks linearly to nothing at the limit, instead of going from full size to skipped.
+ */
+export interface CopyDelayLimits {
+    maxDelaySeconds?: number; // e.g. 30 = skip fills detected more than 30s after they happened
+    maxPriceDriftCents?: number; // e.g. 2 = skip when the ask is 2¢+ above the trader's price
+    maxPriceDriftPercent?: number; // e.g. 5 = skip when the ask is 5%+ above the trader's price
+    minTimeToEndSeconds?: number; // e.g. 60 = skip markets ending within a minute
+    resize?: boolean;
+}
+
+export interface CopyDelayInputs {
+    delaySeconds: number; // Now minus the trader's fill time
+    referencePrice: number; // Trader's fill price
+    currentAsk?: number; // Best ask now (drift is not checked without it)
+    timeToEndSeconds?: number; // Until the market's endDate (not checked without it)
+}
+
+export interface OrderBookLevel {
+    price: number;
+    size: number; // Tokens
+}
+
+export interface FillEstimate {
+    filledUsd: number;
+    filledTokens: number;
+    avgPrice: number; // Volume-weighted fill price (0 if nothing fills)
+    worstPrice: number; // Deepest level touched
+    fullyFilled: boolean;
+}
+
 /**
  * Calculate order size based on copy strategy
  */
@@ -73,7 +157,8 @@ export function calculateOrderSize(
     config: CopyStrategyConfig,
     traderOrderSize: number,
     availableBalance: number,
-    currentPositionSize: number = 0
+    currentPositionSize: number = 0,
+    signals: SizingSignals = {}
 ): OrderSizeCalculation {
     let baseAmount: number;
     let reasoning: string;
@@ -96,6 +181,34 @@ export function calculateOrderSize(
             reasoning = `Adaptive ${adaptivePercent.toFixed(1)}% of trader's $${traderOrderSize.toFixed(2)} = $${baseAmount.toFixed(2)}`;
             break;
 
+        case CopyStrategy.PROPORTIONAL:
+            const { equityRatio } = signals;
+            if (!equityRatio || equityRatio <= 0) {
+                baseAmount = 0;
+                reasoning = `Proportional: trader's equity unknown`;
+                break;
+            }
+            const ratio = clampEquityRatio(config, equityRatio);
+            baseAmount = traderOrderSize * ratio * (config.copySize / 100);
+            reasoning = `Equity ratio ${ratio.toFixed(4)}${ratio !== equityRatio ? ' (clamped)' : ''} × ${config.copySize}% of trader's $${traderOrderSize.toFixed(2)} = $${baseAmount.toFixed(2)}`;
+            break;
+
+        case CopyStrategy.KELLY:
+            const { edge, price } = signals;
+            if (!edge || price === undefined) {
+                baseAmount = 0;
+                reasoning = `Kelly: not enough resolved trades to measure the trader's edge`;
+                break;
+            }
+            const fullKelly = kellyFraction(edge.edge, price);
+            const stakeFraction = Math.min(
+                fullKelly * (config.copySize / 100),
+                config.kellyMaxFraction ?? DEFAULT_KELLY_MAX_FRACTION
+            );
+            baseAmount = availableBalance * stakeFraction;
+            reasoning = `Kelly: edge ${(edge.edge * 100).toFixed(1)}pp over ${edge.samples} trades (${edge.bucket}) → f* ${(fullKelly * 100).toFixed(1)}% × ${config.copySize}% = ${(stakeFraction * 100).toFixed(2)}% of $${availableBalance.toFixed(2)} = $${baseAmount.toFixed(2)}`;
+            break;
+
         default:
             throw new Error(`Unknown strategy: ${config.strategy}`);
     }
@@ -107,6 +220,15 @@ export function calculateOrderSize(
     if (multiplier !== 1.0) {
         reasoning += ` → ${multiplier}x multiplier: $${baseAmount.toFixed(2)} → $${finalAmount.toFixed(2)}`;
     }
+
+    // A multiplier never takes a Kelly stake past the fractional-Kelly cap
+    if (config.strategy === CopyStrategy.KELLY) {
+        const kellyCap = availableBalance * (config.kellyMaxFraction ?? DEFAULT_KELLY_MAX_FRACTION);
+        if (finalAmount > kellyCap) {
+            finalAmount = kellyCap;
+            reasoning += ` → Capped at Kelly max $${kellyCap.toFixed(2)}`;
+        }
+    }
     let cappedByMax = false;
     let reducedByBalance = false;
     let belowMinimum = false;
@@ -156,10 +278,206 @@ export function calculateOrderSize(
         cappedByMax,
         reducedByBalance,
         belowMinimum,
+        reducedBySlippage: false,
+        reducedByRisk: false,
+        reducedByDelay: false,
         reasoning,
     };
 }
 
+/**
+ * Highest average price we accept for a BUY copying a fill at `referencePrice`
+ */
+export function getMaxAcceptablePrice(referencePrice: number, limits: SlippageLimits): number {
+    const allowances: number[] = [];
+    if (limits.maxSlippageCents !== undefined && limits.maxSlippageCents > 0) {
+        allowances.push(limits.maxSlippageCents / 100);
+    }
+    if (limits.maxSlippagePercent !== undefined && limits.maxSlippagePercent > 0) {
+        allowances.push(referencePrice * (limits.maxSlippagePercent / 100));
+    }
+    return allowances.length > 0 ? referencePrice + Math.min(...allowances) : Infinity;
+}
+
+/**
+ * Walk the asks (cheapest first) and estimate the fill for a BUY of `usdAmount`
+ */
+export function estimateBuyFill(asks: OrderBookLevel[], usdAmount: number): FillEstimate {
+    const levels = asks.filter((l) => l.size > 0).sort((a, b) => a.price - b.price);
+    let filledUsd = 0;
+    let filledTokens = 0;
+    let worstPrice = 0;
+
+    for (const level of levels) {
+        const remainingUsd = usdAmount - filledUsd;
+        if (remainingUsd <= 1e-9) break;
+        const takeUsd = Math.min(remainingUsd, level.size * level.price);
+        filledUsd += takeUsd;
+        filledTokens += takeUsd / level.price;
+        worstPrice = level.price;
+    }
+
+    return {
+        filledUsd,
+        filledTokens,
+        avgPrice: filledTokens > 0 ? filledUsd / filledTokens : 0,
+        worstPrice,
+        fullyFilled: usdAmount - filledUsd <= 1e-9,
+    };
+}
+
+/**
+ * Largest BUY (USD) the asks can absorb while keeping the average price at or below `maxAvgPrice`
+ */
+export function getMaxBuyWithinPrice(asks: OrderBookLevel[], maxAvgPrice: number): number {
+    const levels = asks.filter((l) => l.size > 0).sort((a, b) => a.price - b.price);
+    let usd = 0;
+    let tokens = 0;
+
+    for (const level of levels) {
+        const levelUsd = level.size * level.price;
+        if ((usd + levelUsd) / (tokens + level.size) <= maxAvgPrice) {
+            usd += levelUsd;
+            tokens += level.size;
+            continue;
+        }
+        // Take part of this level (its price is above the limit): solve
+        // (usd + x) / (tokens + x / price) = maxAvgPrice for x
+        const partialUsd = (maxAvgPrice * tokens - usd) / (1 - maxAvgPrice / level.price);
+        usd += Math.max(0, partialUsd);
+        break;
+    }
+    return usd;
+}
+
+/**
+ * Pre-trade depth check: estimate the VWAP for the sized BUY against the full order book and
+ * shrink (or skip) the order when it would be worse than the trader's price by more than the
+ * configured slippage. Reasons are appended to `reasoning`.
+ */
+export function applySlippageGuard(
+    calc: OrderSizeCalculation,
+    asks: OrderBookLevel[],
+    referencePrice: number,
+    limits: SlippageLimits,
+    minOrderSizeUSD: number
+): OrderSizeCalculation {
+    if (calc.finalAmount <= 0) {
+        return calc;
+    }
+
+    const result = { ...calc };
+    const maxAvgPrice = getMaxAcceptablePrice(referencePrice, limits);
+    const estimate = estimateBuyFill(asks, calc.finalAmount);
+
+    if (estimate.filledTokens === 0) {
+        result.finalAmount = 0;
+        result.reducedBySlippage = true;
+        result.reasoning += ` → No asks in order book`;
+        return result;
+    }
+
+    if (estimate.fullyFilled && estimate.avgPrice <= maxAvgPrice) {
+        result.reasoning += ` → VWAP $${estimate.avgPrice.toFixed(4)} vs trader $${referencePrice.toFixed(4)}`;
+        return result;
+    }
+
+    // Too thin or too expensive: keep only what fills within the limit
+    const affordable = Math.min(calc.finalAmount, getMaxBuyWithinPrice(asks, maxAvgPrice));
+    const why = estimate.fullyFilled
+        ? `VWAP $${estimate.avgPrice.toFixed(4)} exceeds limit $${maxAvgPrice.toFixed(4)} (trader $${referencePrice.toFixed(4)})`
+        : `Book depth only $${estimate.filledUsd.toFixed(2)}`;
+    result.reducedBySlippage = true;
+
+    if (affordable < minOrderSizeUSD) {
+        result.finalAmount = 0;
+        result.reasoning += ` → ${why} - skipped`;
+    } else {
+        result.finalAmount = affordable;
+        const shrunk = estimateBuyFill(asks, affordable);
+        result.reasoning += ` → ${why} - shrunk to $${affordable.toFixed(2)} (VWAP $${shrunk.avgPrice.toFixed(4)})`;
+    }
+    return result;
+}
+
+/**
+ * Share of the copy to keep for a measurement that has used up `used` of its limit (1 = at it)
+ */
+function delayFactor(used: number, resize: boolean): number {
+    if (used >= 1) return 0;
+    return resize ? Math.min(1, 2 * (1 - used)) : 1;
+}
+
+/**
+ * Skip or shrink a BUY whose trader fill we saw too late: after too long, after the price has
+ * moved too far against us, or too close to the market's end
+ */
+export function applyCopyDelayFilter(
+    calc: OrderSizeCalculation,
+    inputs: CopyDelayInputs,
+    limits: CopyDelayLimits,
+    minOrderSizeUSD: number
+): OrderSizeCalculation {
+    if (calc.finalAmount <= 0) {
+        return calc;
+    }
+
+    const resize = limits.resize === true;
+    const checks: Array<{ label: string; factor: number }> = [];
+
+    if (limits.maxDelaySeconds !== undefined && limits.maxDelaySeconds > 0) {
+        const used = inputs.delaySeconds / limits.maxDelaySeconds;
+        checks.push({
+            label: `seen ${inputs.delaySeconds.toFixed(0)}s late (limit ${limits.maxDelaySeconds}s)`,
+            factor: delayFactor(used, resize),
+        });
+    }
+
+    const maxAsk = getMaxAcceptablePrice(inputs.referencePrice, {
+        maxSlippageCents: limits.maxPriceDriftCents,
+        maxSlippagePercent: limits.maxPriceDriftPercent,
+    });
+    if (inputs.currentAsk !== undefined && maxAsk !== Infinity) {
+        const allowance = maxAsk - inputs.referencePrice;
+        const drift = inputs.currentAsk - inputs.referencePrice;
+        checks.push({
+            label: `ask $${inputs.currentAsk.toFixed(4)} vs trader $${inputs.referencePrice.toFixed(4)} (limit $${maxAsk.toFixed(4)})`,
+            factor: delayFactor(Math.max(0, drift) / allowance, resize),
+        });
+    }
+
+    if (
+        inputs.timeToEndSeconds !== undefined &&
+        limits.minTimeToEndSeconds !== undefined &&
+        limits.minTimeToEndSeconds > 0
+    ) {
+        const used =
+            inputs.timeToEndSeconds > 0 ? limits.minTimeToEndSeconds / inputs.timeToEndSeconds : 1;
+        checks.push({
+            label: `${Math.max(0, inputs.timeToEndSeconds).toFixed(0)}s to market end (limit ${limits.minTimeToEndSeconds}s)`,
+            factor: delayFactor(used, resize),
+        });
+    }
+
+    const limiting = checks.filter((c) => c.factor < 1);
+    if (limiting.length === 0) {
+        return calc;
+    }
+
+    const result = { ...calc, reducedByDelay: true };
+    const why = limiting.map((c) => c.label).join(', ');
+    const amount = limiting.reduce((total, c) => total * c.factor, calc.finalAmount);
+
+    if (amount < minOrderSizeUSD) {
+        result.finalAmount = 0;
+        result.reasoning += ` → Late copy: ${why} - skipped`;
+    } else {
+        result.finalAmount = amount;
+        result.reasoning += ` → Late copy: ${why} - shrunk to $${amount.toFixed(2)}`;
+    }
+    return result;
+}
+
 /**
  * Calculate adaptive percentage based on trader's order size
  *
@@ -186,6 +504,45 @@ function calculateAdaptivePercent(config: CopyStrategyConfig, traderOrderSize: n
     }
 }
 
+/**
+ * Full-Kelly stake fraction for buying an outcome at `price` with the given edge
+ * A binary share pays 1, so with win probability q = price + edge the optimal
+ * fraction (q - price) / (1 - price) reduces to edge / (1 - price). No edge, no bet.
+ */
+export function kellyFraction(edge: number, price: number): number {
+    if (edge <= 0 || price <= 0 || price >= 1) {
+        return 0;
+    }
+    return Math.min(1, edge / (1 - price));
+}
+
+/**
+ * Clamp an equity ratio to the configured PROPORTIONAL bounds
+ */
+export function clampEquityRatio(config: CopyStrategyConfig, ratio: number): number {
+    const min = config.proportionalMinRatio ?? 0;
+    const max = config.proportionalMaxRatio ?? Infinity;
+    return Math.min(max, Math.max(min, ratio));
+}
+
+/**
+ * Exponentially smooth an equity ratio sample
+ * The previous value's weight halves every `halfLifeMs`, so a one-off swing in either
+ * portfolio (a big deposit, a market resolving) moves the ratio gradually.
+ */
+export function smoothEquityRatio(
+    previous: number | undefined,
+    sample: number,
+    elapsedMs: number,
+    halfLifeMs: number
+): number {
+    if (previous === undefined || halfLifeMs <= 0) {
+        return sample;
+    }
+    const keep = Math.pow(0.5, Math.max(0, elapsedMs) / halfLifeMs);
+    return previous * keep + sample * (1 - keep);
+}
+
 /**
  * Linear interpolation between two values
  */
@@ -234,6 +591,26 @@ export function validateCopyStrategyConfig(config: CopyStrategyConfig): string[]
         }
     }
 
+    // Validate Kelly cap
+    if (
+        config.strategy === CopyStrategy.KELLY &&
+        config.kellyMaxFraction !== undefined &&
+        (config.kellyMaxFraction <= 0 || config.kellyMaxFraction > 1)
+    ) {
+        errors.push('kellyMaxFraction must be between 0 and 1');
+    }
+
+    // Validate proportional bounds
+    if (config.strategy === CopyStrategy.PROPORTIONAL) {
+        const { proportionalMinRatio: min, proportionalMaxRatio: max } = config;
+        if ((min !== undefined && min < 0) || (max !== undefined && max <= 0)) {
+            errors.push('proportionalMinRatio must be >= 0 and proportionalMaxRatio must be positive');
+        }
+        if (min !== undefined && max !== undefined && min > max) {
+            errors.push('proportionalMinRatio cannot be greater than proportionalMaxRatio');
+        }
+    }
+
     return errors;
 }
 
@@ -1,3 +1,5 @@
+import * as fs from 'fs';
+import * as path from 'path';
 import mongoose from 'mongoose';
 import { ENV } from './env';
 import chalk from 'chalk';
@@ -5,6 +7,12 @@ import chalk from 'chalk';
 const uri = ENV.MONGO_URI || 'mongodb://localhost:27017/polymarket_copytrading';
 
 const connectDB = async () => {
+    if (ENV.STORAGE_BACKEND === 'file') {
+        fs.mkdirSync(ENV.STORAGE_DIR, { recursive: true });
+        console.log(chalk.green('✓'), `File storage ready in ${path.resolve(ENV.STORAGE_DIR)}`);
+        return;
+    }
+
     // In track-only mode or paper mode without MONGO_URI, skip MongoDB connection
     if ((ENV.TRACK_ONLY_MODE || ENV.PAPER_MODE) && !ENV.MONGO_URI) {
         console.log(chalk.yellow('⚠'), 'MongoDB not configured - running in memory-only mode');
@@ -29,6 +37,10 @@ const connectDB = async () => {
  * Close MongoDB connection gracefully
  */
 export const closeDB = async (): Promise<void> => {
+    // File storage writes synchronously - nothing to flush
+    if (ENV.STORAGE_BACKEND === 'file') {
+        return;
+    }
     try {
         await mongoose.connection.close();
         console.log(chalk.green('✓'), 'MongoDB connection closed');
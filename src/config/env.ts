@@ -1,5 +1,11 @@
 import * as dotenv from 'dotenv';
-import { CopyStrategy, CopyStrategyConfig, parseTieredMultipliers } from './copyStrategy';
+import {
+    CopyStrategy,
+    CopyStrategyConfig,
+    DEFAULT_KELLY_MAX_FRACTION,
+    DEFAULT_KELLY_MIN_SAMPLES,
+    parseTieredMultipliers,
+} from './copyStrategy';
 import { readWalletFile } from '../utils/readWalletFile';
 // Note: dotenv.config() is now called in index.ts BEFORE this module is imported
 // This allows the interactive menu to set TRACK_ONLY_MODE before validation
@@ -43,6 +49,22 @@ const isValidEthereumAddress = (address: string): boolean => {
     return /^0x[a-fA-F0-9]{40}$/.test(address);
 };
 
+// Events the notifier can send (see services/notifier)
+const NOTIFY_EVENT_TYPES = [
+    'trade_copied',
+    'order_failed',
+    'kill_switch',
+    'health_degraded',
+    'market_closed',
+    'daily_summary',
+];
+
+const parseNotifyEvents = (input: string | undefined): string[] =>
+    (input || '')
+        .split(',')
+        .map((event) => event.trim().toLowerCase())
+        .filter((event) => event.length > 0);
+
 /**
  * Validate required environment variables
  */
@@ -61,7 +83,11 @@ const validateRequiredEnv = (): void => {
 
     // Only require wallet credentials if not in track-only mode or paper mode
     if (!TRACK_ONLY_MODE && !PAPER_MODE) {
-        required.push('PROXY_WALLET', 'PRIVATE_KEY', 'MONGO_URI');
+        required.push('PROXY_WALLET', 'PRIVATE_KEY');
+        // The file storage backend needs no database server
+        if ((process.env.STORAGE_BACKEND || 'mongo').toLowerCase() !== 'file') {
+            required.push('MONGO_URI');
+        }
     }
 
     const missing: string[] = [];
@@ -166,6 +192,38 @@ const validateNumericConfig = (): void => {
             `Invalid DISPLAY_MAX_AGE_MINUTES: ${process.env.DISPLAY_MAX_AGE_MINUTES}. Must be a positive number (minutes).`
         );
     }
+
+    for (const key of [
+        'MAX_SLIPPAGE_CENTS',
+        'MAX_SLIPPAGE_PERCENT',
+        'MAX_TOTAL_EXPOSURE_USD',
+        'MAX_MARKET_EXPOSURE_USD',
+        'MAX_CATEGORY_EXPOSURE_USD',
+        'MAX_TRADER_EXPOSURE_USD',
+        'MAX_DAILY_LOSS_USD',
+        'PROPORTIONAL_HALF_LIFE_MINUTES',
+        'COPY_MAX_DELAY_SECONDS',
+        'COPY_MAX_PRICE_DRIFT_CENTS',
+        'COPY_MAX_PRICE_DRIFT_PERCENT',
+        'COPY_MIN_TIME_TO_END_SECONDS',
+        'FEE_RATE_BPS',
+        'FILL_GAS_USD',
+        'REDEEM_GAS_USD',
+        'PRICE_TICK_SIZE',
+        'SHARE_LOT_SIZE',
+        'AUTO_REDEEM_INTERVAL_SECONDS',
+        'AUTO_REDEEM_BATCH_SIZE',
+        'LOG_MAX_FILE_MB',
+        'LOG_RETENTION_DAYS',
+        'NOTIFY_RATE_LIMIT_PER_HOUR',
+        'NOTIFY_DEDUPE_SECONDS',
+        'NOTIFY_HEALTH_CHECK_MINUTES',
+    ]) {
+        const value = parseFloat(process.env[key] || '0');
+        if (isNaN(value) || value < 0) {
+            throw new Error(`Invalid ${key}: ${process.env[key]}. Must be 0 or a positive number.`);
+        }
+    }
 };
 
 /**
@@ -192,6 +250,16 @@ const validateUrls = (): void => {
         );
     }
 
+    for (const key of ['DATA_API_URL', 'GAMMA_API_URL']) {
+        const value = process.env[key];
+        if (value && !value.startsWith('http')) {
+            console.error(`\n❌ Invalid ${key}\n`);
+            console.error(`Current value: ${value}`);
+            console.error('Must start with: http:// or https://\n');
+            throw new Error(`Invalid ${key}: ${value}. Must be a valid HTTP/HTTPS URL.`);
+        }
+    }
+
     if (process.env.RPC_URL && !process.env.RPC_URL.startsWith('http')) {
         console.error('\n❌ Invalid RPC_URL\n');
         console.error(`Current value: ${process.env.RPC_URL}`);
@@ -221,11 +289,124 @@ const validateUrls = (): void => {
     }
 };
 
+/**
+ * Validate record/replay fixture settings
+ */
+const validateFixtureMode = (): void => {
+    const mode = process.env.FIXTURE_MODE;
+    if (mode && !['off', 'record', 'replay'].includes(mode)) {
+        throw new Error(`Invalid FIXTURE_MODE: ${mode}. Must be one of: off, record, replay.`);
+    }
+};
+
+/**
+ * Validate log format, level and rotation
+ */
+const validateLogging = (): void => {
+    const format = (process.env.LOG_FORMAT || 'text').toLowerCase();
+    if (!['text', 'json'].includes(format)) {
+        throw new Error(`Invalid LOG_FORMAT: ${process.env.LOG_FORMAT}. Must be text or json.`);
+    }
+    const level = (process.env.LOG_LEVEL || 'info').toLowerCase();
+    if (!['debug', 'info', 'warn', 'error'].includes(level)) {
+        throw new Error(
+            `Invalid LOG_LEVEL: ${process.env.LOG_LEVEL}. Must be one of: debug, info, warn, error.`
+        );
+    }
+    const rotation = (process.env.LOG_ROTATION || 'daily').toLowerCase();
+    if (!['daily', 'hourly'].includes(rotation)) {
+        throw new Error(
+            `Invalid LOG_ROTATION: ${process.env.LOG_ROTATION}. Must be daily or hourly.`
+        );
+    }
+};
+
+/**
+ * Validate notification sinks and the events sent to them
+ */
+const validateNotifications = (): void => {
+    for (const key of [
+        'NOTIFY_WEBHOOK_URL',
+        'NOTIFY_DISCORD_WEBHOOK_URL',
+        'NOTIFY_TELEGRAM_API_URL',
+    ]) {
+        const value = process.env[key];
+        if (value && !value.startsWith('http')) {
+            throw new Error(`Invalid ${key}: ${value}. Must be a valid HTTP/HTTPS URL.`);
+        }
+    }
+    if (!process.env.NOTIFY_TELEGRAM_BOT_TOKEN !== !process.env.NOTIFY_TELEGRAM_CHAT_ID) {
+        throw new Error(
+            'NOTIFY_TELEGRAM_BOT_TOKEN and NOTIFY_TELEGRAM_CHAT_ID must be set together.'
+        );
+    }
+    for (const event of parseNotifyEvents(process.env.NOTIFY_EVENTS)) {
+        if (!NOTIFY_EVENT_TYPES.includes(event)) {
+            throw new Error(
+                `Invalid NOTIFY_EVENTS entry: ${event}. Must be one of: ${NOTIFY_EVENT_TYPES.join(', ')}.`
+            );
+        }
+    }
+    const summaryHour = parseInt(process.env.NOTIFY_DAILY_SUMMARY_HOUR_UTC || '0', 10);
+    if (isNaN(summaryHour) || summaryHour < -1 || summaryHour > 23) {
+        throw new Error(
+            `Invalid NOTIFY_DAILY_SUMMARY_HOUR_UTC: ${process.env.NOTIFY_DAILY_SUMMARY_HOUR_UTC}. Must be 0-23, or -1 to disable.`
+        );
+    }
+};
+
+/**
+ * Validate the trade history storage backend
+ */
+const validateStorageBackend = (): void => {
+    const backend = (process.env.STORAGE_BACKEND || 'mongo').toLowerCase();
+    if (!['mongo', 'file'].includes(backend)) {
+        throw new Error(
+            `Invalid STORAGE_BACKEND: ${process.env.STORAGE_BACKEND}. Must be mongo or file.`
+        );
+    }
+};
+
+/**
+ * Validate order execution mode and limit order settings
+ */
+const validateExecutionMode = (): void => {
+    const mode = (process.env.ORDER_EXECUTION_MODE || 'MARKET').toUpperCase();
+    if (!['MARKET', 'LIMIT'].includes(mode)) {
+        throw new Error(
+            `Invalid ORDER_EXECUTION_MODE: ${process.env.ORDER_EXECUTION_MODE}. Must be MARKET or LIMIT.`
+        );
+    }
+    const orderType = (process.env.LIMIT_ORDER_TYPE || 'GTC').toUpperCase();
+    if (!['GTC', 'GTD'].includes(orderType)) {
+        throw new Error(
+            `Invalid LIMIT_ORDER_TYPE: ${process.env.LIMIT_ORDER_TYPE}. Must be GTC or GTD.`
+        );
+    }
+    const offset = parseFloat(process.env.LIMIT_ORDER_PRICE_OFFSET || '0.01');
+    if (isNaN(offset) || offset < 0 || offset >= 0.5) {
+        throw new Error(
+            `Invalid LIMIT_ORDER_PRICE_OFFSET: ${process.env.LIMIT_ORDER_PRICE_OFFSET}. Must be between 0 and 0.5.`
+        );
+    }
+    const ttl = parseInt(process.env.LIMIT_ORDER_TTL_SECONDS || '20', 10);
+    if (isNaN(ttl) || ttl < 1) {
+        throw new Error(
+            `Invalid LIMIT_ORDER_TTL_SECONDS: ${process.env.LIMIT_ORDER_TTL_SECONDS}. Must be at least 1.`
+        );
+    }
+};
+
 // Run all validations
 validateRequiredEnv();
 validateAddresses();
 validateNumericConfig();
 validateUrls();
+validateFixtureMode();
+validateLogging();
+validateNotifications();
+validateStorageBackend();
+validateExecutionMode();
 
 // Parse USER_ADDRESSES: supports both comma-separated string and JSON array
 const parseUserAddresses = (input: string): string[] => {
@@ -354,6 +535,24 @@ const parseCopyStrategy = (): CopyStrategyConfig => {
         config.adaptiveThreshold = parseFloat(process.env.ADAPTIVE_THRESHOLD_USD || '500.0');
     }
 
+    // Add Kelly strategy parameters if applicable
+    if (strategy === CopyStrategy.KELLY) {
+        config.kellyMaxFraction = process.env.KELLY_MAX_FRACTION
+            ? parseFloat(process.env.KELLY_MAX_FRACTION)
+            : DEFAULT_KELLY_MAX_FRACTION;
+        config.kellyMinSamples = process.env.KELLY_MIN_SAMPLES
+            ? parseInt(process.env.KELLY_MIN_SAMPLES, 10)
+            : DEFAULT_KELLY_MIN_SAMPLES;
+    }
+
+    // Add proportional strategy bounds if applicable
+    if (strategy === CopyStrategy.PROPORTIONAL) {
+        config.proportionalMinRatio = parseFloat(process.env.PROPORTIONAL_MIN_RATIO || '0');
+        config.proportionalMaxRatio = process.env.PROPORTIONAL_MAX_RATIO
+            ? parseFloat(process.env.PROPORTIONAL_MAX_RATIO)
+            : undefined;
+    }
+
     // Parse tiered multipliers if configured
     if (process.env.TIERED_MULTIPLIERS) {
         try {
@@ -380,6 +579,12 @@ export const ENV = {
     PRIVATE_KEY: process.env.PRIVATE_KEY as string,
     CLOB_HTTP_URL: process.env.CLOB_HTTP_URL as string,
     CLOB_WS_URL: process.env.CLOB_WS_URL as string,
+    // Live order book over the CLOB WebSocket (REST polling is used when disabled or stale)
+    CLOB_WS_ENABLED: process.env.CLOB_WS_ENABLED !== 'false',
+    CLOB_WS_STALE_MS: parseInt(process.env.CLOB_WS_STALE_MS || '15000', 10),
+    // Public API base URLs (override to point at a mock server)
+    DATA_API_URL: process.env.DATA_API_URL || 'https://data-api.polymarket.com',
+    GAMMA_API_URL: process.env.GAMMA_API_URL || 'https://gamma-api.polymarket.com',
     FETCH_INTERVAL: parseFloat(process.env.FETCH_INTERVAL || '1'),
     TOO_OLD_TIMESTAMP: parseInt(process.env.TOO_OLD_TIMESTAMP || '24', 10),
     RETRY_LIMIT: parseInt(process.env.RETRY_LIMIT || '3', 10),
@@ -388,29 +593,125 @@ export const ENV = {
     COPY_PERCENTAGE: parseFloat(process.env.COPY_PERCENTAGE || '10.0'),
     // New copy strategy configuration
     COPY_STRATEGY_CONFIG: parseCopyStrategy(),
+    // PROPORTIONAL strategy: half-life of the equity ratio smoothing (0 = use each sample as-is)
+    PROPORTIONAL_HALF_LIFE_MINUTES: parseFloat(process.env.PROPORTIONAL_HALF_LIFE_MINUTES || '60'),
+    // Pre-trade VWAP check: max slippage vs the trader's price (0 disables either limit)
+    MAX_SLIPPAGE_CENTS: parseFloat(process.env.MAX_SLIPPAGE_CENTS || '5'),
+    MAX_SLIPPAGE_PERCENT: parseFloat(process.env.MAX_SLIPPAGE_PERCENT || '0'),
+    // Late-copy filter: skip BUYs seen too late, after the ask moved too far from the trader's
+    // price, or too close to market end (0 disables each); RESIZE tapers them off instead
+    COPY_MAX_DELAY_SECONDS: parseFloat(process.env.COPY_MAX_DELAY_SECONDS || '0'),
+    COPY_MAX_PRICE_DRIFT_CENTS: parseFloat(process.env.COPY_MAX_PRICE_DRIFT_CENTS || '0'),
+    COPY_MAX_PRICE_DRIFT_PERCENT: parseFloat(process.env.COPY_MAX_PRICE_DRIFT_PERCENT || '0'),
+    COPY_MIN_TIME_TO_END_SECONDS: parseFloat(process.env.COPY_MIN_TIME_TO_END_SECONDS || '0'),
+    COPY_DELAY_RESIZE: process.env.COPY_DELAY_RESIZE === 'true',
+    // Portfolio risk limits in USD (0 disables a limit); daily volume uses COPY_STRATEGY_CONFIG
+    MAX_TOTAL_EXPOSURE_USD: parseFloat(process.env.MAX_TOTAL_EXPOSURE_USD || '0'),
+    MAX_MARKET_EXPOSURE_USD: parseFloat(process.env.MAX_MARKET_EXPOSURE_USD || '0'),
+    MAX_CATEGORY_EXPOSURE_USD: parseFloat(process.env.MAX_CATEGORY_EXPOSURE_USD || '0'),
+    MAX_TRADER_EXPOSURE_USD: parseFloat(process.env.MAX_TRADER_EXPOSURE_USD || '0'),
+    // Kill-switch: stop copying BUYs once the day's realized + unrealized loss reaches this
+    MAX_DAILY_LOSS_USD: parseFloat(process.env.MAX_DAILY_LOSS_USD || '0'),
+    // PnL accounting: taker fee rate (bps of min(price, 1 - price) per share), gas per fill and
+    // per market redemption in USD, and the price tick / share lot fills round to
+    FEE_RATE_BPS: parseFloat(process.env.FEE_RATE_BPS || '0'),
+    FILL_GAS_USD: parseFloat(process.env.FILL_GAS_USD || '0'),
+    REDEEM_GAS_USD: parseFloat(process.env.REDEEM_GAS_USD || '0'),
+    PRICE_TICK_SIZE: parseFloat(process.env.PRICE_TICK_SIZE || '0.01'),
+    SHARE_LOT_SIZE: parseFloat(process.env.SHARE_LOT_SIZE || '0.01'),
     // Network settings
     REQUEST_TIMEOUT_MS: parseInt(process.env.REQUEST_TIMEOUT_MS || '10000', 10),
     NETWORK_RETRY_LIMIT: parseInt(process.env.NETWORK_RETRY_LIMIT || '3', 10),
+    // Max requests per second to any single API host (0 disables the limit)
+    HTTP_RATE_LIMIT_PER_SECOND: parseFloat(process.env.HTTP_RATE_LIMIT_PER_SECOND || '15'),
+    // Trade monitor scheduling: wallets polled in parallel, and per-wallet poll intervals
+    MONITOR_CONCURRENCY: parseInt(process.env.MONITOR_CONCURRENCY || '5', 10),
+    // Interval for wallets that traded in the last minute
+    POLL_HOT_INTERVAL_SECONDS: parseFloat(process.env.POLL_HOT_INTERVAL_SECONDS || '0.5'),
+    // Quiet wallets back off to this interval
+    POLL_IDLE_INTERVAL_SECONDS: parseFloat(process.env.POLL_IDLE_INTERVAL_SECONDS || '5'),
+    // Order execution: MARKET (FOK against the best bid/ask) or LIMIT (resting GTC/GTD orders)
+    ORDER_EXECUTION_MODE: (process.env.ORDER_EXECUTION_MODE || 'MARKET').toUpperCase() as
+        | 'MARKET'
+        | 'LIMIT',
+    LIMIT_ORDER_TYPE: (process.env.LIMIT_ORDER_TYPE || 'GTC').toUpperCase() as 'GTC' | 'GTD',
+    // How far past the trader's fill price a limit order may rest (added again on each reprice)
+    LIMIT_ORDER_PRICE_OFFSET: parseFloat(process.env.LIMIT_ORDER_PRICE_OFFSET || '0.01'),
+    LIMIT_ORDER_TTL_SECONDS: parseInt(process.env.LIMIT_ORDER_TTL_SECONDS || '20', 10),
+    // Cancel-and-reprice rounds after the first order times out (0 = just cancel)
+    LIMIT_ORDER_REPRICE_ATTEMPTS: parseInt(process.env.LIMIT_ORDER_REPRICE_ATTEMPTS || '2', 10),
+    LIMIT_ORDER_POLL_INTERVAL_MS: parseInt(process.env.LIMIT_ORDER_POLL_INTERVAL_MS || '1000', 10),
     // Trade aggregation settings
     TRADE_AGGREGATION_ENABLED: process.env.TRADE_AGGREGATION_ENABLED === 'true',
     TRADE_AGGREGATION_WINDOW_SECONDS: parseInt(
         process.env.TRADE_AGGREGATION_WINDOW_SECONDS || '300',
         10
     ), // 5 minutes default
+    // Market-close unwinding (TRADING mode)
+    CLOSE_POSITIONS_SECONDS_BEFORE_END: parseInt(
+        process.env.CLOSE_POSITIONS_SECONDS_BEFORE_END || '30',
+        10
+    ),
+    // Below this bid, positions are held for redemption instead of sold
+    CLOSE_POSITIONS_MIN_BID: parseFloat(process.env.CLOSE_POSITIONS_MIN_BID || '0.02'),
+    // Background redemption of resolved positions (TRADING mode, opt-in: it sends transactions)
+    AUTO_REDEEM_ENABLED: process.env.AUTO_REDEEM_ENABLED === 'true',
+    AUTO_REDEEM_INTERVAL_SECONDS: parseInt(process.env.AUTO_REDEEM_INTERVAL_SECONDS || '60', 10),
+    // Redemptions sent back to back on consecutive nonces per sweep
+    AUTO_REDEEM_BATCH_SIZE: parseInt(process.env.AUTO_REDEEM_BATCH_SIZE || '10', 10),
     // Track-only mode (monitoring without executing trades)
     TRACK_ONLY_MODE: process.env.TRACK_ONLY_MODE === 'true',
     // Paper trading mode (simulated trades without real execution)
     PAPER_MODE: process.env.PAPER_MODE === 'true',
+    // Paper trading settings
+    PAPER_STARTING_CAPITAL: parseFloat(process.env.PAPER_STARTING_CAPITAL || '10000'),
+    PAPER_POLL_INTERVAL_MS: parseInt(process.env.PAPER_POLL_INTERVAL_MS || '1000', 10),
+    // No new paper entries this close to market end
+    PAPER_ENTRY_CUTOFF_SECONDS: parseInt(process.env.PAPER_ENTRY_CUTOFF_SECONDS || '30', 10),
     // Dashboard display max age (minutes) for showing markets; fallback to TOO_OLD_TIMESTAMP hours
     DISPLAY_MAX_AGE_MINUTES: process.env.DISPLAY_MAX_AGE_MINUTES
         ? parseFloat(process.env.DISPLAY_MAX_AGE_MINUTES)
         : undefined,
     MONGO_URI: process.env.MONGO_URI as string,
+    // Trade history storage: mongo (MONGO_URI) or file (JSON-lines files in STORAGE_DIR)
+    STORAGE_BACKEND: (process.env.STORAGE_BACKEND || 'mongo').toLowerCase() as 'mongo' | 'file',
+    STORAGE_DIR: process.env.STORAGE_DIR || 'data/history',
     RPC_URL: process.env.RPC_URL as string,
     USDC_CONTRACT_ADDRESS: process.env.USDC_CONTRACT_ADDRESS as string,
     WEBAPP_PUSH_URL: process.env.WEBAPP_PUSH_URL || '',
     WEBAPP_API_KEY: process.env.WEBAPP_API_KEY || '',
     WEBAPP_PUSH_TIMEOUT_MS: parseInt(process.env.WEBAPP_PUSH_TIMEOUT_MS || '5000', 10),
+    // Record/replay of external calls for offline development (off | record | replay)
+    FIXTURE_MODE: (process.env.FIXTURE_MODE || 'off') as 'off' | 'record' | 'replay',
+    FIXTURE_DIR: process.env.FIXTURE_DIR || 'fixtures',
+    // Bot log files: text or JSON lines, filtered by level, rotated by period and size
+    LOG_FORMAT: (process.env.LOG_FORMAT || 'text').toLowerCase() as 'text' | 'json',
+    LOG_LEVEL: (process.env.LOG_LEVEL || 'info').toLowerCase() as
+        | 'debug'
+        | 'info'
+        | 'warn'
+        | 'error',
+    LOG_DIR: process.env.LOG_DIR || 'logs',
+    LOG_ROTATION: (process.env.LOG_ROTATION || 'daily').toLowerCase() as 'daily' | 'hourly',
+    // 0 disables size-based rotation / deletion of old files
+    LOG_MAX_FILE_MB: parseFloat(process.env.LOG_MAX_FILE_MB || '50'),
+    LOG_RETENTION_DAYS: parseFloat(process.env.LOG_RETENTION_DAYS || '14'),
+    // Alerts sent to an HTTP webhook, a Telegram chat and/or a Discord channel (none by default)
+    NOTIFY_WEBHOOK_URL: process.env.NOTIFY_WEBHOOK_URL || '',
+    NOTIFY_TELEGRAM_BOT_TOKEN: process.env.NOTIFY_TELEGRAM_BOT_TOKEN || '',
+    NOTIFY_TELEGRAM_CHAT_ID: process.env.NOTIFY_TELEGRAM_CHAT_ID || '',
+    NOTIFY_TELEGRAM_API_URL: process.env.NOTIFY_TELEGRAM_API_URL || 'https://api.telegram.org',
+    NOTIFY_DISCORD_WEBHOOK_URL: process.env.NOTIFY_DISCORD_WEBHOOK_URL || '',
+    // Events to send (empty = all)
+    NOTIFY_EVENTS: parseNotifyEvents(process.env.NOTIFY_EVENTS),
+    // Per event type; 0 disables the limit / dedupe
+    NOTIFY_RATE_LIMIT_PER_HOUR: parseInt(process.env.NOTIFY_RATE_LIMIT_PER_HOUR || '20', 10),
+    NOTIFY_DEDUPE_SECONDS: parseInt(process.env.NOTIFY_DEDUPE_SECONDS || '300', 10),
+    // Health check cadence for degradation alerts (0 disables)
+    NOTIFY_HEALTH_CHECK_MINUTES: parseFloat(process.env.NOTIFY_HEALTH_CHECK_MINUTES || '5'),
+    // Daily summary at this UTC hour (-1 disables)
+    NOTIFY_DAILY_SUMMARY_HOUR_UTC: parseInt(process.env.NOTIFY_DAILY_SUMMARY_HOUR_UTC || '0', 10),
+    NOTIFY_TIMEOUT_MS: parseInt(process.env.NOTIFY_TIMEOUT_MS || '5000', 10),
     // Web dashboard settings
     ENABLE_WEB_DASHBOARD: process.env.ENABLE_WEB_DASHBOARD === 'true',
     WEB_DASHBOARD_PORT: parseInt(process.env.WEB_DASHBOARD_PORT || '3000', 10),
@@ -0,0 +1,183 @@
+/**
+ * Per-Trader Settings
+ *
+ * Watchlist entries can carry their own copy settings on top of the global
+ * COPY_STRATEGY_CONFIG:
+ * - copyStrategy: any CopyStrategyConfig fields (strategy, copySize, tiers, limits)
+ * - allowedCategories / blockedCategories: market categories (see getMarketCategory) to copy
+ *   or skip; an entry matches its category and every category that starts with it, so
+ *   "btc-updown" covers "btc-updown-15m" and "btc-updown-1h"
+ * - capitalAllocationUSD: the most of our capital this trader's copies may have at work
+ */
+
+import {
+    CopyStrategy,
+    CopyStrategyConfig,
+    parseTieredMultipliers,
+    validateCopyStrategyConfig,
+} from './copyStrategy';
+
+export interface TraderSettings {
+    copyStrategy?: Partial<CopyStrategyConfig>;
+    allowedCategories?: string[];
+    blockedCategories?: string[];
+    capitalAllocationUSD?: number;
+}
+
+export interface ParsedTraderSettings {
+    settings: TraderSettings;
+    errors: string[];
+}
+
+const NUMERIC_STRATEGY_FIELDS = [
+    'copySize',
+    'adaptiveMinPercent',
+    'adaptiveMaxPercent',
+    'adaptiveThreshold',
+    'proportionalMinRatio',
+    'proportionalMaxRatio',
+    'kellyMaxFraction',
+    'kellyMinSamples',
+    'tradeMultiplier',
+    'maxOrderSizeUSD',
+    'minOrderSizeUSD',
+    'maxPositionSizeUSD',
+    'maxDailyVolumeUSD',
+] as const;
+
+const toNumber = (value: unknown): number =>
+    typeof value === 'number' ? value : parseFloat(String(value));
+
+const toCategoryList = (value: unknown): string[] =>
+    (Array.isArray(value) ? value : String(value).split(','))
+        .map((category) => String(category).trim().toLowerCase())
+        .filter((category) => category.length > 0);
+
+/**
+ * Parse settings from an HTTP body or command arguments (numbers may arrive as strings,
+ * category lists and tiers as comma-separated strings)
+ */
+export const parseTraderSettings = (input: Record<string, unknown>): ParsedTraderSettings => {
+    const settings: TraderSettings = {};
+    const errors: string[] = [];
+
+    const strategyInput = input.copyStrategy;
+    if (strategyInput !== undefined) {
+        if (typeof strategyInput !== 'object' || strategyInput === null) {
+            errors.push('copyStrategy must be an object');
+        } else {
+            const raw = strategyInput as Record<string, unknown>;
+            const copyStrategy: Partial<CopyStrategyConfig> = {};
+
+            if (raw.strategy !== undefined) {
+                const strategy = String(raw.strategy).toUpperCase();
+                if (Object.values(CopyStrategy).includes(strategy as CopyStrategy)) {
+                    copyStrategy.strategy = strategy as CopyStrategy;
+                } else {
+                    errors.push(`Unknown strategy: ${raw.strategy}`);
+                }
+            }
+
+            for (const field of NUMERIC_STRATEGY_FIELDS) {
+                if (raw[field] === undefined) {
+                    continue;
+                }
+                const value = toNumber(raw[field]);
+                if (isNaN(value) || value < 0) {
+                    errors.push(`${field} must be 0 or a positive number`);
+                } else {
+                    copyStrategy[field] = value;
+                }
+            }
+
+            if (raw.tieredMultipliers !== undefined) {
+                try {
+                    copyStrategy.tieredMultipliers = Array.isArray(raw.tieredMultipliers)
+                        ? raw.tieredMultipliers
+                        : parseTieredMultipliers(String(raw.tieredMultipliers));
+                } catch (error) {
+                    errors.push(error instanceof Error ? error.message : String(error));
+                }
+            }
+
+            settings.copyStrategy = copyStrategy;
+        }
+    }
+
+    if (input.allowedCategories !== undefined) {
+        settings.allowedCategories = toCategoryList(input.allowedCategories);
+    }
+    if (input.blockedCategories !== undefined) {
+        settings.blockedCategories = toCategoryList(input.blockedCategories);
+    }
+
+    if (input.capitalAllocationUSD !== undefined) {
+        const allocation = toNumber(input.capitalAllocationUSD);
+        if (isNaN(allocation) || allocation <= 0) {
+            errors.push('capitalAllocationUSD must be a positive number');
+        } else {
+            settings.capitalAllocationUSD = allocation;
+        }
+    }
+
+    return { settings, errors };
+};
+
+/**
+ * Layer a patch over existing settings (copyStrategy fields are merged individually)
+ */
+export const mergeTraderSettings = (
+    current: TraderSettings,
+    patch: TraderSettings
+): TraderSettings => ({
+    ...current,
+    ...patch,
+    copyStrategy:
+        current.copyStrategy || patch.copyStrategy
+            ? { ...current.copyStrategy, ...patch.copyStrategy }
+            : undefined,
+});
+
+/**
+ * Effective copy strategy for a trader: the global config with their overrides applied
+ */
+export const resolveCopyStrategyConfig = (
+    base: CopyStrategyConfig,
+    settings?: TraderSettings
+): CopyStrategyConfig => ({ ...base, ...settings?.copyStrategy });
+
+/**
+ * Problems with a trader's settings once resolved against the global config
+ */
+export const validateTraderSettings = (
+    base: CopyStrategyConfig,
+    settings: TraderSettings
+): string[] => {
+    const errors = validateCopyStrategyConfig(resolveCopyStrategyConfig(base, settings));
+    const allowed = settings.allowedCategories || [];
+    const overlap = (settings.blockedCategories || []).filter((c) => allowed.includes(c));
+    if (overlap.length > 0) {
+        errors.push(`Categories both allowed and blocked: ${overlap.join(', ')}`);
+    }
+    return errors;
+};
+
+const matchesCategory = (category: string, entries: string[]): boolean =>
+    entries.some((entry) => category === entry || category.startsWith(`${entry}-`));
+
+/**
+ * Whether new positions in this market category may be copied from the trader
+ */
+export const isCategoryAllowed = (category: string, settings?: TraderSettings): boolean => {
+    if (!settings) {
+        return true;
+    }
+    const normalized = category.toLowerCase();
+    if (settings.blockedCategories && matchesCategory(normalized, settings.blockedCategories)) {
+        return false;
+    }
+    if (settings.allowedCategories && settings.allowedCategories.length > 0) {
+        return matchesCategory(normalized, settings.allowedCategories);
+    }
+    return true;
+};
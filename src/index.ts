@@ -159,8 +159,18 @@ export const main = async () => {
     const paperTradeMonitorModule = await import('./services/paperTradeMonitor');
     const paperTradeMonitor = paperTradeMonitorModule.default;
     const stopPaperTradeMonitor = paperTradeMonitorModule.stopPaperTradeMonitor;
+    const paperTrader = paperTradeMonitorModule.paperTrader;
     const positionCloserModule = await import('./services/positionCloser');
     const closeMarketPositions = positionCloserModule.closeMarketPositions;
+    const startPositionCloser = positionCloserModule.startPositionCloser;
+    const stopPositionCloser = positionCloserModule.stopPositionCloser;
+    const autoRedeemerModule = await import('./services/autoRedeemer');
+    const startAutoRedeemer = autoRedeemerModule.startAutoRedeemer;
+    const stopAutoRedeemer = autoRedeemerModule.stopAutoRedeemer;
+    const alertMonitorModule = await import('./services/alertMonitor');
+    const startAlertMonitor = alertMonitorModule.startAlertMonitor;
+    const stopAlertMonitor = alertMonitorModule.stopAlertMonitor;
+    const notifier = (await import('./services/notifier')).default;
     const loggerModule = await import('./utils/logger');
     const Logger = loggerModule.default;
     const healthCheckModule = await import('./utils/healthCheck');
@@ -168,6 +178,8 @@ export const main = async () => {
     const logHealthCheck = healthCheckModule.logHealthCheck;
     const marketTrackerModule = await import('./services/marketTracker');
     const marketTracker = marketTrackerModule.default;
+    const orderBookFeedModule = await import('./services/orderBookFeed');
+    const orderBookFeed = orderBookFeedModule.default;
     await import('./services/tradeLogger');
     await import('./services/priceStreamLogger');
 
@@ -226,6 +238,10 @@ export const main = async () => {
             stopTradeMonitor();
             stopPaperTradeMonitor();
             stopTradeExecutor();
+            stopPositionCloser();
+            stopAutoRedeemer();
+            stopAlertMonitor();
+            orderBookFeed.stop();
             if (botMetricsInterval) {
                 clearInterval(botMetricsInterval);
                 botMetricsInterval = null;
@@ -300,6 +316,11 @@ export const main = async () => {
             Logger.warning('Health check failed, but continuing startup...');
         }
 
+        // Webhook / Telegram / Discord alerts, when any sink is configured
+        if (notifier.isEnabled()) {
+            startAlertMonitor();
+        }
+
         Logger.separator();
         
         // Set up market close callback for position closing
@@ -423,6 +444,13 @@ export const main = async () => {
             Logger.info('');
             Logger.info('Paper trading: Independent strategy, trades on same market types as watcher');
             Logger.separator();
+
+            // Feed virtual balance and settled PnL into the web dashboard
+            if (appServer) {
+                const appModule = await import('../app/server');
+                appModule.dashboardDataCollector.setPaperTrader(paperTrader);
+            }
+
             paperTradeMonitor();
 
             // Start external bot performance reporter for WEBAPP dashboard (same as WATCH mode)
@@ -468,6 +496,11 @@ export const main = async () => {
                                 totalInvested: snapshot.totalInvested,
                                 totalPnL: snapshot.totalPnL,
                                 totalPnLPercent: snapshot.totalInvested > 0 ? (snapshot.totalPnL / snapshot.totalInvested) * 100 : 0,
+                                // Net of fees, gas and tick rounding (see pnlAccounting)
+                                totalNetPnL: snapshot.totalNetPnL,
+                                totalNetPnLPercent: snapshot.totalInvested > 0 ? (snapshot.totalNetPnL / snapshot.totalInvested) * 100 : 0,
+                                totalFees: snapshot.totalFeesUSD,
+                                totalGas: snapshot.totalGasUSD,
                                 totalTrades: snapshot.totalTrades,
                                 pnl15m: snapshot.pnl15m,
                                 pnl15mPercent: snapshot.pnl15mPercent,
@@ -481,6 +514,7 @@ export const main = async () => {
                                 conditionId: entry.conditionId || '',
                                 totalPnl: entry.totalPnl,
                                 pnlPercent: entry.pnlPercent,
+                                netPnl: entry.netPnl,
                                 priceUp: entry.priceUp || 0,
                                 priceDown: entry.priceDown || 0,
                                 sharesUp: entry.sharesUp || 0,
@@ -577,6 +611,10 @@ export const main = async () => {
                             pnlDownPercent: number;
                             totalPnL: number;
                             totalPnLPercent: number;
+                            feesUSD: number;
+                            gasUSD: number;
+                            netPnL: number;
+                            netPnLPercent: number;
                             tradesUp: number;
                             tradesDown: number;
                             upPercent: number;
@@ -588,6 +626,7 @@ export const main = async () => {
 
                         // Calculate unrealized PnL from active positions
                         let unrealizedPnL = 0;
+                        let unrealizedNetPnL = 0;
                         let unrealizedInvested = 0;
                         let unrealizedTrades = 0;
                         let unrealizedPnL15m = 0;
@@ -631,6 +670,7 @@ export const main = async () => {
                                     const marketTrades = (m.tradesUp || 0) + (m.tradesDown || 0);
 
                                     unrealizedPnL += marketUnrealizedPnL;
+                                    unrealizedNetPnL += hasValidPrices ? (m.netPnL || 0) : 0;
                                     unrealizedInvested += marketInvested;
                                     unrealizedTrades += marketTrades;
 
@@ -669,6 +709,10 @@ export const main = async () => {
                                         pnlDownPercent: m.pnlDownPercent || 0,
                                         totalPnL: m.totalPnL,
                                         totalPnLPercent: m.totalPnLPercent || 0,
+                                        feesUSD: m.feesUSD || 0,
+                                        gasUSD: m.gasUSD || 0,
+                                        netPnL: m.netPnL,
+                                        netPnLPercent: m.netPnLPercent || 0,
                                         tradesUp: m.tradesUp,
                                         tradesDown: m.tradesDown,
                                         upPercent: m.upPercent || 50,
@@ -696,6 +740,7 @@ export const main = async () => {
                                     const marketTrades = (m.tradesUp || 0) + (m.tradesDown || 0);
 
                                     unrealizedPnL += marketUnrealizedPnL;
+                                    unrealizedNetPnL += hasValidPrices ? (m.netPnL || 0) : 0;
                                     unrealizedInvested += marketInvested;
                                     unrealizedTrades += marketTrades;
 
@@ -733,6 +778,10 @@ export const main = async () => {
                                         pnlDownPercent: m.pnlDownPercent || 0,
                                         totalPnL: m.totalPnL,
                                         totalPnLPercent: m.totalPnLPercent || 0,
+                                        feesUSD: m.feesUSD || 0,
+                                        gasUSD: m.gasUSD || 0,
+                                        netPnL: m.netPnL,
+                                        netPnLPercent: m.netPnLPercent || 0,
                                         tradesUp: m.tradesUp,
                                         tradesDown: m.tradesDown,
                                         upPercent: m.upPercent || 50,
@@ -789,6 +838,7 @@ export const main = async () => {
                         let totalInvested: number;
                         let totalPnL: number;
                         let totalPnLPercent: number;
+                        let totalNetPnL: number;
                         let totalTrades: number;
                         let pnl15m: number;
                         let pnl15mPercent: number;
@@ -803,6 +853,7 @@ export const main = async () => {
                             totalInvested = dashboardPortfolio.totalCostBasis ?? 0;
                             totalPnL = dashboardPortfolio.totalPnL ?? 0;
                             totalPnLPercent = dashboardPortfolio.totalPnLPercent ?? 0;
+                            totalNetPnL = dashboardPortfolio.totalNetPnL ?? totalPnL;
                             totalTrades = dashboardPortfolio.totalTrades ?? 0;
 
                             pnl15m = dashboardPortfolio.pnl15m ?? 0;
@@ -817,6 +868,7 @@ export const main = async () => {
                             totalInvested = combinedTotalInvested;
                             totalPnL = combinedTotalPnL;
                             totalPnLPercent = combinedTotalPnLPercent;
+                            totalNetPnL = snapshot.totalNetPnL + unrealizedNetPnL;
                             totalTrades = combinedTotalTrades;
 
                             pnl15m = combinedPnL15m;
@@ -907,6 +959,9 @@ export const main = async () => {
                                 totalInvested,
                                 totalPnL,
                                 totalPnLPercent,
+                                // Net of fees, gas and tick rounding (see pnlAccounting)
+                                totalNetPnL,
+                                totalNetPnLPercent: totalInvested > 0 ? (totalNetPnL / totalInvested) * 100 : 0,
                                 totalTrades,
                                 pnl15m,
                                 pnl15mPercent,
@@ -917,6 +972,7 @@ export const main = async () => {
                                 // Live/Unrealized PnL (active positions only)
                                 livePnL: unrealizedPnL,
                                 livePnLPercent,
+                                liveNetPnL: unrealizedNetPnL,
                                 liveInvested: unrealizedInvested,
                                 liveTrades: unrealizedTrades,
                                 livePnL15m: unrealizedPnL15m,
@@ -932,6 +988,9 @@ export const main = async () => {
                                 realizedPnLPercent: snapshot.totalInvested > 0
                                     ? (snapshot.totalPnL / snapshot.totalInvested) * 100
                                     : 0,
+                                realizedNetPnL: snapshot.totalNetPnL,
+                                realizedFees: snapshot.totalFeesUSD,
+                                realizedGas: snapshot.totalGasUSD,
                                 realizedInvested: snapshot.totalInvested,
                                 realizedTrades: snapshot.totalTrades,
                                 // Concurrent investment metrics
@@ -954,6 +1013,7 @@ export const main = async () => {
                                     conditionId: entry.conditionId || '',
                                     totalPnl: entry.totalPnl,
                                     pnlPercent: entry.pnlPercent,
+                                    netPnl: entry.netPnl,
                                     priceUp: entry.priceUp || 0,
                                     priceDown: entry.priceDown || 0,
                                     sharesUp: entry.sharesUp || 0,
@@ -995,6 +1055,10 @@ export const main = async () => {
             tradeMonitor();
             Logger.info('Starting trade executor...');
             tradeExecutor(clobClientForClosing!);
+            startPositionCloser(clobClientForClosing!);
+            if (ENV.AUTO_REDEEM_ENABLED) {
+                startAutoRedeemer();
+            }
         }
     } catch (error) {
         Logger.error(`Fatal error during startup: ${error}`);
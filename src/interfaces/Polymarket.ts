@@ -0,0 +1,114 @@
+/**
+ * Response types for the public Polymarket APIs (Data API, Gamma API, CLOB REST)
+ * Only fields the bot relies on are typed; responses may carry more.
+ */
+
+export type ActivityType = 'TRADE' | 'SPLIT' | 'MERGE' | 'REDEEM' | 'REWARD' | 'CONVERSION';
+
+export interface DataApiActivity {
+    proxyWallet: string;
+    timestamp: number;
+    conditionId: string;
+    type: ActivityType | string;
+    size: number;
+    usdcSize: number;
+    transactionHash: string;
+    price: number;
+    asset: string;
+    side: 'BUY' | 'SELL' | string;
+    outcomeIndex: number;
+    title: string;
+    slug: string;
+    icon: string;
+    eventSlug: string;
+    outcome: string;
+    name: string;
+    pseudonym: string;
+    bio: string;
+    profileImage: string;
+    profileImageOptimized: string;
+}
+
+export interface DataApiPosition {
+    proxyWallet: string;
+    asset: string;
+    conditionId: string;
+    size: number;
+    avgPrice: number;
+    initialValue: number;
+    currentValue: number;
+    cashPnl: number;
+    percentPnl: number;
+    totalBought: number;
+    realizedPnl: number;
+    percentRealizedPnl: number;
+    curPrice: number;
+    redeemable: boolean;
+    mergeable: boolean;
+    title: string;
+    slug: string;
+    icon: string;
+    eventSlug: string;
+    outcome: string;
+    outcomeIndex: number;
+    oppositeOutcome: string;
+    oppositeAsset: string;
+    endDate: string;
+    negativeRisk: boolean;
+}
+
+export interface DataApiTrade {
+    proxyWallet: string;
+    side: 'BUY' | 'SELL';
+    asset: string;
+    conditionId: string;
+    size: number;
+    price: number;
+    timestamp: number;
+    title: string;
+    slug: string;
+    eventSlug: string;
+    outcome: string;
+    outcomeIndex: number;
+    transactionHash: string;
+}
+
+export interface GammaMarket {
+    id: string;
+    question: string;
+    conditionId: string;
+    slug: string;
+    endDate?: string;
+    active?: boolean;
+    closed?: boolean;
+    negRisk?: boolean;
+    // JSON-encoded string arrays, e.g. '["Up","Down"]'
+    outcomes?: string | string[];
+    outcomePrices?: string | string[];
+    clobTokenIds?: string | string[];
+    volume?: string | number;
+    liquidity?: string | number;
+}
+
+export interface GammaEvent {
+    id: string;
+    slug: string;
+    title: string;
+    endDate?: string;
+    negRisk?: boolean;
+    markets: GammaMarket[];
+}
+
+export interface OrderBookLevel {
+    price: string;
+    size: string;
+}
+
+export interface OrderBookSummary {
+    market: string;
+    asset_id: string;
+    hash?: string;
+    timestamp?: string;
+    bids: OrderBookLevel[];
+    asks: OrderBookLevel[];
+}
@@ -1,58 +1,16 @@
 import mongoose from 'mongoose';
+import { DataApiActivity, DataApiPosition } from './Polymarket';
 
-export interface UserActivityInterface {
+export interface UserActivityInterface extends DataApiActivity {
     _id: mongoose.Types.ObjectId;
-    proxyWallet: string;
-    timestamp: number;
-    conditionId: string;
-    type: string;
-    size: number;
-    usdcSize: number;
-    transactionHash: string;
-    price: number;
-    asset: string;
-    side: string;
-    outcomeIndex: number;
-    title: string;
-    slug: string;
-    icon: string;
-    eventSlug: string;
-    outcome: string;
-    name: string;
-    pseudonym: string;
-    bio: string;
-    profileImage: string;
-    profileImageOptimized: string;
     bot: boolean;
     botExcutedTime: number;
     myBoughtSize?: number; // Tracks actual tokens we bought
+    // Trader's position (tokens; mergeable pairs for MERGE) around this activity
+    leaderPositionBefore?: number;
+    leaderPositionAfter?: number;
 }
 
-export interface UserPositionInterface {
+export interface UserPositionInterface extends DataApiPosition {
     _id: mongoose.Types.ObjectId;
-    proxyWallet: string;
-    asset: string;
-    conditionId: string;
-    size: number;
-    avgPrice: number;
-    initialValue: number;
-    currentValue: number;
-    cashPnl: number;
-    percentPnl: number;
-    totalBought: number;
-    realizedPnl: number;
-    percentRealizedPnl: number;
-    curPrice: number;
-    redeemable: boolean;
-    mergeable: boolean;
-    title: string;
-    slug: string;
-    icon: string;
-    eventSlug: string;
-    outcome: string;
-    outcomeIndex: number;
-    oppositeOutcome: string;
-    oppositeAsset: string;
-    endDate: string;
-    negativeRisk: boolean;
 }
@@ -0,0 +1,99 @@
+/**
+ * Tests for the file-backed trade history store
+ */
+jest.mock('../../config/env', () => ({ ENV: { STORAGE_BACKEND: 'file', STORAGE_DIR: '' } }));
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileHistoryCollection, matchesFilter } from '../historyStore';
+
+interface Activity {
+    _id: unknown;
+    transactionHash: string;
+    type: string;
+    usdcSize: number;
+    bot: boolean;
+    myBoughtSize?: number;
+}
+
+describe('matchesFilter', () => {
+    const doc = { type: 'TRADE', usdcSize: 12, bot: false };
+
+    it('should support the operators the bot queries with', () => {
+        expect(matchesFilter(doc, { type: { $in: ['TRADE', 'MERGE'] }, bot: false })).toBe(true);
+        expect(matchesFilter(doc, { $and: [{ usdcSize: { $gt: 10 } }, { bot: true }] })).toBe(
+            false
+        );
+        expect(matchesFilter(doc, { type: { $nin: ['REDEEM'] }, usdcSize: { $lte: 12 } })).toBe(
+            true
+        );
+        expect(matchesFilter(doc, { myBoughtSize: { $exists: true, $gt: 0 } })).toBe(false);
+        expect(() => matchesFilter(doc, { type: { $regex: 'T' } })).toThrow('$regex');
+    });
+});
+
+describe('FileHistoryCollection', () => {
+    let dir: string;
+    let filePath: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'history-'));
+        filePath = path.join(dir, 'user_activities_0xabc.jsonl');
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should keep documents and updates across a restart', async () => {
+        const before = new FileHistoryCollection<Activity>(filePath);
+        const inserted = await before.insertOne({
+            transactionHash: '0x1',
+            type: 'TRADE',
+            usdcSize: 5,
+            bot: false,
+        });
+        await before.insertOne({ transactionHash: '0x2', type: 'TRADE', usdcSize: 7, bot: false });
+        await before.updateOne({ _id: String(inserted._id) }, { $set: { bot: true } });
+
+        const after = new FileHistoryCollection<Activity>(filePath);
+        expect(await after.countDocuments()).toBe(2);
+        expect((await after.findOne({ transactionHash: '0x1' }))?.bot).toBe(true);
+        expect(await after.find({ bot: false })).toHaveLength(1);
+    });
+
+    it('should upsert from the filter and report modified counts', async () => {
+        const collection = new FileHistoryCollection<Activity>(filePath);
+        await collection.updateOne(
+            { transactionHash: '0x3' },
+            { type: 'TRADE', usdcSize: 1, bot: false },
+            { upsert: true }
+        );
+        expect((await collection.findOne({ transactionHash: '0x3' }))?.usdcSize).toBe(1);
+        expect(
+            (await collection.updateMany({ bot: false }, { $set: { bot: true } })).modifiedCount
+        ).toBe(1);
+        expect(
+            (await collection.updateOne({ transactionHash: '0x4' }, { bot: true })).modifiedCount
+        ).toBe(0);
+    });
+
+    it('should compact its log and ignore a torn last line', async () => {
+        const collection = new FileHistoryCollection<Activity>(filePath);
+        const doc = await collection.insertOne({
+            transactionHash: '0x5',
+            type: 'TRADE',
+            usdcSize: 1,
+            bot: false,
+        });
+        for (let i = 0; i < 5; i++) {
+            await collection.updateOne({ _id: doc._id }, { $set: { usdcSize: i } });
+        }
+        expect(fs.readFileSync(filePath, 'utf8').trim().split('\n').length).toBeLessThanOrEqual(2);
+
+        fs.appendFileSync(filePath, '{"_id":"trunc');
+        const reloaded = new FileHistoryCollection<Activity>(filePath);
+        expect((await reloaded.find())[0].usdcSize).toBe(4);
+    });
+});
@@ -0,0 +1,81 @@
+import { Schema } from 'mongoose';
+import { getHistoryCollection } from './historyStore';
+
+/**
+ * Write-ahead journal of copy-trade executions
+ * One entry per intent (a copied trade, or a group of aggregated trades). Each CLOB order is
+ * appended before it is posted and updated with the response, so after a crash we can tell
+ * which orders may have reached the exchange. Kept on the configured storage backend, so the
+ * file store journals live orders too.
+ */
+
+export type IntentStatus = 'OPEN' | 'COMPLETED' | 'RECONCILED';
+export type JournalOrderStatus = 'POSTING' | 'FILLED' | 'REJECTED';
+
+export interface JournalOrder {
+    side: string;
+    tokenID: string;
+    amount: number;
+    price: number;
+    status: JournalOrderStatus;
+    orderId?: string;
+    filledTokens?: number;
+    error?: string;
+    postedAt: number;
+    resolvedAt?: number;
+}
+
+export interface ExecutionIntent {
+    intentId: string;
+    traderAddress: string;
+    tradeIds: string[];
+    transactionHash?: string;
+    conditionId?: string;
+    asset: string;
+    side: string;
+    condition: string; // buy | sell | merge
+    computedSize?: number; // USD for buys, tokens for sells
+    orders: JournalOrder[];
+    status: IntentStatus;
+    note?: string;
+    createdAt: number;
+    updatedAt: number;
+}
+
+const orderSchema = new Schema(
+    {
+        side: { type: String, required: true },
+        tokenID: { type: String, required: true },
+        amount: { type: Number, required: true },
+        price: { type: Number, required: true },
+        status: { type: String, required: true },
+        orderId: { type: String, required: false },
+        filledTokens: { type: Number, required: false },
+        error: { type: String, required: false },
+        postedAt: { type: Number, required: true },
+        resolvedAt: { type: Number, required: false },
+    },
+    { _id: false }
+);
+
+const executionIntentSchema = new Schema({
+    intentId: { type: String, required: true, unique: true },
+    traderAddress: { type: String, required: true },
+    tradeIds: { type: [String], required: true },
+    transactionHash: { type: String, required: false },
+    conditionId: { type: String, required: false },
+    asset: { type: String, required: true },
+    side: { type: String, required: true },
+    condition: { type: String, required: true },
+    computedSize: { type: Number, required: false },
+    orders: { type: [orderSchema], default: [] },
+    status: { type: String, required: true, index: true },
+    note: { type: String, required: false },
+    createdAt: { type: Number, required: true },
+    updatedAt: { type: Number, required: true },
+});
+
+const getExecutionJournal = () =>
+    getHistoryCollection<ExecutionIntent>('execution_journal', executionIntentSchema);
+
+export default getExecutionJournal;
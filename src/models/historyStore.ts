@@ -0,0 +1,301 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import mongoose, { Schema } from 'mongoose';
+import { ENV } from '../config/env';
+
+/**
+ * Storage for watched traders' activity and position history
+ *
+ * STORAGE_BACKEND=mongo - (default) one MongoDB collection per trader, as before
+ * STORAGE_BACKEND=file  - embedded store: one append-only JSON-lines file per collection in
+ *                         STORAGE_DIR, loaded into memory on first use, so single-box
+ *                         deployments keep dedupe and history across restarts without a server
+ *
+ * Both backends expose the same small query surface (the Mongo operators the bot uses) and
+ * return plain objects, so callers never depend on mongoose documents.
+ */
+
+export type HistoryFilter = Record<string, unknown>;
+export type HistoryUpdate = Record<string, unknown>;
+
+export interface HistoryCollection<T> {
+    find(filter?: HistoryFilter): Promise<T[]>;
+    findOne(filter: HistoryFilter): Promise<T | null>;
+    countDocuments(filter?: HistoryFilter): Promise<number>;
+    insertOne(doc: Partial<T>): Promise<T>;
+    updateOne(
+        filter: HistoryFilter,
+        update: HistoryUpdate,
+        options?: { upsert?: boolean }
+    ): Promise<{ modifiedCount: number }>;
+    updateMany(filter: HistoryFilter, update: HistoryUpdate): Promise<{ modifiedCount: number }>;
+}
+
+type StoredDocument = Record<string, unknown> & { _id: mongoose.Types.ObjectId };
+
+// Rewrite a collection's file once its log holds this many times more lines than documents
+const COMPACT_RATIO = 2;
+
+const isObjectId = (value: unknown): value is mongoose.Types.ObjectId =>
+    value instanceof mongoose.Types.ObjectId;
+
+const sameValue = (a: unknown, b: unknown): boolean =>
+    isObjectId(a) || isObjectId(b) ? String(a) === String(b) : a === b;
+
+const isOperatorObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' &&
+    value !== null &&
+    !isObjectId(value) &&
+    !Array.isArray(value) &&
+    Object.keys(value).length > 0 &&
+    Object.keys(value).every((key) => key.startsWith('$'));
+
+// NaN (never matches) unless both sides are numbers
+const compare = (a: unknown, b: unknown): number =>
+    typeof a === 'number' && typeof b === 'number' ? a - b : NaN;
+
+const matchesCondition = (value: unknown, condition: unknown): boolean => {
+    if (!isOperatorObject(condition)) {
+        return sameValue(value, condition);
+    }
+    return Object.entries(condition).every(([operator, operand]) => {
+        switch (operator) {
+            case '$in':
+                return (operand as unknown[]).some((o) => sameValue(value, o));
+            case '$nin':
+                return !(operand as unknown[]).some((o) => sameValue(value, o));
+            case '$ne':
+                return !sameValue(value, operand);
+            case '$exists':
+                return (value !== undefined && value !== null) === Boolean(operand);
+            case '$gt':
+                return compare(value, operand) > 0;
+            case '$gte':
+                return compare(value, operand) >= 0;
+            case '$lt':
+                return compare(value, operand) < 0;
+            case '$lte':
+                return compare(value, operand) <= 0;
+            default:
+                throw new Error(`Unsupported query operator: ${operator}`);
+        }
+    });
+};
+
+/**
+ * Whether a document matches a Mongo-style filter (equality, $in/$nin/$ne/$exists,
+ * comparisons, $and)
+ */
+export const matchesFilter = (doc: Record<string, unknown>, filter: HistoryFilter): boolean =>
+    Object.entries(filter).every(([key, condition]) =>
+        key === '$and'
+            ? (condition as HistoryFilter[]).every((f) => matchesFilter(doc, f))
+            : matchesCondition(doc[key], condition)
+    );
+
+/**
+ * Fields an update sets: `$set`, or plain fields (which mongoose also treats as `$set`)
+ */
+export const getSetFields = (update: HistoryUpdate): Record<string, unknown> => {
+    const operators = Object.keys(update).filter((key) => key.startsWith('$'));
+    const unsupported = operators.filter((key) => key !== '$set');
+    if (unsupported.length > 0) {
+        throw new Error(`Unsupported update operator: ${unsupported.join(', ')}`);
+    }
+    const plain = Object.fromEntries(
+        Object.entries(update).filter(([key]) => !key.startsWith('$'))
+    );
+    return { ...plain, ...(update.$set as Record<string, unknown> | undefined) };
+};
+
+const reviveDocument = (raw: Record<string, unknown>): StoredDocument => ({
+    ...raw,
+    _id: new mongoose.Types.ObjectId(String(raw._id)),
+});
+
+/**
+ * One collection kept in memory and persisted as a JSON-lines log of document versions
+ * Each write appends the new version of every changed document; on load the last version of
+ * each _id wins, and a torn final line from a crash mid-write is ignored.
+ */
+export class FileHistoryCollection<T> implements HistoryCollection<T> {
+    private docs = new Map<string, StoredDocument>();
+    private logLines = 0;
+
+    constructor(private readonly filePath: string) {
+        this.load();
+    }
+
+    async find(filter: HistoryFilter = {}): Promise<T[]> {
+        return this.matching(filter).map((doc) => ({ ...doc }) as unknown as T);
+    }
+
+    async findOne(filter: HistoryFilter): Promise<T | null> {
+        const doc = this.matching(filter)[0];
+        return doc ? ({ ...doc } as unknown as T) : null;
+    }
+
+    async countDocuments(filter: HistoryFilter = {}): Promise<number> {
+        return this.matching(filter).length;
+    }
+
+    async insertOne(doc: Partial<T>): Promise<T> {
+        const stored: StoredDocument = { ...doc, _id: new mongoose.Types.ObjectId() };
+        this.write([stored]);
+        return { ...stored } as unknown as T;
+    }
+
+    async updateOne(
+        filter: HistoryFilter,
+        update: HistoryUpdate,
+        options: { upsert?: boolean } = {}
+    ): Promise<{ modifiedCount: number }> {
+        const fields = getSetFields(update);
+        const existing = this.matching(filter)[0];
+        if (existing) {
+            this.write([{ ...existing, ...fields }]);
+            return { modifiedCount: 1 };
+        }
+        if (!options.upsert) {
+            return { modifiedCount: 0 };
+        }
+        // Like Mongo, an upsert starts from the filter's equality fields
+        const seed = Object.fromEntries(
+            Object.entries(filter).filter(
+                ([key, value]) => !key.startsWith('$') && !isOperatorObject(value)
+            )
+        );
+        this.write([{ ...seed, ...fields, _id: new mongoose.Types.ObjectId() }]);
+        return { modifiedCount: 1 };
+    }
+
+    async updateMany(
+        filter: HistoryFilter,
+        update: HistoryUpdate
+    ): Promise<{ modifiedCount: number }> {
+        const fields = getSetFields(update);
+        const changed = this.matching(filter).map((doc) => ({ ...doc, ...fields }));
+        this.write(changed);
+        return { modifiedCount: changed.length };
+    }
+
+    private matching(filter: HistoryFilter): StoredDocument[] {
+        return Array.from(this.docs.values()).filter((doc) => matchesFilter(doc, filter));
+    }
+
+    private load(): void {
+        if (!fs.existsSync(this.filePath)) {
+            return;
+        }
+        const lines = fs.readFileSync(this.filePath, 'utf8').split('\n');
+        for (const line of lines) {
+            if (!line.trim()) {
+                continue;
+            }
+            try {
+                const doc = reviveDocument(JSON.parse(line));
+                this.docs.set(String(doc._id), doc);
+                this.logLines++;
+            } catch {
+                // Torn write from a crash - everything before it is intact
+            }
+        }
+    }
+
+    private write(changed: StoredDocument[]): void {
+        if (changed.length === 0) {
+            return;
+        }
+        for (const doc of changed) {
+            this.docs.set(String(doc._id), doc);
+        }
+        fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+        fs.appendFileSync(this.filePath, changed.map((doc) => JSON.stringify(doc) + '\n').join(''));
+        this.logLines += changed.length;
+
+        if (this.logLines > Math.max(this.docs.size, 1) * COMPACT_RATIO) {
+            this.compact();
+        }
+    }
+
+    /**
+     * Rewrite the log with one line per document (atomically, via a temp file)
+     */
+    private compact(): void {
+        const tempPath = `${this.filePath}.tmp`;
+        const content = Array.from(this.docs.values())
+            .map((doc) => JSON.stringify(doc) + '\n')
+            .join('');
+        fs.writeFileSync(tempPath, content);
+        fs.renameSync(tempPath, this.filePath);
+        this.logLines = this.docs.size;
+    }
+}
+
+/**
+ * A mongoose model behind the HistoryCollection interface
+ */
+export class MongoHistoryCollection<T> implements HistoryCollection<T> {
+    constructor(private readonly model: mongoose.Model<Record<string, unknown>>) {}
+
+    async find(filter: HistoryFilter = {}): Promise<T[]> {
+        return (await this.model.find(filter).lean().exec()) as unknown as T[];
+    }
+
+    async findOne(filter: HistoryFilter): Promise<T | null> {
+        return (await this.model.findOne(filter).lean().exec()) as unknown as T | null;
+    }
+
+    async countDocuments(filter: HistoryFilter = {}): Promise<number> {
+        return this.model.countDocuments(filter).exec();
+    }
+
+    async insertOne(doc: Partial<T>): Promise<T> {
+        const created = await this.model.create(doc);
+        return created.toObject() as unknown as T;
+    }
+
+    async updateOne(
+        filter: HistoryFilter,
+        update: HistoryUpdate,
+        options: { upsert?: boolean } = {}
+    ): Promise<{ modifiedCount: number }> {
+        const result = await this.model.updateOne(filter, update, options).exec();
+        return { modifiedCount: result.modifiedCount + result.upsertedCount };
+    }
+
+    async updateMany(
+        filter: HistoryFilter,
+        update: HistoryUpdate
+    ): Promise<{ modifiedCount: number }> {
+        const result = await this.model.updateMany(filter, update).exec();
+        return { modifiedCount: result.modifiedCount };
+    }
+}
+
+// Every caller of a collection must share one instance (the file backend holds state)
+const collections = new Map<string, HistoryCollection<unknown>>();
+
+/**
+ * The collection `name` on the configured backend
+ */
+export const getHistoryCollection = <T>(name: string, schema: Schema): HistoryCollection<T> => {
+    let collection = collections.get(name);
+    if (!collection) {
+        collection =
+            ENV.STORAGE_BACKEND === 'file'
+                ? new FileHistoryCollection(path.join(ENV.STORAGE_DIR, `${name}.jsonl`))
+                : new MongoHistoryCollection(
+                      mongoose.model<Record<string, unknown>>(name, schema, name)
+                  );
+        collections.set(name, collection);
+    }
+    return collection as HistoryCollection<T>;
+};
+
+/**
+ * Whether trade history can be read and written (the file backend always can; Mongo only
+ * once connected - otherwise the bot runs in memory-only mode)
+ */
+export const isHistoryStoreAvailable = (): boolean =>
+    ENV.STORAGE_BACKEND === 'file' || mongoose.connection.readyState === 1;
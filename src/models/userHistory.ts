@@ -1,4 +1,6 @@
-import mongoose, { Schema } from 'mongoose';
+import { Schema } from 'mongoose';
+import { UserActivityInterface, UserPositionInterface } from '../interfaces/User';
+import { getHistoryCollection } from './historyStore';
 
 const positionSchema = new Schema({
     _id: {
@@ -63,16 +65,14 @@ const activitySchema = new Schema({
     bot: { type: Boolean, required: false },
     botExcutedTime: { type: Number, required: false },
     myBoughtSize: { type: Number, required: false }, // Tracks actual tokens we bought
+    leaderPositionBefore: { type: Number, required: false }, // Trader's position before this activity
+    leaderPositionAfter: { type: Number, required: false }, // Trader's position after this activity
 });
 
-const getUserPositionModel = (walletAddress: string) => {
-    const collectionName = `user_positions_${walletAddress}`;
-    return mongoose.model(collectionName, positionSchema, collectionName);
-};
+const getUserPositionModel = (walletAddress: string) =>
+    getHistoryCollection<UserPositionInterface>(`user_positions_${walletAddress}`, positionSchema);
 
-const getUserActivityModel = (walletAddress: string) => {
-    const collectionName = `user_activities_${walletAddress}`;
-    return mongoose.model(collectionName, activitySchema, collectionName);
-};
+const getUserActivityModel = (walletAddress: string) =>
+    getHistoryCollection<UserActivityInterface>(`user_activities_${walletAddress}`, activitySchema);
 
 export { getUserActivityModel, getUserPositionModel };
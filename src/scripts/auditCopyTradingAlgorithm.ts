@@ -1,7 +1,7 @@
-import axios from 'axios';
 import * as fs from 'fs';
 import * as path from 'path';
 import { ENV } from '../config/env';
+import polymarketApi from '../utils/polymarketApi';
 import { readWalletFile } from '../utils/readWalletFile';
 
 // Console colors
@@ -168,17 +168,14 @@ async function fetchBatch(
     sinceTimestamp: number
 ): Promise<Trade[]> {
     try {
-        const response = await axios.get(
-            `https://data-api.polymarket.com/activity?user=${traderAddress}&type=TRADE&limit=${limit}&offset=${offset}`,
-            {
-                timeout: 10000,
-                headers: {
-                    'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
-                },
-            }
-        );
+        const activities = await polymarketApi.getActivity({
+            user: traderAddress,
+            type: 'TRADE',
+            limit,
+            offset,
+        });
 
-        const trades: Trade[] = response.data.map((item: any) => ({
+        const trades: Trade[] = activities.map((item: any) => ({
             id: item.id,
             timestamp: item.timestamp,
             market: item.slug || item.market,
@@ -253,16 +250,7 @@ async function fetchTraderActivity(traderAddress: string): Promise<Trade[]> {
 
 async function fetchTraderPositions(traderAddress: string): Promise<Position[]> {
     try {
-        const response = await axios.get(
-            `https://data-api.polymarket.com/positions?user=${traderAddress}`,
-            {
-                timeout: 10000,
-                headers: {
-                    'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
-                },
-            }
-        );
-        return response.data;
+        return await polymarketApi.getPositions({ user: traderAddress });
     } catch (error) {
         return [];
     }
@@ -0,0 +1,155 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import mongoose from 'mongoose';
+import connectDB, { closeDB } from '../config/db';
+import { ENV } from '../config/env';
+import { TraderSettings } from '../config/traderSettings';
+import { BacktestResult, runBacktest } from '../services/backtester';
+import { BacktestSource, loadBacktestTrades, loadResolutions } from '../services/backtestData';
+import watchlistManager from '../services/watchlistManager';
+
+/**
+ * Backtest the current copy settings against stored leader history
+ *
+ * BACKTEST_SOURCE=store (default) reads the trade history the monitor stored (MongoDB or the
+ * file backend); BACKTEST_SOURCE=api fetches it from the Data API - run with
+ * FIXTURE_MODE=replay to use recorded fixture files instead of the network.
+ */
+
+const colors = {
+    cyan: (text: string) => `\x1b[36m${text}\x1b[0m`,
+    green: (text: string) => `\x1b[32m${text}\x1b[0m`,
+    red: (text: string) => `\x1b[31m${text}\x1b[0m`,
+    yellow: (text: string) => `\x1b[33m${text}\x1b[0m`,
+    gray: (text: string) => `\x1b[90m${text}\x1b[0m`,
+    bold: (text: string) => `\x1b[1m${text}\x1b[0m`,
+};
+
+const numberEnv = (key: string, fallback: number): number => {
+    const value = Number(process.env[key]);
+    return process.env[key] !== undefined && Number.isFinite(value) && value >= 0
+        ? value
+        : fallback;
+};
+
+const SOURCE = (process.env.BACKTEST_SOURCE || 'store').toLowerCase() as BacktestSource;
+const TRADERS = process.env.BACKTEST_TRADERS
+    ? process.env.BACKTEST_TRADERS.split(',').map((a) => a.trim().toLowerCase())
+    : watchlistManager.getActiveAddresses().length > 0
+      ? watchlistManager.getActiveAddresses()
+      : ENV.USER_ADDRESSES;
+const HISTORY_DAYS = numberEnv('BACKTEST_DAYS', 7);
+const STARTING_CAPITAL = numberEnv('BACKTEST_CAPITAL', 1000);
+const FEE_BPS = numberEnv('BACKTEST_FEE_BPS', 0);
+const FILL_MODEL = {
+    halfSpreadCents: numberEnv('BACKTEST_HALF_SPREAD_CENTS', 1),
+    levelSizeUSD: numberEnv('BACKTEST_LEVEL_SIZE_USD', 250),
+    levels: numberEnv('BACKTEST_LEVELS', 5),
+    tickCents: numberEnv('BACKTEST_TICK_CENTS', 1),
+};
+
+const signed = (value: number, suffix = ''): string => {
+    const text = `${value >= 0 ? '+' : '-'}$${Math.abs(value).toFixed(2)}${suffix}`;
+    return value >= 0 ? colors.green(text) : colors.red(text);
+};
+
+const printReport = (result: BacktestResult): void => {
+    console.log('\n' + colors.cyan('═'.repeat(80)));
+    console.log(colors.cyan('  📊 BACKTEST REPORT'));
+    console.log(colors.cyan('═'.repeat(80)) + '\n');
+
+    console.log(colors.bold('Performance:'));
+    console.log(`  Starting capital: $${result.startingCapital.toFixed(2)}`);
+    console.log(`  Final equity:     $${result.finalEquity.toFixed(2)}`);
+    console.log(`  Total P&L:        ${signed(result.totalPnl)}`);
+    console.log(`  ROI:              ${result.roiPercent.toFixed(2)}%`);
+    console.log(
+        `  Max drawdown:     $${result.maxDrawdownUSD.toFixed(2)} (${result.maxDrawdownPercent.toFixed(2)}%)`
+    );
+    console.log(`  Fees:             $${result.feesUSD.toFixed(2)}`);
+    console.log(`  Open positions:   ${result.openPositions} (marked at last trade price)`);
+    console.log();
+
+    console.log(colors.bold('Trades:'));
+    console.log(`  Copied:  ${colors.green(String(result.copiedTrades))}`);
+    console.log(`  Skipped: ${colors.yellow(String(result.skippedTrades))}`);
+    for (const [reason, count] of Object.entries(result.skipReasons)) {
+        console.log(colors.gray(`    ${reason}: ${count}`));
+    }
+    console.log();
+
+    console.log(colors.bold('By trader:'));
+    for (const [trader, stats] of Object.entries(result.traders)) {
+        console.log(`  ${trader}`);
+        console.log(
+            `    Copied ${stats.copiedTrades} / skipped ${stats.skippedTrades} | Volume $${stats.volumeUSD.toFixed(2)} | Fees $${stats.feesUSD.toFixed(2)}`
+        );
+        console.log(
+            `    Realized ${signed(stats.realizedPnl)} | Unrealized ${signed(stats.unrealizedPnl)} | Total ${signed(stats.totalPnl)}`
+        );
+    }
+    console.log('\n' + colors.cyan('═'.repeat(80)) + '\n');
+};
+
+const main = async () => {
+    console.log(colors.cyan('\n🚀 POLYMARKET COPY TRADING BACKTEST\n'));
+    console.log(colors.gray(`Traders: ${TRADERS.join(', ')}`));
+    console.log(colors.gray(`Source: ${SOURCE}, last ${HISTORY_DAYS} day(s)`));
+    console.log(colors.gray(`Strategy: ${ENV.COPY_STRATEGY_CONFIG.strategy}`));
+    console.log(
+        colors.gray(
+            `Fill model: ${FILL_MODEL.halfSpreadCents}¢ half-spread, ${FILL_MODEL.levels} × $${FILL_MODEL.levelSizeUSD} levels ${FILL_MODEL.tickCents}¢ apart, ${FEE_BPS} bps fees\n`
+        )
+    );
+
+    try {
+        if (SOURCE === 'store') {
+            await connectDB();
+            if (ENV.STORAGE_BACKEND === 'mongo' && mongoose.connection.readyState !== 1) {
+                throw new Error('No trade history store - set MONGO_URI or STORAGE_BACKEND=file');
+            }
+        }
+
+        const since = Math.floor(Date.now() / 1000) - HISTORY_DAYS * 24 * 60 * 60;
+        const trades = await loadBacktestTrades(TRADERS, since, SOURCE);
+        console.log(colors.green(`✓ Loaded ${trades.length} trades`));
+        const resolutions = await loadResolutions(trades);
+        console.log(colors.green(`✓ Loaded outcomes for ${resolutions.size} resolved tokens`));
+
+        const traderSettings: Record<string, TraderSettings> = {};
+        for (const trader of TRADERS) {
+            traderSettings[trader] = watchlistManager.getSettings(trader);
+        }
+
+        const result = runBacktest(trades, resolutions, {
+            startingCapital: STARTING_CAPITAL,
+            copyConfig: ENV.COPY_STRATEGY_CONFIG,
+            traderSettings,
+            slippageLimits: {
+                maxSlippageCents: ENV.MAX_SLIPPAGE_CENTS,
+                maxSlippagePercent: ENV.MAX_SLIPPAGE_PERCENT,
+            },
+            fillModel: FILL_MODEL,
+            feeBps: FEE_BPS,
+        });
+        printReport(result);
+
+        const resultsDir = path.join(process.cwd(), 'simulation_results');
+        fs.mkdirSync(resultsDir, { recursive: true });
+        const filepath = path.join(
+            resultsDir,
+            `backtest_${ENV.COPY_STRATEGY_CONFIG.strategy.toLowerCase()}_${HISTORY_DAYS}d_${new Date().toISOString().split('T')[0]}.json`
+        );
+        fs.writeFileSync(filepath, JSON.stringify(result, null, 2), 'utf8');
+        console.log(colors.green(`✓ Results saved to: ${filepath}\n`));
+    } catch (error) {
+        console.error(colors.red('\n✗ Backtest failed:'), error);
+        process.exitCode = 1;
+    } finally {
+        if (SOURCE === 'store') {
+            await closeDB();
+        }
+    }
+};
+
+main();
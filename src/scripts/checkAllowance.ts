@@ -2,6 +2,7 @@ import { ethers } from 'ethers';
 import { AssetType, ClobClient, getContractConfig } from '@polymarket/clob-client';
 import { SignatureType } from '@polymarket/order-utils';
 import { ENV } from '../config/env';
+import { TRADING_SPENDERS } from '../utils/negRisk';
 
 const PROXY_WALLET = ENV.PROXY_WALLET;
 const PRIVATE_KEY = ENV.PRIVATE_KEY;
@@ -306,6 +307,40 @@ async function checkAndSetAllowance() {
             console.log('✅ Allowance is already sufficient! No action needed.');
         }
 
+        // Neg-risk markets settle through their own exchange and adapter, which also spend USDC
+        for (const spender of TRADING_SPENDERS) {
+            if (spender.address.toLowerCase() === POLYMARKET_EXCHANGE_LOWER) {
+                continue;
+            }
+            const spenderAllowance = await polymarketContract.allowance(
+                PROXY_WALLET,
+                spender.address
+            );
+            if (spenderAllowance.gte(polymarketBalance) && !spenderAllowance.isZero()) {
+                console.log(`✅ ${spender.name} allowance is already sufficient.`);
+                continue;
+            }
+
+            console.log(`\n⚠️  ${spender.name} allowance is insufficient or zero!`);
+            console.log(`📍 ${spender.name}: ${spender.address}`);
+            const feeData = await provider.getFeeData();
+            const gasPrice = feeData.gasPrice
+                ? feeData.gasPrice.mul(150).div(100)
+                : ethers.utils.parseUnits('50', 'gwei');
+            const approveTx = await polymarketContract.approve(
+                spender.address,
+                ethers.constants.MaxUint256,
+                { gasPrice: gasPrice, gasLimit: 100000 }
+            );
+            console.log(`⏳ Transaction sent: ${approveTx.hash}`);
+            const receipt = await approveTx.wait();
+            console.log(
+                receipt.status === 1
+                    ? `✅ ${spender.name} allowance set successfully!`
+                    : `❌ ${spender.name} approval failed!`
+            );
+        }
+
         await syncPolymarketAllowanceCache(polymarketDecimals, provider);
     } catch (error: any) {
         console.error('❌ Error:', error.message);
@@ -1,25 +1,9 @@
 import { ENV } from '../config/env';
-import fetchData from '../utils/fetchData';
+import polymarketApi from '../utils/polymarketApi';
 import getMyBalance from '../utils/getMyBalance';
 
 const PROXY_WALLET = ENV.PROXY_WALLET;
 
-interface Activity {
-    proxyWallet: string;
-    timestamp: number;
-    conditionId: string;
-    type: string;
-    size: number;
-    usdcSize: number;
-    transactionHash: string;
-    price: number;
-    asset: string;
-    side: 'BUY' | 'SELL';
-    title?: string;
-    slug?: string;
-    outcome?: string;
-}
-
 interface Position {
     asset: string;
     conditionId: string;
@@ -51,12 +35,11 @@ const checkBothWallets = async () => {
         console.log(`   ${ADDRESS_1}`);
         console.log(`   Profile: https://polymarket.com/profile/${ADDRESS_1}\n`);
 
-        const addr1Activities: Activity[] = await fetchData(
-            `https://data-api.polymarket.com/activity?user=${ADDRESS_1}&type=TRADE`
-        );
-        const addr1Positions: Position[] = await fetchData(
-            `https://data-api.polymarket.com/positions?user=${ADDRESS_1}`
-        );
+        const addr1Activities = await polymarketApi.getActivity({
+            user: ADDRESS_1,
+            type: 'TRADE',
+        });
+        const addr1Positions: Position[] = await polymarketApi.getPositions({ user: ADDRESS_1 });
 
         console.log(`   • Trades in API: ${addr1Activities?.length || 0}`);
         console.log(`   • Positions in API: ${addr1Positions?.length || 0}`);
@@ -93,12 +76,11 @@ const checkBothWallets = async () => {
         console.log(`   ${ADDRESS_2}`);
         console.log(`   Profile: https://polymarket.com/profile/${ADDRESS_2}\n`);
 
-        const addr2Activities: Activity[] = await fetchData(
-            `https://data-api.polymarket.com/activity?user=${ADDRESS_2}&type=TRADE`
-        );
-        const addr2Positions: Position[] = await fetchData(
-            `https://data-api.polymarket.com/positions?user=${ADDRESS_2}`
-        );
+        const addr2Activities = await polymarketApi.getActivity({
+            user: ADDRESS_2,
+            type: 'TRADE',
+        });
+        const addr2Positions: Position[] = await polymarketApi.getPositions({ user: ADDRESS_2 });
 
         console.log(`   • Trades in API: ${addr2Activities?.length || 0}`);
         console.log(`   • Positions in API: ${addr2Positions?.length || 0}`);
@@ -1,25 +1,9 @@
 import { ENV } from '../config/env';
-import fetchData from '../utils/fetchData';
+import polymarketApi from '../utils/polymarketApi';
 import getMyBalance from '../utils/getMyBalance';
 
 const PROXY_WALLET = ENV.PROXY_WALLET;
 
-interface Activity {
-    proxyWallet: string;
-    timestamp: number;
-    conditionId: string;
-    type: string;
-    size: number;
-    usdcSize: number;
-    transactionHash: string;
-    price: number;
-    asset: string;
-    side: 'BUY' | 'SELL';
-    title?: string;
-    slug?: string;
-    outcome?: string;
-}
-
 interface Position {
     asset: string;
     conditionId: string;
@@ -51,8 +35,7 @@ const checkMyStats = async () => {
 
         // 2. Open Positions
         console.log('📊 OPEN POSITIONS');
-        const positionsUrl = `https://data-api.polymarket.com/positions?user=${PROXY_WALLET}`;
-        const positions: Position[] = await fetchData(positionsUrl);
+        const positions: Position[] = await polymarketApi.getPositions({ user: PROXY_WALLET });
 
         if (positions && positions.length > 0) {
             console.log(`   Total positions: ${positions.length}\n`);
@@ -105,8 +88,10 @@ const checkMyStats = async () => {
         // 3. Trade History (last 50)
         console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n');
         console.log('📜 TRADE HISTORY (last 20)\n');
-        const activityUrl = `https://data-api.polymarket.com/activity?user=${PROXY_WALLET}&type=TRADE`;
-        const activities: Activity[] = await fetchData(activityUrl);
+        const activities = await polymarketApi.getActivity({
+            user: PROXY_WALLET,
+            type: 'TRADE',
+        });
 
         if (activities && activities.length > 0) {
             console.log(`   Total trades in API: ${activities.length}\n`);
@@ -124,7 +109,9 @@ const checkMyStats = async () => {
             console.log(
                 `      • Sells: ${sellTrades.length} (volume: $${totalSellVolume.toFixed(2)})`
             );
-            console.log(`      • Total volume: $${(totalBuyVolume + totalSellVolume).toFixed(2)}\n`);
+            console.log(
+                `      • Total volume: $${(totalBuyVolume + totalSellVolume).toFixed(2)}\n`
+            );
 
             // Last 20 trades
             const recentTrades = activities.slice(0, 20);
@@ -162,7 +149,9 @@ const checkMyStats = async () => {
             const totalUnrealizedPnl = positions.reduce((sum, p) => sum + (p.cashPnl || 0), 0);
 
             console.log('   ✅ Realized P&L (closed positions):');
-            console.log(`      → $${totalRealizedPnl.toFixed(2)} ← THIS is displayed on the chart\n`);
+            console.log(
+                `      → $${totalRealizedPnl.toFixed(2)} ← THIS is displayed on the chart\n`
+            );
 
             console.log('   📊 Unrealized P&L (open positions):');
             console.log(
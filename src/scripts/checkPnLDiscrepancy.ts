@@ -1,24 +1,9 @@
 import { ENV } from '../config/env';
-import fetchData from '../utils/fetchData';
+import { DataApiActivity } from '../interfaces/Polymarket';
+import polymarketApi from '../utils/polymarketApi';
 
 const PROXY_WALLET = ENV.PROXY_WALLET;
 
-interface Activity {
-    proxyWallet: string;
-    timestamp: number;
-    conditionId: string;
-    type: string;
-    size: number;
-    usdcSize: number;
-    transactionHash: string;
-    price: number;
-    asset: string;
-    side: 'BUY' | 'SELL';
-    title?: string;
-    slug?: string;
-    outcome?: string;
-}
-
 interface Position {
     asset: string;
     conditionId: string;
@@ -47,8 +32,7 @@ const checkDiscrepancy = async () => {
         // 1. Get all positions (open and closed)
         console.log('📊 Fetching data from Polymarket API...\n');
 
-        const positionsUrl = `https://data-api.polymarket.com/positions?user=${PROXY_WALLET}`;
-        const positions: Position[] = await fetchData(positionsUrl);
+        const positions: Position[] = await polymarketApi.getPositions({ user: PROXY_WALLET });
 
         console.log(`Fetched positions: ${positions.length}\n`);
 
@@ -124,9 +108,7 @@ const checkDiscrepancy = async () => {
         const totalRealized = totalOpenRealized + totalClosedRealized;
 
         console.log(`   • Open positions - Realized P&L: $${totalOpenRealized.toFixed(2)}`);
-        console.log(
-            `   • Closed positions - Realized P&L: $${totalClosedRealized.toFixed(2)}`
-        );
+        console.log(`   • Closed positions - Realized P&L: $${totalClosedRealized.toFixed(2)}`);
         console.log(`   • Unrealized P&L: $${totalUnrealizedPnl.toFixed(2)}`);
         console.log(`   ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━`);
         console.log(`   💰 TOTAL REALIZED PROFIT: $${totalRealized.toFixed(2)}\n`);
@@ -135,11 +117,16 @@ const checkDiscrepancy = async () => {
 
         // 6. Check through trade history
         console.log('🔎 CHECK THROUGH TRADE HISTORY:\n');
-        const activityUrl = `https://data-api.polymarket.com/activity?user=${PROXY_WALLET}&type=TRADE`;
-        const activities: Activity[] = await fetchData(activityUrl);
+        const activities = await polymarketApi.getActivity({
+            user: PROXY_WALLET,
+            type: 'TRADE',
+        });
 
         // Group trades by markets
-        const marketTrades = new Map<string, { buys: Activity[]; sells: Activity[] }>();
+        const marketTrades = new Map<
+            string,
+            { buys: DataApiActivity[]; sells: DataApiActivity[] }
+        >();
 
         activities.forEach((trade) => {
             const key = `${trade.conditionId}:${trade.asset}`;
@@ -180,9 +167,7 @@ const checkDiscrepancy = async () => {
             }
         }
 
-        console.log(
-            `   💰 Calculated realized profit: $${calculatedRealizedPnl.toFixed(2)}`
-        );
+        console.log(`   💰 Calculated realized profit: $${calculatedRealizedPnl.toFixed(2)}`);
         console.log(`   📊 Markets with closed profit: ${marketsWithProfit}\n`);
 
         console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n');
@@ -204,7 +189,7 @@ const checkDiscrepancy = async () => {
 
         console.log('   📈 Why chart shows $0.00:');
         console.log('   • Amount too small ($2-12) for visualization');
-        console.log('   • Timeline doesn\'t start from $0');
+        console.log("   • Timeline doesn't start from $0");
         console.log('   • Chart requires at least several data points');
         console.log('   • UI update delay (can be 1-24 hours)\n');
 
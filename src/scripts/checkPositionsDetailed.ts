@@ -1,5 +1,5 @@
 import { ENV } from '../config/env';
-import fetchData from '../utils/fetchData';
+import polymarketApi from '../utils/polymarketApi';
 
 const PROXY_WALLET = ENV.PROXY_WALLET;
 
@@ -19,14 +19,13 @@ interface Position {
     title?: string;
     slug?: string;
     outcome?: string;
+    negativeRisk?: boolean;
 }
 
 async function checkPositions() {
     console.log('\n📊 CURRENT POSITIONS:\n');
 
-    const positions: Position[] = await fetchData(
-        `https://data-api.polymarket.com/positions?user=${PROXY_WALLET}`
-    );
+    const positions: Position[] = await polymarketApi.getPositions({ user: PROXY_WALLET });
 
     if (!positions || positions.length === 0) {
         console.log('❌ No open positions');
@@ -46,6 +45,7 @@ async function checkPositions() {
         console.log(`━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━`);
         console.log(`Market: ${pos.title || 'Unknown'}`);
         console.log(`Outcome: ${pos.outcome || 'Unknown'}`);
+        console.log(`Market Type: ${pos.negativeRisk ? 'Neg-risk (multi-outcome)' : 'Binary'}`);
         console.log(`Asset ID: ${pos.asset.slice(0, 10)}...`);
         console.log(`Size: ${pos.size.toFixed(2)} shares`);
         console.log(`Avg Price: $${pos.avgPrice.toFixed(4)}`);
@@ -67,7 +67,7 @@ async function checkPositions() {
         console.log(`\n🎯 LARGE POSITIONS (> $5): ${largePositions.length}\n`);
         for (const pos of largePositions) {
             console.log(
-                `• ${pos.title || 'Unknown'} [${pos.outcome}]: $${pos.currentValue.toFixed(2)} (${pos.size.toFixed(2)} shares @ $${pos.curPrice.toFixed(4)})`
+                `• ${pos.title || 'Unknown'} [${pos.outcome}]${pos.negativeRisk ? ' [neg-risk]' : ''}: $${pos.currentValue.toFixed(2)} (${pos.size.toFixed(2)} shares @ $${pos.curPrice.toFixed(4)})`
             );
         }
 
@@ -1,25 +1,11 @@
 import { ethers } from 'ethers';
 import { ENV } from '../config/env';
-import fetchData from '../utils/fetchData';
+import polymarketApi from '../utils/polymarketApi';
 
 const PROXY_WALLET = ENV.PROXY_WALLET;
 const PRIVATE_KEY = ENV.PRIVATE_KEY;
 const RPC_URL = ENV.RPC_URL;
 
-interface Activity {
-    proxyWallet: string;
-    timestamp: number;
-    conditionId: string;
-    type: string;
-    size: number;
-    usdcSize: number;
-    transactionHash: string;
-    price: number;
-    asset: string;
-    side: 'BUY' | 'SELL';
-    title?: string;
-}
-
 const checkProxyWallet = async () => {
     console.log('🔍 CHECKING PROXY WALLET AND MAIN WALLET\n');
     console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n');
@@ -37,8 +23,10 @@ const checkProxyWallet = async () => {
 
         // 2. Check activity on EOA
         console.log('🔎 CHECKING ACTIVITY ON MAIN WALLET (EOA):\n');
-        const eoaActivityUrl = `https://data-api.polymarket.com/activity?user=${eoaAddress}&type=TRADE`;
-        const eoaActivities: Activity[] = await fetchData(eoaActivityUrl);
+        const eoaActivities = await polymarketApi.getActivity({
+            user: eoaAddress,
+            type: 'TRADE',
+        });
 
         console.log(`   Address: ${eoaAddress}`);
         console.log(`   Trades: ${eoaActivities?.length || 0}`);
@@ -73,8 +61,10 @@ const checkProxyWallet = async () => {
 
         // 3. Check activity on Proxy Wallet
         console.log('🔎 CHECKING ACTIVITY ON PROXY WALLET (CONTRACT):\n');
-        const proxyActivityUrl = `https://data-api.polymarket.com/activity?user=${PROXY_WALLET}&type=TRADE`;
-        const proxyActivities: Activity[] = await fetchData(proxyActivityUrl);
+        const proxyActivities = await polymarketApi.getActivity({
+            user: PROXY_WALLET,
+            type: 'TRADE',
+        });
 
         console.log(`   Address: ${PROXY_WALLET}`);
         console.log(`   Trades: ${proxyActivities?.length || 0}`);
@@ -118,9 +108,7 @@ const checkProxyWallet = async () => {
 
         if (proxyActivities && proxyActivities.length > 0) {
             const sampleTrade = proxyActivities[0];
-            console.log(
-                `   Proxy trades contain proxyWallet: ${sampleTrade.proxyWallet || 'N/A'}`
-            );
+            console.log(`   Proxy trades contain proxyWallet: ${sampleTrade.proxyWallet || 'N/A'}`);
         }
 
         console.log('\n   💡 HOW IT WORKS:\n');
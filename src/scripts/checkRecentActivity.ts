@@ -1,26 +1,10 @@
-import fetchData from '../utils/fetchData';
+import polymarketApi from '../utils/polymarketApi';
 import { ENV } from '../config/env';
 
 const WALLET = ENV.PROXY_WALLET;
 
-interface Activity {
-    proxyWallet: string;
-    timestamp: number;
-    conditionId: string;
-    type: string;
-    size: number;
-    usdcSize: number;
-    transactionHash: string;
-    price: number;
-    asset: string;
-    side: 'BUY' | 'SELL';
-    title?: string;
-    market?: string;
-}
-
 const main = async () => {
-    const url = `https://data-api.polymarket.com/activity?user=${WALLET}&type=TRADE`;
-    const activities: Activity[] = await fetchData(url);
+    const activities = await polymarketApi.getActivity({ user: WALLET, type: 'TRADE' });
 
     if (!Array.isArray(activities) || activities.length === 0) {
         console.log('No trade data available');
@@ -56,7 +40,7 @@ const main = async () => {
         const value = trade.usdcSize;
         totalSpent += value;
 
-        console.log(`${i + 1}. 🟢 BOUGHT: ${trade.title || trade.market || 'Unknown'}`);
+        console.log(`${i + 1}. 🟢 BOUGHT: ${trade.title || trade.slug || 'Unknown'}`);
         console.log(`   💸 Spent: $${value.toFixed(2)}`);
         console.log(`   📊 Size: ${trade.size.toFixed(2)} tokens @ $${trade.price.toFixed(4)}`);
         console.log(`   📅 Date: ${date.toLocaleString('en-US')}`);
@@ -87,7 +71,7 @@ const main = async () => {
         const value = trade.usdcSize;
         totalSold += value;
 
-        console.log(`${i + 1}. 🔴 SOLD: ${trade.title || trade.market || 'Unknown'}`);
+        console.log(`${i + 1}. 🔴 SOLD: ${trade.title || trade.slug || 'Unknown'}`);
         console.log(`   💰 Received: $${value.toFixed(2)}`);
         console.log(`   📅 Date: ${date.toLocaleString('en-US')}\n`);
     });
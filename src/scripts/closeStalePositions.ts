@@ -1,7 +1,7 @@
 import { AssetType, ClobClient, OrderType, Side } from '@polymarket/clob-client';
 import { ENV } from '../config/env';
 import createClobClient from '../utils/createClobClient';
-import fetchData from '../utils/fetchData';
+import polymarketApi from '../utils/polymarketApi';
 
 const PROXY_WALLET = ENV.PROXY_WALLET;
 const USER_ADDRESSES = ENV.USER_ADDRESSES;
@@ -187,9 +187,7 @@ const sellEntirePosition = async (
 };
 
 const loadPositions = async (address: string): Promise<Position[]> => {
-    const url = `https://data-api.polymarket.com/positions?user=${address}`;
-    const data = await fetchData(url);
-    const positions = Array.isArray(data) ? (data as Position[]) : [];
+    const positions: Position[] = await polymarketApi.getPositions({ user: address });
     return positions.filter((pos) => (pos.size || 0) > ZERO_THRESHOLD);
 };
 
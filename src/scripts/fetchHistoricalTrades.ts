@@ -1,7 +1,8 @@
-import axios from 'axios';
 import fs from 'fs';
 import path from 'path';
 import { ENV } from '../config/env';
+import { DataApiActivity } from '../interfaces/Polymarket';
+import polymarketApi from '../utils/polymarketApi';
 
 const USER_ADDRESSES = ENV.USER_ADDRESSES;
 
@@ -29,19 +30,6 @@ const MAX_PARALLEL = (() => {
     return Number.isFinite(value) && value > 0 ? Math.min(Math.floor(value), 10) : 4;
 })();
 
-interface TradeApiResponse {
-    id: string;
-    timestamp: number;
-    slug?: string;
-    market?: string;
-    asset: string;
-    side: 'BUY' | 'SELL';
-    price: number;
-    usdcSize: number;
-    size: number;
-    outcome?: string;
-}
-
 interface CachedTrades {
     name: string;
     traderAddress: string;
@@ -49,7 +37,7 @@ interface CachedTrades {
     period: string;
     historyDays: number;
     totalTrades: number;
-    trades: TradeApiResponse[];
+    trades: DataApiActivity[];
 }
 
 const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
@@ -58,26 +46,16 @@ const fetchBatch = async (
     address: string,
     offset: number,
     limit: number
-): Promise<TradeApiResponse[]> => {
-    const response = await axios.get(
-        `https://data-api.polymarket.com/activity?user=${address}&type=TRADE&limit=${limit}&offset=${offset}`,
-        {
-            timeout: 15000,
-            headers: {
-                'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
-            },
-        }
-    );
-
-    return Array.isArray(response.data) ? response.data : [];
+): Promise<DataApiActivity[]> => {
+    return polymarketApi.getActivity({ user: address, type: 'TRADE', limit, offset });
 };
 
-const fetchTradesForTrader = async (address: string): Promise<TradeApiResponse[]> => {
+const fetchTradesForTrader = async (address: string): Promise<DataApiActivity[]> => {
     console.log(`\n🚀 Загрузка истории для ${address} (последние ${HISTORY_DAYS} дн.)`);
     const sinceTimestamp = Math.floor((Date.now() - HISTORY_DAYS * 24 * 60 * 60 * 1000) / 1000);
 
     let offset = 0;
-    let allTrades: TradeApiResponse[] = [];
+    let allTrades: DataApiActivity[] = [];
     let hasMore = true;
 
     while (hasMore && allTrades.length < MAX_TRADES_PER_TRADER) {
@@ -108,7 +86,7 @@ const fetchTradesForTrader = async (address: string): Promise<TradeApiResponse[]
     return sorted;
 };
 
-const saveTradesToCache = (address: string, trades: TradeApiResponse[]) => {
+const saveTradesToCache = (address: string, trades: DataApiActivity[]) => {
     const cacheDir = path.join(process.cwd(), 'trader_data_cache');
     if (!fs.existsSync(cacheDir)) {
         fs.mkdirSync(cacheDir, { recursive: true });
@@ -1,7 +1,7 @@
-import axios from 'axios';
 import * as fs from 'fs';
 import * as path from 'path';
 import { ENV } from '../config/env';
+import polymarketApi from '../utils/polymarketApi';
 
 // Colors for console output
 const colors = {
@@ -93,26 +93,22 @@ async function fetchTraderLeaderboard(): Promise<string[]> {
         console.log(colors.cyan('📊 Fetching trader leaderboard from Polymarket...'));
 
         // Try to get top traders from events/markets
-        const response = await axios.get('https://data-api.polymarket.com/markets', {
-            timeout: 10000,
-            headers: {
-                'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
-            },
-        });
+        const markets = await polymarketApi.getMarkets({ active: true, closed: false, limit: 5 });
 
         // Extract unique traders from recent activity
         const traders = new Set<string>();
 
         // Try to fetch from popular markets
-        const markets = response.data.slice(0, 5);
         for (const market of markets) {
             try {
-                const tradesUrl = `https://data-api.polymarket.com/trades?market=${market.conditionId}&limit=100`;
-                const tradesResp = await axios.get(tradesUrl, { timeout: 5000 });
+                const trades = await polymarketApi.getTrades({
+                    market: market.conditionId,
+                    limit: 100,
+                });
 
-                tradesResp.data.forEach((trade: any) => {
-                    if (trade.owner) {
-                        traders.add(trade.owner.toLowerCase());
+                trades.forEach((trade) => {
+                    if (trade.proxyWallet) {
+                        traders.add(trade.proxyWallet.toLowerCase());
                     }
                 });
             } catch (e) {
@@ -139,17 +135,14 @@ async function fetchBatch(
     sinceTimestamp: number
 ): Promise<Trade[]> {
     try {
-        const response = await axios.get(
-            `https://data-api.polymarket.com/activity?user=${traderAddress}&type=TRADE&limit=${limit}&offset=${offset}`,
-            {
-                timeout: 10000,
-                headers: {
-                    'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
-                },
-            }
-        );
+        const activities = await polymarketApi.getActivity({
+            user: traderAddress,
+            type: 'TRADE',
+            limit,
+            offset,
+        });
 
-        const trades: Trade[] = response.data.map((item: any) => ({
+        const trades: Trade[] = activities.map((item: any) => ({
             id: item.id,
             timestamp: item.timestamp,
             market: item.slug || item.market,
@@ -224,16 +217,7 @@ async function fetchTraderActivity(traderAddress: string): Promise<Trade[]> {
 
 async function fetchTraderPositions(traderAddress: string): Promise<Position[]> {
     try {
-        const response = await axios.get(
-            `https://data-api.polymarket.com/positions?user=${traderAddress}`,
-            {
-                timeout: 10000,
-                headers: {
-                    'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
-                },
-            }
-        );
-        return response.data;
+        return await polymarketApi.getPositions({ user: traderAddress });
     } catch (error) {
         return [];
     }
@@ -1,31 +1,10 @@
 import * as dotenv from 'dotenv';
-import axios from 'axios';
 import moment from 'moment';
 import * as fs from 'fs';
 import * as path from 'path';
+import polymarketApi from '../utils/polymarketApi';
 
-// Load environment variables (optional for this script)
-dotenv.config();
-
-// Simple fetch function that doesn't require full config
-async function fetchData(url: string): Promise<any> {
-    try {
-        const response = await axios.get(url, {
-            timeout: 10000,
-            headers: {
-                'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
-            },
-        });
-        return response.data;
-    } catch (error) {
-        if (axios.isAxiosError(error)) {
-            throw new Error(`HTTP ${error.response?.status}: ${error.message}`);
-        }
-        throw error;
-    }
-}
-
-// Load environment variables (optional for this script)
+// Load environment variables (the API client reads its base URLs from the bot config)
 dotenv.config();
 
 // Colors for console output
@@ -123,12 +102,7 @@ const MIN_ROI_THRESHOLD = parseFloat(process.env.MIN_ROI_THRESHOLD || '10.0'); /
 async function fetchTraderActivity(traderAddress: string): Promise<Trade[]> {
     try {
         const cutoffTime = Math.floor(Date.now() / 1000) - HISTORY_DAYS * 24 * 60 * 60;
-        const url = `https://data-api.polymarket.com/activity?user=${traderAddress}&type=TRADE`;
-        const activities = await fetchData(url);
-
-        if (!Array.isArray(activities)) {
-            return [];
-        }
+        const activities = await polymarketApi.getActivity({ user: traderAddress, type: 'TRADE' });
 
         return activities
             .filter((activity: any) => activity.timestamp >= cutoffTime)
@@ -439,9 +413,9 @@ async function analyzeTrader(traderAddress: string): Promise<TraderAnalysis> {
         const equityPoints = calculateEquityCurve(trades, positions);
 
         // Get current positions from API
-        const currentPositions: Position[] = await fetchData(
-            `https://data-api.polymarket.com/positions?user=${traderAddress}`
-        );
+        const currentPositions: Position[] = await polymarketApi.getPositions({
+            user: traderAddress,
+        });
 
         // Update positions with current values
         for (const pos of currentPositions) {
@@ -61,6 +61,8 @@ console.log(`  ${colors.green}npm run simulate${colors.reset}          Simulate
 console.log(`  ${colors.green}npm run simulate-old${colors.reset}      Simulate with old algorithm`);
 console.log(`  ${colors.green}npm run sim${colors.reset}               Run comprehensive simulations`);
 console.log(`  ${colors.green}npm run compare${colors.reset}           Compare simulation results`);
+console.log(`  ${colors.green}npm run backtest${colors.reset}          Replay stored trader history through the copy settings`);
+console.log(`  ${colors.green}npm run optimize${colors.reset}          Grid-search copy settings with walk-forward validation`);
 console.log('');
 
 console.log(`${colors.yellow}${colors.bright}🔧 ADVANCED & UTILITIES${colors.reset}\n`);
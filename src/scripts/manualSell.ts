@@ -2,6 +2,7 @@ import { ethers } from 'ethers';
 import { AssetType, ClobClient, OrderType, Side } from '@polymarket/clob-client';
 import { SignatureType } from '@polymarket/order-utils';
 import { ENV } from '../config/env';
+import polymarketApi from '../utils/polymarketApi';
 
 const PROXY_WALLET = ENV.PROXY_WALLET;
 const PRIVATE_KEY = ENV.PRIVATE_KEY;
@@ -81,12 +82,7 @@ const createClobClient = async (
 };
 
 const fetchPositions = async (): Promise<Position[]> => {
-    const url = `https://data-api.polymarket.com/positions?user=${PROXY_WALLET}`;
-    const response = await fetch(url);
-    if (!response.ok) {
-        throw new Error(`Failed to fetch positions: ${response.statusText}`);
-    }
-    return response.json();
+    return polymarketApi.getPositions({ user: PROXY_WALLET });
 };
 
 const findMatchingPosition = (positions: Position[], searchQuery: string): Position | undefined => {
@@ -0,0 +1,196 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import mongoose from 'mongoose';
+import connectDB, { closeDB } from '../config/db';
+import { ENV } from '../config/env';
+import { BacktestSource, loadBacktestTrades, loadResolutions } from '../services/backtestData';
+import {
+    buildWalkForwardWindows,
+    describeConfig,
+    expandSearchSpace,
+    parseSearchSpace,
+    pickWalkForward,
+    rankSweepResults,
+    runSweep,
+    SearchSpace,
+} from '../services/optimizer';
+import watchlistManager from '../services/watchlistManager';
+
+/**
+ * Grid-search copy strategy settings with walk-forward validation
+ *
+ * Every combination of the search space (OPTIMIZE_SPACE, a JSON file mapping CopyStrategyConfig
+ * fields to the values to try, on top of COPY_STRATEGY_CONFIG) is backtested on the same history
+ * - loaded as for `npm run backtest`, with the same BACKTEST_* settings - and ranked by its
+ * out-of-sample ROI. Trader watchlist overrides are not applied, so every trader is copied with
+ * the config being scored.
+ */
+
+const colors = {
+    cyan: (text: string) => `\x1b[36m${text}\x1b[0m`,
+    green: (text: string) => `\x1b[32m${text}\x1b[0m`,
+    red: (text: string) => `\x1b[31m${text}\x1b[0m`,
+    yellow: (text: string) => `\x1b[33m${text}\x1b[0m`,
+    gray: (text: string) => `\x1b[90m${text}\x1b[0m`,
+    bold: (text: string) => `\x1b[1m${text}\x1b[0m`,
+};
+
+// Used without OPTIMIZE_SPACE: copy size and order cap around the configured strategy
+const DEFAULT_SPACE: SearchSpace = {
+    copySize: [5, 10, 20],
+    maxOrderSizeUSD: [50, 100],
+};
+
+const numberEnv = (key: string, fallback: number): number => {
+    const value = Number(process.env[key]);
+    return process.env[key] !== undefined && Number.isFinite(value) && value >= 0
+        ? value
+        : fallback;
+};
+
+const SOURCE = (process.env.BACKTEST_SOURCE || 'store').toLowerCase() as BacktestSource;
+const TRADERS = process.env.BACKTEST_TRADERS
+    ? process.env.BACKTEST_TRADERS.split(',').map((a) => a.trim().toLowerCase())
+    : watchlistManager.getActiveAddresses().length > 0
+      ? watchlistManager.getActiveAddresses()
+      : ENV.USER_ADDRESSES;
+const HISTORY_DAYS = numberEnv('BACKTEST_DAYS', 30);
+const STARTING_CAPITAL = numberEnv('BACKTEST_CAPITAL', 1000);
+const FEE_BPS = numberEnv('BACKTEST_FEE_BPS', 0);
+const FILL_MODEL = {
+    halfSpreadCents: numberEnv('BACKTEST_HALF_SPREAD_CENTS', 1),
+    levelSizeUSD: numberEnv('BACKTEST_LEVEL_SIZE_USD', 250),
+    levels: numberEnv('BACKTEST_LEVELS', 5),
+    tickCents: numberEnv('BACKTEST_TICK_CENTS', 1),
+};
+const FOLDS = Math.max(1, Math.floor(numberEnv('OPTIMIZE_FOLDS', 3)));
+const WORKERS = Math.max(1, Math.floor(numberEnv('OPTIMIZE_WORKERS', os.cpus().length - 1)));
+const TOP = Math.max(1, Math.floor(numberEnv('OPTIMIZE_TOP', 20)));
+
+const loadSearchSpace = (): SearchSpace => {
+    if (!process.env.OPTIMIZE_SPACE) {
+        return DEFAULT_SPACE;
+    }
+    const raw = JSON.parse(fs.readFileSync(process.env.OPTIMIZE_SPACE, 'utf8'));
+    return parseSearchSpace(raw);
+};
+
+const pct = (value: number): string => {
+    const text = `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`;
+    return value >= 0 ? colors.green(text) : colors.red(text);
+};
+
+const main = async () => {
+    console.log(colors.cyan('\n🔬 COPY STRATEGY OPTIMIZER\n'));
+
+    try {
+        const space = loadSearchSpace();
+        const configs = expandSearchSpace(ENV.COPY_STRATEGY_CONFIG, space);
+        console.log(colors.gray(`Traders: ${TRADERS.join(', ')}`));
+        console.log(colors.gray(`Source: ${SOURCE}, last ${HISTORY_DAYS} day(s)`));
+        console.log(
+            colors.gray(
+                `Search space: ${Object.keys(space).join(', ')} → ${configs.length} valid config(s)`
+            )
+        );
+        console.log(colors.gray(`Walk-forward folds: ${FOLDS}, workers: ${WORKERS}\n`));
+        if (configs.length === 0) {
+            throw new Error('The search space has no valid configs');
+        }
+
+        if (SOURCE === 'store') {
+            await connectDB();
+            if (ENV.STORAGE_BACKEND === 'mongo' && mongoose.connection.readyState !== 1) {
+                throw new Error('No trade history store - set MONGO_URI or STORAGE_BACKEND=file');
+            }
+        }
+
+        const since = Math.floor(Date.now() / 1000) - HISTORY_DAYS * 24 * 60 * 60;
+        const trades = await loadBacktestTrades(TRADERS, since, SOURCE);
+        console.log(colors.green(`✓ Loaded ${trades.length} trades`));
+        const resolutions = await loadResolutions(trades);
+        console.log(colors.green(`✓ Loaded outcomes for ${resolutions.size} resolved tokens`));
+
+        const windows = buildWalkForwardWindows(trades, FOLDS);
+        const startedAt = Date.now();
+        const results = rankSweepResults(
+            await runSweep(
+                {
+                    configs,
+                    trades,
+                    resolutions,
+                    windows,
+                    options: {
+                        startingCapital: STARTING_CAPITAL,
+                        slippageLimits: {
+                            maxSlippageCents: ENV.MAX_SLIPPAGE_CENTS,
+                            maxSlippagePercent: ENV.MAX_SLIPPAGE_PERCENT,
+                        },
+                        fillModel: FILL_MODEL,
+                        feeBps: FEE_BPS,
+                    },
+                },
+                WORKERS
+            )
+        );
+        console.log(
+            colors.green(
+                `✓ Evaluated ${results.length} config(s) in ${((Date.now() - startedAt) / 1000).toFixed(1)}s`
+            )
+        );
+
+        console.log('\n' + colors.cyan('═'.repeat(100)));
+        console.log(colors.cyan('  🏆 RANKED BY OUT-OF-SAMPLE ROI'));
+        console.log(colors.cyan('═'.repeat(100)) + '\n');
+        console.log(
+            colors.bold('  #   Out-of-sample   In-sample   Full      Max DD    Copied   Config')
+        );
+        results.slice(0, TOP).forEach((result, i) => {
+            console.log(
+                `  ${String(i + 1).padEnd(4)}${pct(result.outOfSample.roiPercent).padEnd(25)}${pct(result.inSample.roiPercent).padEnd(21)}${pct(result.full.roiPercent).padEnd(19)}${result.full.maxDrawdownPercent.toFixed(1).padStart(5)}%    ${String(result.full.copiedTrades).padStart(6)}   ${describeConfig(result.config, space)}`
+            );
+        });
+
+        const picks = pickWalkForward(results);
+        if (picks.length > 0) {
+            console.log('\n' + colors.bold('Walk-forward (re-tuned on each training segment):'));
+            for (const pick of picks) {
+                console.log(
+                    `  Fold ${pick.fold}: in-sample ${pct(pick.inSampleRoi)} → out-of-sample ${pct(pick.outOfSampleRoi)}  ${colors.gray(describeConfig(pick.config, space))}`
+                );
+            }
+            const average =
+                picks.reduce((sum, pick) => sum + pick.outOfSampleRoi, 0) / picks.length;
+            console.log(`  Average out-of-sample: ${pct(average)}`);
+            console.log(
+                colors.gray(
+                    '  A big gap between in-sample and out-of-sample ROI means the search space is overfitting.'
+                )
+            );
+        }
+        console.log('\n' + colors.cyan('═'.repeat(100)) + '\n');
+
+        const resultsDir = path.join(process.cwd(), 'simulation_results');
+        fs.mkdirSync(resultsDir, { recursive: true });
+        const filepath = path.join(
+            resultsDir,
+            `optimize_${HISTORY_DAYS}d_${new Date().toISOString().split('T')[0]}.json`
+        );
+        fs.writeFileSync(
+            filepath,
+            JSON.stringify({ space, windows, walkForward: picks, results }, null, 2),
+            'utf8'
+        );
+        console.log(colors.green(`✓ Results saved to: ${filepath}\n`));
+    } catch (error) {
+        console.error(colors.red('\n✗ Optimization failed:'), error);
+        process.exitCode = 1;
+    } finally {
+        if (SOURCE === 'store') {
+            await closeDB();
+        }
+    }
+};
+
+main();
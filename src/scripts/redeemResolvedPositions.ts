@@ -1,6 +1,11 @@
 import { ethers } from 'ethers';
 import { ENV } from '../config/env';
-import fetchData from '../utils/fetchData';
+import {
+    getNegRiskRedeemAmounts,
+    NEG_RISK_ADAPTER_ABI,
+    POLYMARKET_CONTRACTS,
+} from '../utils/negRisk';
+import polymarketApi from '../utils/polymarketApi';
 
 const PROXY_WALLET = ENV.PROXY_WALLET;
 const PRIVATE_KEY = ENV.PRIVATE_KEY;
@@ -9,6 +14,7 @@ const RPC_URL = ENV.RPC_URL || 'https://polygon-rpc.com';
 // Contract addresses on Polygon
 const CTF_CONTRACT_ADDRESS = '0x4D97DCd97eC945f40cF65F87097ACe5EA0476045';
 const USDC_ADDRESS = '0x2791Bca1f2de4661ED88A30C99A7a9449Aa84174'; // USDC on Polygon
+const NEG_RISK_ADAPTER_ADDRESS = POLYMARKET_CONTRACTS.negRiskAdapter;
 
 // Thresholds for considering a position "resolved"
 const RESOLVED_HIGH = 0.99; // Position won (price ~$1)
@@ -26,6 +32,8 @@ interface Position {
     outcome?: string;
     slug?: string;
     redeemable?: boolean;
+    outcomeIndex?: number;
+    negativeRisk?: boolean;
 }
 
 // CTF Contract ABI (only the functions we need)
@@ -35,16 +43,16 @@ const CTF_ABI = [
 ];
 
 const loadPositions = async (address: string): Promise<Position[]> => {
-    const url = `https://data-api.polymarket.com/positions?user=${address}`;
-    const data = await fetchData(url);
-    const positions = Array.isArray(data) ? (data as Position[]) : [];
+    const positions: Position[] = await polymarketApi.getPositions({ user: address });
     return positions.filter((pos) => (pos.size || 0) > ZERO_THRESHOLD);
 };
 
 const redeemPosition = async (
     ctfContract: ethers.Contract,
-    position: Position
+    adapterContract: ethers.Contract,
+    positions: Position[]
 ): Promise<{ success: boolean; error?: string }> => {
+    const position = positions[0];
     try {
         // Convert conditionId to bytes32 format
         const conditionIdBytes32 = ethers.utils.hexZeroPad(
@@ -61,7 +69,22 @@ const redeemPosition = async (
 
         console.log(`   Attempting redemption...`);
         console.log(`   Condition ID: ${conditionIdBytes32}`);
-        console.log(`   Index Sets: [${indexSets.join(', ')}]`);
+
+        // Neg-risk markets redeem through the NegRiskAdapter with the exact [YES, NO] amounts held
+        let amounts: ethers.BigNumber[] = [];
+        if (position.negativeRisk) {
+            const balances = await Promise.all(
+                positions.map(async (pos) => ({
+                    outcomeIndex: pos.outcomeIndex ?? 0,
+                    balance: await ctfContract.balanceOf(PROXY_WALLET, pos.asset),
+                }))
+            );
+            amounts = getNegRiskRedeemAmounts(balances);
+            console.log(`   Neg-risk market - redeeming via NegRiskAdapter`);
+            console.log(`   Amounts: [${amounts.map((a) => a.toString()).join(', ')}]`);
+        } else {
+            console.log(`   Index Sets: [${indexSets.join(', ')}]`);
+        }
 
         // Get current gas price from network
         const feeData = await ctfContract.provider.getFeeData();
@@ -76,16 +99,19 @@ const redeemPosition = async (
 
         console.log(`   Gas price: ${ethers.utils.formatUnits(adjustedGasPrice, 'gwei')} Gwei`);
 
-        const tx = await ctfContract.redeemPositions(
-            USDC_ADDRESS,
-            parentCollectionId,
-            conditionIdBytes32,
-            indexSets,
-            {
-                gasLimit: 500000, // Set a reasonable gas limit
-                gasPrice: adjustedGasPrice,
-            }
-        );
+        const overrides = {
+            gasLimit: 500000, // Set a reasonable gas limit
+            gasPrice: adjustedGasPrice,
+        };
+        const tx = position.negativeRisk
+            ? await adapterContract.redeemPositions(conditionIdBytes32, amounts, overrides)
+            : await ctfContract.redeemPositions(
+                  USDC_ADDRESS,
+                  parentCollectionId,
+                  conditionIdBytes32,
+                  indexSets,
+                  overrides
+              );
 
         console.log(`   ⏳ Transaction submitted: ${tx.hash}`);
         console.log(`   ⏳ Waiting for confirmation...`);
@@ -125,6 +151,7 @@ const main = async () => {
     console.log('════════════════════════════════════════════════════');
     console.log(`Wallet: ${PROXY_WALLET}`);
     console.log(`CTF Contract: ${CTF_CONTRACT_ADDRESS}`);
+    console.log(`Neg Risk Adapter: ${NEG_RISK_ADAPTER_ADDRESS}`);
     console.log(`Win threshold: price >= $${RESOLVED_HIGH}`);
     console.log(`Loss threshold: price <= $${RESOLVED_LOW}`);
 
@@ -145,6 +172,11 @@ const main = async () => {
 
     // Create contract instance
     const ctfContract = new ethers.Contract(CTF_CONTRACT_ADDRESS, CTF_ABI, wallet);
+    const adapterContract = new ethers.Contract(
+        NEG_RISK_ADAPTER_ADDRESS,
+        NEG_RISK_ADAPTER_ABI,
+        wallet
+    );
 
     // Load positions
     const allPositions = await loadPositions(PROXY_WALLET);
@@ -190,9 +222,7 @@ const main = async () => {
         positionsByCondition.set(pos.conditionId, existing);
     });
 
-    console.log(
-        `\n📦 Grouped into ${positionsByCondition.size} unique conditions`
-    );
+    console.log(`\n📦 Grouped into ${positionsByCondition.size} unique conditions`);
 
     let conditionIndex = 0;
     for (const [conditionId, positions] of positionsByCondition.entries()) {
@@ -203,6 +233,9 @@ const main = async () => {
         console.log(`Condition ${conditionIndex}/${positionsByCondition.size}`);
         console.log(`Condition ID: ${conditionId}`);
         console.log(`Positions in this condition: ${positions.length}`);
+        if (positions.some((pos) => pos.negativeRisk)) {
+            console.log(`Market type: neg-risk`);
+        }
         console.log(`Total expected value: $${totalPositionValue.toFixed(2)}`);
 
         // Show all positions for this condition
@@ -214,7 +247,7 @@ const main = async () => {
         });
 
         // Redeem once for this condition (redeems all positions)
-        const result = await redeemPosition(ctfContract, positions[0]);
+        const result = await redeemPosition(ctfContract, adapterContract, positions);
 
         if (result.success) {
             successCount++;
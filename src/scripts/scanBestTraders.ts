@@ -1,7 +1,7 @@
-import axios from 'axios';
 import * as fs from 'fs';
 import * as path from 'path';
 import { ENV } from '../config/env';
+import polymarketApi from '../utils/polymarketApi';
 
 // Colors for console output
 const colors = {
@@ -142,21 +142,16 @@ async function fetchActiveMarkets(limit: number = 50): Promise<any[]> {
         // Get markets from recent trades of seed traders
         for (const trader of seedTraders) {
             try {
-                const response = await axios.get(
-                    `https://data-api.polymarket.com/activity?user=${trader}&type=TRADE&limit=50`,
-                    {
-                        timeout: 10000,
-                        headers: {
-                            'User-Agent':
-                                'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
-                        },
-                    }
-                );
+                const activities = await polymarketApi.getActivity({
+                    user: trader,
+                    type: 'TRADE',
+                    limit: 50,
+                });
 
-                for (const trade of response.data) {
-                    if (trade.market || trade.slug) {
-                        const marketId = trade.asset || trade.market;
-                        const marketName = trade.slug || trade.market || 'Unknown';
+                for (const trade of activities) {
+                    if (trade.slug) {
+                        const marketId = trade.asset;
+                        const marketName = trade.slug;
 
                         if (!markets.has(marketId)) {
                             markets.set(marketId, {
@@ -187,17 +182,13 @@ async function fetchActiveMarkets(limit: number = 50): Promise<any[]> {
 
 async function fetchRecentTrades(traderAddress: string, limit: number = 100): Promise<Bet[]> {
     try {
-        const response = await axios.get(
-            `https://data-api.polymarket.com/activity?user=${traderAddress}&type=TRADE&limit=${limit}`,
-            {
-                timeout: 10000,
-                headers: {
-                    'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
-                },
-            }
-        );
+        const activities = await polymarketApi.getActivity({
+            user: traderAddress,
+            type: 'TRADE',
+            limit,
+        });
 
-        return response.data
+        return activities
             .map((trade: any) => ({
                 id: trade.id || trade.transactionHash,
                 market: trade.slug || trade.market || 'Unknown',
@@ -356,17 +347,14 @@ async function fetchTraderActivityBatch(
     sinceTimestamp: number
 ): Promise<Trade[]> {
     try {
-        const response = await axios.get(
-            `https://data-api.polymarket.com/activity?user=${traderAddress}&type=TRADE&limit=${limit}&offset=${offset}`,
-            {
-                timeout: 10000,
-                headers: {
-                    'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
-                },
-            }
-        );
-
-        const trades: Trade[] = response.data.map((item: any) => ({
+        const activities = await polymarketApi.getActivity({
+            user: traderAddress,
+            type: 'TRADE',
+            limit,
+            offset,
+        });
+
+        const trades: Trade[] = activities.map((item: any) => ({
             id: item.id,
             timestamp: item.timestamp,
             market: item.slug || item.market,
@@ -445,16 +433,7 @@ async function fetchTraderActivity(traderAddress: string): Promise<Trade[]> {
 
 async function fetchTraderPositions(traderAddress: string): Promise<Position[]> {
     try {
-        const response = await axios.get(
-            `https://data-api.polymarket.com/positions?user=${traderAddress}`,
-            {
-                timeout: 10000,
-                headers: {
-                    'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
-                },
-            }
-        );
-        return response.data;
+        return await polymarketApi.getPositions({ user: traderAddress });
     } catch (error) {
         return [];
     }
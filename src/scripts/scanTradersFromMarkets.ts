@@ -1,8 +1,8 @@
-import axios from 'axios';
 import * as fs from 'fs';
 import * as path from 'path';
 import moment from 'moment';
 import { ENV } from '../config/env';
+import polymarketApi from '../utils/polymarketApi';
 
 // Simple colors without chalk (to avoid ESM issues)
 const colors = {
@@ -133,15 +133,13 @@ async function validateAddressesBatch(addresses: string[]): Promise<string[]> {
     for (const chunk of chunks) {
         const promises = chunk.map(async (address) => {
             try {
-                const response = await axios.get(
-                    `https://data-api.polymarket.com/activity?user=${address}&type=TRADE&limit=1`,
-                    {
-                        timeout: 5000,
-                        headers: { 'User-Agent': 'Mozilla/5.0' },
-                    }
-                );
+                const activities = await polymarketApi.getActivity({
+                    user: address,
+                    type: 'TRADE',
+                    limit: 1,
+                });
 
-                if (response.data && response.data.length > 0) {
+                if (activities && activities.length > 0) {
                     return address;
                 }
             } catch (e) {
@@ -187,16 +185,10 @@ async function extractTradersFromMarkets(markets: any[]): Promise<string[]> {
 
                     if (tokenId) {
                         try {
-                            const ordersResponse = await axios.get(
-                                `https://clob.polymarket.com/book?token_id=${tokenId}`,
-                                {
-                                    timeout: 3000,
-                                    headers: { 'User-Agent': 'Mozilla/5.0' },
-                                }
-                            );
+                            const book = await polymarketApi.getOrderBook(tokenId);
 
-                            if (ordersResponse.data) {
-                                const { bids, asks } = ordersResponse.data;
+                            if (book) {
+                                const { bids, asks } = book;
 
                                 if (bids && Array.isArray(bids)) {
                                     bids.forEach((bid: any) => {
@@ -240,18 +232,16 @@ async function expandNetworkFromTrader(
     depth: number = 200
 ): Promise<string[]> {
     try {
-        const response = await axios.get(
-            `https://data-api.polymarket.com/activity?user=${traderAddress}&type=TRADE&limit=${depth}`,
-            {
-                timeout: 10000,
-                headers: { 'User-Agent': 'Mozilla/5.0' },
-            }
-        );
+        const activities = await polymarketApi.getActivity({
+            user: traderAddress,
+            type: 'TRADE',
+            limit: depth,
+        });
 
         // Extract unique market IDs and try to find other traders in those markets
         const marketIds = new Set<string>();
-        if (response.data && Array.isArray(response.data)) {
-            response.data.forEach((trade: any) => {
+        if (activities && Array.isArray(activities)) {
+            activities.forEach((trade: any) => {
                 if (trade.market || trade.slug) {
                     marketIds.add(trade.market || trade.slug);
                 }
@@ -278,21 +268,11 @@ async function discoverTradersFromRandomActivities(): Promise<Set<string>> {
 
         let allMarkets: any[] = [];
         try {
-            const marketResponse = await axios.get(
-                `https://gamma-api.polymarket.com/markets?limit=${MAX_MARKETS_TO_SCAN}&closed=false`,
-                {
-                    timeout: 15000,
-                    headers: {
-                        'User-Agent':
-                            'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
-                    },
-                }
-            );
-
-            if (marketResponse.data && Array.isArray(marketResponse.data)) {
-                allMarkets = marketResponse.data;
-                console.log(c.green(`  ✅ Found ${allMarkets.length} active markets\n`));
-            }
+            allMarkets = await polymarketApi.getMarkets({
+                limit: MAX_MARKETS_TO_SCAN,
+                closed: false,
+            });
+            console.log(c.green(`  ✅ Found ${allMarkets.length} active markets\n`));
         } catch (e) {
             console.log(c.yellow('  ⚠️  Could not fetch markets, using seed traders instead\n'));
         }
@@ -428,17 +408,14 @@ async function fetchTraderActivityBatch(
     sinceTimestamp: number
 ): Promise<Trade[]> {
     try {
-        const response = await axios.get(
-            `https://data-api.polymarket.com/activity?user=${traderAddress}&type=TRADE&limit=${limit}&offset=${offset}`,
-            {
-                timeout: 10000,
-                headers: {
-                    'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
-                },
-            }
-        );
+        const activities = await polymarketApi.getActivity({
+            user: traderAddress,
+            type: 'TRADE',
+            limit,
+            offset,
+        });
 
-        const trades: Trade[] = response.data.map((item: any) => ({
+        const trades: Trade[] = activities.map((item: any) => ({
             id: item.id,
             timestamp: item.timestamp,
             market: item.slug || item.market,
@@ -510,16 +487,7 @@ async function fetchTraderActivity(traderAddress: string): Promise<Trade[]> {
 
 async function fetchTraderPositions(traderAddress: string): Promise<Position[]> {
     try {
-        const response = await axios.get(
-            `https://data-api.polymarket.com/positions?user=${traderAddress}`,
-            {
-                timeout: 10000,
-                headers: {
-                    'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
-                },
-            }
-        );
-        return response.data;
+        return await polymarketApi.getPositions({ user: traderAddress });
     } catch (error) {
         return [];
     }
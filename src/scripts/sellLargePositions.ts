@@ -2,7 +2,7 @@ import { ethers } from 'ethers';
 import { AssetType, ClobClient, OrderType, Side } from '@polymarket/clob-client';
 import { SignatureType } from '@polymarket/order-utils';
 import { ENV } from '../config/env';
-import fetchData from '../utils/fetchData';
+import polymarketApi from '../utils/polymarketApi';
 
 const PROXY_WALLET = ENV.PROXY_WALLET;
 const PRIVATE_KEY = ENV.PRIVATE_KEY;
@@ -252,9 +252,7 @@ async function main() {
 
         // Получаем все позиции
         console.log('📥 Fetching positions...');
-        const positions: Position[] = await fetchData(
-            `https://data-api.polymarket.com/positions?user=${PROXY_WALLET}`
-        );
+        const positions: Position[] = await polymarketApi.getPositions({ user: PROXY_WALLET });
         console.log(`Found ${positions.length} position(s)\n`);
 
         // Фильтруем большие позиции
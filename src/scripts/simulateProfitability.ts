@@ -1,5 +1,6 @@
-import axios from 'axios';
 import { ENV } from '../config/env';
+import { DataApiPosition } from '../interfaces/Polymarket';
+import polymarketApi from '../utils/polymarketApi';
 import getMyBalance from '../utils/getMyBalance';
 
 // Simple console colors without chalk
@@ -25,20 +26,6 @@ interface Trade {
     outcome: string;
 }
 
-interface Position {
-    conditionId: string;
-    market: string;
-    outcome: string;
-    outcomeIndex: number;
-    asset: string;
-    size: number;
-    cost: number;
-    avgEntryPrice: number;
-    currentValue: number;
-    realizedPnl: number;
-    unrealizedPnl: number;
-}
-
 interface SimulationResult {
     id: string;
     name: string;
@@ -106,17 +93,14 @@ const MAX_TRADES_LIMIT = (() => {
 })(); // Ограничение на количество трейдов для быстрого тестирования
 
 async function fetchBatch(offset: number, limit: number, sinceTimestamp: number): Promise<Trade[]> {
-    const response = await axios.get(
-        `https://data-api.polymarket.com/activity?user=${TRADER_ADDRESS}&type=TRADE&limit=${limit}&offset=${offset}`,
-        {
-            timeout: 10000,
-            headers: {
-                'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
-            },
-        }
-    );
+    const activities = await polymarketApi.getActivity({
+        user: TRADER_ADDRESS,
+        type: 'TRADE',
+        limit,
+        offset,
+    });
 
-    const trades: Trade[] = response.data.map((item: any) => ({
+    const trades: Trade[] = activities.map((item: any) => ({
         id: item.id,
         timestamp: item.timestamp,
         market: item.slug || item.market,
@@ -238,21 +222,13 @@ async function fetchTraderActivity(): Promise<Trade[]> {
     }
 }
 
-async function fetchTraderPositions(): Promise<Position[]> {
+async function fetchTraderPositions(): Promise<DataApiPosition[]> {
     try {
         console.log(colors.cyan('📈 Fetching trader positions...'));
-        const response = await axios.get(
-            `https://data-api.polymarket.com/positions?user=${TRADER_ADDRESS}`,
-            {
-                timeout: 10000,
-                headers: {
-                    'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
-                },
-            }
-        );
+        const positions = await polymarketApi.getPositions({ user: TRADER_ADDRESS });
 
-        console.log(colors.green(`✓ Fetched ${response.data.length} positions`));
-        return response.data;
+        console.log(colors.green(`✓ Fetched ${positions.length} positions`));
+        return positions;
     } catch (error) {
         console.error(colors.red('Error fetching positions:'), error);
         throw error;
@@ -3,7 +3,9 @@ import express from 'express';
 import path from 'path';
 import Logger from '../utils/logger';
 import { getSnapshot, subscribeToState, AppStateSnapshot } from '../services/appState';
+import { METRICS_CONTENT_TYPE, registry } from '../services/metrics';
 import watchlistManager from '../services/watchlistManager';
+import { parseTraderSettings } from '../config/traderSettings';
 
 export interface AppServerHandle {
     port: number;
@@ -22,6 +24,7 @@ export const startAppServer = async (): Promise<AppServerHandle> => {
             endpoints: [
                 '/health',
                 '/state',
+                '/metrics',
                 '/events',
                 '/dashboard',
                 '/watchlist',
@@ -29,6 +32,8 @@ export const startAppServer = async (): Promise<AppServerHandle> => {
                 '/watchlist/remove',
                 '/watchlist/toggle',
                 '/watchlist/alias',
+                '/watchlist/settings',
+                '/watchlist/settings/reset',
             ],
         });
     });
@@ -38,6 +43,8 @@ export const startAppServer = async (): Promise<AppServerHandle> => {
         res.json({
             ok: snapshot.running,
             status: snapshot.status,
+            detectionLatency: snapshot.detectionLatency,
+            risk: snapshot.risk,
             updatedAt: snapshot.updatedAt,
         });
     });
@@ -46,6 +53,10 @@ export const startAppServer = async (): Promise<AppServerHandle> => {
         res.json(getSnapshot());
     });
 
+    app.get('/metrics', async (_req, res) => {
+        res.type(METRICS_CONTENT_TYPE).send(await registry.render());
+    });
+
     app.get('/dashboard', (_req, res) => {
         res.sendFile(path.join(process.cwd(), 'public', 'dashboard.html'));
     });
@@ -146,6 +157,57 @@ export const startAppServer = async (): Promise<AppServerHandle> => {
         }
     });
 
+    app.post('/watchlist/settings', (req, res) => {
+        const { address, ...input } = req.body;
+
+        if (!address) {
+            res.status(400).json({ ok: false, error: 'Address is required' });
+            return;
+        }
+
+        const entry = watchlistManager.getAddress(address);
+        if (!entry) {
+            res.status(404).json({ ok: false, error: 'Address not found in watchlist' });
+            return;
+        }
+
+        const { settings, errors: parseErrors } = parseTraderSettings(input);
+        const errors =
+            parseErrors.length > 0
+                ? parseErrors
+                : watchlistManager.updateSettings(entry.address, settings);
+        if (errors.length > 0) {
+            res.status(400).json({ ok: false, error: errors.join('; '), errors });
+            return;
+        }
+
+        res.json({
+            ok: true,
+            message: `Updated settings for ${entry.alias || entry.address}`,
+            settings: watchlistManager.getSettings(entry.address),
+        });
+    });
+
+    app.post('/watchlist/settings/reset', (req, res) => {
+        const { address } = req.body;
+
+        if (!address) {
+            res.status(400).json({ ok: false, error: 'Address is required' });
+            return;
+        }
+
+        const success = watchlistManager.resetSettings(address);
+        if (success) {
+            res.json({
+                ok: true,
+                message: `Reset settings for ${address}`,
+                watchlist: watchlistManager.getAllAddresses(),
+            });
+        } else {
+            res.status(404).json({ ok: false, error: 'Address not found in watchlist' });
+        }
+    });
+
     app.get('/events', (req, res) => {
         res.setHeader('Content-Type', 'text/event-stream');
         res.setHeader('Cache-Control', 'no-cache');
@@ -0,0 +1,98 @@
+/**
+ * Tests for pricing resolved positions and retrying failed redemption sends
+ */
+jest.mock('../../config/env', () => ({
+    ENV: {
+        COPY_STRATEGY_CONFIG: {},
+        AUTO_REDEEM_INTERVAL_SECONDS: 60,
+        AUTO_REDEEM_BATCH_SIZE: 10,
+        RETRY_LIMIT: 3,
+    },
+}));
+jest.mock('../../utils/logger', () => ({
+    __esModule: true,
+    default: { info: jest.fn(), warning: jest.fn(), error: jest.fn() },
+}));
+jest.mock('../watcherPnLTracker', () => ({ __esModule: true, default: {} }));
+
+import { ethers } from 'ethers';
+import { DataApiPosition } from '../../interfaces/Polymarket';
+import { buildRedeemCandidate, classifySendError, getReceiptPayoutUSD } from '../autoRedeemer';
+
+const position = (overrides: Partial<DataApiPosition>): DataApiPosition =>
+    ({
+        conditionId: '0xcond',
+        title: 'Bitcoin Up or Down',
+        size: 100,
+        avgPrice: 0.4,
+        initialValue: 40,
+        outcomeIndex: 0,
+        ...overrides,
+    }) as DataApiPosition;
+
+describe('buildRedeemCandidate', () => {
+    it('should pay each outcome at its reported payout', () => {
+        const candidate = buildRedeemCandidate(
+            [position({}), position({ outcomeIndex: 1, size: 50, initialValue: 30 })],
+            [1, 0]
+        );
+
+        expect(candidate.conditionId).toBe('0xcond');
+        expect(candidate.payoutUSD).toBe(100);
+        expect(candidate.costBasisUSD).toBe(70);
+    });
+
+    it('should handle split payouts', () => {
+        expect(buildRedeemCandidate([position({})], [0.5, 0.5]).payoutUSD).toBe(50);
+    });
+});
+
+describe('classifySendError', () => {
+    it('should recognise nonce errors by code or message', () => {
+        expect(classifySendError({ code: 'NONCE_EXPIRED' })).toBe('nonce');
+        expect(classifySendError(new Error('nonce too low'))).toBe('nonce');
+    });
+
+    it('should recognise underpriced errors', () => {
+        expect(classifySendError({ code: 'REPLACEMENT_UNDERPRICED' })).toBe('underpriced');
+        expect(
+            classifySendError({ error: { message: 'transaction underpriced' }, message: '' })
+        ).toBe('underpriced');
+    });
+
+    it('should not retry anything else', () => {
+        expect(classifySendError(new Error('execution reverted'))).toBe('other');
+    });
+});
+
+describe('getReceiptPayoutUSD', () => {
+    const usdc = '0x2791Bca1f2de4661ED88A30C99A7a9449Aa84174';
+    const wallet = '0x1111111111111111111111111111111111111111';
+    const other = '0x2222222222222222222222222222222222222222';
+    const transfer = new ethers.utils.Interface([
+        'event Transfer(address indexed from, address indexed to, uint256 value)',
+    ]);
+    const transferLog = (address: string, to: string, value: number) => ({
+        address,
+        ...transfer.encodeEventLog(transfer.getEvent('Transfer'), [other, to, value]),
+    });
+
+    it('should sum the USDC transferred to the wallet', () => {
+        const receipt = {
+            logs: [
+                transferLog(usdc, wallet, 12_500_000),
+                transferLog(usdc, wallet, 500_000),
+                transferLog(usdc, other, 99_000_000),
+                transferLog(other, wallet, 99_000_000),
+            ],
+        } as unknown as ethers.ContractReceipt;
+
+        expect(getReceiptPayoutUSD(receipt, usdc, wallet)).toBe(13);
+    });
+
+    it('should book nothing when the redemption paid nothing to the wallet', () => {
+        const receipt = { logs: [] } as unknown as ethers.ContractReceipt;
+
+        expect(getReceiptPayoutUSD(receipt, usdc, wallet)).toBe(0);
+    });
+});
@@ -0,0 +1,152 @@
+/**
+ * Tests for replaying leader history through the copy sizing
+ */
+jest.mock('../../config/env', () => ({
+    ENV: { COPY_STRATEGY_CONFIG: {} },
+}));
+
+import { CopyStrategy } from '../../config/copyStrategy';
+import {
+    BacktestOptions,
+    BacktestTrade,
+    buildSimulatedBook,
+    estimateSellFill,
+    getResolutionPayouts,
+    MarketResolution,
+    runBacktest,
+} from '../backtester';
+import { GammaMarket } from '../../interfaces/Polymarket';
+
+const TRADER = '0xleader';
+
+const trade = (overrides: Partial<BacktestTrade>): BacktestTrade => ({
+    trader: TRADER,
+    timestamp: 100,
+    conditionId: 'cond',
+    type: 'TRADE',
+    asset: 'yes',
+    side: 'BUY',
+    price: 0.5,
+    size: 400,
+    usdcSize: 200,
+    slug: 'will-it-rain',
+    eventSlug: 'will-it-rain',
+    title: 'Will it rain?',
+    outcome: 'Yes',
+    ...overrides,
+});
+
+const options: BacktestOptions = {
+    startingCapital: 1000,
+    copyConfig: {
+        strategy: CopyStrategy.PERCENTAGE,
+        copySize: 10.0,
+        maxOrderSizeUSD: 100.0,
+        minOrderSizeUSD: 1.0,
+    },
+    slippageLimits: {},
+    fillModel: { halfSpreadCents: 1, levelSizeUSD: 1000, levels: 3, tickCents: 1 },
+    feeBps: 100,
+};
+
+describe('simulated order book', () => {
+    it('should place levels around the trader price', () => {
+        const { asks, bids } = buildSimulatedBook(0.5, options.fillModel);
+        expect(asks.map((l) => l.price)).toEqual([0.51, 0.52, 0.53]);
+        expect(bids.map((l) => l.price)).toEqual([0.49, 0.48, 0.47]);
+        expect(asks[0].size * asks[0].price).toBeCloseTo(1000);
+    });
+
+    it('should sell into the best bids first and stop when the book runs out', () => {
+        const bids = [
+            { price: 0.48, size: 10 },
+            { price: 0.49, size: 5 },
+        ];
+        expect(estimateSellFill(bids, 8)).toEqual({
+            filledTokens: 8,
+            proceedsUSD: 5 * 0.49 + 3 * 0.48,
+        });
+        expect(estimateSellFill(bids, 20).filledTokens).toBe(15);
+    });
+});
+
+describe('getResolutionPayouts', () => {
+    it('should pay out the winning outcome of closed markets only', () => {
+        const payouts = getResolutionPayouts([
+            {
+                closed: true,
+                clobTokenIds: '["yes","no"]',
+                outcomePrices: '["0","1"]',
+                endDate: '2025-01-01T00:00:00Z',
+            },
+            { closed: false, clobTokenIds: '["open"]', outcomePrices: '["0.5"]' },
+        ] as unknown as GammaMarket[]);
+
+        expect(payouts.get('yes')).toEqual({ payout: 0, resolvedAt: 1735689600 });
+        expect(payouts.get('no')?.payout).toBe(1);
+        expect(payouts.has('open')).toBe(false);
+    });
+});
+
+describe('runBacktest', () => {
+    it('should size BUYs with the copy strategy and settle them at the outcome', () => {
+        const resolutions = new Map<string, MarketResolution>([
+            ['yes', { payout: 1, resolvedAt: 200 }],
+        ]);
+        const result = runBacktest([trade({})], resolutions, options);
+
+        // 10% of $200 filled at the 0.51 ask, plus 1% fee
+        const tokens = 20 / 0.51;
+        expect(result.copiedTrades).toBe(1);
+        expect(result.feesUSD).toBeCloseTo(0.2);
+        expect(result.finalEquity).toBeCloseTo(1000 - 20 - 0.2 + tokens);
+        expect(result.openPositions).toBe(0);
+        expect(result.traders[TRADER].volumeUSD).toBeCloseTo(20);
+        expect(result.traders[TRADER].totalPnl).toBeCloseTo(tokens - 20 - 0.2);
+    });
+
+    it('should sell the same share of the position the trader sold', () => {
+        const result = runBacktest(
+            [
+                trade({}),
+                trade({ timestamp: 150, side: 'SELL', price: 0.6, size: 200, usdcSize: 120 }),
+            ],
+            new Map(),
+            { ...options, feeBps: 0 }
+        );
+
+        const sold = 20 / 0.51 / 2;
+        expect(result.copiedTrades).toBe(2);
+        expect(result.openPositions).toBe(1);
+        expect(result.traders[TRADER].realizedPnl).toBeCloseTo(sold * 0.59 - 10);
+        // The rest is marked at the last traded price
+        expect(result.traders[TRADER].unrealizedPnl).toBeCloseTo(sold * 0.6 - 10);
+    });
+
+    it('should track drawdown along the equity curve', () => {
+        const resolutions = new Map<string, MarketResolution>([
+            ['yes', { payout: 0, resolvedAt: 200 }],
+        ]);
+        const result = runBacktest(
+            [trade({}), trade({ timestamp: 300, asset: 'other' })],
+            resolutions,
+            { ...options, feeBps: 0, fillModel: { ...options.fillModel, halfSpreadCents: 0 } }
+        );
+
+        expect(result.equityCurve[result.equityCurve.length - 1].equity).toBeCloseTo(980);
+        expect(result.maxDrawdownUSD).toBeCloseTo(20);
+        expect(result.maxDrawdownPercent).toBeCloseTo(2);
+        expect(result.totalPnl).toBeCloseTo(-20);
+    });
+
+    it('should skip BUYs into markets that have already resolved', () => {
+        const resolutions = new Map<string, MarketResolution>([
+            ['yes', { payout: 1, resolvedAt: 50 }],
+        ]);
+        const result = runBacktest([trade({})], resolutions, options);
+
+        expect(result.copiedTrades).toBe(0);
+        expect(result.skipReasons).toEqual({ 'market already resolved': 1 });
+        expect(result.finalEquity).toBe(1000);
+    });
+});
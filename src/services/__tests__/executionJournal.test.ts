@@ -0,0 +1,190 @@
+/**
+ * Tests for execution journal recording and reconciliation after a crash
+ */
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+const mockIntentModel = {
+    find: jest.fn(),
+    updateOne: jest.fn(),
+};
+let mockJournal: unknown = mockIntentModel;
+const mockActivityModel = {
+    updateOne: jest.fn(),
+    updateMany: jest.fn(),
+};
+
+jest.mock('../../config/env', () => ({ ENV: { STORAGE_BACKEND: 'file', STORAGE_DIR: '' } }));
+jest.mock('../../models/executionJournal', () => ({
+    __esModule: true,
+    default: () => mockJournal,
+}));
+jest.mock('../../models/userHistory', () => ({
+    getUserActivityModel: () => mockActivityModel,
+}));
+jest.mock('../../utils/logger', () => ({
+    __esModule: true,
+    default: { info: jest.fn(), warning: jest.fn(), error: jest.fn() },
+}));
+
+import { ClobClient, Trade } from '@polymarket/clob-client';
+import { ExecutionIntent, JournalOrder } from '../../models/executionJournal';
+import { FileHistoryCollection } from '../../models/historyStore';
+import {
+    completeIntent,
+    matchOrderFill,
+    openIntent,
+    reconcileExecutionJournal,
+    recordOrderAttempt,
+    recordOrderPlaced,
+    recordOrderResult,
+} from '../executionJournal';
+
+const POSTED_AT = 1_700_000_000_000;
+
+const order = (overrides: Partial<JournalOrder> = {}): JournalOrder => ({
+    side: 'BUY',
+    tokenID: 'token-1',
+    amount: 10,
+    price: 0.5,
+    status: 'POSTING',
+    postedAt: POSTED_AT,
+    ...overrides,
+});
+
+const trade = (overrides: Partial<Trade> = {}): Trade =>
+    ({
+        id: 't1',
+        asset_id: 'token-1',
+        side: 'BUY',
+        size: '20',
+        price: '0.5',
+        match_time: String(POSTED_AT / 1000 + 1),
+        trader_side: 'TAKER',
+        ...overrides,
+    }) as Trade;
+
+const intent = (orders: JournalOrder[]) => ({
+    intentId: '0xtrader:abc',
+    traderAddress: '0xtrader',
+    tradeIds: ['abc'],
+    asset: 'token-1',
+    side: 'BUY',
+    condition: 'buy',
+    orders,
+    status: 'OPEN',
+});
+
+const mockOpenIntents = (intents: unknown[]) => {
+    mockIntentModel.find.mockResolvedValue(intents);
+};
+
+describe('matchOrderFill', () => {
+    it('should match our taker fill on the same token and side', () => {
+        const fill = matchOrderFill(order(), [trade()], new Set());
+        expect(fill?.id).toBe('t1');
+    });
+
+    it('should ignore fills before the order, on the other side, or already attributed', () => {
+        const trades = [
+            trade({ id: 'early', match_time: String(POSTED_AT / 1000 - 60) }),
+            trade({ id: 'sell', side: 'SELL' as Trade['side'] }),
+            trade({ id: 'maker', trader_side: 'MAKER' }),
+            trade({ id: 'used' }),
+        ];
+        expect(matchOrderFill(order(), trades, new Set(['used']))).toBeUndefined();
+    });
+});
+
+describe('journal on the file backend', () => {
+    let dir: string;
+    let filePath: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'journal-'));
+        filePath = path.join(dir, 'execution_journal.jsonl');
+        mockJournal = new FileHistoryCollection<ExecutionIntent>(filePath);
+    });
+
+    afterEach(() => {
+        mockJournal = mockIntentModel;
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should record each order and its result across a restart', async () => {
+        await openIntent({
+            intentId: '0xtrader:abc',
+            traderAddress: '0xtrader',
+            tradeIds: ['abc'],
+            asset: 'token-1',
+            side: 'BUY',
+            condition: 'buy',
+        });
+        const args = { side: 'BUY', tokenID: 'token-1', amount: 10, price: 0.5 };
+        const first = await recordOrderAttempt('0xtrader:abc', args);
+        await recordOrderResult('0xtrader:abc', first, { success: true, filledTokens: 20 });
+        const second = await recordOrderAttempt('0xtrader:abc', args);
+        await recordOrderPlaced('0xtrader:abc', second, 'order-2');
+        await recordOrderResult('0xtrader:abc', second, { success: false, error: 'expired' });
+        await completeIntent('0xtrader:abc');
+
+        const [saved] = await new FileHistoryCollection<ExecutionIntent>(filePath).find();
+        expect(saved.status).toBe('COMPLETED');
+        expect(saved.orders).toEqual([
+            expect.objectContaining({ status: 'FILLED', filledTokens: 20 }),
+            expect.objectContaining({ status: 'REJECTED', orderId: 'order-2', error: 'expired' }),
+        ]);
+    });
+});
+
+describe('reconcileExecutionJournal', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    it('should mark the trade done when an in-flight order filled', async () => {
+        mockOpenIntents([intent([order()])]);
+        const clobClient = {
+            getTrades: jest.fn().mockResolvedValue([trade()]),
+        } as unknown as ClobClient;
+
+        await reconcileExecutionJournal(clobClient);
+
+        expect(mockActivityModel.updateOne).toHaveBeenCalledWith(
+            { _id: 'abc' },
+            { $set: { bot: true, myBoughtSize: 20 } }
+        );
+        expect(mockIntentModel.updateOne).toHaveBeenCalledWith(
+            { intentId: '0xtrader:abc' },
+            { $set: expect.objectContaining({ status: 'RECONCILED' }) }
+        );
+    });
+
+    it('should release the trade for retry when nothing filled', async () => {
+        mockOpenIntents([intent([order({ orderId: 'order-1' })])]);
+        const clobClient = {
+            getOrder: jest.fn().mockResolvedValue({ size_matched: '0' }),
+        } as unknown as ClobClient;
+
+        await reconcileExecutionJournal(clobClient);
+
+        expect(mockActivityModel.updateMany).toHaveBeenCalledWith(
+            { _id: { $in: ['abc'] }, bot: false },
+            { $set: { botExcutedTime: 0 } }
+        );
+        expect(mockActivityModel.updateOne).not.toHaveBeenCalled();
+    });
+
+    it('should leave the intent open when the CLOB cannot be checked', async () => {
+        mockOpenIntents([intent([order()])]);
+        const clobClient = {
+            getTrades: jest.fn().mockRejectedValue(new Error('network down')),
+        } as unknown as ClobClient;
+
+        await reconcileExecutionJournal(clobClient);
+
+        expect(mockActivityModel.updateMany).not.toHaveBeenCalled();
+        expect(mockIntentModel.updateOne).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,53 @@
+/**
+ * Tests for the Prometheus text exposition of counters, gauges and histograms
+ */
+import { MetricsRegistry } from '../metrics';
+
+describe('MetricsRegistry', () => {
+    it('should render counters per label set with HELP and TYPE lines', async () => {
+        const registry = new MetricsRegistry();
+        const skipped = registry.counter('skipped_total', 'Trades skipped');
+        skipped.inc({ reason: 'slippage' });
+        skipped.inc({ reason: 'slippage' });
+        skipped.inc({ reason: 'late' }, 3);
+
+        expect(await registry.render()).toBe(
+            [
+                '# HELP skipped_total Trades skipped',
+                '# TYPE skipped_total counter',
+                'skipped_total{reason="slippage"} 2',
+                'skipped_total{reason="late"} 3',
+                '',
+            ].join('\n')
+        );
+    });
+
+    it('should render cumulative histogram buckets with sum and count', async () => {
+        const registry = new MetricsRegistry();
+        const latency = registry.histogram('latency_seconds', 'Latency', [0.1, 1]);
+        latency.observe(0.05, { side: 'BUY' });
+        latency.observe(0.5, { side: 'BUY' });
+        latency.observe(2, { side: 'BUY' });
+
+        const lines = (await registry.render()).split('\n');
+        expect(lines).toEqual(
+            expect.arrayContaining([
+                'latency_seconds_bucket{side="BUY",le="0.1"} 1',
+                'latency_seconds_bucket{side="BUY",le="1"} 2',
+                'latency_seconds_bucket{side="BUY",le="+Inf"} 3',
+                'latency_seconds_sum{side="BUY"} 2.55',
+                'latency_seconds_count{side="BUY"} 3',
+            ])
+        );
+    });
+
+    it('should escape label values and refresh gauges from collectors', async () => {
+        const registry = new MetricsRegistry();
+        const gauge = registry.gauge('exposure_usd', 'Exposure');
+        registry.addCollector(() => gauge.set(12.5, { category: 'a "quoted"\\name' }));
+
+        expect(await registry.render()).toContain(
+            'exposure_usd{category="a \\"quoted\\"\\\\name"} 12.5'
+        );
+    });
+});
@@ -0,0 +1,177 @@
+/**
+ * Tests for notification sinks (against a local HTTP stand-in), rate limiting and dedupe
+ */
+import * as http from 'http';
+import { AddressInfo } from 'net';
+
+jest.mock('../../config/env', () => ({
+    ENV: { NOTIFY_TIMEOUT_MS: 2000, NOTIFY_EVENTS: [] },
+}));
+jest.mock('../../utils/logger', () => ({
+    __esModule: true,
+    default: { info: jest.fn(), warning: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+import Logger from '../../utils/logger';
+import {
+    DiscordSink,
+    Notification,
+    NotificationSink,
+    Notifier,
+    TelegramSink,
+    WebhookSink,
+} from '../notifier';
+
+interface ReceivedRequest {
+    path: string;
+    body: Record<string, unknown>;
+}
+
+const notification: Notification = {
+    event: 'order_failed',
+    severity: 'critical',
+    title: 'BUY order rejected',
+    message: 'not enough balance / allowance',
+    fields: { Token: '123' },
+};
+
+const recordingSink = (): NotificationSink & { sent: Notification[] } => {
+    const sent: Notification[] = [];
+    return {
+        name: 'recording',
+        sent,
+        send: async (n) => {
+            sent.push(n);
+        },
+    };
+};
+
+describe('notification sinks', () => {
+    let server: http.Server;
+    let baseUrl: string;
+    let received: ReceivedRequest[];
+
+    beforeAll(async () => {
+        server = http.createServer((req, res) => {
+            let data = '';
+            req.on('data', (chunk) => (data += chunk));
+            req.on('end', () => {
+                received.push({ path: req.url || '', body: JSON.parse(data) });
+                res.writeHead(req.url === '/down' ? 500 : 200, {
+                    'Content-Type': 'application/json',
+                });
+                res.end('{"ok":true}');
+            });
+        });
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+        await new Promise((resolve) => server.close(resolve));
+    });
+
+    beforeEach(() => {
+        received = [];
+    });
+
+    it('should post the notification as JSON to a webhook', async () => {
+        await new WebhookSink(`${baseUrl}/hook`).send(notification);
+
+        expect(received).toHaveLength(1);
+        expect(received[0].path).toBe('/hook');
+        expect(received[0].body).toMatchObject({
+            event: 'order_failed',
+            severity: 'critical',
+            title: 'BUY order rejected',
+            fields: { Token: '123' },
+        });
+    });
+
+    it('should call Telegram sendMessage with the chat ID and a text rendering', async () => {
+        await new TelegramSink('TOKEN', '42', `${baseUrl}/`).send(notification);
+
+        expect(received[0].path).toBe('/botTOKEN/sendMessage');
+        expect(received[0].body.chat_id).toBe('42');
+        expect(received[0].body.text).toBe(
+            '🚨 BUY order rejected\nnot enough balance / allowance\nToken: 123'
+        );
+    });
+
+    it('should post a Discord embed with the fields', async () => {
+        await new DiscordSink(`${baseUrl}/discord`).send(notification);
+
+        const [embed] = received[0].body.embeds as Record<string, unknown>[];
+        expect(embed).toMatchObject({
+            title: '🚨 BUY order rejected',
+            description: 'not enough balance / allowance',
+            fields: [{ name: 'Token', value: '123', inline: true }],
+        });
+    });
+
+    it('should deliver to healthy sinks and log, not throw, when one fails', async () => {
+        const notifier = new Notifier([
+            new WebhookSink(`${baseUrl}/down`),
+            new WebhookSink(`${baseUrl}/up`),
+        ]);
+
+        await expect(notifier.notify(notification)).resolves.toBeUndefined();
+        expect(received.map((r) => r.path).sort()).toEqual(['/down', '/up']);
+        expect(Logger.warning).toHaveBeenCalledWith(expect.stringContaining('to webhook'));
+    });
+});
+
+describe('Notifier', () => {
+    let now: number;
+    const clock = () => now;
+
+    beforeEach(() => {
+        now = 1_000_000;
+    });
+
+    it('should drop a repeat of the same alert within the dedupe window', async () => {
+        const sink = recordingSink();
+        const notifier = new Notifier([sink], { dedupeSeconds: 60 }, clock);
+
+        await notifier.notify(notification);
+        await notifier.notify(notification);
+        await notifier.notify({ ...notification, message: 'another error' });
+        now += 60_000;
+        await notifier.notify(notification);
+
+        expect(sink.sent.map((n) => n.message)).toEqual([
+            notification.message,
+            'another error',
+            notification.message,
+        ]);
+    });
+
+    it('should rate limit each event type on its own rolling hour', async () => {
+        const sink = recordingSink();
+        const notifier = new Notifier([sink], { rateLimitPerHour: 2 }, clock);
+
+        for (let i = 0; i < 3; i++) {
+            await notifier.notify({ ...notification, dedupeKey: String(i) });
+        }
+        await notifier.notify({ ...notification, event: 'kill_switch' });
+        now += 60 * 60 * 1000;
+        await notifier.notify({ ...notification, dedupeKey: 'later' });
+
+        expect(sink.sent.map((n) => `${n.event}:${n.dedupeKey ?? ''}`)).toEqual([
+            'order_failed:0',
+            'order_failed:1',
+            'kill_switch:',
+            'order_failed:later',
+        ]);
+    });
+
+    it('should only send the configured events', async () => {
+        const sink = recordingSink();
+        const notifier = new Notifier([sink], { events: ['kill_switch'] }, clock);
+
+        await notifier.notify(notification);
+        await notifier.notify({ ...notification, event: 'kill_switch' });
+
+        expect(sink.sent.map((n) => n.event)).toEqual(['kill_switch']);
+    });
+});
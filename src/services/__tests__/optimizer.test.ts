@@ -0,0 +1,133 @@
+/**
+ * Tests for the copy strategy grid search and its walk-forward validation
+ */
+jest.mock('../../config/env', () => ({
+    ENV: { COPY_STRATEGY_CONFIG: {} },
+}));
+
+import { CopyStrategy, CopyStrategyConfig } from '../../config/copyStrategy';
+import { BacktestTrade, MarketResolution } from '../backtester';
+import {
+    buildWalkForwardWindows,
+    describeConfig,
+    expandSearchSpace,
+    parseSearchSpace,
+    pickWalkForward,
+    rankSweepResults,
+    runSweep,
+} from '../optimizer';
+
+const base: CopyStrategyConfig = {
+    strategy: CopyStrategy.PERCENTAGE,
+    copySize: 10.0,
+    maxOrderSizeUSD: 100.0,
+    minOrderSizeUSD: 1.0,
+};
+
+const trade = (timestamp: number, asset: string): BacktestTrade => ({
+    trader: '0xleader',
+    timestamp,
+    conditionId: `cond-${asset}`,
+    type: 'TRADE',
+    asset,
+    side: 'BUY',
+    price: 0.5,
+    size: 400,
+    usdcSize: 200,
+    slug: asset,
+    eventSlug: asset,
+    title: asset,
+    outcome: 'Yes',
+});
+
+describe('search space', () => {
+    it('should expand every combination and drop invalid configs', () => {
+        const configs = expandSearchSpace(base, {
+            copySize: [5, 150],
+            maxOrderSizeUSD: [0.5, 50],
+        });
+
+        // copySize 150 is over 100% and a $0.50 cap is below the $1 minimum
+        expect(configs).toEqual([{ ...base, copySize: 5, maxOrderSizeUSD: 50 }]);
+    });
+
+    it('should parse tiers given as TIERED_MULTIPLIERS strings', () => {
+        const space = parseSearchSpace({ tieredMultipliers: ['1-100:2.0,100+:1.0'] });
+        const [config] = expandSearchSpace(base, space);
+
+        expect(config.tieredMultipliers).toEqual([
+            { min: 1, max: 100, multiplier: 2.0 },
+            { min: 100, max: null, multiplier: 1.0 },
+        ]);
+        expect(describeConfig(config, space)).toBe('tieredMultipliers=1-100:2,100+:1');
+    });
+
+    it('should reject unknown strategies and empty value lists', () => {
+        expect(() => parseSearchSpace({ strategy: ['MARTINGALE'] })).toThrow('MARTINGALE');
+        expect(() => parseSearchSpace({ copySize: [] })).toThrow('copySize');
+    });
+});
+
+describe('buildWalkForwardWindows', () => {
+    it('should anchor training at the start and test on the next segment', () => {
+        const windows = buildWalkForwardWindows([trade(0, 'a'), trade(299, 'b')], 2);
+
+        expect(windows).toEqual([
+            { trainStart: 0, trainEnd: 100, testEnd: 200 },
+            { trainStart: 0, trainEnd: 200, testEnd: 300 },
+        ]);
+    });
+});
+
+describe('runSweep', () => {
+    // A winner in the first half of the history and a loser in the second
+    const trades = [trade(0, 'win'), trade(50, 'win'), trade(100, 'lose'), trade(150, 'lose')];
+    const resolutions = new Map<string, MarketResolution>([
+        ['win', { payout: 1 }],
+        ['lose', { payout: 0 }],
+    ]);
+    const job = {
+        configs: expandSearchSpace(base, { copySize: [5, 20] }),
+        trades,
+        resolutions,
+        windows: buildWalkForwardWindows(trades, 1),
+        options: {
+            startingCapital: 1000,
+            slippageLimits: {},
+            fillModel: { halfSpreadCents: 0, levelSizeUSD: 1000, levels: 1, tickCents: 1 },
+            feeBps: 0,
+        },
+    };
+
+    it('should score each config in and out of sample', async () => {
+        const results = rankSweepResults(await runSweep(job, 1));
+
+        // Copying less loses less on the losing test segment
+        expect(results.map((r) => r.config.copySize)).toEqual([5, 20]);
+        expect(results[0].outOfSample.roiPercent).toBeCloseTo(-2);
+        expect(results[1].inSample.roiPercent).toBeCloseTo(8);
+        expect(results[1].full.copiedTrades).toBe(4);
+    });
+
+    it('should report how the best in-sample config did out of sample', async () => {
+        const picks = pickWalkForward(await runSweep(job, 1));
+
+        expect(picks).toHaveLength(1);
+        expect(picks[0].config.copySize).toBe(20);
+        expect(picks[0].inSampleRoi).toBeCloseTo(8);
+        expect(picks[0].outOfSampleRoi).toBeCloseTo(-8);
+    });
+
+    it('should rank the same results on worker threads as on this thread', async () => {
+        // Workers load the real config, outside the mock above
+        const savedEnv = { ...process.env };
+        Object.assign(process.env, { USER_ADDRESSES: '0xleader', TRACK_ONLY_MODE: 'true' });
+        try {
+            const threaded = rankSweepResults(await runSweep(job, 2));
+
+            expect(threaded).toEqual(rankSweepResults(await runSweep(job, 1)));
+        } finally {
+            process.env = savedEnv;
+        }
+    }, 120000);
+});
@@ -0,0 +1,124 @@
+/**
+ * Tests for the local order book kept from CLOB market-channel messages
+ */
+jest.mock('../../config/env', () => ({
+    ENV: { CLOB_WS_URL: 'ws://localhost:0', CLOB_WS_STALE_MS: 15000 },
+}));
+jest.mock('../../utils/logger', () => ({
+    __esModule: true,
+    default: { info: jest.fn(), warning: jest.fn(), error: jest.fn() },
+}));
+
+import { BookQuote, OrderBookFeed } from '../orderBookFeed';
+
+const ASSET = 'asset-up';
+
+const snapshot = (bids: [string, string][], asks: [string, string][], timestamp = 1000) =>
+    JSON.stringify({
+        event_type: 'book',
+        asset_id: ASSET,
+        timestamp: String(timestamp),
+        bids: bids.map(([price, size]) => ({ price, size })),
+        asks: asks.map(([price, size]) => ({ price, size })),
+    });
+
+const priceChange = (
+    change: { price: string; size: string; side: 'BUY' | 'SELL' },
+    extra: { best_bid?: string; best_ask?: string } = {},
+    timestamp = 2000
+) =>
+    JSON.stringify({
+        event_type: 'price_change',
+        timestamp: String(timestamp),
+        price_changes: [{ asset_id: ASSET, ...change, ...extra }],
+    });
+
+describe('OrderBookFeed', () => {
+    let feed: OrderBookFeed;
+    let quotes: BookQuote[];
+
+    beforeEach(() => {
+        feed = new OrderBookFeed('ws://localhost:0', 15000);
+        feed.setAssets([ASSET]);
+        quotes = [];
+        feed.onQuote((_assetId, quote) => quotes.push(quote));
+    });
+
+    afterEach(() => {
+        feed.stop();
+    });
+
+    it('should build best bid/ask from a book snapshot', () => {
+        feed.handleMessage(
+            snapshot(
+                [
+                    ['0.48', '100'],
+                    ['0.47', '50'],
+                ],
+                [
+                    ['0.52', '80'],
+                    ['0.55', '10'],
+                ]
+            )
+        );
+
+        expect(quotes).toHaveLength(1);
+        expect(quotes[0]).toMatchObject({ bestBid: 0.48, bestAsk: 0.52, mid: 0.5 });
+    });
+
+    it('should apply price changes and drop emptied levels', () => {
+        feed.handleMessage(
+            snapshot(
+                [['0.48', '100']],
+                [
+                    ['0.52', '80'],
+                    ['0.55', '10'],
+                ]
+            )
+        );
+        feed.handleMessage(priceChange({ price: '0.49', size: '20', side: 'BUY' }));
+        feed.handleMessage(priceChange({ price: '0.52', size: '0', side: 'SELL' }, {}, 3000));
+
+        expect(quotes[1]).toMatchObject({ bestBid: 0.49, bestAsk: 0.52 });
+        expect(quotes[2]).toMatchObject({ bestBid: 0.49, bestAsk: 0.55, mid: 0.52 });
+    });
+
+    it('should ignore updates that arrive before a snapshot', () => {
+        feed.handleMessage(priceChange({ price: '0.49', size: '20', side: 'BUY' }));
+
+        expect(quotes).toHaveLength(0);
+    });
+
+    it('should invalidate the book on a crossed book until the next snapshot', () => {
+        feed.handleMessage(snapshot([['0.48', '100']], [['0.52', '80']]));
+        feed.handleMessage(priceChange({ price: '0.60', size: '5', side: 'BUY' }));
+        feed.handleMessage(priceChange({ price: '0.47', size: '5', side: 'BUY' }, {}, 3000));
+        expect(quotes).toHaveLength(1);
+
+        feed.handleMessage(snapshot([['0.50', '10']], [['0.51', '10']], 4000));
+        expect(quotes[1]).toMatchObject({ bestBid: 0.5, bestAsk: 0.51 });
+    });
+
+    it('should detect a gap when the server best bid disagrees with the local book', () => {
+        feed.handleMessage(snapshot([['0.48', '100']], [['0.52', '80']]));
+        feed.handleMessage(
+            priceChange({ price: '0.47', size: '5', side: 'BUY' }, { best_bid: '0.49' })
+        );
+
+        expect(quotes).toHaveLength(1);
+    });
+
+    it('should ignore out-of-order updates', () => {
+        feed.handleMessage(snapshot([['0.48', '100']], [['0.52', '80']], 5000));
+        feed.handleMessage(priceChange({ price: '0.49', size: '5', side: 'BUY' }, {}, 4000));
+
+        expect(quotes).toHaveLength(1);
+    });
+
+    it('should not serve quotes while disconnected so callers fall back to REST', () => {
+        feed.handleMessage(snapshot([['0.48', '100']], [['0.52', '80']]));
+
+        expect(feed.getQuote(ASSET)).toBeNull();
+        expect(feed.getMidPrice(ASSET)).toBeNull();
+    });
+});
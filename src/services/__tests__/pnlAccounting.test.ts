@@ -0,0 +1,77 @@
+/**
+ * Tests for the fee, gas and rounding cost model behind net PnL
+ */
+jest.mock('../../config/env', () => ({
+    ENV: { COPY_STRATEGY_CONFIG: {} },
+}));
+
+import {
+    AccountingConfig,
+    addCosts,
+    emptyCosts,
+    getFillCosts,
+    getPnLBreakdown,
+    getRedemptionGas,
+    roundToLot,
+    roundToTick,
+} from '../pnlAccounting';
+
+const config: AccountingConfig = {
+    feeRateBps: 100,
+    fillGasUSD: 0.01,
+    redeemGasUSD: 0.05,
+    tickSize: 0.01,
+    lotSize: 0.01,
+};
+
+describe('rounding', () => {
+    it('should round BUYs up and SELLs down to the tick', () => {
+        expect(roundToTick(0.523, 0.01, 'BUY')).toBeCloseTo(0.53);
+        expect(roundToTick(0.523, 0.01, 'SELL')).toBeCloseTo(0.52);
+        // Already on the tick
+        expect(roundToTick(0.53, 0.01, 'BUY')).toBeCloseTo(0.53);
+        expect(roundToTick(0.523, 0, 'BUY')).toBe(0.523);
+    });
+
+    it('should fill whole lots only', () => {
+        expect(roundToLot(10.126, 0.01)).toBeCloseTo(10.12);
+        expect(roundToLot(10.126, 0)).toBe(10.126);
+    });
+});
+
+describe('getFillCosts', () => {
+    it('should charge fees on the cheaper side of the price, gas and rounding', () => {
+        const costs = getFillCosts('BUY', 100, 0.805, config);
+
+        // 1% × min(0.805, 0.195) × 100 shares
+        expect(costs.feesUSD).toBeCloseTo(0.195);
+        expect(costs.gasUSD).toBe(0.01);
+        // Half a cent on 100 shares
+        expect(costs.roundingUSD).toBeCloseTo(0.5);
+    });
+
+    it('should cost nothing for empty fills', () => {
+        expect(getFillCosts('SELL', 0, 0.5, config)).toEqual(emptyCosts());
+    });
+});
+
+describe('getPnLBreakdown', () => {
+    it('should take fees, gas, rounding and redemption gas off gross PnL', () => {
+        const costs = addCosts(
+            getFillCosts('BUY', 100, 0.5, config),
+            getFillCosts('SELL', 50, 0.6, config)
+        );
+        const breakdown = getPnLBreakdown(10, costs, getRedemptionGas(50, config));
+
+        expect(breakdown.grossPnl).toBe(10);
+        expect(breakdown.feesUSD).toBeCloseTo(0.5 + 0.2);
+        expect(breakdown.gasUSD).toBeCloseTo(0.02 + 0.05);
+        expect(breakdown.roundingUSD).toBeCloseTo(0);
+        expect(breakdown.netPnl).toBeCloseTo(10 - 0.7 - 0.07);
+    });
+
+    it('should only pay redemption gas when there is something to redeem', () => {
+        expect(getRedemptionGas(0, config)).toBe(0);
+        expect(getRedemptionGas(1, config)).toBe(0.05);
+    });
+});
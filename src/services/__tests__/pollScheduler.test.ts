@@ -0,0 +1,115 @@
+/**
+ * Tests for the adaptive, concurrency-bounded wallet poll scheduler
+ */
+jest.mock('../../config/env', () => ({
+    ENV: {
+        MONITOR_CONCURRENCY: 2,
+        POLL_HOT_INTERVAL_SECONDS: 0.5,
+        POLL_IDLE_INTERVAL_SECONDS: 5,
+        FETCH_INTERVAL: 1,
+    },
+}));
+
+import { PollScheduler } from '../pollScheduler';
+
+describe('PollScheduler', () => {
+    let now: number;
+    const options = {
+        concurrency: 2,
+        hotIntervalMs: 500,
+        idleIntervalMs: 5000,
+        initialIntervalMs: 1000,
+        backoffFactor: 2,
+        hotWindowMs: 60000,
+    };
+
+    beforeEach(() => {
+        now = 1_000_000;
+    });
+
+    it('should poll new wallets immediately and never exceed the concurrency limit', async () => {
+        const scheduler = new PollScheduler(options, () => now);
+        scheduler.setAddresses(['0xa', '0xb', '0xc', '0xd', '0xe']);
+
+        let inFlight = 0;
+        let maxInFlight = 0;
+        const polled: string[] = [];
+        await scheduler.runDue(async (address) => {
+            inFlight++;
+            maxInFlight = Math.max(maxInFlight, inFlight);
+            await new Promise((resolve) => setImmediate(resolve));
+            polled.push(address);
+            inFlight--;
+            return 0;
+        });
+
+        expect(polled.sort()).toEqual(['0xa', '0xb', '0xc', '0xd', '0xe']);
+        expect(maxInFlight).toBe(2);
+        expect(scheduler.getDueAddresses()).toEqual([]);
+    });
+
+    it('should poll active wallets at the hot interval and back off idle ones', async () => {
+        const scheduler = new PollScheduler(options, () => now);
+        scheduler.setAddresses(['0xhot', '0xidle']);
+
+        await scheduler.runDue(async (address) => (address === '0xhot' ? 1 : 0));
+        expect(scheduler.getState('0xhot')?.intervalMs).toBe(500);
+        expect(scheduler.getState('0xidle')?.intervalMs).toBe(2000);
+
+        now += 2000;
+        await scheduler.runDue(async () => 0);
+        // Still inside the hot window
+        expect(scheduler.getState('0xhot')?.intervalMs).toBe(500);
+        expect(scheduler.getState('0xidle')?.intervalMs).toBe(4000);
+
+        now += 4000;
+        await scheduler.runDue(async () => 0);
+        expect(scheduler.getState('0xidle')?.intervalMs).toBe(5000); // capped at idle
+    });
+
+    it('should only poll wallets that are due', async () => {
+        const scheduler = new PollScheduler(options, () => now);
+        scheduler.setAddresses(['0xa']);
+        await scheduler.runDue(async () => 0);
+
+        const pollFn = jest.fn().mockResolvedValue(0);
+        now += 1000;
+        await scheduler.runDue(pollFn);
+        expect(pollFn).not.toHaveBeenCalled();
+        expect(scheduler.msUntilNextDue()).toBe(1000);
+
+        now += 1000;
+        await scheduler.runDue(pollFn);
+        expect(pollFn).toHaveBeenCalledWith('0xa');
+    });
+
+    it('should drop wallets removed from the watchlist', () => {
+        const scheduler = new PollScheduler(options, () => now);
+        scheduler.setAddresses(['0xa', '0xB']);
+        scheduler.setAddresses(['0xb']);
+
+        expect(scheduler.getState('0xa')).toBeUndefined();
+        expect(scheduler.getDueAddresses()).toEqual(['0xB']);
+    });
+
+    it('should report detection latency, ignoring the first poll backlog', async () => {
+        const scheduler = new PollScheduler(options, () => now);
+        scheduler.setAddresses(['0xa']);
+
+        scheduler.recordDetection('0xa', now / 1000 - 3600);
+        expect(scheduler.getLatencyStats()).toEqual({ samples: 0 });
+
+        await scheduler.runDue(async () => 0);
+        scheduler.recordDetection('0xa', (now - 2000) / 1000);
+        scheduler.recordDetection('0xa', (now - 4000) / 1000);
+
+        expect(scheduler.getLatencyStats()).toEqual({
+            samples: 2,
+            lastMs: 4000,
+            avgMs: 3000,
+            p50Ms: 4000,
+            p95Ms: 4000,
+            maxMs: 4000,
+        });
+    });
+});
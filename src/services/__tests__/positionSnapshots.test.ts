@@ -0,0 +1,76 @@
+/**
+ * Tests for leader position snapshots used to size mirrored exits
+ */
+import { DataApiActivity } from '../../interfaces/Polymarket';
+import { computeLeaderSnapshots, getLeaderSellRatio, SnapshotSources } from '../positionSnapshots';
+
+const activity = (overrides: Partial<DataApiActivity>): DataApiActivity =>
+    ({
+        type: 'TRADE',
+        conditionId: 'cond',
+        asset: 'yes',
+        side: 'SELL',
+        size: 0,
+        timestamp: 1000,
+        ...overrides,
+    }) as DataApiActivity;
+
+const sources = (
+    stored: Record<string, number>,
+    live: Record<string, number> = {}
+): SnapshotSources => ({
+    stored: new Map(Object.entries(stored)),
+    live: new Map(Object.entries(live)),
+    assetsByCondition: new Map([['cond', ['yes', 'no']]]),
+});
+
+describe('computeLeaderSnapshots', () => {
+    it('should chain partial sells from the stored position in timestamp order', () => {
+        const snapshots = computeLeaderSnapshots(
+            [activity({ size: 25, timestamp: 1002 }), activity({ size: 25, timestamp: 1001 })],
+            sources({ yes: 100 })
+        );
+        expect(snapshots).toEqual([
+            { leaderPositionBefore: 75, leaderPositionAfter: 50 },
+            { leaderPositionBefore: 100, leaderPositionAfter: 75 },
+        ]);
+    });
+
+    it('should rebuild the starting position from live sizes when none was stored', () => {
+        const snapshots = computeLeaderSnapshots(
+            [activity({ size: 40 })],
+            sources({}, { yes: 60 })
+        );
+        expect(snapshots[0]).toEqual({ leaderPositionBefore: 100, leaderPositionAfter: 60 });
+    });
+
+    it('should snapshot mergeable pairs for MERGE and everything for REDEEM', () => {
+        const [merge, redeem] = computeLeaderSnapshots(
+            [
+                activity({ type: 'MERGE', asset: '', side: '', size: 30, timestamp: 1 }),
+                activity({ type: 'REDEEM', asset: '', side: '', size: 70, timestamp: 2 }),
+            ],
+            sources({ yes: 100, no: 40 })
+        );
+        expect(merge).toEqual({ leaderPositionBefore: 40, leaderPositionAfter: 10 });
+        expect(redeem).toEqual({ leaderPositionBefore: 80, leaderPositionAfter: 0 });
+    });
+});
+
+describe('getLeaderSellRatio', () => {
+    it('should return the fraction sold, or a full exit when nothing is left', () => {
+        expect(getLeaderSellRatio({ leaderPositionBefore: 100, leaderPositionAfter: 75 })).toEqual({
+            ratio: 0.25,
+            fullExit: false,
+        });
+        expect(getLeaderSellRatio({ leaderPositionBefore: 100, leaderPositionAfter: 0 })).toEqual({
+            ratio: 1,
+            fullExit: true,
+        });
+    });
+
+    it('should return null without a usable snapshot', () => {
+        expect(getLeaderSellRatio({})).toBeNull();
+        expect(getLeaderSellRatio({ leaderPositionBefore: 0, leaderPositionAfter: 0 })).toBeNull();
+    });
+});
@@ -0,0 +1,126 @@
+/**
+ * Tests for portfolio risk limits (daily volume, exposure, daily-loss kill-switch)
+ */
+jest.mock('../../config/env', () => ({
+    ENV: { COPY_STRATEGY_CONFIG: {} },
+}));
+
+import { CopyStrategy, OrderSizeCalculation } from '../../config/copyStrategy';
+import { DataApiPosition } from '../../interfaces/Polymarket';
+import { getMarketCategory, OrderRiskContext, RiskManager } from '../riskManager';
+
+const context: OrderRiskContext = {
+    trader: '0xleader',
+    conditionId: 'cond-1',
+    category: 'btc-updown-15m',
+};
+
+const position = (overrides: Partial<DataApiPosition>): DataApiPosition =>
+    ({
+        asset: 'yes',
+        conditionId: 'cond-1',
+        currentValue: 0,
+        eventSlug: 'btc-updown-15m-1736520900',
+        ...overrides,
+    }) as DataApiPosition;
+
+const calc = (finalAmount: number): OrderSizeCalculation => ({
+    traderOrderSize: 100,
+    baseAmount: finalAmount,
+    finalAmount,
+    strategy: CopyStrategy.PERCENTAGE,
+    cappedByMax: false,
+    reducedByBalance: false,
+    belowMinimum: false,
+    reducedBySlippage: false,
+    reducedByRisk: false,
+    reducedByDelay: false,
+    reasoning: 'base',
+});
+
+describe('getMarketCategory', () => {
+    it('should group recurring rounds by dropping the trailing timestamp', () => {
+        expect(getMarketCategory('btc-updown-15m-1736520900')).toBe('btc-updown-15m');
+        expect(getMarketCategory('will-it-rain-2025')).toBe('will-it-rain-2025');
+        expect(getMarketCategory(undefined)).toBe('unknown');
+    });
+});
+
+describe('RiskManager', () => {
+    let now: number;
+    beforeEach(() => {
+        now = Date.UTC(2025, 0, 10, 12);
+    });
+
+    it('should shrink a buy to the remaining rolling daily volume', () => {
+        const risk = new RiskManager({ maxDailyVolumeUSD: 100 }, () => now);
+        risk.seedVolume([
+            { timestamp: now - 25 * 60 * 60 * 1000, usd: 500 }, // outside the window
+            { timestamp: now - 60 * 1000, usd: 70 },
+        ]);
+
+        const result = risk.applyToOrder(calc(50), context, 1);
+        expect(result.finalAmount).toBe(30);
+        expect(result.reducedByRisk).toBe(true);
+        expect(result.reasoning).toContain('Daily volume $70.00/$100.00');
+    });
+
+    it('should apply the tightest exposure limit across market, category and trader', () => {
+        const risk = new RiskManager(
+            { maxMarketExposureUSD: 150, maxCategoryExposureUSD: 150, maxTraderExposureUSD: 500 },
+            () => now
+        );
+        risk.updatePortfolio(
+            [
+                position({ asset: 'yes', currentValue: 80 }),
+                position({ asset: 'other', conditionId: 'cond-2', currentValue: 40 }),
+            ],
+            1000,
+            new Map([['yes', '0xleader']])
+        );
+
+        expect(risk.checkBuy(100, context)).toEqual({
+            allowedUSD: 30,
+            reasons: [
+                'Market exposure $80.00/$150.00',
+                'Category exposure (btc-updown-15m) $120.00/$150.00',
+            ],
+        });
+
+        risk.recordBuy(30, context);
+        const blocked = risk.applyToOrder(calc(10), context, 1);
+        expect(blocked.finalAmount).toBe(0);
+        expect(blocked.reasoning).toContain('skipped');
+        expect(risk.getState().exposure.byTrader['0xleader']).toBe(110);
+    });
+
+    it('should trip the kill-switch on the daily loss and re-arm the next day', () => {
+        const risk = new RiskManager({ maxDailyLossUSD: 50 }, () => now);
+        risk.updatePortfolio([position({ currentValue: 200 })], 800, new Map());
+
+        now += 60 * 60 * 1000;
+        risk.updatePortfolio([position({ currentValue: 140 })], 800, new Map());
+        expect(risk.getState().dailyPnl).toBe(-60);
+        expect(risk.checkBuy(10, context).allowedUSD).toBe(0);
+        expect(risk.getState().killSwitch.tripped).toBe(true);
+
+        now += 24 * 60 * 60 * 1000;
+        risk.updatePortfolio([position({ currentValue: 140 })], 800, new Map());
+        expect(risk.getState().killSwitch.tripped).toBe(false);
+        expect(risk.checkBuy(10, context).allowedUSD).toBe(10);
+    });
+    it('should tell kill-switch listeners once per trip', () => {
+        const risk = new RiskManager({ maxDailyLossUSD: 50 }, () => now);
+        const listener = jest.fn();
+        risk.onKillSwitch(listener);
+        risk.updatePortfolio([position({ currentValue: 200 })], 800, new Map());
+
+        risk.updatePortfolio([position({ currentValue: 140 })], 800, new Map());
+        risk.updatePortfolio([position({ currentValue: 120 })], 800, new Map());
+
+        expect(listener).toHaveBeenCalledTimes(1);
+        expect(listener).toHaveBeenCalledWith(
+            expect.objectContaining({ tripped: true, reason: expect.stringContaining('$60.00') })
+        );
+    });
+});
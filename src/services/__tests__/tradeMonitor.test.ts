@@ -0,0 +1,75 @@
+/**
+ * Tests for persisting the watched trader's positions between polls
+ */
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+jest.mock('../../config/env', () => ({
+    ENV: { USER_ADDRESSES: ['0xleader'], STORAGE_BACKEND: 'file', STORAGE_DIR: '' },
+}));
+jest.mock('../watchlistManager', () => ({
+    __esModule: true,
+    default: { getActiveAddresses: () => ['0xleader'], onChange: jest.fn() },
+}));
+jest.mock('../../models/userHistory', () => ({
+    getUserActivityModel: jest.fn(),
+    getUserPositionModel: jest.fn(),
+}));
+jest.mock('../marketTracker', () => ({ __esModule: true, default: {} }));
+jest.mock('../tradeLogger', () => ({ __esModule: true, default: {} }));
+jest.mock('../../utils/polymarketApi', () => ({ __esModule: true, default: {} }));
+jest.mock('../../utils/logger', () => ({
+    __esModule: true,
+    default: { info: jest.fn(), warning: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+import { DataApiPosition } from '../../interfaces/Polymarket';
+import { UserPositionInterface } from '../../interfaces/User';
+import { FileHistoryCollection } from '../../models/historyStore';
+import { getUserPositionModel } from '../../models/userHistory';
+import { storeLeaderPositions } from '../tradeMonitor';
+
+type PositionModel = ReturnType<typeof getUserPositionModel>;
+
+const position = (asset: string, size: number): DataApiPosition =>
+    ({
+        proxyWallet: '0xleader',
+        asset,
+        conditionId: `cond-${asset}`,
+        size,
+        currentValue: size / 2,
+    }) as DataApiPosition;
+
+describe('storeLeaderPositions', () => {
+    let dir: string;
+    let positions: PositionModel;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'positions-'));
+        positions = new FileHistoryCollection<UserPositionInterface>(
+            path.join(dir, 'user_positions.jsonl')
+        );
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    const storedSizes = async () =>
+        Object.fromEntries((await positions.find()).map((p) => [p.asset, p.size]));
+
+    it('should upsert the fetched positions and zero the ones the leader closed', async () => {
+        await storeLeaderPositions(positions, [position('yes', 100), position('no', 40)]);
+        await storeLeaderPositions(positions, [position('yes', 60)]);
+
+        expect(await storedSizes()).toEqual({ yes: 60, no: 0 });
+    });
+
+    it('should zero every stored position when the leader exits everything', async () => {
+        await storeLeaderPositions(positions, [position('yes', 100), position('no', 40)]);
+        await storeLeaderPositions(positions, []);
+
+        expect(await storedSizes()).toEqual({ yes: 0, no: 0 });
+    });
+});
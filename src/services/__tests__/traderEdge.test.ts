@@ -0,0 +1,84 @@
+/**
+ * Tests for measuring a trader's edge from resolved BUY history
+ */
+jest.mock('../../config/env', () => ({
+    ENV: { COPY_STRATEGY_CONFIG: {} },
+}));
+
+import { buildEdgeSamples, EdgeSample, estimateEdge } from '../traderEdge';
+
+const samples = (category: string, price: number, wins: number, losses: number): EdgeSample[] => [
+    ...Array.from({ length: wins }, () => ({ category, price, won: true })),
+    ...Array.from({ length: losses }, () => ({ category, price, won: false })),
+];
+
+describe('buildEdgeSamples', () => {
+    it('should keep only BUYs whose outcome has resolved', () => {
+        const result = buildEdgeSamples(
+            [
+                {
+                    type: 'TRADE',
+                    side: 'BUY',
+                    asset: 'won',
+                    price: 0.4,
+                    eventSlug: 'btc-updown-15m-1736520900',
+                    slug: '',
+                },
+                {
+                    type: 'TRADE',
+                    side: 'BUY',
+                    asset: 'lost',
+                    price: 0.7,
+                    eventSlug: 'nba-finals',
+                    slug: '',
+                },
+                {
+                    type: 'TRADE',
+                    side: 'BUY',
+                    asset: 'open',
+                    price: 0.5,
+                    eventSlug: 'nba-finals',
+                    slug: '',
+                },
+                {
+                    type: 'TRADE',
+                    side: 'SELL',
+                    asset: 'won',
+                    price: 0.9,
+                    eventSlug: 'nba-finals',
+                    slug: '',
+                },
+            ],
+            [
+                { asset: 'won', curPrice: 1 },
+                { asset: 'lost', curPrice: 0 },
+                { asset: 'open', curPrice: 0.55 },
+            ]
+        );
+
+        expect(result).toEqual([
+            { category: 'btc-updown-15m', price: 0.4, won: true },
+            { category: 'nba-finals', price: 0.7, won: false },
+        ]);
+    });
+});
+
+describe('estimateEdge', () => {
+    it('should shrink the win rate toward the entry price', () => {
+        // 20 trades at 0.50 winning 15: (15 + 10 * 0.5) / 30 = 0.667
+        const edge = estimateEdge(samples('btc', 0.5, 15, 5), 'btc', 0.5, 10);
+        expect(edge?.winRate).toBeCloseTo(2 / 3);
+        expect(edge?.edge).toBeCloseTo(1 / 6);
+        expect(edge?.bucket).toBe('btc @ 0.4-0.6');
+    });
+
+    it('should fall back to broader buckets when the specific one is thin', () => {
+        const history = [...samples('btc', 0.5, 2, 1), ...samples('eth', 0.1, 10, 10)];
+
+        expect(estimateEdge(history, 'btc', 0.5, 3)?.bucket).toBe('btc @ 0.4-0.6');
+        expect(estimateEdge(history, 'btc', 0.15, 3)?.bucket).toBe('btc');
+        expect(estimateEdge(history, 'sol', 0.15, 5)?.bucket).toBe('all @ 0.0-0.2');
+        expect(estimateEdge(history, 'sol', 0.9, 21)?.bucket).toBe('all');
+        expect(estimateEdge(history, 'sol', 0.9, 50)).toBeUndefined();
+    });
+});
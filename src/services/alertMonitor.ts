@@ -0,0 +1,159 @@
+/**
+ * Alert Monitor
+ * Background side of the notifier: forwards kill-switch trips from the risk manager, re-runs the
+ * health check every NOTIFY_HEALTH_CHECK_MINUTES to report degradation (and recovery), and sends
+ * a summary of the last day at NOTIFY_DAILY_SUMMARY_HOUR_UTC. Trade, order and market close
+ * alerts are sent where they happen (postOrder, watcherPnLTracker).
+ */
+
+import { ENV } from '../config/env';
+import { performHealthCheck } from '../utils/healthCheck';
+import Logger from '../utils/logger';
+import { metrics } from './metrics';
+import notifier from './notifier';
+import riskManager from './riskManager';
+import watcherPnLTracker from './watcherPnLTracker';
+
+const TICK_MS = 60 * 1000;
+
+interface SummaryTotals {
+    copied: number;
+    skipped: number;
+    settledPnL: number;
+    settledNetPnL: number;
+    marketsSettled: number;
+}
+
+let isRunning = true;
+let unsubscribeKillSwitch: (() => void) | null = null;
+
+const readTotals = (): SummaryTotals => {
+    const stats = watcherPnLTracker.getStats();
+    return {
+        copied: metrics.tradesCopied.total(),
+        skipped: metrics.tradesSkipped.total(),
+        settledPnL: stats.totalPnL,
+        settledNetPnL: stats.totalNetPnL,
+        marketsSettled: stats.marketsTracked,
+    };
+};
+
+const formatSignedUsd = (value: number): string =>
+    `${value >= 0 ? '+' : '-'}$${Math.abs(value).toFixed(2)}`;
+
+/**
+ * Alert on the transition into (and out of) an unhealthy state, not on every failing check
+ */
+const checkHealth = async (wasHealthy: boolean): Promise<boolean> => {
+    const result = await performHealthCheck();
+    const failing = Object.entries(result.checks).filter(([, check]) => check.status === 'error');
+    if (!result.healthy && wasHealthy) {
+        await notifier.notify({
+            event: 'health_degraded',
+            severity: 'critical',
+            title: 'Health check failing',
+            message: failing.map(([name, check]) => `${name}: ${check.message}`).join('\n'),
+            dedupeKey: failing.map(([name]) => name).join(','),
+        });
+    } else if (result.healthy && !wasHealthy) {
+        await notifier.notify({
+            event: 'health_degraded',
+            severity: 'info',
+            title: 'Health check recovered',
+            message: 'All checks passing again',
+        });
+    }
+    return result.healthy;
+};
+
+const sendDailySummary = async (since: SummaryTotals): Promise<SummaryTotals> => {
+    const totals = readTotals();
+    const risk = riskManager.getState();
+    const mode = ENV.TRACK_ONLY_MODE ? 'watch' : ENV.PAPER_MODE ? 'paper' : 'trading';
+    const fields: Record<string, string | number> = {
+        'Trades copied': totals.copied - since.copied,
+        'Trades skipped': totals.skipped - since.skipped,
+        'Markets settled': totals.marketsSettled - since.marketsSettled,
+        'Settled PnL': formatSignedUsd(totals.settledPnL - since.settledPnL),
+        'Settled net PnL': formatSignedUsd(totals.settledNetPnL - since.settledNetPnL),
+    };
+    if (risk.updatedAt > 0) {
+        fields['Equity'] = `$${risk.equity.toFixed(2)}`;
+        fields['Open exposure'] = `$${risk.exposure.total.toFixed(2)}`;
+    }
+    await notifier.notify({
+        event: 'daily_summary',
+        severity: 'info',
+        title: 'Daily summary',
+        message: `Since the previous summary (${mode} mode)`,
+        fields,
+        dedupeKey: new Date().toISOString().slice(0, 10),
+    });
+    return totals;
+};
+
+/**
+ * Stop the alert monitor gracefully
+ */
+export const stopAlertMonitor = () => {
+    isRunning = false;
+    if (unsubscribeKillSwitch) {
+        unsubscribeKillSwitch();
+        unsubscribeKillSwitch = null;
+    }
+};
+
+/**
+ * Forward kill-switch trips, then poll health and the daily summary every minute until stopped
+ */
+export const startAlertMonitor = async () => {
+    isRunning = true;
+    unsubscribeKillSwitch = riskManager.onKillSwitch((state) => {
+        void notifier.notify({
+            event: 'kill_switch',
+            severity: 'critical',
+            title: 'Kill-switch tripped',
+            message: `${state.reason || 'Daily loss limit reached'} - new buys are blocked until the next UTC day`,
+        });
+    });
+
+    const healthIntervalMs = ENV.NOTIFY_HEALTH_CHECK_MINUTES * 60 * 1000;
+    const summaryHour = ENV.NOTIFY_DAILY_SUMMARY_HOUR_UTC;
+    let healthy = true;
+    // First check runs right away, so a bot that starts unhealthy alerts at once
+    let lastHealthCheckAt = 0;
+    let summarySince = readTotals();
+    // The summary hour already passed today counts as sent, so a restart doesn't resend it
+    let lastSummaryDay =
+        new Date().getUTCHours() >= summaryHour ? new Date().toISOString().slice(0, 10) : '';
+
+    Logger.info(
+        `Alert monitor active: health every ${ENV.NOTIFY_HEALTH_CHECK_MINUTES || '-'}m, ` +
+            `daily summary ${summaryHour >= 0 ? `at ${summaryHour}:00 UTC` : 'off'}`
+    );
+
+    while (isRunning) {
+        try {
+            if (healthIntervalMs > 0 && Date.now() - lastHealthCheckAt >= healthIntervalMs) {
+                lastHealthCheckAt = Date.now();
+                healthy = await checkHealth(healthy);
+            }
+
+            const now = new Date();
+            const today = now.toISOString().slice(0, 10);
+            if (summaryHour >= 0 && now.getUTCHours() >= summaryHour && lastSummaryDay !== today) {
+                lastSummaryDay = today;
+                summarySince = await sendDailySummary(summarySince);
+            }
+        } catch (error) {
+            Logger.error(`Alert monitor check failed: ${error}`);
+        }
+
+        if (!isRunning) break;
+        await new Promise((resolve) =>
+            setTimeout(resolve, Math.min(TICK_MS, healthIntervalMs || TICK_MS))
+        );
+    }
+};
+
+export default startAlertMonitor;
@@ -1,4 +1,6 @@
 import { HealthCheckResult } from '../utils/healthCheck';
+import { DetectionLatencyStats } from './pollScheduler';
+import { RiskState } from './riskManager';
 import { WatchedAddress } from './watchlistManager';
 
 export interface TradeEventPayload {
@@ -20,6 +22,7 @@ export interface TradeEventPayload {
 export interface ExecutionEventPayload extends TradeEventPayload {
     executionStatus: 'FILLED' | 'FAILED';
     details?: string;
+    negRisk?: boolean;
 }
 
 export interface PositionSnapshot {
@@ -105,6 +108,8 @@ export interface AppStateSnapshot {
     pnlHistory?: PnlHistoryEntry[];
     watchlist?: WatchedAddress[];
     health?: HealthCheckResult;
+    detectionLatency?: DetectionLatencyStats;
+    risk?: RiskState;
     updatedAt: number;
 }
 
@@ -189,6 +194,16 @@ export const setWatchlist = (entries: WatchedAddress[]): void => {
     updateTimestamp();
 };
 
+export const setDetectionLatency = (stats: DetectionLatencyStats): void => {
+    state.detectionLatency = stats;
+    updateTimestamp();
+};
+
+export const setRiskState = (risk: RiskState): void => {
+    state.risk = risk;
+    updateTimestamp();
+};
+
 export const getSnapshot = (): AppStateSnapshot => ({
     ...state,
     traders: state.traders.map((s) => ({ ...s, topPositions: s.topPositions?.map((p) => ({ ...p })) })),
@@ -199,6 +214,8 @@ export const getSnapshot = (): AppStateSnapshot => ({
     pnlHistory: state.pnlHistory ? state.pnlHistory.map((p) => ({ ...p })) : undefined,
     watchlist: state.watchlist ? state.watchlist.map((w) => ({ ...w })) : undefined,
     health: state.health ? JSON.parse(JSON.stringify(state.health)) : undefined,
+    detectionLatency: state.detectionLatency ? { ...state.detectionLatency } : undefined,
+    risk: state.risk ? JSON.parse(JSON.stringify(state.risk)) : undefined,
 });
 
 type StateListener = (snapshot: AppStateSnapshot, reason: string) => void;
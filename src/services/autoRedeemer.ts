@@ -0,0 +1,399 @@
+/**
+ * Auto Redeemer
+ * Background sweep (TRADING mode) that turns resolved positions of the proxy wallet back into
+ * USDC. Resolution is read from the CTF contract itself - a condition is resolved once its
+ * payout denominator is reported - instead of guessed from the last traded price, so losers
+ * priced at $0.01 or winners still quoted below $0.99 are handled by what they actually pay.
+ *
+ * Neg-risk positions are redeemed through the NegRiskAdapter with the wallet's token balances of
+ * each outcome (see negRisk); plain binary markets through the CTF contract.
+ *
+ * Each sweep sends up to AUTO_REDEEM_BATCH_SIZE redemptions back to back on consecutive nonces
+ * and then waits for all receipts. Gas is estimated per transaction; nonce and underpriced
+ * errors are retried (RETRY_LIMIT) with a fresh nonce or a higher gas price. Every redemption
+ * settles the market's entry in the PnL ledger (watcherPnLTracker) at the USDC it paid out, read
+ * from the USDC transfers to the wallet in its receipt.
+ *
+ * Redemptions burn the caller's tokens, so the signer must be the wallet holding the positions:
+ * the redeemer refuses to start when PRIVATE_KEY does not belong to PROXY_WALLET.
+ */
+
+import { BigNumber, ContractReceipt, ContractTransaction, ethers } from 'ethers';
+import { ENV } from '../config/env';
+import { DataApiPosition } from '../interfaces/Polymarket';
+import polymarketApi from '../utils/polymarketApi';
+import Logger from '../utils/logger';
+import {
+    getNegRiskRedeemAmounts,
+    NEG_RISK_ADAPTER_ABI,
+    POLYMARKET_CONTRACTS,
+} from '../utils/negRisk';
+import { recordExecutionEvent } from './appState';
+import watcherPnLTracker from './watcherPnLTracker';
+
+export interface RedeemCandidate {
+    conditionId: string;
+    marketName: string;
+    positions: DataApiPosition[];
+    payoutUSD: number;
+    costBasisUSD: number;
+    negRisk: boolean;
+}
+
+interface RedeemContracts {
+    ctf: ethers.Contract;
+    adapter: ethers.Contract;
+}
+
+export type SendErrorKind = 'nonce' | 'underpriced' | 'other';
+
+const CTF_ABI = [
+    'function redeemPositions(address collateralToken, bytes32 parentCollectionId, bytes32 conditionId, uint256[] calldata indexSets) external',
+    'function payoutDenominator(bytes32 conditionId) external view returns (uint256)',
+    'function payoutNumerators(bytes32 conditionId, uint256 index) external view returns (uint256)',
+    'function balanceOf(address owner, uint256 tokenId) external view returns (uint256)',
+];
+
+const ERC20_TRANSFER_ABI = [
+    'event Transfer(address indexed from, address indexed to, uint256 value)',
+];
+const USDC_DECIMALS = 6;
+
+// Both outcome collections of a binary market
+const INDEX_SETS = [1, 2];
+const ZERO_THRESHOLD = 0.0001;
+// Headroom over the estimates, and the extra gas price per underpriced retry (percent)
+const GAS_LIMIT_BUFFER_PERCENT = 20;
+const GAS_PRICE_BUFFER_PERCENT = 20;
+const GAS_PRICE_BUMP_PERCENT = 25;
+
+const SWEEP_INTERVAL_MS = ENV.AUTO_REDEEM_INTERVAL_SECONDS * 1000;
+const BATCH_SIZE = Math.max(1, ENV.AUTO_REDEEM_BATCH_SIZE);
+const RETRY_LIMIT = ENV.RETRY_LIMIT;
+
+// Conditions redeemed (or settled at $0) this run, so later sweeps don't pay for them again
+const handledConditions = new Set<string>();
+
+const toBytes32 = (conditionId: string): string =>
+    ethers.utils.hexZeroPad(ethers.BigNumber.from(conditionId).toHexString(), 32);
+
+/**
+ * Whether a failed send can be retried: with a fresh nonce, or at a higher gas price
+ */
+export const classifySendError = (error: unknown): SendErrorKind => {
+    const err = error as { code?: string; message?: string; error?: { message?: string } };
+    const text = `${err?.message ?? ''} ${err?.error?.message ?? ''}`.toLowerCase();
+    if (
+        err?.code === 'NONCE_EXPIRED' ||
+        /nonce too low|nonce has already been used|invalid nonce/.test(text)
+    ) {
+        return 'nonce';
+    }
+    if (
+        err?.code === 'REPLACEMENT_UNDERPRICED' ||
+        /underpriced|fee too low|gas price too low|max fee per gas less than block base fee/.test(
+            text
+        )
+    ) {
+        return 'underpriced';
+    }
+    return 'other';
+};
+
+/**
+ * Positions of one resolved condition priced at its reported payouts (share of $1 per outcome)
+ */
+export const buildRedeemCandidate = (
+    positions: DataApiPosition[],
+    payouts: number[]
+): RedeemCandidate => ({
+    conditionId: positions[0].conditionId,
+    marketName: positions[0].title || positions[0].slug || positions[0].conditionId,
+    positions,
+    payoutUSD: positions.reduce((sum, p) => sum + p.size * (payouts[p.outcomeIndex] ?? 0), 0),
+    costBasisUSD: positions.reduce((sum, p) => sum + (p.initialValue ?? p.size * p.avgPrice), 0),
+    negRisk: positions.some((p) => p.negativeRisk),
+});
+
+/**
+ * USDC a redemption actually paid: the USDC transfers to `wallet` logged in its receipt
+ */
+export const getReceiptPayoutUSD = (
+    receipt: Pick<ContractReceipt, 'logs'>,
+    usdcAddress: string,
+    wallet: string
+): number => {
+    const transfer = new ethers.utils.Interface(ERC20_TRANSFER_ABI);
+    let paid = ethers.constants.Zero;
+    for (const log of receipt.logs) {
+        if (log.address.toLowerCase() !== usdcAddress.toLowerCase()) {
+            continue;
+        }
+        try {
+            const event = transfer.parseLog(log);
+            if (event.args.to.toLowerCase() === wallet.toLowerCase()) {
+                paid = paid.add(event.args.value);
+            }
+        } catch {
+            // Not a Transfer (e.g. Approval)
+        }
+    }
+    return parseFloat(ethers.utils.formatUnits(paid, USDC_DECIMALS));
+};
+
+/**
+ * Payout per outcome once the condition is resolved on-chain, null while it is still open
+ */
+const getPayouts = async (ctf: ethers.Contract, conditionId: string): Promise<number[] | null> => {
+    const id = toBytes32(conditionId);
+    const denominator: BigNumber = await ctf.payoutDenominator(id);
+    if (denominator.isZero()) {
+        return null;
+    }
+    const numerators: BigNumber[] = await Promise.all(
+        INDEX_SETS.map((_, index) => ctf.payoutNumerators(id, index))
+    );
+    return numerators.map((n) => n.toNumber() / denominator.toNumber());
+};
+
+/**
+ * Settle a redeemed (or worthless) condition in the PnL ledger at what it paid out
+ */
+const recordInLedger = (candidate: RedeemCandidate, payoutUSD: number, txHash?: string): void => {
+    const up = candidate.positions.filter((p) => p.outcomeIndex === 0);
+    const down = candidate.positions.filter((p) => p.outcomeIndex !== 0);
+    const sum = (list: DataApiPosition[], pick: (p: DataApiPosition) => number) =>
+        list.reduce((total, p) => total + pick(p), 0);
+
+    watcherPnLTracker.recordRedemption({
+        conditionId: candidate.conditionId,
+        marketName: candidate.marketName,
+        payoutUSD,
+        sharesUp: sum(up, (p) => p.size),
+        sharesDown: sum(down, (p) => p.size),
+        totalCostUp: sum(up, (p) => p.initialValue ?? p.size * p.avgPrice),
+        totalCostDown: sum(down, (p) => p.initialValue ?? p.size * p.avgPrice),
+        txHash,
+    });
+};
+
+/**
+ * Contract and arguments of a candidate's redeemPositions call
+ */
+const getRedemptionCall = async (
+    contracts: RedeemContracts,
+    candidate: RedeemCandidate
+): Promise<{ contract: ethers.Contract; args: unknown[] }> => {
+    const conditionId = toBytes32(candidate.conditionId);
+    if (!candidate.negRisk) {
+        return {
+            contract: contracts.ctf,
+            args: [ENV.USDC_CONTRACT_ADDRESS, ethers.constants.HashZero, conditionId, INDEX_SETS],
+        };
+    }
+    // The adapter redeems exact amounts, so use on-chain balances rather than the API's sizes
+    const balances = await Promise.all(
+        candidate.positions.map(async (p) => ({
+            outcomeIndex: p.outcomeIndex,
+            balance: (await contracts.ctf.balanceOf(ENV.PROXY_WALLET, p.asset)) as BigNumber,
+        }))
+    );
+    return { contract: contracts.adapter, args: [conditionId, getNegRiskRedeemAmounts(balances)] };
+};
+
+/**
+ * Send one redemption, retrying nonce and underpriced errors
+ * Returns null when the redemption can't be sent (e.g. gas estimation reverts).
+ */
+const sendRedemption = async (
+    contracts: RedeemContracts,
+    signer: ethers.Wallet,
+    candidate: RedeemCandidate,
+    nonce: { next: number }
+): Promise<ContractTransaction | null> => {
+    let gasPricePercent = 100 + GAS_PRICE_BUFFER_PERCENT;
+
+    for (let attempt = 1; attempt <= RETRY_LIMIT; attempt++) {
+        try {
+            const { contract, args } = await getRedemptionCall(contracts, candidate);
+            const estimate: BigNumber = await contract.estimateGas.redeemPositions(...args);
+            const feeData = await signer.provider.getFeeData();
+            const gasPrice = feeData.gasPrice || feeData.maxFeePerGas;
+            if (!gasPrice) {
+                throw new Error('Could not determine gas price');
+            }
+
+            const tx: ContractTransaction = await contract.redeemPositions(...args, {
+                gasLimit: estimate.mul(100 + GAS_LIMIT_BUFFER_PERCENT).div(100),
+                gasPrice: gasPrice.mul(gasPricePercent).div(100),
+                nonce: nonce.next,
+            });
+            nonce.next += 1;
+            return tx;
+        } catch (error) {
+            const kind = classifySendError(error);
+            const message = error instanceof Error ? error.message : String(error);
+            if (kind === 'other' || attempt === RETRY_LIMIT) {
+                Logger.warning(`Redemption of ${candidate.marketName} not sent: ${message}`);
+                return null;
+            }
+            Logger.warning(
+                `Redemption of ${candidate.marketName} hit ${kind} error (attempt ${attempt}/${RETRY_LIMIT}) - retrying`
+            );
+            if (kind === 'nonce') {
+                nonce.next = await signer.getTransactionCount('pending');
+            } else {
+                gasPricePercent += GAS_PRICE_BUMP_PERCENT;
+            }
+        }
+    }
+    return null;
+};
+
+/**
+ * Send a batch of redemptions on consecutive nonces, then wait for their receipts
+ */
+const redeemBatch = async (
+    contracts: RedeemContracts,
+    signer: ethers.Wallet,
+    batch: RedeemCandidate[]
+): Promise<void> => {
+    Logger.info(`💰 Redeeming ${batch.length} resolved market(s)...`);
+    const nonce = { next: await signer.getTransactionCount('pending') };
+
+    const sent: { candidate: RedeemCandidate; tx: ContractTransaction }[] = [];
+    for (const candidate of batch) {
+        const tx = await sendRedemption(contracts, signer, candidate, nonce);
+        if (tx) {
+            sent.push({ candidate, tx });
+        }
+    }
+
+    const receipts = await Promise.allSettled(sent.map(({ tx }) => tx.wait()));
+    receipts.forEach((result, i) => {
+        const { candidate, tx } = sent[i];
+        if (result.status === 'rejected' || result.value.status !== 1) {
+            // Left unhandled so the next sweep tries again
+            Logger.warning(`Redemption of ${candidate.marketName} failed on-chain (${tx.hash})`);
+            return;
+        }
+
+        const receipt = result.value;
+        const payoutUSD = getReceiptPayoutUSD(receipt, ENV.USDC_CONTRACT_ADDRESS, ENV.PROXY_WALLET);
+        if (Math.abs(payoutUSD - candidate.payoutUSD) > 0.01) {
+            Logger.warning(
+                `Redemption of ${candidate.marketName} paid $${payoutUSD.toFixed(2)}, positions priced it at $${candidate.payoutUSD.toFixed(2)} - booking what was paid`
+            );
+        }
+        handledConditions.add(candidate.conditionId);
+        recordInLedger(candidate, payoutUSD, tx.hash);
+        recordExecutionEvent({
+            traderAddress: ENV.PROXY_WALLET,
+            transactionHash: tx.hash,
+            conditionId: candidate.conditionId,
+            marketName: candidate.marketName,
+            side: 'REDEEM',
+            usdcSize: payoutUSD,
+            timestamp: Date.now(),
+            mode: 'TRADING',
+            executionStatus: 'FILLED',
+            negRisk: candidate.negRisk,
+            details: `Redeemed for $${payoutUSD.toFixed(2)}`,
+        });
+        const gasCost = receipt.gasUsed.mul(receipt.effectiveGasPrice);
+        Logger.success(
+            `Redeemed ${candidate.marketName} for $${payoutUSD.toFixed(2)} (cost basis $${candidate.costBasisUSD.toFixed(2)}, gas ${ethers.utils.formatEther(gasCost)} POL)`
+        );
+    });
+};
+
+/**
+ * Find the wallet's resolved conditions and redeem the next batch of them
+ */
+const sweep = async (contracts: RedeemContracts, signer: ethers.Wallet): Promise<void> => {
+    const positions = await polymarketApi.getAllPositions({ user: ENV.PROXY_WALLET });
+    const byCondition = new Map<string, DataApiPosition[]>();
+    for (const position of positions) {
+        if ((position.size || 0) <= ZERO_THRESHOLD || handledConditions.has(position.conditionId)) {
+            continue;
+        }
+        byCondition.set(position.conditionId, [
+            ...(byCondition.get(position.conditionId) || []),
+            position,
+        ]);
+    }
+
+    const batch: RedeemCandidate[] = [];
+    for (const [conditionId, group] of byCondition) {
+        if (batch.length >= BATCH_SIZE) {
+            break;
+        }
+        const payouts = await getPayouts(contracts.ctf, conditionId);
+        if (!payouts) {
+            continue;
+        }
+        const candidate = buildRedeemCandidate(group, payouts);
+        if (candidate.payoutUSD <= ZERO_THRESHOLD) {
+            // Nothing to collect - not worth the gas, but the loss is realized
+            handledConditions.add(conditionId);
+            recordInLedger(candidate, 0);
+            continue;
+        }
+        batch.push(candidate);
+    }
+
+    if (batch.length > 0) {
+        await redeemBatch(contracts, signer, batch);
+    }
+};
+
+let isRunning = true;
+
+/**
+ * Stop the redemption sweep gracefully
+ */
+export const stopAutoRedeemer = () => {
+    isRunning = false;
+};
+
+/**
+ * Redeem resolved positions every AUTO_REDEEM_INTERVAL_SECONDS until stopped
+ */
+export const startAutoRedeemer = async () => {
+    const provider = new ethers.providers.JsonRpcProvider(ENV.RPC_URL);
+    const signer = new ethers.Wallet(ENV.PRIVATE_KEY, provider);
+    if (signer.address.toLowerCase() !== ENV.PROXY_WALLET.toLowerCase()) {
+        // redeemPositions burns the caller's balance: from this key it would redeem nothing
+        Logger.error(
+            `Auto-redeemer not started: signer ${signer.address} is not the proxy wallet ${ENV.PROXY_WALLET}. ` +
+                'Redeem from the proxy wallet (e.g. on polymarket.com) or set AUTO_REDEEM_ENABLED=false.'
+        );
+        return;
+    }
+    isRunning = true;
+    const contracts: RedeemContracts = {
+        ctf: new ethers.Contract(POLYMARKET_CONTRACTS.conditionalTokens, CTF_ABI, signer),
+        adapter: new ethers.Contract(
+            POLYMARKET_CONTRACTS.negRiskAdapter,
+            NEG_RISK_ADAPTER_ABI,
+            signer
+        ),
+    };
+
+    Logger.info(
+        `Auto-redeemer active: every ${ENV.AUTO_REDEEM_INTERVAL_SECONDS}s, up to ${BATCH_SIZE} redemption(s) per batch`
+    );
+
+    while (isRunning) {
+        try {
+            await sweep(contracts, signer);
+        } catch (error) {
+            Logger.error(`Auto-redeem sweep failed: ${error}`);
+        }
+
+        if (!isRunning) break;
+        await new Promise((resolve) => setTimeout(resolve, SWEEP_INTERVAL_MS));
+    }
+};
+
+export default startAutoRedeemer;
@@ -0,0 +1,59 @@
+/**
+ * Backtest Data
+ * Loads leader history for the backtester, from the trade history store the monitor fills
+ * (MongoDB or the file backend), or from the Data API (which FIXTURE_MODE=replay serves from
+ * recorded fixture files), plus the actual outcomes of the markets it touched.
+ */
+
+import { GammaMarket } from '../interfaces/Polymarket';
+import { getUserActivityModel } from '../models/userHistory';
+import polymarketApi from '../utils/polymarketApi';
+import Logger from '../utils/logger';
+import { BacktestTrade, getResolutionPayouts, MarketResolution } from './backtester';
+
+export type BacktestSource = 'store' | 'api';
+
+/**
+ * TRADE activity of each trader since `since` (unix seconds)
+ */
+export const loadBacktestTrades = async (
+    traders: string[],
+    since: number,
+    source: BacktestSource
+): Promise<BacktestTrade[]> => {
+    const trades: BacktestTrade[] = [];
+    for (const trader of traders) {
+        const address = trader.toLowerCase();
+        const activities =
+            source === 'store'
+                ? await getUserActivityModel(address).find({
+                      type: 'TRADE',
+                      timestamp: { $gte: since },
+                  })
+                : await polymarketApi.getAllActivity({
+                      user: address,
+                      type: 'TRADE',
+                      start: since,
+                  });
+        trades.push(...activities.map((activity) => ({ ...activity, trader: address })));
+    }
+    return trades;
+};
+
+/**
+ * Actual outcomes of the markets the trades were in (markets still open are left out)
+ */
+export const loadResolutions = async (
+    trades: BacktestTrade[]
+): Promise<Map<string, MarketResolution>> => {
+    const slugs = Array.from(new Set(trades.map((t) => t.slug).filter(Boolean)));
+    const markets: GammaMarket[] = [];
+    for (const slug of slugs) {
+        try {
+            markets.push(...(await polymarketApi.getMarketsBySlug(slug)));
+        } catch (error) {
+            Logger.warning(`Could not load market ${slug}: ${error}`);
+        }
+    }
+    return getResolutionPayouts(markets);
+};
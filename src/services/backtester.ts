@@ -0,0 +1,432 @@
+/**
+ * Backtester
+ * Replays stored leader activity through the live copy logic: calculateOrderSize with the
+ * trader's resolved CopyStrategyConfig, the category filter, and the slippage guard against a
+ * simulated order book. Positions settle at their market's actual outcome when it resolves, so
+ * results reflect what the bot would have done rather than a separate re-implementation.
+ *
+ * The simulated book sits around each trader fill: the best ask `halfSpreadCents` above their
+ * price (best bid below), then `levels` levels `tickCents` apart holding `levelSizeUSD` each.
+ * Copies of different traders are kept as separate positions, so every dollar of PnL and fees
+ * is attributed to the trader it was copied from.
+ */
+
+import {
+    applySlippageGuard,
+    calculateOrderSize,
+    CopyStrategy,
+    CopyStrategyConfig,
+    DEFAULT_KELLY_MIN_SAMPLES,
+    estimateBuyFill,
+    OrderBookLevel,
+    SlippageLimits,
+} from '../config/copyStrategy';
+import {
+    isCategoryAllowed,
+    resolveCopyStrategyConfig,
+    TraderSettings,
+} from '../config/traderSettings';
+import { DataApiActivity, GammaMarket } from '../interfaces/Polymarket';
+import { getLeaderSellRatio } from './positionSnapshots';
+import { getMarketCategory } from './riskManager';
+import { buildEdgeSamples, estimateEdge } from './traderEdge';
+
+export type BacktestTrade = Pick<
+    DataApiActivity,
+    | 'timestamp'
+    | 'conditionId'
+    | 'type'
+    | 'asset'
+    | 'side'
+    | 'price'
+    | 'size'
+    | 'usdcSize'
+    | 'slug'
+    | 'eventSlug'
+    | 'title'
+    | 'outcome'
+> & {
+    trader: string;
+    // Leader position around the trade, when stored by the monitor (else rebuilt by the replay)
+    leaderPositionBefore?: number;
+    leaderPositionAfter?: number;
+};
+
+export interface FillModel {
+    halfSpreadCents: number;
+    levelSizeUSD: number;
+    levels: number;
+    tickCents: number;
+}
+
+export interface MarketResolution {
+    payout: number; // What one token of the outcome redeemed for (1 or 0)
+    resolvedAt?: number; // Unix seconds; unknown resolutions settle at the end of the replay
+}
+
+export interface BacktestOptions {
+    startingCapital: number;
+    copyConfig: CopyStrategyConfig;
+    traderSettings?: Record<string, TraderSettings>;
+    slippageLimits: SlippageLimits;
+    fillModel: FillModel;
+    feeBps: number; // Charged on the notional of every simulated fill
+    // Trader equity for PROPORTIONAL sizing (our equity / theirs)
+    traderEquityUSD?: Record<string, number>;
+}
+
+export interface EquityPoint {
+    timestamp: number;
+    equity: number;
+}
+
+export interface TraderAttribution {
+    copiedTrades: number;
+    skippedTrades: number;
+    volumeUSD: number;
+    feesUSD: number;
+    realizedPnl: number;
+    unrealizedPnl: number;
+    totalPnl: number; // Net of fees
+}
+
+export interface BacktestResult {
+    startingCapital: number;
+    finalEquity: number;
+    totalPnl: number;
+    roiPercent: number;
+    maxDrawdownUSD: number;
+    maxDrawdownPercent: number;
+    feesUSD: number;
+    copiedTrades: number;
+    skippedTrades: number;
+    skipReasons: Record<string, number>;
+    openPositions: number;
+    equityCurve: EquityPoint[];
+    traders: Record<string, TraderAttribution>;
+}
+
+interface SimPosition {
+    trader: string;
+    asset: string;
+    tokens: number;
+    costBasis: number;
+}
+
+// Polymarket minimum order size for SELLs, in tokens (as in postOrder)
+const MIN_SELL_TOKENS = 1.0;
+
+/**
+ * Simulated book around a trader's fill price
+ */
+export const buildSimulatedBook = (
+    price: number,
+    model: FillModel
+): { asks: OrderBookLevel[]; bids: OrderBookLevel[] } => {
+    const asks: OrderBookLevel[] = [];
+    const bids: OrderBookLevel[] = [];
+    for (let level = 0; level < model.levels; level++) {
+        const offset = (model.halfSpreadCents + level * model.tickCents) / 100;
+        const ask = price + offset;
+        const bid = price - offset;
+        if (ask < 1) {
+            asks.push({ price: ask, size: model.levelSizeUSD / ask });
+        }
+        if (bid > 0) {
+            bids.push({ price: bid, size: model.levelSizeUSD / bid });
+        }
+    }
+    return { asks, bids };
+};
+
+/**
+ * Proceeds of selling `tokens` into the bids (best first); fills only what the book holds
+ */
+export const estimateSellFill = (
+    bids: OrderBookLevel[],
+    tokens: number
+): { filledTokens: number; proceedsUSD: number } => {
+    let filledTokens = 0;
+    let proceedsUSD = 0;
+    for (const level of [...bids].sort((a, b) => b.price - a.price)) {
+        const take = Math.min(tokens - filledTokens, level.size);
+        if (take <= 1e-9) break;
+        filledTokens += take;
+        proceedsUSD += take * level.price;
+    }
+    return { filledTokens, proceedsUSD };
+};
+
+const parseList = (value: string | string[] | undefined): string[] => {
+    if (Array.isArray(value)) return value;
+    try {
+        return value ? JSON.parse(value) : [];
+    } catch {
+        return [];
+    }
+};
+
+/**
+ * Payout of every outcome token of the closed markets (1 for the winner, 0 for the rest)
+ */
+export const getResolutionPayouts = (markets: GammaMarket[]): Map<string, MarketResolution> => {
+    const resolutions = new Map<string, MarketResolution>();
+    for (const market of markets) {
+        if (!market.closed) continue;
+        const tokens = parseList(market.clobTokenIds);
+        const prices = parseList(market.outcomePrices).map(Number);
+        // Only settled markets report a clean 1/0 split
+        if (tokens.length === 0 || !prices.some((p) => p === 1)) continue;
+        const resolvedAt = market.endDate ? Date.parse(market.endDate) / 1000 : NaN;
+        tokens.forEach((token, index) => {
+            resolutions.set(token, {
+                payout: prices[index] === 1 ? 1 : 0,
+                resolvedAt: isNaN(resolvedAt) ? undefined : resolvedAt,
+            });
+        });
+    }
+    return resolutions;
+};
+
+const emptyAttribution = (): TraderAttribution => ({
+    copiedTrades: 0,
+    skippedTrades: 0,
+    volumeUSD: 0,
+    feesUSD: 0,
+    realizedPnl: 0,
+    unrealizedPnl: 0,
+    totalPnl: 0,
+});
+
+/**
+ * Replay trades (any order) against the given resolutions
+ */
+export const runBacktest = (
+    trades: BacktestTrade[],
+    resolutions: Map<string, MarketResolution>,
+    options: BacktestOptions
+): BacktestResult => {
+    const replay = trades
+        .filter((t) => t.type === 'TRADE' && t.price > 0 && t.price < 1)
+        .sort((a, b) => a.timestamp - b.timestamp);
+
+    let cash = options.startingCapital;
+    const positions = new Map<string, SimPosition>();
+    const leaderTokens = new Map<string, number>();
+    const lastPrice = new Map<string, number>();
+    const traders: Record<string, TraderAttribution> = {};
+    const skipReasons: Record<string, number> = {};
+    const equityCurve: EquityPoint[] = [];
+    let copiedTrades = 0;
+    let skippedTrades = 0;
+    let feesUSD = 0;
+
+    const attribution = (trader: string): TraderAttribution =>
+        (traders[trader] = traders[trader] || emptyAttribution());
+    const skip = (trader: string, reason: string): void => {
+        skippedTrades++;
+        attribution(trader).skippedTrades++;
+        skipReasons[reason] = (skipReasons[reason] || 0) + 1;
+    };
+    const chargeFee = (trader: string, notional: number): number => {
+        const fee = (notional * options.feeBps) / 10000;
+        feesUSD += fee;
+        attribution(trader).feesUSD += fee;
+        return fee;
+    };
+    // Open positions are marked at the last price any trader traded the outcome at
+    const markValue = (position: SimPosition): number =>
+        position.tokens * (lastPrice.get(position.asset) ?? position.costBasis / position.tokens);
+    const portfolioValue = (): number =>
+        Array.from(positions.values()).reduce((sum, p) => sum + markValue(p), 0);
+    const traderCost = (trader: string): number =>
+        Array.from(positions.values())
+            .filter((p) => p.trader === trader)
+            .reduce((sum, p) => sum + p.costBasis, 0);
+
+    const settle = (upTo: number): void => {
+        for (const [key, position] of positions) {
+            const resolution = resolutions.get(position.asset);
+            if (!resolution || (resolution.resolvedAt ?? Infinity) > upTo) continue;
+            const proceeds = position.tokens * resolution.payout;
+            cash += proceeds;
+            attribution(position.trader).realizedPnl += proceeds - position.costBasis;
+            lastPrice.set(position.asset, resolution.payout);
+            positions.delete(key);
+        }
+    };
+
+    for (const trade of replay) {
+        settle(trade.timestamp);
+        lastPrice.set(trade.asset, trade.price);
+
+        const trader = trade.trader.toLowerCase();
+        const settings = options.traderSettings?.[trader];
+        const config = resolveCopyStrategyConfig(options.copyConfig, settings);
+        const key = `${trader}:${trade.asset}`;
+        const leaderBefore = leaderTokens.get(key) || 0;
+        const leaderAfter = Math.max(
+            0,
+            leaderBefore + (trade.side === 'BUY' ? trade.size : -trade.size)
+        );
+        leaderTokens.set(key, leaderAfter);
+        const book = buildSimulatedBook(trade.price, options.fillModel);
+        const position = positions.get(key);
+
+        if (trade.side === 'BUY') {
+            const category = getMarketCategory(trade.eventSlug || trade.slug);
+            if ((resolutions.get(trade.asset)?.resolvedAt ?? Infinity) <= trade.timestamp) {
+                skip(trader, 'market already resolved');
+                continue;
+            }
+            if (!isCategoryAllowed(category, settings)) {
+                skip(trader, 'category not copied');
+                continue;
+            }
+
+            let sizingBalance = cash;
+            if (settings?.capitalAllocationUSD !== undefined) {
+                sizingBalance = Math.min(
+                    cash,
+                    Math.max(0, settings.capitalAllocationUSD - traderCost(trader))
+                );
+            }
+            const equity = cash + portfolioValue();
+            const traderEquity = options.traderEquityUSD?.[trader];
+            const edge =
+                config.strategy === CopyStrategy.KELLY
+                    ? estimateEdge(
+                          buildEdgeSamples(
+                              replay.filter(
+                                  (t) =>
+                                      t.trader.toLowerCase() === trader &&
+                                      t.side === 'BUY' &&
+                                      t.timestamp < trade.timestamp
+                              ),
+                              Array.from(resolutions.entries())
+                                  .filter(([, r]) => (r.resolvedAt ?? Infinity) <= trade.timestamp)
+                                  .map(([asset, r]) => ({ asset, curPrice: r.payout }))
+                          ),
+                          category,
+                          trade.price,
+                          config.kellyMinSamples ?? DEFAULT_KELLY_MIN_SAMPLES
+                      )
+                    : undefined;
+
+            let calc = calculateOrderSize(
+                config,
+                trade.usdcSize,
+                sizingBalance,
+                position ? position.costBasis : 0,
+                {
+                    equityRatio: traderEquity ? equity / traderEquity : undefined,
+                    edge,
+                    price: trade.price,
+                }
+            );
+            calc = applySlippageGuard(
+                calc,
+                book.asks,
+                trade.price,
+                options.slippageLimits,
+                config.minOrderSizeUSD
+            );
+            if (calc.finalAmount <= 0) {
+                skip(
+                    trader,
+                    calc.reducedBySlippage
+                        ? 'slippage'
+                        : calc.belowMinimum
+                          ? 'below minimum'
+                          : 'no size'
+                );
+                continue;
+            }
+
+            const fill = estimateBuyFill(book.asks, calc.finalAmount);
+            const fee = chargeFee(trader, fill.filledUsd);
+            cash -= fill.filledUsd + fee;
+            const next = position || { trader, asset: trade.asset, tokens: 0, costBasis: 0 };
+            next.tokens += fill.filledTokens;
+            next.costBasis += fill.filledUsd;
+            positions.set(key, next);
+            attribution(trader).realizedPnl -= fee;
+            attribution(trader).volumeUSD += fill.filledUsd;
+            attribution(trader).copiedTrades++;
+            copiedTrades++;
+        } else {
+            if (!position) {
+                skip(trader, 'no position to sell');
+                continue;
+            }
+            const sellRatio = getLeaderSellRatio({
+                leaderPositionBefore:
+                    trade.leaderPositionBefore ?? Math.max(leaderBefore, trade.size),
+                leaderPositionAfter: trade.leaderPositionAfter ?? leaderAfter,
+            });
+            const tokens = Math.min(position.tokens, position.tokens * (sellRatio?.ratio ?? 1));
+            if (tokens < MIN_SELL_TOKENS) {
+                skip(trader, 'sell below minimum');
+                continue;
+            }
+
+            const fill = estimateSellFill(book.bids, tokens);
+            const fee = chargeFee(trader, fill.proceedsUSD);
+            const costSold = position.costBasis * (fill.filledTokens / position.tokens);
+            cash += fill.proceedsUSD - fee;
+            position.tokens -= fill.filledTokens;
+            position.costBasis -= costSold;
+            if (position.tokens <= 1e-9) {
+                positions.delete(key);
+            }
+            attribution(trader).realizedPnl += fill.proceedsUSD - costSold - fee;
+            attribution(trader).volumeUSD += fill.proceedsUSD;
+            attribution(trader).copiedTrades++;
+            copiedTrades++;
+        }
+
+        equityCurve.push({ timestamp: trade.timestamp, equity: cash + portfolioValue() });
+    }
+
+    settle(Infinity);
+    const finalEquity = cash + portfolioValue();
+    const end = replay.length > 0 ? replay[replay.length - 1].timestamp : 0;
+    if (equityCurve.length === 0 || equityCurve[equityCurve.length - 1].equity !== finalEquity) {
+        equityCurve.push({ timestamp: end, equity: finalEquity });
+    }
+
+    for (const position of positions.values()) {
+        attribution(position.trader).unrealizedPnl += markValue(position) - position.costBasis;
+    }
+    for (const stats of Object.values(traders)) {
+        stats.totalPnl = stats.realizedPnl + stats.unrealizedPnl;
+    }
+
+    let peak = options.startingCapital;
+    let maxDrawdownUSD = 0;
+    let maxDrawdownPercent = 0;
+    for (const point of equityCurve) {
+        peak = Math.max(peak, point.equity);
+        maxDrawdownUSD = Math.max(maxDrawdownUSD, peak - point.equity);
+        if (peak > 0) {
+            maxDrawdownPercent = Math.max(maxDrawdownPercent, ((peak - point.equity) / peak) * 100);
+        }
+    }
+
+    const totalPnl = finalEquity - options.startingCapital;
+    return {
+        startingCapital: options.startingCapital,
+        finalEquity,
+        totalPnl,
+        roiPercent: options.startingCapital > 0 ? (totalPnl / options.startingCapital) * 100 : 0,
+        maxDrawdownUSD,
+        maxDrawdownPercent,
+        feesUSD,
+        copiedTrades,
+        skippedTrades,
+        skipReasons,
+        openPositions: positions.size,
+        equityCurve,
+        traders,
+    };
+};
@@ -1,6 +1,32 @@
 import * as readline from 'readline';
 import watchlistManager from './watchlistManager';
 import Logger from '../utils/logger';
+import { ENV } from '../config/env';
+import { parseTraderSettings, resolveCopyStrategyConfig } from '../config/traderSettings';
+
+// `/config` keys: short names and the CopyStrategyConfig field names are both accepted
+const STRATEGY_KEYS: Record<string, string> = {
+    strategy: 'strategy',
+    copysize: 'copySize',
+    adaptivemin: 'adaptiveMinPercent',
+    adaptivemax: 'adaptiveMaxPercent',
+    adaptivethreshold: 'adaptiveThreshold',
+    minratio: 'proportionalMinRatio',
+    maxratio: 'proportionalMaxRatio',
+    kellymax: 'kellyMaxFraction',
+    kellysamples: 'kellyMinSamples',
+    tiers: 'tieredMultipliers',
+    multiplier: 'tradeMultiplier',
+    maxorder: 'maxOrderSizeUSD',
+    minorder: 'minOrderSizeUSD',
+    maxposition: 'maxPositionSizeUSD',
+    maxdailyvolume: 'maxDailyVolumeUSD',
+};
+const SETTINGS_KEYS: Record<string, string> = {
+    allow: 'allowedCategories',
+    block: 'blockedCategories',
+    allocation: 'capitalAllocationUSD',
+};
 
 /**
  * Command Handler - Handles interactive commands while the bot is running
@@ -102,6 +128,11 @@ class CommandHandler {
                 this.handleAlias(args);
                 break;
 
+            case 'config':
+            case 'c':
+                this.handleConfig(args);
+                break;
+
             case 'status':
             case 's':
                 this.showStatus();
@@ -132,6 +163,12 @@ class CommandHandler {
         console.log('║    /alias <address> <name>   Set alias for an address        ║');
         console.log('║    /list                     Show all watched addresses      ║');
         console.log('║                                                              ║');
+        console.log('║  PER-TRADER SETTINGS:                                        ║');
+        console.log('║    /config <address|alias>   Show effective copy settings    ║');
+        console.log('║    /config <a> key=value...  Override, e.g. copySize=5       ║');
+        console.log('║        allow=btc,eth block=sports allocation=500 tiers=...   ║');
+        console.log('║    /config <a> reset         Use the global config again     ║');
+        console.log('║                                                              ║');
         console.log('║  GENERAL:                                                    ║');
         console.log('║    /status                   Show bot status                 ║');
         console.log('║    /clear                    Clear the console               ║');
@@ -224,6 +261,81 @@ class CommandHandler {
         watchlistManager.setAlias(address, alias);
     }
 
+    /**
+     * Handle config command: show, override or reset a trader's copy settings
+     */
+    private handleConfig(args: string[]): void {
+        if (args.length < 1) {
+            Logger.warning('Usage: /config <address|alias> [key=value ...] | reset');
+            Logger.info('Example: /config trader1 strategy=FIXED copySize=10 allow=btc-updown');
+            return;
+        }
+
+        const entry = watchlistManager.getAddress(args[0]);
+        if (!entry) {
+            Logger.warning(`Address not found: ${args[0]}`);
+            return;
+        }
+
+        if (args[1]?.toLowerCase() === 'reset') {
+            watchlistManager.resetSettings(entry.address);
+            return;
+        }
+
+        if (args.length > 1) {
+            const input: Record<string, unknown> = {};
+            const copyStrategy: Record<string, string> = {};
+            for (const pair of args.slice(1)) {
+                const [rawKey, ...rest] = pair.split('=');
+                const key = rawKey.toLowerCase();
+                const value = rest.join('=');
+                if (!value) {
+                    Logger.warning(`Expected key=value, got: ${pair}`);
+                    return;
+                }
+                if (STRATEGY_KEYS[key]) {
+                    copyStrategy[STRATEGY_KEYS[key]] = value;
+                } else if (SETTINGS_KEYS[key]) {
+                    input[SETTINGS_KEYS[key]] = value;
+                } else {
+                    Logger.warning(`Unknown setting: ${rawKey}`);
+                    return;
+                }
+            }
+            if (Object.keys(copyStrategy).length > 0) {
+                input.copyStrategy = copyStrategy;
+            }
+
+            const { settings, errors } = parseTraderSettings(input);
+            if (errors.length > 0) {
+                Logger.warning(`Invalid settings: ${errors.join('; ')}`);
+                return;
+            }
+            if (watchlistManager.updateSettings(entry.address, settings).length > 0) {
+                return;
+            }
+        }
+
+        const settings = watchlistManager.getSettings(entry.address);
+        const config = resolveCopyStrategyConfig(ENV.COPY_STRATEGY_CONFIG, settings);
+        const tiers = config.tieredMultipliers
+            ?.map((t) => `${t.min}${t.max === null ? '+' : `-${t.max}`}:${t.multiplier}`)
+            .join(',');
+
+        Logger.info(`Copy settings for ${entry.alias || entry.address}${settings.copyStrategy ? '' : ' (global)'}:`);
+        Logger.info(`  Strategy: ${config.strategy} · copySize ${config.copySize}${tiers ? ` · tiers ${tiers}` : ''}`);
+        Logger.info(
+            `  Limits: order $${config.minOrderSizeUSD}-$${config.maxOrderSizeUSD}` +
+                (config.maxPositionSizeUSD ? ` · position $${config.maxPositionSizeUSD}` : '') +
+                (config.maxDailyVolumeUSD ? ` · daily $${config.maxDailyVolumeUSD}` : '')
+        );
+        Logger.info(`  Allowed categories: ${settings.allowedCategories?.join(', ') || 'all'}`);
+        Logger.info(`  Blocked categories: ${settings.blockedCategories?.join(', ') || 'none'}`);
+        Logger.info(
+            `  Capital allocation: ${settings.capitalAllocationUSD ? `$${settings.capitalAllocationUSD}` : 'shared balance'}`
+        );
+    }
+
     /**
      * Show bot status
      */
@@ -0,0 +1,53 @@
+/**
+ * Equity Ratio Tracker
+ * Keeps a smoothed our-equity / trader-equity ratio per watched trader for the PROPORTIONAL
+ * copy strategy. tradeExecutor samples both portfolios before each copy; postOrder reads the
+ * smoothed value when sizing. Bounds are applied later, from the trader's resolved config.
+ */
+
+import { ENV } from '../config/env';
+import { smoothEquityRatio } from '../config/copyStrategy';
+
+interface RatioSample {
+    ratio: number;
+    updatedAt: number;
+}
+
+export class EquityRatioTracker {
+    private ratios = new Map<string, RatioSample>();
+
+    constructor(
+        private readonly halfLifeMs: number,
+        private readonly now: () => number = Date.now
+    ) {}
+
+    /**
+     * Fold in a new sample of both portfolios; returns the smoothed ratio
+     * Samples without a positive equity on both sides are ignored.
+     */
+    update(trader: string, ourEquity: number, traderEquity: number): number | undefined {
+        const previous = this.ratios.get(trader);
+        if (ourEquity <= 0 || traderEquity <= 0) {
+            return previous?.ratio;
+        }
+        const now = this.now();
+        const ratio = smoothEquityRatio(
+            previous?.ratio,
+            ourEquity / traderEquity,
+            previous ? now - previous.updatedAt : 0,
+            this.halfLifeMs
+        );
+        this.ratios.set(trader, { ratio, updatedAt: now });
+        return ratio;
+    }
+
+    get(trader: string): number | undefined {
+        return this.ratios.get(trader)?.ratio;
+    }
+}
+
+export const equityRatioTracker = new EquityRatioTracker(
+    ENV.PROPORTIONAL_HALF_LIFE_MINUTES * 60 * 1000
+);
+
+export default equityRatioTracker;
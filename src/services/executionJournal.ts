@@ -0,0 +1,331 @@
+/**
+ * Execution Journal
+ * Write-ahead record of every copy-trade intent and the CLOB orders placed for it, plus the
+ * startup reconciliation that settles intents left OPEN by a crash before any trade is retried.
+ */
+
+import { ClobClient, Trade } from '@polymarket/clob-client';
+import getExecutionJournal, { ExecutionIntent, JournalOrder } from '../models/executionJournal';
+import { isHistoryStoreAvailable } from '../models/historyStore';
+import { getUserActivityModel } from '../models/userHistory';
+import Logger from '../utils/logger';
+
+export interface OpenIntentParams {
+    intentId: string;
+    traderAddress: string;
+    tradeIds: string[];
+    transactionHash?: string;
+    conditionId?: string;
+    asset: string;
+    side: string;
+    condition: string;
+}
+
+export interface OrderArgs {
+    side: string;
+    tokenID: string;
+    amount: number;
+    price: number;
+}
+
+// Allow for clock skew between us and the CLOB when matching fills to posted orders
+const FILL_MATCH_SKEW_SECONDS = 5;
+
+const isJournalAvailable = (): boolean => isHistoryStoreAvailable();
+
+/**
+ * Apply `fields` to one recorded order (the storage backends only support whole-field $set)
+ */
+const updateOrder = async (
+    intentId: string,
+    index: number,
+    fields: Partial<JournalOrder>
+): Promise<void> => {
+    const journal = getExecutionJournal();
+    const intent = await journal.findOne({ intentId });
+    if (!intent || !intent.orders[index]) {
+        return;
+    }
+    // Unset fields keep what was recorded (e.g. the order id of a resting order)
+    const defined = Object.fromEntries(
+        Object.entries(fields).filter(([, value]) => value !== undefined)
+    );
+    const orders = intent.orders.map((order, i) =>
+        i === index ? { ...order, ...defined } : order
+    );
+    await journal.updateOne({ intentId }, { $set: { orders, updatedAt: Date.now() } });
+};
+
+/**
+ * Journal a new intent before any order is placed for it
+ * Re-opening an existing intent keeps its recorded orders.
+ */
+export const openIntent = async (params: OpenIntentParams): Promise<void> => {
+    if (!isJournalAvailable()) {
+        return;
+    }
+    const journal = getExecutionJournal();
+    const now = Date.now();
+    if (await journal.findOne({ intentId: params.intentId })) {
+        await journal.updateOne(
+            { intentId: params.intentId },
+            { $set: { status: 'OPEN', updatedAt: now } }
+        );
+        return;
+    }
+    await journal.insertOne({
+        ...params,
+        orders: [],
+        status: 'OPEN',
+        createdAt: now,
+        updatedAt: now,
+    });
+};
+
+/**
+ * Record the size computed by the copy strategy (USD for buys, tokens for sells)
+ */
+export const setComputedSize = async (intentId: string, computedSize: number): Promise<void> => {
+    if (!isJournalAvailable()) {
+        return;
+    }
+    await getExecutionJournal().updateOne(
+        { intentId },
+        { $set: { computedSize, updatedAt: Date.now() } }
+    );
+};
+
+/**
+ * Append an order to the intent before it is posted; returns its index for recordOrderResult
+ */
+export const recordOrderAttempt = async (intentId: string, args: OrderArgs): Promise<number> => {
+    if (!isJournalAvailable()) {
+        return -1;
+    }
+    const journal = getExecutionJournal();
+    const intent = await journal.findOne({ intentId });
+    if (!intent) {
+        throw new Error(`Execution journal has no intent ${intentId}`);
+    }
+    const order: JournalOrder = { ...args, status: 'POSTING', postedAt: Date.now() };
+    const orders = [...intent.orders, order];
+    await journal.updateOne({ intentId }, { $set: { orders, updatedAt: Date.now() } });
+    return orders.length - 1;
+};
+
+/**
+ * Record the order id of a resting (limit) order while it waits for fills
+ */
+export const recordOrderPlaced = async (
+    intentId: string,
+    index: number,
+    orderId: string
+): Promise<void> => {
+    if (!isJournalAvailable() || index < 0) {
+        return;
+    }
+    await updateOrder(intentId, index, { orderId });
+};
+
+/**
+ * Record the CLOB response for a journaled order
+ */
+export const recordOrderResult = async (
+    intentId: string,
+    index: number,
+    result: { success: boolean; orderId?: string; filledTokens?: number; error?: string }
+): Promise<void> => {
+    if (!isJournalAvailable() || index < 0) {
+        return;
+    }
+    await updateOrder(intentId, index, {
+        status: result.success ? 'FILLED' : 'REJECTED',
+        orderId: result.orderId,
+        filledTokens: result.success ? result.filledTokens : 0,
+        error: result.error,
+        resolvedAt: Date.now(),
+    });
+};
+
+/**
+ * Mark an intent as finished (postOrder returned, whatever the outcome)
+ */
+export const completeIntent = async (intentId: string): Promise<void> => {
+    if (!isJournalAvailable()) {
+        return;
+    }
+    await getExecutionJournal().updateOne(
+        { intentId },
+        { $set: { status: 'COMPLETED', updatedAt: Date.now() } }
+    );
+};
+
+/**
+ * Filled BUY notional per order since `since` (ms), to rebuild the risk manager's volume window
+ */
+export const getFilledBuyVolume = async (
+    since: number
+): Promise<Array<{ timestamp: number; usd: number; trader: string }>> => {
+    if (!isJournalAvailable()) {
+        return [];
+    }
+    const intents = await getExecutionJournal().find({ updatedAt: { $gte: since } });
+    return intents.flatMap((intent) =>
+        intent.orders
+            .filter(
+                (order) =>
+                    order.side === 'BUY' &&
+                    order.status === 'FILLED' &&
+                    (order.resolvedAt || order.postedAt) >= since
+            )
+            .map((order) => ({
+                timestamp: order.resolvedAt || order.postedAt,
+                usd: (order.filledTokens || 0) * order.price,
+                trader: intent.traderAddress,
+            }))
+    );
+};
+
+/**
+ * Trader whose copied BUY most recently filled into each of the given assets
+ */
+export const getTraderByAsset = async (assets: string[]): Promise<Map<string, string>> => {
+    const traders = new Map<string, string>();
+    if (!isJournalAvailable() || assets.length === 0) {
+        return traders;
+    }
+    const intents = (await getExecutionJournal().find({ asset: { $in: assets }, condition: 'buy' }))
+        .filter((intent) => intent.orders.some((order) => order.status === 'FILLED'))
+        .sort((a, b) => a.createdAt - b.createdAt);
+    for (const intent of intents) {
+        traders.set(intent.asset, intent.traderAddress);
+    }
+    return traders;
+};
+
+/**
+ * Find the CLOB trade that filled a journaled order we never got a response for
+ * FOK orders either fill immediately (one taker trade) or are killed, so a matching taker
+ * trade on the same token/side at or after the post time means the order went through.
+ */
+export const matchOrderFill = (
+    order: JournalOrder,
+    trades: Trade[],
+    consumed: Set<string>
+): Trade | undefined => {
+    const earliest = Math.floor(order.postedAt / 1000) - FILL_MATCH_SKEW_SECONDS;
+    return trades
+        .filter(
+            (t) =>
+                !consumed.has(t.id) &&
+                t.asset_id === order.tokenID &&
+                String(t.side).toUpperCase() === order.side.toUpperCase() &&
+                t.trader_side === 'TAKER' &&
+                Number(t.match_time) >= earliest
+        )
+        .sort((a, b) => Number(a.match_time) - Number(b.match_time))[0];
+};
+
+/**
+ * Settle one in-flight order against the CLOB: returns filled tokens (0 if it never filled)
+ */
+const resolveInFlightOrder = async (
+    clobClient: ClobClient,
+    order: JournalOrder,
+    consumed: Set<string>
+): Promise<number> => {
+    if (order.orderId) {
+        let clobOrder = await clobClient.getOrder(order.orderId);
+        if (
+            String(clobOrder?.status || '')
+                .toUpperCase()
+                .endsWith('LIVE')
+        ) {
+            // A limit order still resting from before the restart - pull it, keep what filled
+            await clobClient.cancelOrder({ orderID: order.orderId });
+            clobOrder = await clobClient.getOrder(order.orderId);
+        }
+        return parseFloat(clobOrder?.size_matched || '0') || 0;
+    }
+    const trades = await clobClient.getTrades({
+        asset_id: order.tokenID,
+        after: String(Math.floor(order.postedAt / 1000) - FILL_MATCH_SKEW_SECONDS),
+    });
+    const fill = matchOrderFill(order, trades || [], consumed);
+    if (!fill) {
+        return 0;
+    }
+    consumed.add(fill.id);
+    return parseFloat(fill.size) || 0;
+};
+
+/**
+ * Settle intents left OPEN by a crash. Must run before the executor picks up trades:
+ * - orders with no recorded response are looked up on the CLOB (by order id, or by our fills)
+ *   and limit orders still resting are cancelled
+ * - if anything filled, the copied trade is marked done so it is never bought twice
+ * - if nothing filled, the trade is released so the executor retries it
+ */
+export const reconcileExecutionJournal = async (clobClient: ClobClient): Promise<void> => {
+    if (!isJournalAvailable()) {
+        return;
+    }
+    const journal = getExecutionJournal();
+    const openIntents: ExecutionIntent[] = await journal.find({ status: 'OPEN' });
+    if (openIntents.length === 0) {
+        return;
+    }
+
+    Logger.warning(
+        `Reconciling ${openIntents.length} interrupted execution(s) from the journal...`
+    );
+    const consumed = new Set<string>();
+
+    for (const intent of openIntents) {
+        try {
+            let filledTokens = 0;
+            const orders = intent.orders.map((o) => ({ ...o }));
+            for (const order of orders) {
+                if (order.status === 'POSTING') {
+                    const filled = await resolveInFlightOrder(clobClient, order, consumed);
+                    order.status = filled > 0 ? 'FILLED' : 'REJECTED';
+                    order.filledTokens = filled;
+                    order.resolvedAt = Date.now();
+                }
+                filledTokens += order.status === 'FILLED' ? order.filledTokens || 0 : 0;
+            }
+
+            const UserActivity = getUserActivityModel(intent.traderAddress);
+            let note: string;
+            if (filledTokens > 0) {
+                // Executed (at least partly) before the crash - never retry
+                const update: Record<string, unknown> = { bot: true };
+                if (intent.side === 'BUY') {
+                    update.myBoughtSize = filledTokens;
+                }
+                await UserActivity.updateOne({ _id: intent.tradeIds[0] }, { $set: update });
+                await UserActivity.updateMany(
+                    { _id: { $in: intent.tradeIds.slice(1) } },
+                    { $set: { bot: true } }
+                );
+                note = `Filled ${filledTokens.toFixed(2)} tokens before restart - not retried`;
+            } else {
+                // Nothing reached the book - safe to copy again
+                await UserActivity.updateMany(
+                    { _id: { $in: intent.tradeIds }, bot: false },
+                    { $set: { botExcutedTime: 0 } }
+                );
+                note = 'No fills found - released for retry';
+            }
+
+            await journal.updateOne(
+                { intentId: intent.intentId },
+                { $set: { orders, status: 'RECONCILED', note, updatedAt: Date.now() } }
+            );
+            Logger.info(`Journal ${intent.intentId}: ${note}`);
+        } catch (error) {
+            // Leave the intent OPEN (and its trade unreleased) until the CLOB can be checked
+            Logger.error(`Failed to reconcile ${intent.intentId}: ${error}`);
+        }
+    }
+};
@@ -2,10 +2,21 @@ import chalk from 'chalk';
 import * as fs from 'fs';
 import * as path from 'path';
 import { ENV } from '../config/env';
-import fetchData from '../utils/fetchData';
+import polymarketApi from '../utils/polymarketApi';
+import orderBookFeed from './orderBookFeed';
+import { policyIntegrator } from './policyIntegrator';
 import priceStreamLogger from './priceStreamLogger';
 import { getRunId } from '../utils/runId';
 import watcherPnLTracker from './watcherPnLTracker';
+import {
+    addCosts,
+    emptyCosts,
+    getFillCosts,
+    getPnLBreakdown,
+    getRedemptionGas,
+    PnLBreakdown,
+    TradingCosts,
+} from './pnlAccounting';
 
 /**
  * Helper function to break down timestamp into detailed components
@@ -56,6 +67,9 @@ export interface MarketStats {
     // Snapshot prices captured shortly before market end
     closingPriceUp?: number;
     closingPriceDown?: number;
+    // Fees, gas and rounding of the fills so far (see pnlAccounting)
+    costs?: TradingCosts;
+    negRisk?: boolean; // Traded on the neg-risk exchange (multi-outcome event)
 }
 
 class MarketTracker {
@@ -94,15 +108,64 @@ class MarketTracker {
         const runId = getRunId();
         this.csvFilePath = path.join(targetDir, `${fileName}_${runId}.csv`);
         this.initializeCsvFile();
+
+        // Push live order book prices into tracked markets as they arrive
+        orderBookFeed.onQuote((assetId) => this.applyLiveQuote(assetId));
     }
 
     /**
-     * Calculate current PnL for a market based on current prices
+     * Whether prices should come from the CLOB WebSocket feed (never while replaying fixtures)
+     */
+    private useOrderBookFeed(): boolean {
+        return ENV.CLOB_WS_ENABLED && ENV.FIXTURE_MODE === 'off';
+    }
+
+    /**
+     * Keep the order book feed subscribed to the UP/DOWN tokens of every tracked market
+     */
+    private syncOrderBookFeed(): void {
+        if (!this.useOrderBookFeed()) {
+            return;
+        }
+        const assets: string[] = [];
+        for (const market of this.markets.values()) {
+            if (market.assetUp) assets.push(market.assetUp);
+            if (market.assetDown) assets.push(market.assetDown);
+        }
+        orderBookFeed.setAssets(assets);
+        if (assets.length > 0) {
+            orderBookFeed.start();
+        }
+    }
+
+    /**
+     * Update a market's prices from the live book once both of its sides are quoted
      */
-    private calculateCurrentPnL(market: MarketStats): number {
+    private applyLiveQuote(assetId: string): void {
+        for (const market of this.markets.values()) {
+            if (market.assetUp !== assetId && market.assetDown !== assetId) {
+                continue;
+            }
+            const priceUp = orderBookFeed.getMidPrice(market.assetUp || '');
+            const priceDown = orderBookFeed.getMidPrice(market.assetDown || '');
+            if (priceUp === null || priceDown === null) {
+                return;
+            }
+            const now = Date.now();
+            market.currentPriceUp = priceUp;
+            market.currentPriceDown = priceDown;
+            market.lastPriceUpdate = now;
+            policyIntegrator.updatePriceHistory(market.marketKey, now, priceUp, priceDown);
+            return;
+        }
+    }
+
+    /**
+     * Gross and net PnL of a market valued at the given prices
+     * Redemption gas is included once the prices show the market has settled.
+     */
+    private getMarketPnL(market: MarketStats, priceUp: number, priceDown: number): PnLBreakdown {
         const totalCostBasis = market.totalCostUp + market.totalCostDown;
-        const priceUp = market.currentPriceUp ?? 0;
-        const priceDown = market.currentPriceDown ?? 0;
 
         let finalValueUp = 0;
         let finalValueDown = 0;
@@ -115,17 +178,26 @@ class MarketTracker {
             finalValueDown = market.sharesDown * priceDown;
         }
 
-        const totalFinalValue = finalValueUp + finalValueDown;
-        return totalFinalValue - totalCostBasis;
+        const winningShares = priceUp >= 0.99 ? market.sharesUp : priceDown >= 0.99 ? market.sharesDown : 0;
+        return getPnLBreakdown(
+            finalValueUp + finalValueDown - totalCostBasis,
+            market.costs ?? emptyCosts(),
+            getRedemptionGas(winningShares)
+        );
+    }
+
+    /**
+     * Calculate current PnL for a market based on current prices
+     */
+    private calculateCurrentPnL(market: MarketStats): PnLBreakdown {
+        return this.getMarketPnL(market, market.currentPriceUp ?? 0, market.currentPriceDown ?? 0);
     }
 
     /**
      * Calculate current PnL with live price fetching (async version)
      * Use this when rotating markets to ensure we have latest prices
      */
-    private async calculateCurrentPnLWithLivePrices(market: MarketStats): Promise<number> {
-        const totalCostBasis = market.totalCostUp + market.totalCostDown;
-
+    private async calculateCurrentPnLWithLivePrices(market: MarketStats): Promise<PnLBreakdown> {
         // Start with cached prices
         let priceUp = market.currentPriceUp ?? 0;
         let priceDown = market.currentPriceDown ?? 0;
@@ -135,8 +207,8 @@ class MarketTracker {
             try {
                 // Fetch from CLOB order book for accurate prices
                 if (market.assetUp && priceUp === 0) {
-                    const bookUp = await fetchData(`https://clob.polymarket.com/book?token_id=${market.assetUp}`).catch(() => null);
-                    if (bookUp?.bids?.length > 0 && bookUp?.asks?.length > 0) {
+                    const bookUp = await polymarketApi.getOrderBook(market.assetUp).catch(() => null);
+                    if (bookUp && bookUp.bids?.length > 0 && bookUp.asks?.length > 0) {
                         const bestBid = Math.max(...bookUp.bids.map((b: any) => parseFloat(b.price || 0)));
                         const bestAsk = Math.min(...bookUp.asks.map((a: any) => parseFloat(a.price || 1)));
                         if (bestBid > 0 && bestAsk > 0) {
@@ -145,8 +217,8 @@ class MarketTracker {
                     }
                 }
                 if (market.assetDown && priceDown === 0) {
-                    const bookDown = await fetchData(`https://clob.polymarket.com/book?token_id=${market.assetDown}`).catch(() => null);
-                    if (bookDown?.bids?.length > 0 && bookDown?.asks?.length > 0) {
+                    const bookDown = await polymarketApi.getOrderBook(market.assetDown).catch(() => null);
+                    if (bookDown && bookDown.bids?.length > 0 && bookDown.asks?.length > 0) {
                         const bestBid = Math.max(...bookDown.bids.map((b: any) => parseFloat(b.price || 0)));
                         const bestAsk = Math.min(...bookDown.asks.map((a: any) => parseFloat(a.price || 1)));
                         if (bestBid > 0 && bestAsk > 0) {
@@ -159,19 +231,7 @@ class MarketTracker {
             }
         }
 
-        let finalValueUp = 0;
-        let finalValueDown = 0;
-
-        if (market.sharesUp > 0 && priceUp > 0) {
-            finalValueUp = market.sharesUp * priceUp;
-        }
-
-        if (market.sharesDown > 0 && priceDown > 0) {
-            finalValueDown = market.sharesDown * priceDown;
-        }
-
-        const totalFinalValue = finalValueUp + finalValueDown;
-        return totalFinalValue - totalCostBasis;
+        return this.getMarketPnL(market, priceUp, priceDown);
     }
 
     /**
@@ -213,7 +273,13 @@ class MarketTracker {
                 'Outcome',
                 'Market Switch Reason',
                 // Paper-specific column kept for 1:1 CSV format
-                'Market Slug'
+                'Market Slug',
+                // Costs (see pnlAccounting) and PnL net of them; appended to keep column positions
+                'Fees ($)',
+                'Gas ($)',
+                'Rounding ($)',
+                'Net PnL ($)',
+                'Net PnL Percent (%)'
             ].join(',');
             fs.writeFileSync(this.csvFilePath, headers + '\n', 'utf8');
             console.log(`✓ Created CSV file: ${this.csvFilePath}`);
@@ -232,17 +298,17 @@ class MarketTracker {
             // Try to get final prices from positions of tracked traders
             for (const traderAddress of ENV.USER_ADDRESSES) {
                 try {
-                    const positions = await fetchData(
-                        `https://data-api.polymarket.com/positions?user=${traderAddress}`
-                    ).catch(() => null);
+                    const positions = await polymarketApi
+                        .getPositions({ user: traderAddress })
+                        .catch(() => null);
 
                     if (Array.isArray(positions)) {
                         for (const pos of positions) {
                             if (market.assetUp && pos.asset === market.assetUp && pos.curPrice !== undefined) {
-                                prices.priceUp = parseFloat(pos.curPrice);
+                                prices.priceUp = Number(pos.curPrice);
                             }
                             if (market.assetDown && pos.asset === market.assetDown && pos.curPrice !== undefined) {
-                                prices.priceDown = parseFloat(pos.curPrice);
+                                prices.priceDown = Number(pos.curPrice);
                             }
                         }
                     }
@@ -313,6 +379,8 @@ class MarketTracker {
         const totalPnl = pnlUp + pnlDown;
         // Use cost basis (totalCostUp + totalCostDown) for accurate PnL percentage (same as display)
         const pnlPercent = totalCostBasis > 0 ? (totalPnl / totalCostBasis) * 100 : 0;
+        const { feesUSD, gasUSD, roundingUSD, netPnl } = this.getMarketPnL(market, finalPriceUp, finalPriceDown);
+        const netPnlPercent = totalCostBasis > 0 ? (netPnl / totalCostBasis) * 100 : 0;
 
         // Calculate average cost per share
         const avgCostUp = market.sharesUp > 0 ? market.totalCostUp / market.sharesUp : 0;
@@ -371,7 +439,12 @@ class MarketTracker {
             market.tradesDown,
             outcome,
             'Market Closed', // Market Switch Reason
-            market.marketSlug || '' // Market Slug
+            market.marketSlug || '', // Market Slug
+            feesUSD.toFixed(4),
+            gasUSD.toFixed(4),
+            roundingUSD.toFixed(4),
+            netPnl.toFixed(2),
+            netPnlPercent.toFixed(2)
         ].join(',');
 
         // Append to CSV file
@@ -958,7 +1031,7 @@ class MarketTracker {
                     // Use async version to fetch live prices if needed
                     this.calculateCurrentPnLWithLivePrices(marketToRemove).then(currentPnL => {
                         const fullMarketName = marketToRemove.marketName || marketToRemove.marketKey;
-                        console.log(`📊 Captured PnL before rotation: ${fullMarketName} | PnL: $${currentPnL.toFixed(2)}`);
+                        console.log(`📊 Captured PnL before rotation: ${fullMarketName} | PnL: $${currentPnL.netPnl.toFixed(2)} net, $${currentPnL.grossPnl.toFixed(2)} gross`);
                         // Log to watcher PnL tracker for TXT report
                         watcherPnLTracker.logMarketPnL(
                             fullMarketName,
@@ -971,13 +1044,14 @@ class MarketTracker {
                             marketToRemove.currentPriceUp || 0,
                             marketToRemove.currentPriceDown || 0,
                             marketToRemove.tradesUp,
-                            marketToRemove.tradesDown
+                            marketToRemove.tradesDown,
+                            marketToRemove.costs
                         );
                     }).catch(() => {
                         // Fallback to sync version
                         const currentPnL = this.calculateCurrentPnL(marketToRemove);
                         const fullMarketName = marketToRemove.marketName || marketToRemove.marketKey;
-                        console.log(`📊 Captured PnL before rotation (fallback): ${fullMarketName} | PnL: $${currentPnL.toFixed(2)}`);
+                        console.log(`📊 Captured PnL before rotation (fallback): ${fullMarketName} | PnL: $${currentPnL.netPnl.toFixed(2)} net, $${currentPnL.grossPnl.toFixed(2)} gross`);
                         // Log to watcher PnL tracker for TXT report
                         watcherPnLTracker.logMarketPnL(
                             fullMarketName,
@@ -990,7 +1064,8 @@ class MarketTracker {
                             marketToRemove.currentPriceUp || 0,
                             marketToRemove.currentPriceDown || 0,
                             marketToRemove.tradesUp,
-                            marketToRemove.tradesDown
+                            marketToRemove.tradesDown,
+                            marketToRemove.costs
                         );
                     });
                     this.pnlCapturedMarkets.add(key);
@@ -1073,7 +1148,7 @@ class MarketTracker {
                     // Use async version to fetch live prices if needed
                     this.calculateCurrentPnLWithLivePrices(marketToRemove).then(currentPnL => {
                         const fullMarketName = marketToRemove.marketName || marketToRemove.marketKey;
-                        console.log(`📊 Captured PnL before window rotation: ${fullMarketName} | PnL: $${currentPnL.toFixed(2)}`);
+                        console.log(`📊 Captured PnL before window rotation: ${fullMarketName} | PnL: $${currentPnL.netPnl.toFixed(2)} net, $${currentPnL.grossPnl.toFixed(2)} gross`);
                         // Log to watcher PnL tracker for TXT report
                         watcherPnLTracker.logMarketPnL(
                             fullMarketName,
@@ -1086,13 +1161,14 @@ class MarketTracker {
                             marketToRemove.currentPriceUp || 0,
                             marketToRemove.currentPriceDown || 0,
                             marketToRemove.tradesUp,
-                            marketToRemove.tradesDown
+                            marketToRemove.tradesDown,
+                            marketToRemove.costs
                         );
                     }).catch(() => {
                         // Fallback to sync version
                         const currentPnL = this.calculateCurrentPnL(marketToRemove);
                         const fullMarketName = marketToRemove.marketName || marketToRemove.marketKey;
-                        console.log(`📊 Captured PnL before window rotation (fallback): ${fullMarketName} | PnL: $${currentPnL.toFixed(2)}`);
+                        console.log(`📊 Captured PnL before window rotation (fallback): ${fullMarketName} | PnL: $${currentPnL.netPnl.toFixed(2)} net, $${currentPnL.grossPnl.toFixed(2)} gross`);
                         // Log to watcher PnL tracker for TXT report
                         watcherPnLTracker.logMarketPnL(
                             fullMarketName,
@@ -1105,7 +1181,8 @@ class MarketTracker {
                             marketToRemove.currentPriceUp || 0,
                             marketToRemove.currentPriceDown || 0,
                             marketToRemove.tradesUp,
-                            marketToRemove.tradesDown
+                            marketToRemove.tradesDown,
+                            marketToRemove.costs
                         );
                     });
                     this.pnlCapturedMarkets.add(key);
@@ -1256,6 +1333,8 @@ class MarketTracker {
         const totalPnl = pnlUp + pnlDown;
         // Use cost basis (totalCostUp + totalCostDown) for accurate PnL percentage (same as display)
         const pnlPercent = totalCostBasis > 0 ? (totalPnl / totalCostBasis) * 100 : 0;
+        const { feesUSD, gasUSD, roundingUSD, netPnl } = this.getMarketPnL(market, finalPriceUp, finalPriceDown);
+        const netPnlPercent = totalCostBasis > 0 ? (netPnl / totalCostBasis) * 100 : 0;
 
         // Calculate average cost per share
         const avgCostUp = market.sharesUp > 0 ? market.totalCostUp / market.sharesUp : 0;
@@ -1321,7 +1400,12 @@ class MarketTracker {
             market.tradesDown,
             outcome,
             isSwitching ? 'Market Switch' : 'New Market Snapshot',
-            market.marketSlug || ''
+            market.marketSlug || '',
+            feesUSD.toFixed(4),
+            gasUSD.toFixed(4),
+            roundingUSD.toFixed(4),
+            netPnl.toFixed(2),
+            netPnlPercent.toFixed(2)
         ].join(',');
 
         try {
@@ -1731,6 +1815,10 @@ class MarketTracker {
                 }
                 // Note: We don't increment trade counters for SELL trades to keep them as BUY-only counters
             }
+
+            if (side === 'BUY' || side === 'SELL') {
+                market.costs = addCosts(market.costs ?? emptyCosts(), getFillCosts(side, shares, price));
+            }
             
             // Mark this trade as processed to prevent double-counting
             this.processedTrades.add(tradeId);
@@ -1743,13 +1831,17 @@ class MarketTracker {
     }
 
     /**
-     * Fetch order book prices from CLOB API (most accurate method)
+     * Fetch order book mid price, or best ask (live feed, falling back to the CLOB REST API)
      */
-    private async fetchOrderBookPrice(assetId: string): Promise<number | null> {
+    private async fetchOrderBookPrice(assetId: string, quote: 'mid' | 'ask' = 'mid'): Promise<number | null> {
+        // Live WebSocket book first; REST only when the socket is stale or the book isn't synced
+        const liveQuote = orderBookFeed.getQuote(assetId);
+        if (liveQuote !== null) {
+            return quote === 'ask' ? liveQuote.bestAsk : liveQuote.mid;
+        }
+
         try {
-            const bookData = await fetchData(
-                `https://clob.polymarket.com/book?token_id=${assetId}`
-            ).catch(() => null);
+            const bookData = await polymarketApi.getOrderBook(assetId).catch(() => null);
 
             if (bookData && bookData.bids && bookData.asks) {
                 const bids = bookData.bids;
@@ -1761,6 +1853,9 @@ class MarketTracker {
                     const bestAsk = Math.min(...asks.map((a: any) => parseFloat(a.price || 1)));
 
                     if (bestBid > 0 && bestAsk > 0 && bestBid <= 1 && bestAsk <= 1) {
+                        if (quote === 'ask') {
+                            return bestAsk;
+                        }
                         // Use mid price (average of best bid and best ask) - most accurate
                         return (bestBid + bestAsk) / 2;
                     }
@@ -1790,8 +1885,7 @@ class MarketTracker {
         try {
             // Try fetching by slug first (more reliable for new 15-min markets)
             if (market.marketSlug) {
-                const slugUrl = `https://gamma-api.polymarket.com/events?slug=${market.marketSlug}`;
-                const data = await fetchData(slugUrl).catch(() => null);
+                const data = await polymarketApi.getEventsBySlug(market.marketSlug).catch(() => null);
                 if (data && Array.isArray(data) && data.length > 0) {
                     const event = data[0];
                     const markets = event.markets || [];
@@ -1823,6 +1917,7 @@ class MarketTracker {
                             const isFirstUp = outcomes[0]?.toLowerCase().includes('up');
                             market.assetUp = isFirstUp ? clobTokenIds[0] : clobTokenIds[1];
                             market.assetDown = isFirstUp ? clobTokenIds[1] : clobTokenIds[0];
+                            market.negRisk = marketData.negRisk === true;
                             return true; // Successfully fetched asset IDs
                         }
                     }
@@ -1831,8 +1926,9 @@ class MarketTracker {
 
             // Fallback: Fetch from general markets list by conditionId
             if (market.conditionId) {
-                const gammaUrl = `https://gamma-api.polymarket.com/markets?active=true&closed=false&limit=500`;
-                const marketList = await fetchData(gammaUrl).catch(() => null);
+                const marketList = await polymarketApi
+                    .getMarkets({ active: true, closed: false, limit: 500 })
+                    .catch(() => null);
 
                 if (Array.isArray(marketList)) {
                     const marketData = marketList.find((m: any) => m.condition_id === market.conditionId);
@@ -1863,6 +1959,7 @@ class MarketTracker {
                             const isFirstUp = outcomes[0]?.toLowerCase().includes('up');
                             market.assetUp = isFirstUp ? clobTokenIds[0] : clobTokenIds[1];
                             market.assetDown = isFirstUp ? clobTokenIds[1] : clobTokenIds[0];
+                            market.negRisk = marketData.negRisk === true;
                             return true; // Successfully fetched asset IDs
                         }
                     }
@@ -2118,7 +2215,7 @@ class MarketTracker {
                         if (!this.pnlCapturedMarkets.has(marketToRemove.key)) {
                             const fullMarketName = marketToRemove.market.marketName || marketToRemove.market.marketKey;
                             const currentPnL = this.calculateCurrentPnL(marketToRemove.market);
-                            console.log(`📊 Captured PnL on category dedup: ${fullMarketName} | PnL: $${currentPnL.toFixed(2)}`);
+                            console.log(`📊 Captured PnL on category dedup: ${fullMarketName} | PnL: $${currentPnL.netPnl.toFixed(2)} net, $${currentPnL.grossPnl.toFixed(2)} gross`);
                             watcherPnLTracker.logMarketPnL(
                                 fullMarketName,
                                 marketToRemove.market.conditionId || '',
@@ -2130,7 +2227,8 @@ class MarketTracker {
                                 marketToRemove.market.currentPriceUp || 0,
                                 marketToRemove.market.currentPriceDown || 0,
                                 marketToRemove.market.tradesUp,
-                                marketToRemove.market.tradesDown
+                                marketToRemove.market.tradesDown,
+                                marketToRemove.market.costs
                             );
                             this.pnlCapturedMarkets.add(marketToRemove.key);
                         }
@@ -2158,7 +2256,7 @@ class MarketTracker {
                         // Use async version to fetch live prices if needed
                         this.calculateCurrentPnLWithLivePrices(marketToCapture).then(currentPnL => {
                             const fullMarketName = marketToCapture.marketName || marketToCapture.marketKey;
-                            console.log(`📊 Captured PnL on market close: ${fullMarketName} | PnL: $${currentPnL.toFixed(2)}`);
+                            console.log(`📊 Captured PnL on market close: ${fullMarketName} | PnL: $${currentPnL.netPnl.toFixed(2)} net, $${currentPnL.grossPnl.toFixed(2)} gross`);
                             // Log to watcher PnL tracker for TXT report
                             watcherPnLTracker.logMarketPnL(
                                 fullMarketName,
@@ -2171,13 +2269,14 @@ class MarketTracker {
                                 marketToCapture.currentPriceUp || 0,
                                 marketToCapture.currentPriceDown || 0,
                                 marketToCapture.tradesUp,
-                                marketToCapture.tradesDown
+                                marketToCapture.tradesDown,
+                                marketToCapture.costs
                             );
                         }).catch(() => {
                             // Fallback to sync version
                             const currentPnL = this.calculateCurrentPnL(marketToCapture);
                             const fullMarketName = marketToCapture.marketName || marketToCapture.marketKey;
-                            console.log(`📊 Captured PnL on market close (fallback): ${fullMarketName} | PnL: $${currentPnL.toFixed(2)}`);
+                            console.log(`📊 Captured PnL on market close (fallback): ${fullMarketName} | PnL: $${currentPnL.netPnl.toFixed(2)} net, $${currentPnL.grossPnl.toFixed(2)} gross`);
                             // Log to watcher PnL tracker for TXT report
                             watcherPnLTracker.logMarketPnL(
                                 fullMarketName,
@@ -2190,7 +2289,8 @@ class MarketTracker {
                                 marketToCapture.currentPriceUp || 0,
                                 marketToCapture.currentPriceDown || 0,
                                 marketToCapture.tradesUp,
-                                marketToCapture.tradesDown
+                                marketToCapture.tradesDown,
+                                marketToCapture.costs
                             );
                         });
                         this.pnlCapturedMarkets.add(marketKey);
@@ -2240,6 +2340,9 @@ class MarketTracker {
             return; // Lock will be released in finally block
         }
 
+        // Subscribe the live book to any newly discovered markets before pricing them
+        this.syncOrderBookFeed();
+
         // Fetch current prices for all active markets (in parallel)
         // fetchCurrentPrices will handle throttling and force fetch if prices are missing
         const pricePromises = activeMarkets.map(m => this.fetchCurrentPrices(m));
@@ -2357,7 +2460,7 @@ class MarketTracker {
         if (this.displayMode === 'PAPER') {
             // Paper mode header - show paper trading info
             // Calculate paper mode capital from tracked markets
-            const paperStartingCapital = parseFloat(process.env.PAPER_STARTING_CAPITAL || '10000');
+            const paperStartingCapital = ENV.PAPER_STARTING_CAPITAL;
             // Calculate current capital and portfolio value from market positions
             let paperCurrentCapital = paperStartingCapital;
             let paperPortfolioValue = 0;
@@ -2766,8 +2869,12 @@ class MarketTracker {
      * Fetch FRESH prices from CLOB API for a market by slug
      * This fetches directly from the orderbook - not cached values
      * Returns null if unable to fetch (missing asset IDs, API failure, etc.)
+     * Prices are book mids unless `quote` is 'ask' (what a BUY would pay right now).
      */
-    async fetchFreshPricesBySlug(slug: string): Promise<{ priceUp: number; priceDown: number } | null> {
+    async fetchFreshPricesBySlug(
+        slug: string,
+        quote: 'mid' | 'ask' = 'mid'
+    ): Promise<{ priceUp: number; priceDown: number; assetUp: string; assetDown: string } | null> {
         if (!slug) return null;
 
         const slugLower = slug.toLowerCase();
@@ -2786,12 +2893,12 @@ class MarketTracker {
             if (isMatch && market.assetUp && market.assetDown) {
                 // Fetch BOTH prices from CLOB API in parallel
                 const [priceUp, priceDown] = await Promise.all([
-                    this.fetchOrderBookPrice(market.assetUp),
-                    this.fetchOrderBookPrice(market.assetDown)
+                    this.fetchOrderBookPrice(market.assetUp, quote),
+                    this.fetchOrderBookPrice(market.assetDown, quote)
                 ]);
 
                 if (priceUp !== null && priceDown !== null) {
-                    return { priceUp, priceDown };
+                    return { priceUp, priceDown, assetUp: market.assetUp, assetDown: market.assetDown };
                 }
             }
         }
@@ -3043,8 +3150,7 @@ class MarketTracker {
             }
 
             try {
-                const url = `https://gamma-api.polymarket.com/events?slug=${slug}`;
-                const data = await fetchData(url).catch(() => null);
+                const data = await polymarketApi.getEventsBySlug(slug).catch(() => null);
 
                 if (data && Array.isArray(data) && data.length > 0) {
                     return { slug, data: data[0], marketKey, is15Min, isBTC };
@@ -3172,7 +3278,7 @@ class MarketTracker {
                         // Use async version to fetch live prices if needed
                         this.calculateCurrentPnLWithLivePrices(marketToCapture).then(currentPnL => {
                             const fullMarketName = marketToCapture.marketName || marketToCapture.marketKey;
-                            console.log(`📊 Captured PnL before 15m discovery rotation: ${fullMarketName} | PnL: $${currentPnL.toFixed(2)}`);
+                            console.log(`📊 Captured PnL before 15m discovery rotation: ${fullMarketName} | PnL: $${currentPnL.netPnl.toFixed(2)} net, $${currentPnL.grossPnl.toFixed(2)} gross`);
                             // Log to watcher PnL tracker for TXT report
                             watcherPnLTracker.logMarketPnL(
                                 fullMarketName,
@@ -3185,13 +3291,14 @@ class MarketTracker {
                                 marketToCapture.currentPriceUp || 0,
                                 marketToCapture.currentPriceDown || 0,
                                 marketToCapture.tradesUp,
-                                marketToCapture.tradesDown
+                                marketToCapture.tradesDown,
+                                marketToCapture.costs
                             );
                         }).catch(() => {
                             // Fallback to sync version
                             const currentPnL = this.calculateCurrentPnL(marketToCapture);
                             const fullMarketName = marketToCapture.marketName || marketToCapture.marketKey;
-                            console.log(`📊 Captured PnL before 15m discovery rotation (fallback): ${fullMarketName} | PnL: $${currentPnL.toFixed(2)}`);
+                            console.log(`📊 Captured PnL before 15m discovery rotation (fallback): ${fullMarketName} | PnL: $${currentPnL.netPnl.toFixed(2)} net, $${currentPnL.grossPnl.toFixed(2)} gross`);
                             // Log to watcher PnL tracker for TXT report
                             watcherPnLTracker.logMarketPnL(
                                 fullMarketName,
@@ -3204,7 +3311,8 @@ class MarketTracker {
                                 marketToCapture.currentPriceUp || 0,
                                 marketToCapture.currentPriceDown || 0,
                                 marketToCapture.tradesUp,
-                                marketToCapture.tradesDown
+                                marketToCapture.tradesDown,
+                                marketToCapture.costs
                             );
                         });
                         this.pnlCapturedMarkets.add(marketKey);
@@ -3370,6 +3478,12 @@ class MarketTracker {
         pnlDownPercent: number;
         totalPnL: number;
         totalPnLPercent: number;
+        feesUSD: number;
+        gasUSD: number;
+        roundingUSD: number;
+        netPnL: number;
+        netPnLPercent: number;
+        negRisk: boolean;
         tradesUp: number;
         tradesDown: number;
         upPercent: number;
@@ -3421,6 +3535,11 @@ class MarketTracker {
             const pnlUpPercent = market.totalCostUp > 0 ? (pnlUp / market.totalCostUp) * 100 : 0;
             const pnlDownPercent = market.totalCostDown > 0 ? (pnlDown / market.totalCostDown) * 100 : 0;
             const totalPnLPercent = totalCostBasis > 0 ? (totalPnL / totalCostBasis) * 100 : 0;
+            const { feesUSD, gasUSD, roundingUSD, netPnl } = getPnLBreakdown(
+                totalPnL,
+                market.costs ?? emptyCosts()
+            );
+            const netPnLPercent = totalCostBasis > 0 ? (netPnl / totalCostBasis) * 100 : 0;
 
             // Calculate time remaining - EXACT same logic as terminal display
             let timeRemaining = '';
@@ -3459,6 +3578,12 @@ class MarketTracker {
                 pnlDownPercent,
                 totalPnL,
                 totalPnLPercent,
+                feesUSD,
+                gasUSD,
+                roundingUSD,
+                netPnL: netPnl,
+                netPnLPercent,
+                negRisk: market.negRisk === true,
                 tradesUp: market.tradesUp,
                 tradesDown: market.tradesDown,
                 upPercent,
@@ -0,0 +1,300 @@
+/**
+ * Prometheus Metrics
+ * Counters, gauges and histograms rendered in the Prometheus text exposition format for the
+ * /metrics endpoints of the dashboard and API servers. Services update the instruments in
+ * `metrics` as things happen; exposure and PnL are read from the risk manager, the market
+ * tracker and the PnL ledger at scrape time.
+ */
+
+export type MetricLabels = Record<string, string>;
+
+const DEFAULT_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+const escapeLabelValue = (value: string): string =>
+    value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+
+const formatLabels = (labels: MetricLabels): string => {
+    const entries = Object.entries(labels);
+    if (entries.length === 0) {
+        return '';
+    }
+    return `{${entries.map(([key, value]) => `${key}="${escapeLabelValue(value)}"`).join(',')}}`;
+};
+
+const formatValue = (value: number): string => {
+    if (Number.isNaN(value)) {
+        return 'NaN';
+    }
+    if (!Number.isFinite(value)) {
+        return value > 0 ? '+Inf' : '-Inf';
+    }
+    return String(value);
+};
+
+// Series are keyed by their label set, so the same labels in any order hit the same series
+const seriesKey = (labels: MetricLabels): string =>
+    JSON.stringify(
+        Object.keys(labels)
+            .sort()
+            .map((key) => [key, labels[key]])
+    );
+
+abstract class Metric {
+    constructor(
+        readonly name: string,
+        readonly help: string,
+        readonly type: 'counter' | 'gauge' | 'histogram'
+    ) {}
+
+    protected abstract renderSeries(): string[];
+
+    render(): string {
+        return [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`]
+            .concat(this.renderSeries())
+            .join('\n');
+    }
+}
+
+export class Counter extends Metric {
+    private series = new Map<string, { labels: MetricLabels; value: number }>();
+
+    constructor(name: string, help: string) {
+        super(name, help, 'counter');
+    }
+
+    inc(labels: MetricLabels = {}, value = 1): void {
+        const key = seriesKey(labels);
+        const entry = this.series.get(key) ?? { labels, value: 0 };
+        entry.value += value;
+        this.series.set(key, entry);
+    }
+
+    get(labels: MetricLabels = {}): number {
+        return this.series.get(seriesKey(labels))?.value ?? 0;
+    }
+
+    /**
+     * Sum over every label set
+     */
+    total(): number {
+        return Array.from(this.series.values()).reduce((sum, { value }) => sum + value, 0);
+    }
+
+    protected renderSeries(): string[] {
+        return Array.from(this.series.values()).map(
+            ({ labels, value }) => `${this.name}${formatLabels(labels)} ${formatValue(value)}`
+        );
+    }
+}
+
+export class Gauge extends Metric {
+    private series = new Map<string, { labels: MetricLabels; value: number }>();
+
+    constructor(name: string, help: string) {
+        super(name, help, 'gauge');
+    }
+
+    set(value: number, labels: MetricLabels = {}): void {
+        this.series.set(seriesKey(labels), { labels, value });
+    }
+
+    get(labels: MetricLabels = {}): number {
+        return this.series.get(seriesKey(labels))?.value ?? 0;
+    }
+
+    /**
+     * Drop every series (for gauges rebuilt from a snapshot, e.g. exposure per category)
+     */
+    reset(): void {
+        this.series.clear();
+    }
+
+    protected renderSeries(): string[] {
+        return Array.from(this.series.values()).map(
+            ({ labels, value }) => `${this.name}${formatLabels(labels)} ${formatValue(value)}`
+        );
+    }
+}
+
+export class Histogram extends Metric {
+    private series = new Map<
+        string,
+        { labels: MetricLabels; counts: number[]; sum: number; count: number }
+    >();
+
+    constructor(
+        name: string,
+        help: string,
+        private readonly buckets: number[] = DEFAULT_BUCKETS
+    ) {
+        super(name, help, 'histogram');
+    }
+
+    observe(value: number, labels: MetricLabels = {}): void {
+        const key = seriesKey(labels);
+        const entry = this.series.get(key) ?? {
+            labels,
+            counts: this.buckets.map(() => 0),
+            sum: 0,
+            count: 0,
+        };
+        this.buckets.forEach((bound, i) => {
+            if (value <= bound) {
+                entry.counts[i]++;
+            }
+        });
+        entry.sum += value;
+        entry.count++;
+        this.series.set(key, entry);
+    }
+
+    protected renderSeries(): string[] {
+        const lines: string[] = [];
+        for (const { labels, counts, sum, count } of this.series.values()) {
+            this.buckets.forEach((bound, i) => {
+                const bucketLabels = formatLabels({ ...labels, le: formatValue(bound) });
+                lines.push(`${this.name}_bucket${bucketLabels} ${counts[i]}`);
+            });
+            lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`);
+            lines.push(`${this.name}_sum${formatLabels(labels)} ${formatValue(sum)}`);
+            lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+        }
+        return lines;
+    }
+}
+
+export class MetricsRegistry {
+    private metrics: Metric[] = [];
+    private collectors: Array<() => void | Promise<void>> = [];
+
+    counter(name: string, help: string): Counter {
+        return this.register(new Counter(name, help));
+    }
+
+    gauge(name: string, help: string): Gauge {
+        return this.register(new Gauge(name, help));
+    }
+
+    histogram(name: string, help: string, buckets?: number[]): Histogram {
+        return this.register(new Histogram(name, help, buckets));
+    }
+
+    /**
+     * Run before every render, to refresh gauges that mirror state owned elsewhere
+     */
+    addCollector(collector: () => void | Promise<void>): void {
+        this.collectors.push(collector);
+    }
+
+    async render(): Promise<string> {
+        for (const collector of this.collectors) {
+            try {
+                await collector();
+            } catch {
+                // A failing collector leaves its gauges at their last values
+            }
+        }
+        return this.metrics.map((metric) => metric.render()).join('\n') + '\n';
+    }
+
+    private register<T extends Metric>(metric: T): T {
+        this.metrics.push(metric);
+        return metric;
+    }
+}
+
+export const METRICS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+export type SkipReason =
+    | 'category'
+    | 'below_minimum'
+    | 'slippage'
+    | 'late'
+    | 'risk_limit'
+    | 'sizing'
+    | 'no_position'
+    | 'no_liquidity'
+    | 'insufficient_funds'
+    | 'order_failed'
+    | 'limit_expired'
+    | 'resolved_market'
+    | 'unknown_condition';
+
+export const registry = new MetricsRegistry();
+
+export const metrics = {
+    pollCycleSeconds: registry.histogram(
+        'copybot_poll_cycle_seconds',
+        'Duration of one poll of the watched traders that were due'
+    ),
+    tradesDetected: registry.counter(
+        'copybot_trades_detected_total',
+        'Leader activities detected, by type'
+    ),
+    tradesCopied: registry.counter(
+        'copybot_trades_copied_total',
+        'Leader trades copied with at least one fill, by side'
+    ),
+    tradesSkipped: registry.counter(
+        'copybot_trades_skipped_total',
+        'Leader trades not copied, by reason'
+    ),
+    orderLatencySeconds: registry.histogram(
+        'copybot_order_latency_seconds',
+        'Time to sign and post a market order, by side'
+    ),
+    orderRejections: registry.counter(
+        'copybot_order_rejections_total',
+        'Orders rejected by the CLOB, by reason'
+    ),
+    apiErrors: registry.counter('copybot_api_errors_total', 'Failed API requests, by host'),
+    openExposureUSD: registry.gauge(
+        'copybot_open_exposure_usd',
+        'Open position exposure in USD, by market category'
+    ),
+    realizedPnLUSD: registry.gauge(
+        'copybot_realized_pnl_usd',
+        'PnL of settled markets in USD, gross and net of fees, gas and rounding'
+    ),
+    unrealizedPnLUSD: registry.gauge(
+        'copybot_unrealized_pnl_usd',
+        'PnL of open markets at current prices in USD, gross and net'
+    ),
+    websocketClients: registry.gauge(
+        'copybot_websocket_clients',
+        'Dashboard WebSocket clients connected'
+    ),
+};
+
+// Imported lazily: these services pull in the API client, which reports to `metrics`
+registry.addCollector(async () => {
+    const { riskManager } = await import('./riskManager');
+    const { exposure } = riskManager.getState();
+    metrics.openExposureUSD.reset();
+    metrics.openExposureUSD.set(exposure.total, { category: 'all' });
+    for (const [category, usd] of Object.entries(exposure.byCategory)) {
+        metrics.openExposureUSD.set(usd, { category });
+    }
+});
+
+registry.addCollector(async () => {
+    const { default: watcherPnLTracker } = await import('./watcherPnLTracker');
+    const { totalPnL, totalNetPnL } = watcherPnLTracker.getStats();
+    metrics.realizedPnLUSD.set(totalPnL, { basis: 'gross' });
+    metrics.realizedPnLUSD.set(totalNetPnL, { basis: 'net' });
+});
+
+registry.addCollector(async () => {
+    const { default: marketTracker } = await import('./marketTracker');
+    const markets = marketTracker.getMarketsForWebApp().filter((m) => !m.isExpired);
+    metrics.unrealizedPnLUSD.set(
+        markets.reduce((sum, m) => sum + m.totalPnL, 0),
+        { basis: 'gross' }
+    );
+    metrics.unrealizedPnLUSD.set(
+        markets.reduce((sum, m) => sum + m.netPnL, 0),
+        { basis: 'net' }
+    );
+});
+
+export default metrics;
@@ -0,0 +1,274 @@
+/**
+ * Notifications
+ * Pushes alerts the operator would otherwise only find in the logs (copied trades, failed or
+ * rejected orders, kill-switch trips, health degradation, market close PnL, daily summaries) to
+ * a generic HTTP webhook, a Telegram chat and/or a Discord channel.
+ *
+ * Each event type is rate limited on its own rolling hour, and a notification repeating the
+ * same dedupe key within NOTIFY_DEDUPE_SECONDS is dropped, so an order retried five times or a
+ * health check failing every cycle produces one message. Sending never throws: a sink that is
+ * down costs a warning in the log, not a trade.
+ */
+
+import axios from 'axios';
+import { ENV } from '../config/env';
+import Logger from '../utils/logger';
+import { getRunId } from '../utils/runId';
+
+export type NotificationEvent =
+    | 'trade_copied'
+    | 'order_failed'
+    | 'kill_switch'
+    | 'health_degraded'
+    | 'market_closed'
+    | 'daily_summary';
+
+export type NotificationSeverity = 'info' | 'warning' | 'critical';
+
+export interface Notification {
+    event: NotificationEvent;
+    severity: NotificationSeverity;
+    title: string;
+    message: string;
+    fields?: Record<string, string | number | boolean>;
+    // Notifications sharing a key within the dedupe window are sent once (default: title + message)
+    dedupeKey?: string;
+}
+
+export interface NotificationSink {
+    name: string;
+    send(notification: Notification): Promise<void>;
+}
+
+export interface NotifierOptions {
+    events?: string[]; // Event types to send (empty = all)
+    rateLimitPerHour?: number; // Per event type (0 = unlimited)
+    dedupeSeconds?: number; // 0 disables dedupe
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const SEVERITY_ICONS: Record<NotificationSeverity, string> = {
+    info: 'ℹ️',
+    warning: '⚠️',
+    critical: '🚨',
+};
+
+// Discord embed colours (decimal RGB)
+const SEVERITY_COLORS: Record<NotificationSeverity, number> = {
+    info: 0x3498db,
+    warning: 0xf1c40f,
+    critical: 0xe74c3c,
+};
+
+const formatFields = (fields: Notification['fields'] = {}): string[] =>
+    Object.entries(fields).map(([name, value]) => `${name}: ${value}`);
+
+/**
+ * Plain-text rendering shared by the chat sinks
+ */
+export const formatNotificationText = (notification: Notification): string =>
+    [
+        `${SEVERITY_ICONS[notification.severity]} ${notification.title}`,
+        notification.message,
+        ...formatFields(notification.fields),
+    ]
+        .filter((line) => line.length > 0)
+        .join('\n');
+
+/**
+ * POST the notification as JSON to any HTTP endpoint
+ */
+export class WebhookSink implements NotificationSink {
+    readonly name = 'webhook';
+
+    constructor(
+        private readonly url: string,
+        private readonly timeoutMs: number = ENV.NOTIFY_TIMEOUT_MS
+    ) {}
+
+    async send(notification: Notification): Promise<void> {
+        await axios.post(
+            this.url,
+            {
+                event: notification.event,
+                severity: notification.severity,
+                title: notification.title,
+                message: notification.message,
+                fields: notification.fields || {},
+                runId: getRunId(),
+                timestamp: new Date().toISOString(),
+            },
+            { timeout: this.timeoutMs }
+        );
+    }
+}
+
+/**
+ * Message a chat through the Telegram Bot API (sendMessage)
+ * `apiUrl` defaults to api.telegram.org; point it elsewhere for a local stand-in.
+ */
+export class TelegramSink implements NotificationSink {
+    readonly name = 'telegram';
+
+    constructor(
+        private readonly botToken: string,
+        private readonly chatId: string,
+        private readonly apiUrl: string = 'https://api.telegram.org',
+        private readonly timeoutMs: number = ENV.NOTIFY_TIMEOUT_MS
+    ) {}
+
+    async send(notification: Notification): Promise<void> {
+        await axios.post(
+            `${this.apiUrl.replace(/\/+$/, '')}/bot${this.botToken}/sendMessage`,
+            {
+                chat_id: this.chatId,
+                text: formatNotificationText(notification),
+                disable_web_page_preview: true,
+            },
+            { timeout: this.timeoutMs }
+        );
+    }
+}
+
+/**
+ * Post an embed to a Discord channel webhook
+ */
+export class DiscordSink implements NotificationSink {
+    readonly name = 'discord';
+
+    constructor(
+        private readonly webhookUrl: string,
+        private readonly timeoutMs: number = ENV.NOTIFY_TIMEOUT_MS
+    ) {}
+
+    async send(notification: Notification): Promise<void> {
+        await axios.post(
+            this.webhookUrl,
+            {
+                embeds: [
+                    {
+                        title: `${SEVERITY_ICONS[notification.severity]} ${notification.title}`,
+                        description: notification.message,
+                        color: SEVERITY_COLORS[notification.severity],
+                        fields: Object.entries(notification.fields || {}).map(([name, value]) => ({
+                            name,
+                            value: String(value),
+                            inline: true,
+                        })),
+                        timestamp: new Date().toISOString(),
+                    },
+                ],
+            },
+            { timeout: this.timeoutMs }
+        );
+    }
+}
+
+/**
+ * Sinks configured through NOTIFY_* settings
+ */
+export const createSinksFromEnv = (): NotificationSink[] => {
+    const sinks: NotificationSink[] = [];
+    if (ENV.NOTIFY_WEBHOOK_URL) {
+        sinks.push(new WebhookSink(ENV.NOTIFY_WEBHOOK_URL));
+    }
+    if (ENV.NOTIFY_TELEGRAM_BOT_TOKEN && ENV.NOTIFY_TELEGRAM_CHAT_ID) {
+        sinks.push(
+            new TelegramSink(
+                ENV.NOTIFY_TELEGRAM_BOT_TOKEN,
+                ENV.NOTIFY_TELEGRAM_CHAT_ID,
+                ENV.NOTIFY_TELEGRAM_API_URL
+            )
+        );
+    }
+    if (ENV.NOTIFY_DISCORD_WEBHOOK_URL) {
+        sinks.push(new DiscordSink(ENV.NOTIFY_DISCORD_WEBHOOK_URL));
+    }
+    return sinks;
+};
+
+export class Notifier {
+    private sentAt = new Map<NotificationEvent, number[]>();
+    private lastSentByKey = new Map<string, number>();
+
+    constructor(
+        private readonly sinks: NotificationSink[],
+        private readonly options: NotifierOptions = {},
+        private readonly now: () => number = Date.now
+    ) {}
+
+    isEnabled(): boolean {
+        return this.sinks.length > 0;
+    }
+
+    /**
+     * Send to every sink unless the event is filtered out, rate limited or a recent duplicate
+     * Resolves once all sinks have answered; sink failures are logged, never thrown.
+     */
+    async notify(notification: Notification): Promise<void> {
+        if (!this.shouldSend(notification)) {
+            return;
+        }
+
+        const results = await Promise.allSettled(this.sinks.map((sink) => sink.send(notification)));
+        results.forEach((result, i) => {
+            if (result.status === 'rejected') {
+                const reason = result.reason;
+                Logger.warning(
+                    `Failed to send ${notification.event} notification to ${this.sinks[i].name}: ${
+                        reason instanceof Error ? reason.message : String(reason)
+                    }`
+                );
+            }
+        });
+    }
+
+    private shouldSend(notification: Notification): boolean {
+        const { events = [], rateLimitPerHour = 0, dedupeSeconds = 0 } = this.options;
+        if (this.sinks.length === 0) {
+            return false;
+        }
+        if (events.length > 0 && !events.includes(notification.event)) {
+            return false;
+        }
+
+        const now = this.now();
+        const key = `${notification.event}:${notification.dedupeKey ?? `${notification.title}\n${notification.message}`}`;
+        if (dedupeSeconds > 0) {
+            const lastSent = this.lastSentByKey.get(key);
+            if (lastSent !== undefined && now - lastSent < dedupeSeconds * 1000) {
+                return false;
+            }
+            for (const [staleKey, sentAt] of this.lastSentByKey) {
+                if (now - sentAt >= dedupeSeconds * 1000) {
+                    this.lastSentByKey.delete(staleKey);
+                }
+            }
+        }
+
+        const recent = (this.sentAt.get(notification.event) || []).filter(
+            (sentAt) => now - sentAt < HOUR_MS
+        );
+        if (rateLimitPerHour > 0 && recent.length >= rateLimitPerHour) {
+            this.sentAt.set(notification.event, recent);
+            Logger.debug(`Dropped ${notification.event} notification (rate limited)`, {
+                title: notification.title,
+            });
+            return false;
+        }
+
+        recent.push(now);
+        this.sentAt.set(notification.event, recent);
+        this.lastSentByKey.set(key, now);
+        return true;
+    }
+}
+
+export const notifier = new Notifier(createSinksFromEnv(), {
+    events: ENV.NOTIFY_EVENTS,
+    rateLimitPerHour: ENV.NOTIFY_RATE_LIMIT_PER_HOUR,
+    dedupeSeconds: ENV.NOTIFY_DEDUPE_SECONDS,
+});
+
+export default notifier;
@@ -0,0 +1,258 @@
+/**
+ * Optimizer
+ * Grid search over CopyStrategyConfig fields, scored by the backtester on one historical dataset
+ * with anchored walk-forward validation: the history is cut into `folds + 1` equal time
+ * segments, and fold k trains on segments 0..k and tests on segment k + 1. Every point is
+ * ranked by its average out-of-sample ROI, and the sweep also reports what picking the best
+ * in-sample config each fold would have earned on the following segment - the honest estimate
+ * of tuning presets this way.
+ *
+ * Points are evaluated in-process on worker threads (see optimizerWorker), `workers` at a time.
+ */
+
+import * as path from 'path';
+import { Worker } from 'worker_threads';
+import {
+    CopyStrategy,
+    CopyStrategyConfig,
+    MultiplierTier,
+    parseTieredMultipliers,
+    validateCopyStrategyConfig,
+} from '../config/copyStrategy';
+import {
+    BacktestOptions,
+    BacktestResult,
+    BacktestTrade,
+    MarketResolution,
+    runBacktest,
+} from './backtester';
+
+export type SearchSpace = {
+    [K in keyof CopyStrategyConfig]?: Array<CopyStrategyConfig[K]>;
+};
+
+export interface WalkForwardWindow {
+    trainStart: number;
+    trainEnd: number; // Also where the test segment starts
+    testEnd: number;
+}
+
+export interface SweepScore {
+    roiPercent: number;
+    totalPnl: number;
+    maxDrawdownPercent: number;
+    copiedTrades: number;
+}
+
+export interface SweepResult {
+    config: CopyStrategyConfig;
+    full: SweepScore; // The whole history in one run
+    inSample: SweepScore; // Averaged over the folds' training segments
+    outOfSample: SweepScore; // Averaged over the folds' test segments
+    inSampleRoi: number[]; // Per fold
+    outOfSampleRoi: number[]; // Per fold
+}
+
+export interface WalkForwardPick {
+    fold: number;
+    config: CopyStrategyConfig;
+    inSampleRoi: number;
+    outOfSampleRoi: number;
+}
+
+export interface SweepJob {
+    configs: CopyStrategyConfig[];
+    trades: BacktestTrade[];
+    resolutions: Map<string, MarketResolution>;
+    windows: WalkForwardWindow[];
+    options: Omit<BacktestOptions, 'copyConfig'>;
+}
+
+const WORKER_PATH = path.join(__dirname, 'optimizerWorker');
+
+/**
+ * Search space from its JSON form (tiers may be given as TIERED_MULTIPLIERS strings)
+ */
+export const parseSearchSpace = (raw: Record<string, unknown[]>): SearchSpace => {
+    const space: Record<string, unknown[]> = {};
+    for (const [field, values] of Object.entries(raw)) {
+        if (!Array.isArray(values) || values.length === 0) {
+            throw new Error(`Search space field ${field} must be a non-empty array`);
+        }
+        space[field] =
+            field === 'tieredMultipliers'
+                ? values.map((v) => (typeof v === 'string' ? parseTieredMultipliers(v) : v))
+                : values;
+    }
+    if (space.strategy) {
+        const invalid = space.strategy.filter(
+            (s) => !Object.values(CopyStrategy).includes(s as CopyStrategy)
+        );
+        if (invalid.length > 0) {
+            throw new Error(`Unknown strategy in search space: ${invalid.join(', ')}`);
+        }
+    }
+    return space as SearchSpace;
+};
+
+/**
+ * Every combination of the search space on top of `base`, leaving out invalid configs
+ */
+export const expandSearchSpace = (
+    base: CopyStrategyConfig,
+    space: SearchSpace
+): CopyStrategyConfig[] => {
+    let configs: CopyStrategyConfig[] = [{ ...base }];
+    for (const [field, values] of Object.entries(space)) {
+        configs = configs.flatMap((config) =>
+            (values as unknown[]).map((value) => ({ ...config, [field]: value }))
+        );
+    }
+    return configs.filter((config) => validateCopyStrategyConfig(config).length === 0);
+};
+
+const formatTiers = (tiers: MultiplierTier[]): string =>
+    tiers.map((t) => `${t.min}${t.max === null ? '+' : `-${t.max}`}:${t.multiplier}`).join(',');
+
+/**
+ * Short description of the fields a sweep point sets
+ */
+export const describeConfig = (config: CopyStrategyConfig, space: SearchSpace): string =>
+    Object.keys(space)
+        .map((field) => {
+            const value = config[field as keyof CopyStrategyConfig];
+            return `${field}=${
+                field === 'tieredMultipliers' && Array.isArray(value)
+                    ? formatTiers(value as MultiplierTier[])
+                    : String(value)
+            }`;
+        })
+        .join(' ');
+
+/**
+ * Anchored walk-forward windows over the trades' time span
+ */
+export const buildWalkForwardWindows = (
+    trades: BacktestTrade[],
+    folds: number
+): WalkForwardWindow[] => {
+    if (trades.length === 0 || folds < 1) {
+        return [];
+    }
+    const timestamps = trades.map((t) => t.timestamp);
+    const start = Math.min(...timestamps);
+    // Past the last trade so the final segment includes it
+    const end = Math.max(...timestamps) + 1;
+    const segment = (end - start) / (folds + 1);
+    return Array.from({ length: folds }, (_, i) => ({
+        trainStart: start,
+        trainEnd: start + (i + 1) * segment,
+        testEnd: i === folds - 1 ? end : start + (i + 2) * segment,
+    }));
+};
+
+const score = (result: BacktestResult): SweepScore => ({
+    roiPercent: result.roiPercent,
+    totalPnl: result.totalPnl,
+    maxDrawdownPercent: result.maxDrawdownPercent,
+    copiedTrades: result.copiedTrades,
+});
+
+const averageScore = (scores: SweepScore[]): SweepScore => {
+    const mean = (pick: (s: SweepScore) => number): number =>
+        scores.length > 0 ? scores.reduce((sum, s) => sum + pick(s), 0) / scores.length : 0;
+    return {
+        roiPercent: mean((s) => s.roiPercent),
+        totalPnl: mean((s) => s.totalPnl),
+        maxDrawdownPercent: mean((s) => s.maxDrawdownPercent),
+        copiedTrades: mean((s) => s.copiedTrades),
+    };
+};
+
+const between = (trades: BacktestTrade[], from: number, to: number): BacktestTrade[] =>
+    trades.filter((t) => t.timestamp >= from && t.timestamp < to);
+
+/**
+ * Backtest one config on the whole history and on every walk-forward segment
+ * Each segment starts from fresh capital and holds its positions to their outcome.
+ */
+export const evaluateConfig = (
+    config: CopyStrategyConfig,
+    job: Omit<SweepJob, 'configs'>
+): SweepResult => {
+    const run = (trades: BacktestTrade[]): SweepScore =>
+        score(runBacktest(trades, job.resolutions, { ...job.options, copyConfig: config }));
+
+    const inSample = job.windows.map((w) => run(between(job.trades, w.trainStart, w.trainEnd)));
+    const outOfSample = job.windows.map((w) => run(between(job.trades, w.trainEnd, w.testEnd)));
+    return {
+        config,
+        full: run(job.trades),
+        inSample: averageScore(inSample),
+        outOfSample: averageScore(outOfSample),
+        inSampleRoi: inSample.map((s) => s.roiPercent),
+        outOfSampleRoi: outOfSample.map((s) => s.roiPercent),
+    };
+};
+
+/**
+ * Best first: average out-of-sample ROI, then full-history ROI
+ */
+export const rankSweepResults = (results: SweepResult[]): SweepResult[] =>
+    [...results].sort(
+        (a, b) =>
+            b.outOfSample.roiPercent - a.outOfSample.roiPercent ||
+            b.full.roiPercent - a.full.roiPercent
+    );
+
+/**
+ * What re-tuning every fold would have earned: the config with the best ROI on each training
+ * segment, scored on the test segment that follows it
+ */
+export const pickWalkForward = (results: SweepResult[]): WalkForwardPick[] =>
+    results.length === 0
+        ? []
+        : results[0].outOfSampleRoi.map((_, fold) => {
+              const best = results.reduce((a, b) =>
+                  b.inSampleRoi[fold] > a.inSampleRoi[fold] ? b : a
+              );
+              return {
+                  fold: fold + 1,
+                  config: best.config,
+                  inSampleRoi: best.inSampleRoi[fold],
+                  outOfSampleRoi: best.outOfSampleRoi[fold],
+              };
+          });
+
+const runWorker = (job: SweepJob): Promise<SweepResult[]> =>
+    new Promise((resolve, reject) => {
+        // Under ts-node the worker has to register it again to load TypeScript sources
+        const source = __filename.endsWith('.ts')
+            ? `require('ts-node/register'); require(${JSON.stringify(WORKER_PATH)});`
+            : `require(${JSON.stringify(WORKER_PATH)});`;
+        // Pass this thread's env explicitly, so overrides made through `process.env` carry over
+        const worker = new Worker(source, { eval: true, workerData: job, env: process.env });
+        worker.once('message', resolve);
+        worker.once('error', reject);
+        worker.once('exit', (code) => {
+            if (code !== 0) {
+                reject(new Error(`Optimizer worker exited with code ${code}`));
+            }
+        });
+    });
+
+/**
+ * Evaluate every config, spreading them over `workers` threads (1 = on this thread)
+ */
+export const runSweep = async (job: SweepJob, workers: number): Promise<SweepResult[]> => {
+    if (workers <= 1 || job.configs.length <= 1) {
+        return job.configs.map((config) => evaluateConfig(config, job));
+    }
+    const chunks: CopyStrategyConfig[][] = Array.from(
+        { length: Math.min(workers, job.configs.length) },
+        () => []
+    );
+    job.configs.forEach((config, i) => chunks[i % chunks.length].push(config));
+    const results = await Promise.all(chunks.map((configs) => runWorker({ ...job, configs })));
+    return results.flat();
+};
@@ -0,0 +1,11 @@
+/**
+ * Optimizer Worker
+ * Thread entry point for runSweep: evaluates its share of the sweep and posts the results back.
+ */
+
+import { parentPort, workerData } from 'worker_threads';
+import { evaluateConfig, SweepJob } from './optimizer';
+
+const job = workerData as SweepJob;
+
+parentPort?.postMessage(job.configs.map((config) => evaluateConfig(config, job)));
@@ -0,0 +1,393 @@
+/**
+ * Order Book Feed
+ * Subscribes to the CLOB market WebSocket channel and keeps a local book (and best bid/ask)
+ * for every tracked outcome token. Reconnects with backoff, resubscribes on reconnect, and
+ * resyncs from a fresh snapshot when it detects a gap (update before snapshot, out-of-order
+ * update, crossed book, or a best bid/ask that disagrees with the server's).
+ * Callers should fall back to REST when getQuote() returns null (socket stale or book invalid).
+ */
+
+import WebSocket from 'ws';
+import { ENV } from '../config/env';
+import Logger from '../utils/logger';
+
+export interface BookQuote {
+    bestBid: number;
+    bestAsk: number;
+    mid: number;
+    updatedAt: number;
+}
+
+interface BookLevelMessage {
+    price: string;
+    size: string;
+}
+
+interface PriceChangeMessage {
+    asset_id: string;
+    price: string;
+    size: string;
+    side: 'BUY' | 'SELL';
+    best_bid?: string;
+    best_ask?: string;
+}
+
+interface MarketChannelMessage {
+    event_type: 'book' | 'price_change' | 'tick_size_change' | 'last_trade_price' | string;
+    asset_id?: string;
+    market?: string;
+    timestamp?: string;
+    bids?: BookLevelMessage[];
+    asks?: BookLevelMessage[];
+    // Current format: one message carries changes for several assets
+    price_changes?: PriceChangeMessage[];
+    // Legacy format: changes for a single asset_id
+    changes?: Array<{ price: string; size: string; side: 'BUY' | 'SELL' }>;
+}
+
+interface LocalBook {
+    bids: Map<string, number>;
+    asks: Map<string, number>;
+    valid: boolean;
+    lastTimestamp: number; // Server timestamp (ms) of the last applied message
+    updatedAt: number; // Local time of the last applied message
+}
+
+type QuoteListener = (assetId: string, quote: BookQuote) => void;
+
+const PING_INTERVAL_MS = 5000;
+const RESYNC_DEBOUNCE_MS = 1000;
+const MIN_RECONNECT_DELAY_MS = 1000;
+const MAX_RECONNECT_DELAY_MS = 30000;
+
+const bestOf = (levels: Map<string, number>, pick: 'max' | 'min'): number | null => {
+    let best: number | null = null;
+    for (const [price, size] of levels) {
+        if (size <= 0) continue;
+        const p = parseFloat(price);
+        if (best === null || (pick === 'max' ? p > best : p < best)) {
+            best = p;
+        }
+    }
+    return best;
+};
+
+export class OrderBookFeed {
+    private socket: WebSocket | null = null;
+    private assets = new Set<string>();
+    private books = new Map<string, LocalBook>();
+    private listeners = new Set<QuoteListener>();
+    private running = false;
+    private connected = false;
+    private lastMessageAt = 0;
+    private reconnectDelayMs = MIN_RECONNECT_DELAY_MS;
+    private reconnectTimer: NodeJS.Timeout | null = null;
+    private resyncTimer: NodeJS.Timeout | null = null;
+    private pingTimer: NodeJS.Timeout | null = null;
+
+    constructor(
+        private readonly url: string,
+        private readonly staleMs: number,
+        private readonly now: () => number = Date.now
+    ) {}
+
+    /**
+     * Track exactly these outcome tokens (subscribes new ones if connected)
+     */
+    setAssets(assetIds: string[]): void {
+        const wanted = new Set(assetIds.filter(Boolean));
+        const added = [...wanted].filter((id) => !this.assets.has(id));
+        for (const id of this.assets) {
+            if (!wanted.has(id)) {
+                this.books.delete(id);
+            }
+        }
+        this.assets = wanted;
+
+        if (added.length > 0 && this.connected) {
+            this.send({ assets_ids: added, operation: 'subscribe' });
+        }
+    }
+
+    /**
+     * Best bid/ask for a token, or null if the socket is stale or the local book isn't usable
+     */
+    getQuote(assetId: string): BookQuote | null {
+        if (!this.isLive()) {
+            return null;
+        }
+        const book = this.books.get(assetId);
+        if (!book || !book.valid) {
+            return null;
+        }
+        return this.quoteFor(book);
+    }
+
+    getMidPrice(assetId: string): number | null {
+        return this.getQuote(assetId)?.mid ?? null;
+    }
+
+    onQuote(listener: QuoteListener): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    /**
+     * Connected and heard from the server (data or PONG) within the stale window
+     */
+    isLive(): boolean {
+        return this.connected && this.now() - this.lastMessageAt <= this.staleMs;
+    }
+
+    start(): void {
+        if (this.running) {
+            return;
+        }
+        this.running = true;
+        this.connect();
+    }
+
+    stop(): void {
+        this.running = false;
+        this.connected = false;
+        for (const timer of [this.reconnectTimer, this.resyncTimer, this.pingTimer]) {
+            if (timer) clearTimeout(timer);
+        }
+        this.reconnectTimer = null;
+        this.resyncTimer = null;
+        this.pingTimer = null;
+        if (this.socket) {
+            this.socket.removeAllListeners();
+            this.socket.on('error', () => {}); // Ignore errors from a socket we're discarding
+            this.socket.terminate();
+            this.socket = null;
+        }
+    }
+
+    /**
+     * Apply one raw market-channel frame (exposed for tests)
+     */
+    handleMessage(raw: string): void {
+        this.lastMessageAt = this.now();
+        if (raw === 'PONG' || raw === '') {
+            return;
+        }
+
+        let parsed: MarketChannelMessage | MarketChannelMessage[];
+        try {
+            parsed = JSON.parse(raw);
+        } catch {
+            return;
+        }
+
+        for (const message of Array.isArray(parsed) ? parsed : [parsed]) {
+            if (message.event_type === 'book') {
+                this.applySnapshot(message);
+            } else if (message.event_type === 'price_change') {
+                this.applyPriceChange(message);
+            }
+        }
+    }
+
+    private connect(): void {
+        if (!this.running) {
+            return;
+        }
+        let socket: WebSocket;
+        try {
+            socket = new WebSocket(this.url);
+        } catch (error) {
+            this.handleDisconnect(`failed to connect (${error})`);
+            return;
+        }
+        this.socket = socket;
+
+        socket.on('open', () => {
+            this.connected = true;
+            this.lastMessageAt = this.now();
+            this.reconnectDelayMs = MIN_RECONNECT_DELAY_MS;
+            // Every (re)subscribe returns fresh snapshots, so old books are dropped until then
+            for (const book of this.books.values()) {
+                book.valid = false;
+            }
+            this.send({ assets_ids: [...this.assets], type: 'market' });
+            this.schedulePing();
+        });
+
+        socket.on('message', (data: WebSocket.RawData) => {
+            this.handleMessage(data.toString());
+        });
+
+        socket.on('close', () => {
+            this.handleDisconnect('closed');
+        });
+
+        socket.on('error', (error: Error) => {
+            Logger.warning(`Order book feed error: ${error.message}`);
+            socket.terminate();
+        });
+    }
+
+    private handleDisconnect(reason: string): void {
+        this.connected = false;
+        if (this.pingTimer) {
+            clearTimeout(this.pingTimer);
+            this.pingTimer = null;
+        }
+        if (!this.running || this.reconnectTimer) {
+            return;
+        }
+        const delay = this.reconnectDelayMs;
+        this.reconnectDelayMs = Math.min(MAX_RECONNECT_DELAY_MS, this.reconnectDelayMs * 2);
+        Logger.warning(`Order book feed ${reason} - reconnecting in ${delay / 1000}s`);
+        this.reconnectTimer = setTimeout(() => {
+            this.reconnectTimer = null;
+            this.connect();
+        }, delay);
+    }
+
+    private schedulePing(): void {
+        this.pingTimer = setTimeout(() => {
+            if (this.socket && this.connected) {
+                this.socket.send('PING');
+                this.schedulePing();
+            }
+        }, PING_INTERVAL_MS);
+    }
+
+    private send(payload: object): void {
+        if (this.socket && this.socket.readyState === WebSocket.OPEN) {
+            this.socket.send(JSON.stringify(payload));
+        }
+    }
+
+    /**
+     * Ask for fresh snapshots after a gap (debounced across assets)
+     */
+    private requestResync(assetId: string, reason: string): void {
+        const book = this.books.get(assetId);
+        if (book) {
+            book.valid = false;
+        }
+        if (this.resyncTimer || !this.connected) {
+            return;
+        }
+        Logger.warning(`Order book gap on ${assetId.slice(0, 10)}... (${reason}) - resyncing`);
+        this.resyncTimer = setTimeout(() => {
+            this.resyncTimer = null;
+            const stale = [...this.books.entries()]
+                .filter(([id, b]) => !b.valid && this.assets.has(id))
+                .map(([id]) => id);
+            if (stale.length > 0) {
+                this.send({ assets_ids: stale, operation: 'subscribe' });
+            }
+        }, RESYNC_DEBOUNCE_MS);
+    }
+
+    private applySnapshot(message: MarketChannelMessage): void {
+        const assetId = message.asset_id;
+        if (!assetId || !this.assets.has(assetId)) {
+            return;
+        }
+        const toLevels = (levels: BookLevelMessage[] = []) =>
+            new Map(levels.map((l) => [l.price, parseFloat(l.size)] as [string, number]));
+        const book: LocalBook = {
+            bids: toLevels(message.bids),
+            asks: toLevels(message.asks),
+            valid: true,
+            lastTimestamp: Number(message.timestamp) || 0,
+            updatedAt: this.now(),
+        };
+        this.books.set(assetId, book);
+        this.afterUpdate(assetId, book);
+    }
+
+    private applyPriceChange(message: MarketChannelMessage): void {
+        const timestamp = Number(message.timestamp) || 0;
+        const changes: PriceChangeMessage[] = message.price_changes
+            ? message.price_changes
+            : (message.changes || []).map((c) => ({ ...c, asset_id: message.asset_id || '' }));
+
+        const touched = new Map<string, PriceChangeMessage>();
+        for (const change of changes) {
+            const assetId = change.asset_id;
+            if (!assetId || !this.assets.has(assetId)) {
+                continue;
+            }
+            const book = this.books.get(assetId);
+            if (!book || !book.valid) {
+                this.requestResync(assetId, 'update before snapshot');
+                continue;
+            }
+            if (timestamp && book.lastTimestamp && timestamp < book.lastTimestamp) {
+                this.requestResync(assetId, 'out-of-order update');
+                continue;
+            }
+            const side = change.side === 'BUY' ? book.bids : book.asks;
+            const size = parseFloat(change.size);
+            if (size > 0) {
+                side.set(change.price, size);
+            } else {
+                side.delete(change.price);
+            }
+            book.lastTimestamp = Math.max(book.lastTimestamp, timestamp);
+            book.updatedAt = this.now();
+            touched.set(assetId, change);
+        }
+
+        for (const [assetId, change] of touched) {
+            const book = this.books.get(assetId)!;
+            // The server reports its best bid/ask after the change - ours must agree
+            const quote = this.quoteFor(book);
+            const serverBid = change.best_bid !== undefined ? parseFloat(change.best_bid) : null;
+            const serverAsk = change.best_ask !== undefined ? parseFloat(change.best_ask) : null;
+            if (
+                quote &&
+                ((serverBid !== null &&
+                    serverBid > 0 &&
+                    Math.abs(serverBid - quote.bestBid) > 1e-9) ||
+                    (serverAsk !== null &&
+                        serverAsk > 0 &&
+                        Math.abs(serverAsk - quote.bestAsk) > 1e-9))
+            ) {
+                this.requestResync(assetId, 'best bid/ask mismatch');
+                continue;
+            }
+            this.afterUpdate(assetId, book);
+        }
+    }
+
+    private afterUpdate(assetId: string, book: LocalBook): void {
+        const quote = this.quoteFor(book);
+        if (!quote) {
+            return;
+        }
+        if (quote.bestBid >= quote.bestAsk) {
+            this.requestResync(assetId, 'crossed book');
+            return;
+        }
+        for (const listener of this.listeners) {
+            try {
+                listener(assetId, quote);
+            } catch (error) {
+                Logger.error(`Order book listener error: ${error}`);
+            }
+        }
+    }
+
+    private quoteFor(book: LocalBook): BookQuote | null {
+        const bestBid = bestOf(book.bids, 'max');
+        const bestAsk = bestOf(book.asks, 'min');
+        if (bestBid === null || bestAsk === null) {
+            return null;
+        }
+        return { bestBid, bestAsk, mid: (bestBid + bestAsk) / 2, updatedAt: book.updatedAt };
+    }
+}
+
+const marketChannelUrl = `${(ENV.CLOB_WS_URL || '').replace(/\/+$/, '')}/market`;
+
+export const orderBookFeed = new OrderBookFeed(marketChannelUrl, ENV.CLOB_WS_STALE_MS);
+export default orderBookFeed;
@@ -1,18 +1,422 @@
 /**
- * Paper Trade Monitor - Stub module
- * This module would handle paper trading simulation
+ * Paper Trade Monitor
+ * Simulates the policy-driven strategy against live order book prices.
+ * Markets are discovered the same way as watcher mode, decisions come from
+ * policyIntegrator, fills from policyEngine's execution model, and positions
+ * are settled against a virtual USDC balance when each window ends.
  */
+import { ENV } from '../config/env';
+import polymarketApi from '../utils/polymarketApi';
+import Logger from '../utils/logger';
+import marketTracker from './marketTracker';
+import orderBookFeed from './orderBookFeed';
+import tradeLogger from './tradeLogger';
+import priceStreamLogger from './priceStreamLogger';
+import { policyIntegrator } from './policyIntegrator';
+import { policyEngine } from './policyEngine';
+import { getParamLoader } from './paramLoader';
 
-let isRunning = false;
+const POLL_INTERVAL_MS = ENV.PAPER_POLL_INTERVAL_MS;
+const ENTRY_CUTOFF_MS = ENV.PAPER_ENTRY_CUTOFF_SECONDS * 1000;
+const MIN_ORDER_SIZE_USD = 1.0; // Same minimum as live orders in postOrder
 
+interface PaperMarket {
+    marketKey: string;
+    marketName: string;
+    marketSlug?: string;
+    conditionId: string;
+    assetUp: string;
+    assetDown: string;
+    endDate: number;
+    priceUp: number;
+    priceDown: number;
+}
+
+interface PaperPosition {
+    sharesUp: number;
+    sharesDown: number;
+    costBasisUp: number;
+    costBasisDown: number;
+    tradesUp: number;
+    tradesDown: number;
+}
+
+export interface PaperPnLEntry {
+    marketName: string;
+    conditionId: string;
+    totalPnl: number;
+    pnlPercent: number;
+    priceUp: number;
+    priceDown: number;
+    sharesUp: number;
+    sharesDown: number;
+    timestamp: number;
+}
+
+/**
+ * Mid price for an asset from the live order book feed, or the CLOB REST book if it's stale
+ */
+const fetchMidPrice = async (assetId: string): Promise<number | null> => {
+    const livePrice = orderBookFeed.getMidPrice(assetId);
+    if (livePrice !== null) {
+        return livePrice;
+    }
+
+    const book = await polymarketApi.getOrderBook(assetId).catch(() => null);
+    if (!book?.bids?.length || !book?.asks?.length) {
+        return null;
+    }
+
+    const bestBid = Math.max(...book.bids.map((b) => parseFloat(b.price || '0')));
+    const bestAsk = Math.min(...book.asks.map((a) => parseFloat(a.price || '1')));
+    if (bestBid <= 0 || bestAsk <= 0 || bestBid > 1 || bestAsk > 1) {
+        return null;
+    }
+    return (bestBid + bestAsk) / 2;
+};
+
+class PaperTrader {
+    private startingBalance = ENV.PAPER_STARTING_CAPITAL;
+    private balance = ENV.PAPER_STARTING_CAPITAL;
+    private markets: Map<string, PaperMarket> = new Map();
+    private positions: Map<string, PaperPosition> = new Map();
+    private pnlHistory: PaperPnLEntry[] = [];
+    private tradeCounter = 0;
+
+    getBalance(): number {
+        return this.balance;
+    }
+
+    getStartingBalance(): number {
+        return this.startingBalance;
+    }
+
+    getPnLHistory(): PaperPnLEntry[] {
+        return this.pnlHistory.map((entry) => ({ ...entry }));
+    }
+
+    /**
+     * Value of open positions at current mid prices
+     */
+    getPortfolioValue(): number {
+        let value = 0;
+        for (const [marketKey, position] of this.positions) {
+            const market = this.markets.get(marketKey);
+            if (!market) continue;
+            value += position.sharesUp * market.priceUp + position.sharesDown * market.priceDown;
+        }
+        return value;
+    }
+
+    /**
+     * Pick up markets discovered by marketTracker that we aren't simulating yet
+     */
+    discoverMarkets(): void {
+        const now = Date.now();
+        for (const market of marketTracker.getMarkets().values()) {
+            if (this.markets.has(market.marketKey)) continue;
+            if (!market.assetUp || !market.assetDown || !market.conditionId || !market.endDate) {
+                continue;
+            }
+            if (market.endDate <= now) continue;
+
+            this.markets.set(market.marketKey, {
+                marketKey: market.marketKey,
+                marketName: market.marketName,
+                marketSlug: market.marketSlug,
+                conditionId: market.conditionId,
+                assetUp: market.assetUp,
+                assetDown: market.assetDown,
+                endDate: market.endDate,
+                priceUp: market.currentPriceUp ?? 0,
+                priceDown: market.currentPriceDown ?? 0,
+            });
+            Logger.info(`📄 Paper trader now tracking ${market.marketName}`);
+        }
+    }
+
+    /**
+     * Refresh live prices and run the policy for every open market
+     */
+    async evaluateMarkets(): Promise<void> {
+        const now = Date.now();
+        const openMarkets = Array.from(this.markets.values()).filter((m) => m.endDate > now);
+
+        await Promise.all(
+            openMarkets.map(async (market) => {
+                const [priceUp, priceDown] = await Promise.all([
+                    fetchMidPrice(market.assetUp),
+                    fetchMidPrice(market.assetDown),
+                ]);
+                if (priceUp === null || priceDown === null) {
+                    return;
+                }
+                market.priceUp = priceUp;
+                market.priceDown = priceDown;
+            })
+        );
+
+        for (const market of openMarkets) {
+            if (market.priceUp <= 0 || market.priceDown <= 0) continue;
+            if (market.endDate - now < ENTRY_CUTOFF_MS) continue;
+
+            const marketParams = getParamLoader().getMarketParams(market.marketKey);
+            const decision = policyIntegrator.shouldTrade(
+                market.marketKey,
+                now,
+                market.priceUp,
+                market.priceDown,
+                marketParams
+            );
+            if (!decision.shouldTrade || !decision.side || decision.shares <= 0) {
+                continue;
+            }
+
+            const snapshotPx = decision.side === 'UP' ? market.priceUp : market.priceDown;
+            const fillPrice =
+                decision.fillPrice ??
+                policyEngine.simulateFillPrice(
+                    decision.side,
+                    snapshotPx,
+                    marketParams.execution_params
+                );
+            await this.executeBuy(market, decision.side, decision.shares, fillPrice, now);
+        }
+    }
+
+    /**
+     * Simulate a BUY fill against the virtual balance
+     */
+    private async executeBuy(
+        market: PaperMarket,
+        side: 'UP' | 'DOWN',
+        requestedShares: number,
+        fillPrice: number,
+        timestamp: number
+    ): Promise<void> {
+        const price = Math.min(0.99, Math.max(0.01, fillPrice));
+        let shares = requestedShares;
+        if (shares * price > this.balance) {
+            shares = Math.floor((this.balance / price) * 100) / 100;
+        }
+        const cost = shares * price;
+        if (cost < MIN_ORDER_SIZE_USD) {
+            Logger.warning(
+                `Paper trade skipped for ${market.marketName}: $${cost.toFixed(2)} is below $${MIN_ORDER_SIZE_USD} minimum (balance: $${this.balance.toFixed(2)})`
+            );
+            return;
+        }
+
+        this.balance -= cost;
+        const position = this.getPosition(market.marketKey);
+        if (side === 'UP') {
+            position.sharesUp += shares;
+            position.costBasisUp += cost;
+            position.tradesUp += 1;
+        } else {
+            position.sharesDown += shares;
+            position.costBasisDown += cost;
+            position.tradesDown += 1;
+        }
+        policyIntegrator.recordTradeExecution(market.marketKey, timestamp, side, shares, cost);
+
+        const transactionHash = `paper-${timestamp}-${++this.tradeCounter}`;
+        Logger.info(
+            `📄 PAPER BUY ${side} ${shares.toFixed(2)} @ $${price.toFixed(4)} ($${cost.toFixed(2)}) | ${market.marketName} | Balance: $${this.balance.toFixed(2)}`
+        );
+
+        priceStreamLogger.markPaperEntry(
+            market.marketSlug || market.marketKey,
+            market.marketName,
+            market.priceUp,
+            market.priceDown,
+            `BUY ${side} ${shares.toFixed(2)} @ ${price.toFixed(4)}`,
+            transactionHash,
+            timestamp
+        );
+
+        await tradeLogger.logTrade(
+            {
+                transactionHash,
+                timestamp: Math.floor(timestamp / 1000),
+                conditionId: market.conditionId,
+                asset: side === 'UP' ? market.assetUp : market.assetDown,
+                slug: market.marketSlug,
+                eventSlug: market.marketSlug,
+                title: market.marketName,
+                side: 'BUY',
+                outcome: side === 'UP' ? 'Up' : 'Down',
+                outcomeIndex: side === 'UP' ? 0 : 1,
+                size: shares,
+                price,
+                usdcSize: cost,
+                marketPriceUp: market.priceUp,
+                marketPriceDown: market.priceDown,
+            },
+            'paper'
+        );
+    }
+
+    /**
+     * Settle markets whose window has ended
+     * The winner is inferred from the last observed prices, matching watcherPnLTracker
+     */
+    settleExpiredMarkets(): string[] {
+        const now = Date.now();
+        const settled: string[] = [];
+
+        for (const market of this.markets.values()) {
+            if (market.endDate > now) continue;
+            settled.push(market.marketKey);
+
+            const position = this.positions.get(market.marketKey);
+            policyIntegrator.resetInventory(market.marketKey);
+            if (!position || (position.sharesUp === 0 && position.sharesDown === 0)) {
+                continue;
+            }
+
+            const upWins = market.priceUp >= market.priceDown;
+            const payout = upWins ? position.sharesUp : position.sharesDown;
+            const invested = position.costBasisUp + position.costBasisDown;
+            const totalPnl = payout - invested;
+            const pnlPercent = invested > 0 ? (totalPnl / invested) * 100 : 0;
+            this.balance += payout;
+
+            this.pnlHistory.push({
+                marketName: market.marketName,
+                conditionId: market.conditionId,
+                totalPnl,
+                pnlPercent,
+                priceUp: market.priceUp,
+                priceDown: market.priceDown,
+                sharesUp: position.sharesUp,
+                sharesDown: position.sharesDown,
+                timestamp: now,
+            });
+
+            const sign = totalPnl >= 0 ? '+' : '';
+            Logger.info(
+                `📄 Paper market settled (${upWins ? 'UP' : 'DOWN'} won): ${market.marketName} | PnL: ${sign}$${totalPnl.toFixed(2)} (${sign}${pnlPercent.toFixed(1)}%) | Balance: $${this.balance.toFixed(2)}`
+            );
+        }
+
+        return settled;
+    }
+
+    /**
+     * Push positions into marketTracker so the terminal and web dashboards
+     * render paper mode the same way as watcher mode
+     */
+    syncToMarketTracker(): void {
+        const paperPositions = Array.from(this.markets.values()).map((market) => {
+            const position = this.getPosition(market.marketKey);
+            return {
+                conditionId: market.conditionId,
+                marketKey: market.marketKey,
+                marketName: market.marketName,
+                marketSlug: market.marketSlug,
+                sharesUp: position.sharesUp,
+                sharesDown: position.sharesDown,
+                costBasisUp: position.costBasisUp,
+                costBasisDown: position.costBasisDown,
+                avgPriceUp: position.sharesUp > 0 ? position.costBasisUp / position.sharesUp : 0,
+                avgPriceDown:
+                    position.sharesDown > 0 ? position.costBasisDown / position.sharesDown : 0,
+                tradesUp: position.tradesUp,
+                tradesDown: position.tradesDown,
+                endDate: market.endDate,
+            };
+        });
+
+        const marketData = new Map(
+            Array.from(this.markets.values()).map((market) => [
+                market.marketKey,
+                {
+                    conditionId: market.conditionId,
+                    priceUp: market.priceUp,
+                    priceDown: market.priceDown,
+                    assetUp: market.assetUp,
+                    assetDown: market.assetDown,
+                    endDate: market.endDate,
+                },
+            ])
+        );
+
+        marketTracker.syncPaperPositions(paperPositions, marketData);
+    }
+
+    /**
+     * Forget settled markets once marketTracker has seen their final state
+     */
+    removeMarkets(marketKeys: string[]): void {
+        for (const marketKey of marketKeys) {
+            this.markets.delete(marketKey);
+            this.positions.delete(marketKey);
+        }
+    }
+
+    private getPosition(marketKey: string): PaperPosition {
+        let position = this.positions.get(marketKey);
+        if (!position) {
+            position = {
+                sharesUp: 0,
+                sharesDown: 0,
+                costBasisUp: 0,
+                costBasisDown: 0,
+                tradesUp: 0,
+                tradesDown: 0,
+            };
+            this.positions.set(marketKey, position);
+        }
+        return position;
+    }
+}
+
+export const paperTrader = new PaperTrader();
+
+let isRunning = true;
+
+/**
+ * Stop the paper trade monitor gracefully
+ */
 export const stopPaperTradeMonitor = () => {
     isRunning = false;
+    Logger.info('Paper trade monitor shutdown requested...');
 };
 
 const paperTradeMonitor = async () => {
     isRunning = true;
-    // Paper trading monitor implementation would go here
-    // For now this is a stub that does nothing
+    marketTracker.setDisplayMode('PAPER');
+    Logger.success(
+        `Paper trading started with $${paperTrader.getStartingBalance().toFixed(2)} virtual USDC`
+    );
+
+    while (isRunning) {
+        try {
+            await marketTracker.proactivelyDiscover15MinMarkets();
+            paperTrader.discoverMarkets();
+            await paperTrader.evaluateMarkets();
+
+            // Settled markets are synced one last time so marketTracker records their PnL
+            const settled = paperTrader.settleExpiredMarkets();
+            paperTrader.syncToMarketTracker();
+            await marketTracker.displayStats();
+            paperTrader.removeMarkets(settled);
+        } catch (error) {
+            Logger.error(`Paper trade loop error: ${error}`);
+        }
+
+        if (!isRunning) break;
+        await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+    }
+
+    const pnl =
+        paperTrader.getBalance() +
+        paperTrader.getPortfolioValue() -
+        paperTrader.getStartingBalance();
+    Logger.info(
+        `Paper trade monitor stopped | Balance: $${paperTrader.getBalance().toFixed(2)} | Total PnL: ${pnl >= 0 ? '+' : ''}$${pnl.toFixed(2)}`
+    );
 };
 
 export default paperTradeMonitor;
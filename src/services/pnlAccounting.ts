@@ -0,0 +1,118 @@
+/**
+ * PnL Accounting
+ * One cost model for every fill and redemption, so the market tracker, the watcher PnL report,
+ * the dashboard and external bot metrics all report the same gross and net figures.
+ *
+ * - Taker fees follow Polymarket's formula: rate × min(price, 1 - price) × shares (FEE_RATE_BPS)
+ * - Fills settle on the market's price tick (BUYs round up, SELLs down) for whole lots; the
+ *   price difference is a rounding loss (PRICE_TICK_SIZE, SHARE_LOT_SIZE)
+ * - Each fill may pay gas (FILL_GAS_USD - 0 for gasless CLOB orders through a proxy wallet),
+ *   and redeeming a settled market's winnings pays REDEEM_GAS_USD once per market
+ *
+ * Gross PnL is value minus cost basis, as before; net PnL is gross minus fees, gas and rounding.
+ */
+
+import { ENV } from '../config/env';
+
+export interface AccountingConfig {
+    feeRateBps: number;
+    fillGasUSD: number;
+    redeemGasUSD: number;
+    tickSize: number;
+    lotSize: number;
+}
+
+export interface TradingCosts {
+    feesUSD: number;
+    gasUSD: number;
+    roundingUSD: number;
+}
+
+export interface PnLBreakdown extends TradingCosts {
+    grossPnl: number;
+    netPnl: number;
+}
+
+// Tolerance so prices already on the tick don't round a whole tick away
+const EPSILON = 1e-9;
+
+export const getAccountingConfig = (): AccountingConfig => ({
+    feeRateBps: ENV.FEE_RATE_BPS,
+    fillGasUSD: ENV.FILL_GAS_USD,
+    redeemGasUSD: ENV.REDEEM_GAS_USD,
+    tickSize: ENV.PRICE_TICK_SIZE,
+    lotSize: ENV.SHARE_LOT_SIZE,
+});
+
+export const emptyCosts = (): TradingCosts => ({ feesUSD: 0, gasUSD: 0, roundingUSD: 0 });
+
+export const addCosts = (a: TradingCosts, b: TradingCosts): TradingCosts => ({
+    feesUSD: a.feesUSD + b.feesUSD,
+    gasUSD: a.gasUSD + b.gasUSD,
+    roundingUSD: a.roundingUSD + b.roundingUSD,
+});
+
+/**
+ * Price the exchange settles a fill at: BUYs round up to the tick, SELLs down
+ */
+export const roundToTick = (price: number, tickSize: number, side: 'BUY' | 'SELL'): number => {
+    if (tickSize <= 0) {
+        return price;
+    }
+    const ticks = price / tickSize;
+    return (side === 'BUY' ? Math.ceil(ticks - EPSILON) : Math.floor(ticks + EPSILON)) * tickSize;
+};
+
+/**
+ * Shares that fill in whole lots
+ */
+export const roundToLot = (shares: number, lotSize: number): number =>
+    lotSize > 0 ? Math.floor(shares / lotSize + EPSILON) * lotSize : shares;
+
+/**
+ * Fees, gas and rounding loss of one fill
+ */
+export const getFillCosts = (
+    side: 'BUY' | 'SELL',
+    shares: number,
+    price: number,
+    config: AccountingConfig = getAccountingConfig()
+): TradingCosts => {
+    if (shares <= 0 || price <= 0) {
+        return emptyCosts();
+    }
+    const lots = roundToLot(shares, config.lotSize);
+    const tickPrice = roundToTick(price, config.tickSize, side);
+    return {
+        feesUSD: (config.feeRateBps / 10000) * Math.min(price, 1 - price) * shares,
+        gasUSD: config.fillGasUSD,
+        roundingUSD: Math.abs(tickPrice - price) * lots,
+    };
+};
+
+/**
+ * Gas to redeem a settled market (nothing to redeem without winning shares)
+ */
+export const getRedemptionGas = (
+    winningShares: number,
+    config: AccountingConfig = getAccountingConfig()
+): number => (winningShares > 0 ? config.redeemGasUSD : 0);
+
+/**
+ * Gross and net PnL of a position given its accumulated costs
+ * `redemptionGasUSD` is added for settled markets (see getRedemptionGas).
+ */
+export const getPnLBreakdown = (
+    grossPnl: number,
+    costs: TradingCosts,
+    redemptionGasUSD = 0
+): PnLBreakdown => {
+    const gasUSD = costs.gasUSD + redemptionGasUSD;
+    return {
+        grossPnl,
+        feesUSD: costs.feesUSD,
+        gasUSD,
+        roundingUSD: costs.roundingUSD,
+        netPnl: grossPnl - costs.feesUSD - gasUSD - costs.roundingUSD,
+    };
+};
@@ -0,0 +1,202 @@
+/**
+ * Poll Scheduler
+ * Decides which watched wallets are due for a poll and runs those polls with bounded
+ * concurrency. Each wallet has its own interval: a wallet that just traded is polled at the
+ * hot interval, and the interval backs off towards the idle interval while it stays quiet.
+ * Also tracks detection latency (trade timestamp -> when we saw it).
+ */
+
+import { ENV } from '../config/env';
+
+export interface PollSchedulerOptions {
+    concurrency: number;
+    hotIntervalMs: number;
+    idleIntervalMs: number;
+    initialIntervalMs: number;
+    backoffFactor: number;
+    // How long a wallet stays "hot" after its last new trade
+    hotWindowMs: number;
+}
+
+export interface DetectionLatencyStats {
+    samples: number;
+    lastMs?: number;
+    avgMs?: number;
+    p50Ms?: number;
+    p95Ms?: number;
+    maxMs?: number;
+}
+
+export interface AddressPollState {
+    address: string;
+    intervalMs: number;
+    nextPollAt: number;
+    lastPollAt?: number;
+    lastTradeAt?: number;
+    polls: number;
+    inFlight: boolean;
+}
+
+// Keep the latest N latency samples for percentiles
+const MAX_LATENCY_SAMPLES = 500;
+
+export class PollScheduler {
+    private states = new Map<string, AddressPollState>();
+    private latencies: number[] = [];
+
+    constructor(
+        private readonly options: PollSchedulerOptions,
+        private readonly now: () => number = Date.now
+    ) {}
+
+    /**
+     * Sync tracked wallets with the watchlist: new ones are due immediately, removed ones dropped
+     */
+    setAddresses(addresses: string[]): void {
+        const wanted = new Set(addresses.map((a) => a.toLowerCase()));
+        for (const key of this.states.keys()) {
+            if (!wanted.has(key)) {
+                this.states.delete(key);
+            }
+        }
+        const now = this.now();
+        for (const address of addresses) {
+            const key = address.toLowerCase();
+            if (!this.states.has(key)) {
+                this.states.set(key, {
+                    address,
+                    intervalMs: this.options.initialIntervalMs,
+                    nextPollAt: now,
+                    polls: 0,
+                    inFlight: false,
+                });
+            }
+        }
+    }
+
+    /**
+     * Wallets whose next poll time has passed
+     */
+    getDueAddresses(): string[] {
+        const now = this.now();
+        return [...this.states.values()]
+            .filter((s) => !s.inFlight && s.nextPollAt <= now)
+            .sort((a, b) => a.nextPollAt - b.nextPollAt)
+            .map((s) => s.address);
+    }
+
+    /**
+     * Poll every due wallet, at most `concurrency` at a time
+     * pollFn returns the number of new trades it found for the wallet.
+     */
+    async runDue(pollFn: (address: string) => Promise<number>): Promise<void> {
+        const queue = this.getDueAddresses();
+        const workers = Array.from(
+            { length: Math.min(this.options.concurrency, queue.length) },
+            async () => {
+                let address = queue.shift();
+                while (address !== undefined) {
+                    await this.pollOne(address, pollFn);
+                    address = queue.shift();
+                }
+            }
+        );
+        await Promise.all(workers);
+    }
+
+    /**
+     * Time until the next wallet is due (0 if one is due now)
+     */
+    msUntilNextDue(): number {
+        let next = Infinity;
+        for (const state of this.states.values()) {
+            if (!state.inFlight) {
+                next = Math.min(next, state.nextPollAt);
+            }
+        }
+        return next === Infinity ? this.options.idleIntervalMs : Math.max(0, next - this.now());
+    }
+
+    /**
+     * Record that a trade made at `tradeTimestampSeconds` was detected now
+     * Ignored on a wallet's first poll, where "new" trades are just the backlog.
+     */
+    recordDetection(address: string, tradeTimestampSeconds: number): void {
+        const state = this.states.get(address.toLowerCase());
+        if (!state || state.polls === 0) {
+            return;
+        }
+        const latency = Math.max(0, this.now() - tradeTimestampSeconds * 1000);
+        this.latencies.push(latency);
+        if (this.latencies.length > MAX_LATENCY_SAMPLES) {
+            this.latencies.shift();
+        }
+    }
+
+    getLatencyStats(): DetectionLatencyStats {
+        const samples = this.latencies.length;
+        if (samples === 0) {
+            return { samples };
+        }
+        const sorted = [...this.latencies].sort((a, b) => a - b);
+        const percentile = (p: number) =>
+            sorted[Math.min(sorted.length - 1, Math.floor((p / 100) * sorted.length))];
+        return {
+            samples,
+            lastMs: this.latencies[samples - 1],
+            avgMs: Math.round(sorted.reduce((sum, v) => sum + v, 0) / samples),
+            p50Ms: percentile(50),
+            p95Ms: percentile(95),
+            maxMs: sorted[sorted.length - 1],
+        };
+    }
+
+    getState(address: string): AddressPollState | undefined {
+        const state = this.states.get(address.toLowerCase());
+        return state ? { ...state } : undefined;
+    }
+
+    private async pollOne(
+        address: string,
+        pollFn: (address: string) => Promise<number>
+    ): Promise<void> {
+        const state = this.states.get(address.toLowerCase());
+        if (!state) {
+            return;
+        }
+        state.inFlight = true;
+        let newTrades = 0;
+        try {
+            newTrades = await pollFn(address);
+        } finally {
+            const now = this.now();
+            state.inFlight = false;
+            state.polls += 1;
+            state.lastPollAt = now;
+            if (newTrades > 0) {
+                state.lastTradeAt = now;
+            }
+            state.intervalMs = this.nextInterval(state, now);
+            state.nextPollAt = now + state.intervalMs;
+        }
+    }
+
+    private nextInterval(state: AddressPollState, now: number): number {
+        const { hotIntervalMs, idleIntervalMs, backoffFactor, hotWindowMs } = this.options;
+        if (state.lastTradeAt !== undefined && now - state.lastTradeAt <= hotWindowMs) {
+            return hotIntervalMs;
+        }
+        return Math.min(idleIntervalMs, Math.max(hotIntervalMs, state.intervalMs * backoffFactor));
+    }
+}
+
+export const pollScheduler = new PollScheduler({
+    concurrency: ENV.MONITOR_CONCURRENCY,
+    hotIntervalMs: ENV.POLL_HOT_INTERVAL_SECONDS * 1000,
+    idleIntervalMs: ENV.POLL_IDLE_INTERVAL_SECONDS * 1000,
+    initialIntervalMs: ENV.FETCH_INTERVAL * 1000,
+    backoffFactor: 1.5,
+    hotWindowMs: 60 * 1000,
+});
+
+export default pollScheduler;
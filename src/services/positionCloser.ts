@@ -1,13 +1,249 @@
 /**
- * Position Closer - Stub module
- * This module would handle closing positions when markets end
+ * Position Closer
+ * Unwinds our remaining UP/DOWN shares of a 15m/1h market through the CLOB
+ * before the window resolves. Triggered by marketTracker when a market is
+ * closed or switched, and by a sweep that fires shortly before endDate.
  */
 
-import { MarketStats } from './marketTracker';
+import { ClobClient, OrderType, Side } from '@polymarket/clob-client';
+import { ENV } from '../config/env';
+import { DataApiPosition } from '../interfaces/Polymarket';
+import polymarketApi from '../utils/polymarketApi';
+import Logger from '../utils/logger';
+import { recordExecutionEvent } from './appState';
+import marketTracker, { MarketStats } from './marketTracker';
 
-export const closeMarketPositions = async (clobClient: any, market: MarketStats): Promise<void> => {
-    // Position closing implementation would go here
-    // For now this is a stub that does nothing
+const RETRY_LIMIT = ENV.RETRY_LIMIT;
+const CLOSE_SECONDS_BEFORE_END = ENV.CLOSE_POSITIONS_SECONDS_BEFORE_END;
+const MIN_BID = ENV.CLOSE_POSITIONS_MIN_BID;
+const SWEEP_INTERVAL_MS = 1000;
+
+// Polymarket minimum order size in tokens for SELL orders (same as postOrder)
+const MIN_ORDER_SIZE_TOKENS = 1.0;
+
+// Markets without a known end date stay claimed this long after their unwind
+const UNKNOWN_END_RETENTION_MS = 60 * 60 * 1000;
+
+// Markets we've already unwound (keyed by conditionId) so the sweep and callback don't repeat
+// work, with the time after which the entry can be dropped (the market's end)
+const closedMarkets = new Map<string, number>();
+
+// Markets the tracker dropped before their close window opened, left for the sweep to unwind
+const pendingMarkets = new Map<string, MarketStats>();
+
+/**
+ * Sell one position into the best bids until it's gone or the book dries up
+ * Returns the number of tokens sold and the USDC received
+ */
+const sellPosition = async (
+    clobClient: ClobClient,
+    market: MarketStats,
+    position: DataApiPosition
+): Promise<{ sold: number; proceeds: number }> => {
+    let remaining = position.size;
+    let sold = 0;
+    let proceeds = 0;
+    let retry = 0;
+
+    while (remaining >= MIN_ORDER_SIZE_TOKENS && retry < RETRY_LIMIT) {
+        const orderBook = await clobClient.getOrderBook(position.asset);
+        if (!orderBook.bids || orderBook.bids.length === 0) {
+            Logger.warning(`No bids for ${position.outcome} - leaving position for redemption`);
+            break;
+        }
+
+        const maxPriceBid = orderBook.bids.reduce((max, bid) => {
+            return parseFloat(bid.price) > parseFloat(max.price) ? bid : max;
+        }, orderBook.bids[0]);
+        const bidPrice = parseFloat(maxPriceBid.price);
+
+        if (bidPrice < MIN_BID) {
+            Logger.warning(
+                `Best bid $${bidPrice} for ${position.outcome} below minimum $${MIN_BID} - leaving position for redemption`
+            );
+            break;
+        }
+
+        const sellAmount = Math.min(remaining, parseFloat(maxPriceBid.size));
+        if (sellAmount < MIN_ORDER_SIZE_TOKENS) {
+            Logger.info(
+                `Order amount (${sellAmount.toFixed(2)} tokens) below minimum - stopping unwind`
+            );
+            break;
+        }
+
+        const order_arges = {
+            side: Side.SELL,
+            tokenID: position.asset,
+            amount: sellAmount,
+            price: bidPrice,
+        };
+        const signedOrder = await clobClient.createMarketOrder(order_arges, {
+            negRisk: position.negativeRisk,
+        });
+        const resp = await clobClient.postOrder(signedOrder, OrderType.FOK);
+        if (resp.success === true) {
+            retry = 0;
+            remaining -= sellAmount;
+            sold += sellAmount;
+            proceeds += sellAmount * bidPrice;
+            Logger.orderResult(
+                true,
+                `Closed ${sellAmount.toFixed(2)} ${position.outcome} tokens at $${bidPrice} (${market.marketName})`
+            );
+        } else {
+            retry += 1;
+            Logger.warning(
+                `Close order failed (attempt ${retry}/${RETRY_LIMIT})${resp?.errorMsg ? ` - ${resp.errorMsg}` : ''}`
+            );
+        }
+    }
+
+    return { sold, proceeds };
+};
+
+/**
+ * Drop unwound markets whose end has passed, so the claims don't pile up while the bot runs
+ */
+const pruneClosedMarkets = (now: number): void => {
+    for (const [conditionId, expiresAt] of closedMarkets) {
+        if (now >= expiresAt) {
+            closedMarkets.delete(conditionId);
+        }
+    }
+};
+
+/**
+ * Close our remaining positions in a market once it is within CLOSE_POSITIONS_SECONDS_BEFORE_END
+ * of its end. A market handed over earlier (switched out or evicted by the tracker) is queued
+ * and unwound by the sweep when its window opens; one with no known end is unwound right away.
+ */
+export const closeMarketPositions = async (
+    clobClient: ClobClient | null,
+    market: MarketStats
+): Promise<void> => {
+    if (ENV.TRACK_ONLY_MODE || ENV.PAPER_MODE || !clobClient) {
+        return;
+    }
+    if (!market.conditionId || closedMarkets.has(market.conditionId)) {
+        return;
+    }
+    pendingMarkets.delete(market.conditionId);
+
+    // Once the window has ended the order book is gone - redemption takes over
+    if (market.endDate && Date.now() >= market.endDate) {
+        Logger.info(
+            `Market ${market.marketName} already ended - remaining positions left for redemption`
+        );
+        return;
+    }
+
+    if (!market.endDate) {
+        Logger.info(`Market ${market.marketName} has no known end date - closing positions now`);
+    } else if (market.endDate - Date.now() > CLOSE_SECONDS_BEFORE_END * 1000) {
+        pendingMarkets.set(market.conditionId, market);
+        return;
+    }
+
+    // Claimed up front so the sweep and the tracker callback can't unwind the same market twice
+    closedMarkets.set(market.conditionId, market.endDate ?? Date.now() + UNKNOWN_END_RETENTION_MS);
+
+    try {
+        const positions = await polymarketApi.getPositions({ user: ENV.PROXY_WALLET });
+        const marketAssets = [market.assetUp, market.assetDown].filter(Boolean);
+        const toClose = positions.filter(
+            (pos) =>
+                pos.size >= MIN_ORDER_SIZE_TOKENS &&
+                (pos.conditionId === market.conditionId || marketAssets.includes(pos.asset))
+        );
+
+        if (toClose.length === 0) {
+            return;
+        }
+
+        Logger.info(`🔒 Closing ${toClose.length} position(s) in ${market.marketName}...`);
+
+        for (const position of toClose) {
+            const { sold, proceeds } = await sellPosition(clobClient, market, position);
+            const leftover = position.size - sold;
+
+            recordExecutionEvent({
+                traderAddress: ENV.PROXY_WALLET,
+                transactionHash: `close-${market.conditionId}-${position.asset}`,
+                conditionId: market.conditionId,
+                marketName: market.marketName,
+                marketSlug: market.marketSlug,
+                side: 'SELL',
+                outcome: position.outcome,
+                asset: position.asset,
+                price: sold > 0 ? proceeds / sold : undefined,
+                usdcSize: proceeds,
+                timestamp: Date.now(),
+                mode: 'TRADING',
+                executionStatus: sold > 0 ? 'FILLED' : 'FAILED',
+                negRisk: position.negativeRisk,
+                details:
+                    leftover >= MIN_ORDER_SIZE_TOKENS
+                        ? `Market close: sold ${sold.toFixed(2)}/${position.size.toFixed(2)} tokens`
+                        : `Market close: sold ${sold.toFixed(2)} tokens`,
+            });
+
+            if (sold > 0) {
+                Logger.success(
+                    `Closed ${position.outcome}: ${sold.toFixed(2)} tokens for $${proceeds.toFixed(2)}${leftover >= MIN_ORDER_SIZE_TOKENS ? ` (${leftover.toFixed(2)} left)` : ''}`
+                );
+            }
+        }
+    } catch (error) {
+        // Release the market so the next sweep retries instead of leaving it open for good
+        closedMarkets.delete(market.conditionId);
+        Logger.error(`Failed to close positions for ${market.marketName}: ${error}`);
+    }
+};
+
+let isRunning = true;
+
+/**
+ * Stop the market-close sweep gracefully
+ */
+export const stopPositionCloser = () => {
+    isRunning = false;
+};
+
+/**
+ * Close positions in tracked markets once they enter the final
+ * CLOSE_POSITIONS_SECONDS_BEFORE_END seconds of their window
+ */
+export const startPositionCloser = async (clobClient: ClobClient) => {
+    isRunning = true;
+    Logger.info(
+        `Position closer active: unwinding ${CLOSE_SECONDS_BEFORE_END}s before market end (min bid $${MIN_BID})`
+    );
+
+    while (isRunning) {
+        const now = Date.now();
+        pruneClosedMarkets(now);
+        const markets = [
+            ...marketTracker.getMarkets().values(),
+            ...Array.from(pendingMarkets.values()),
+        ];
+        for (const market of markets) {
+            if (!market.endDate || !market.conditionId || closedMarkets.has(market.conditionId)) {
+                continue;
+            }
+            // Ended markets are left for redemption
+            if (now >= market.endDate) {
+                pendingMarkets.delete(market.conditionId);
+                continue;
+            }
+            if (market.endDate - now <= CLOSE_SECONDS_BEFORE_END * 1000) {
+                await closeMarketPositions(clobClient, market);
+            }
+        }
+
+        if (!isRunning) break;
+        await new Promise((resolve) => setTimeout(resolve, SWEEP_INTERVAL_MS));
+    }
 };
 
 export default closeMarketPositions;
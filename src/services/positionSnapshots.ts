@@ -0,0 +1,116 @@
+/**
+ * Leader Position Snapshots
+ * Reconstructs a watched trader's position before and after each detected activity, so the
+ * executor can mirror the fraction of the position they exited instead of guessing from a
+ * positions fetch that already reflects (or lags) the sell.
+ *
+ * Sizes are in outcome tokens. For MERGE the snapshot is the number of mergeable pairs
+ * (the smaller side of the condition's two outcomes), since a merge burns one of each.
+ */
+
+import { DataApiActivity } from '../interfaces/Polymarket';
+
+export interface LeaderSnapshot {
+    leaderPositionBefore: number;
+    leaderPositionAfter: number;
+}
+
+export interface SnapshotSources {
+    // Sizes persisted at the previous poll (before this batch happened), by asset
+    stored: Map<string, number>;
+    // Sizes fetched now (after this batch), by asset
+    live: Map<string, number>;
+    // Outcome assets of each condition, for MERGE/REDEEM
+    assetsByCondition: Map<string, string[]>;
+}
+
+export interface SellRatio {
+    ratio: number; // Fraction of the position the leader gave up (0-1]
+    fullExit: boolean;
+}
+
+// Positions at or below this many tokens count as closed
+export const DUST_TOKENS = 0.01;
+
+const signedDelta = (activity: DataApiActivity): number => {
+    if (activity.type !== 'TRADE') {
+        return 0;
+    }
+    return activity.side === 'BUY' ? activity.size : -activity.size;
+};
+
+/**
+ * Before/after snapshots for a batch of new activities (returned in input order)
+ * Each asset starts from its stored size; assets we never stored are rebuilt from the live
+ * size by undoing this batch's trades.
+ */
+export const computeLeaderSnapshots = (
+    activities: DataApiActivity[],
+    sources: SnapshotSources
+): LeaderSnapshot[] => {
+    const running = new Map<string, number>();
+    const sizeOf = (asset: string): number => {
+        if (!running.has(asset)) {
+            let start = sources.stored.get(asset);
+            if (start === undefined) {
+                const batchDelta = activities
+                    .filter((a) => a.asset === asset)
+                    .reduce((sum, a) => sum + signedDelta(a), 0);
+                start = Math.max(0, (sources.live.get(asset) || 0) - batchDelta);
+            }
+            running.set(asset, start);
+        }
+        return running.get(asset)!;
+    };
+
+    const order = activities
+        .map((activity, index) => ({ activity, index }))
+        .sort((a, b) => a.activity.timestamp - b.activity.timestamp);
+    const snapshots: LeaderSnapshot[] = new Array(activities.length);
+
+    for (const { activity, index } of order) {
+        const outcomes = sources.assetsByCondition.get(activity.conditionId) || [];
+
+        if (activity.type === 'TRADE') {
+            const before = sizeOf(activity.asset);
+            const after = Math.max(0, before + signedDelta(activity));
+            running.set(activity.asset, after);
+            snapshots[index] = { leaderPositionBefore: before, leaderPositionAfter: after };
+        } else if (activity.type === 'MERGE') {
+            const pairsBefore = outcomes.length > 0 ? Math.min(...outcomes.map(sizeOf)) : 0;
+            for (const asset of outcomes) {
+                running.set(asset, Math.max(0, sizeOf(asset) - activity.size));
+            }
+            snapshots[index] = {
+                leaderPositionBefore: pairsBefore,
+                leaderPositionAfter: Math.max(0, pairsBefore - activity.size),
+            };
+        } else if (activity.type === 'REDEEM') {
+            const before = outcomes.reduce((sum, asset) => sum + sizeOf(asset), 0);
+            for (const asset of outcomes) {
+                running.set(asset, 0);
+            }
+            snapshots[index] = { leaderPositionBefore: before, leaderPositionAfter: 0 };
+        } else {
+            snapshots[index] = { leaderPositionBefore: 0, leaderPositionAfter: 0 };
+        }
+    }
+
+    return snapshots;
+};
+
+/**
+ * Fraction of their position the leader exited, or null without a usable snapshot
+ */
+export const getLeaderSellRatio = (snapshot: Partial<LeaderSnapshot>): SellRatio | null => {
+    const before = snapshot.leaderPositionBefore;
+    const after = snapshot.leaderPositionAfter;
+    if (before === undefined || after === undefined || before <= DUST_TOKENS) {
+        return null;
+    }
+    if (after <= DUST_TOKENS) {
+        return { ratio: 1, fullExit: true };
+    }
+    const ratio = Math.min(1, Math.max(0, (before - after) / before));
+    return { ratio, fullExit: false };
+};
@@ -0,0 +1,326 @@
+/**
+ * Portfolio Risk Manager
+ * Sits in front of postOrder and caps new BUY orders against portfolio-wide limits:
+ * rolling 24h copy volume, open exposure per market / category / trader, and the day's
+ * realized plus unrealized loss. A breach of the daily loss limit trips a kill-switch that
+ * blocks further buys until the next UTC day (or a manual reset); sells are never blocked,
+ * since they only reduce risk.
+ *
+ * Exposure is marked to market from our Data API positions and attributed to the trader whose
+ * copied BUY opened it. Daily PnL is the change in equity (cash + position value) since the
+ * first refresh of the UTC day, so it covers both realized and unrealized moves.
+ */
+
+import { DataApiPosition } from '../interfaces/Polymarket';
+import { ENV } from '../config/env';
+import { OrderSizeCalculation } from '../config/copyStrategy';
+
+export interface RiskLimits {
+    maxDailyVolumeUSD?: number;
+    maxTotalExposureUSD?: number;
+    maxMarketExposureUSD?: number;
+    maxCategoryExposureUSD?: number;
+    maxTraderExposureUSD?: number;
+    maxDailyLossUSD?: number;
+}
+
+export interface OrderRiskContext {
+    trader: string;
+    conditionId: string;
+    category: string;
+    traderDailyVolumeUSD?: number; // Per-trader daily volume limit from watchlist settings
+}
+
+export interface ExposureBreakdown {
+    total: number;
+    byMarket: Record<string, number>;
+    byCategory: Record<string, number>;
+    byTrader: Record<string, number>;
+}
+
+export interface KillSwitchState {
+    tripped: boolean;
+    reason?: string;
+    trippedAt?: number;
+}
+
+export interface RiskState {
+    limits: RiskLimits;
+    dailyVolumeUSD: number;
+    exposure: ExposureBreakdown;
+    equity: number;
+    dayStartEquity: number;
+    peakEquity: number;
+    dailyPnl: number;
+    drawdownPercent: number;
+    killSwitch: KillSwitchState;
+    updatedAt: number;
+}
+
+export interface RiskCheck {
+    allowedUSD: number;
+    reasons: string[];
+}
+
+interface VolumeEntry {
+    timestamp: number;
+    usd: number;
+    trader?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Market category used for exposure grouping: the event slug without its trailing timestamp,
+ * so every round of a recurring market (e.g. btc-updown-15m-1736520900) shares one bucket
+ */
+export const getMarketCategory = (slug?: string): string => {
+    if (!slug) {
+        return 'unknown';
+    }
+    return slug.replace(/-\d{6,}$/, '').toLowerCase();
+};
+
+const utcDay = (timestamp: number): string => new Date(timestamp).toISOString().slice(0, 10);
+
+const addTo = (bucket: Record<string, number>, key: string, usd: number) => {
+    bucket[key] = (bucket[key] || 0) + usd;
+};
+
+const emptyExposure = (): ExposureBreakdown => ({
+    total: 0,
+    byMarket: {},
+    byCategory: {},
+    byTrader: {},
+});
+
+export class RiskManager {
+    private volume: VolumeEntry[] = [];
+    private exposure: ExposureBreakdown = emptyExposure();
+    private equity = 0;
+    private dayStartEquity = 0;
+    private peakEquity = 0;
+    private day = '';
+    private killSwitch: KillSwitchState = { tripped: false };
+    private killSwitchListeners = new Set<(state: KillSwitchState) => void>();
+    private updatedAt = 0;
+
+    constructor(
+        private readonly limits: RiskLimits,
+        private readonly now: () => number = Date.now
+    ) {}
+
+    /**
+     * Seed the rolling volume window (e.g. from the execution journal after a restart)
+     */
+    seedVolume(entries: VolumeEntry[]): void {
+        this.volume = entries.filter((entry) => entry.timestamp > this.now() - DAY_MS);
+    }
+
+    /**
+     * Re-mark exposure and equity from our current positions and cash balance
+     * `traderByAsset` attributes each held asset to the trader we copied into it.
+     */
+    updatePortfolio(
+        positions: DataApiPosition[],
+        cash: number,
+        traderByAsset: Map<string, string>
+    ): void {
+        const exposure = emptyExposure();
+        for (const position of positions) {
+            const value = position.currentValue || 0;
+            if (value <= 0) {
+                continue;
+            }
+            exposure.total += value;
+            addTo(exposure.byMarket, position.conditionId, value);
+            addTo(
+                exposure.byCategory,
+                getMarketCategory(position.eventSlug || position.slug),
+                value
+            );
+            addTo(exposure.byTrader, traderByAsset.get(position.asset) || 'unattributed', value);
+        }
+        this.exposure = exposure;
+        this.equity = cash + exposure.total;
+
+        const today = utcDay(this.now());
+        if (today !== this.day) {
+            // New trading day: re-baseline and re-arm a kill-switch tripped by yesterday's loss
+            this.day = today;
+            this.dayStartEquity = this.equity;
+            this.peakEquity = this.equity;
+            this.killSwitch = { tripped: false };
+        }
+        this.peakEquity = Math.max(this.peakEquity, this.equity);
+        this.updatedAt = this.now();
+
+        const maxLoss = this.limits.maxDailyLossUSD;
+        const dailyPnl = this.equity - this.dayStartEquity;
+        if (maxLoss && maxLoss > 0 && !this.killSwitch.tripped && dailyPnl <= -maxLoss) {
+            this.killSwitch = {
+                tripped: true,
+                reason: `Daily loss $${(-dailyPnl).toFixed(2)} reached limit $${maxLoss.toFixed(2)}`,
+                trippedAt: this.now(),
+            };
+            for (const listener of this.killSwitchListeners) {
+                listener({ ...this.killSwitch });
+            }
+        }
+    }
+
+    /**
+     * Call `listener` whenever the daily loss limit trips the kill-switch; returns an unsubscribe
+     */
+    onKillSwitch(listener: (state: KillSwitchState) => void): () => void {
+        this.killSwitchListeners.add(listener);
+        return () => {
+            this.killSwitchListeners.delete(listener);
+        };
+    }
+
+    /**
+     * Record a filled BUY so limits stay current until the next portfolio refresh
+     */
+    recordBuy(usd: number, context: OrderRiskContext): void {
+        if (usd <= 0) {
+            return;
+        }
+        this.volume.push({ timestamp: this.now(), usd, trader: context.trader });
+        this.exposure.total += usd;
+        addTo(this.exposure.byMarket, context.conditionId, usd);
+        addTo(this.exposure.byCategory, context.category, usd);
+        addTo(this.exposure.byTrader, context.trader, usd);
+    }
+
+    /**
+     * How much of a requested BUY fits under every limit (0 when blocked)
+     */
+    checkBuy(requestedUSD: number, context: OrderRiskContext): RiskCheck {
+        if (this.killSwitch.tripped) {
+            return { allowedUSD: 0, reasons: [`Kill-switch active: ${this.killSwitch.reason}`] };
+        }
+
+        const headrooms: Array<[string, number | undefined, number]> = [
+            ['Daily volume', this.limits.maxDailyVolumeUSD, this.getDailyVolume()],
+            [
+                'Trader daily volume',
+                context.traderDailyVolumeUSD,
+                this.getDailyVolume(context.trader),
+            ],
+            ['Total exposure', this.limits.maxTotalExposureUSD, this.exposure.total],
+            [
+                'Market exposure',
+                this.limits.maxMarketExposureUSD,
+                this.exposure.byMarket[context.conditionId] || 0,
+            ],
+            [
+                `Category exposure (${context.category})`,
+                this.limits.maxCategoryExposureUSD,
+                this.exposure.byCategory[context.category] || 0,
+            ],
+            [
+                'Trader exposure',
+                this.limits.maxTraderExposureUSD,
+                this.exposure.byTrader[context.trader] || 0,
+            ],
+        ];
+
+        let allowedUSD = requestedUSD;
+        const reasons: string[] = [];
+        for (const [label, limit, used] of headrooms) {
+            if (!limit || limit <= 0) {
+                continue;
+            }
+            const headroom = Math.max(0, limit - used);
+            if (headroom < allowedUSD) {
+                allowedUSD = headroom;
+                reasons.push(`${label} $${used.toFixed(2)}/$${limit.toFixed(2)}`);
+            }
+        }
+        return { allowedUSD, reasons };
+    }
+
+    /**
+     * Apply checkBuy to a computed order, shrinking or zeroing it and explaining why
+     */
+    applyToOrder(
+        calc: OrderSizeCalculation,
+        context: OrderRiskContext,
+        minOrderSizeUSD: number
+    ): OrderSizeCalculation {
+        if (calc.finalAmount <= 0) {
+            return calc;
+        }
+        const check = this.checkBuy(calc.finalAmount, context);
+        if (check.reasons.length === 0) {
+            return calc;
+        }
+        const limited = check.reasons.join(', ');
+        if (check.allowedUSD < minOrderSizeUSD) {
+            return {
+                ...calc,
+                finalAmount: 0,
+                reducedByRisk: true,
+                reasoning: `${calc.reasoning} → Risk limit: ${limited} - skipped`,
+            };
+        }
+        return {
+            ...calc,
+            finalAmount: check.allowedUSD,
+            reducedByRisk: true,
+            reasoning: `${calc.reasoning} → Risk limit: ${limited} - shrunk to $${check.allowedUSD.toFixed(2)}`,
+        };
+    }
+
+    resetKillSwitch(): void {
+        this.killSwitch = { tripped: false };
+    }
+
+    /**
+     * Rolling 24h BUY volume, for the whole portfolio or one trader
+     */
+    getDailyVolume(trader?: string): number {
+        const since = this.now() - DAY_MS;
+        this.volume = this.volume.filter((entry) => entry.timestamp > since);
+        return this.volume
+            .filter((entry) => trader === undefined || entry.trader === trader)
+            .reduce((sum, entry) => sum + entry.usd, 0);
+    }
+
+    getTraderExposure(trader: string): number {
+        return this.exposure.byTrader[trader] || 0;
+    }
+
+    getState(): RiskState {
+        return {
+            limits: { ...this.limits },
+            dailyVolumeUSD: this.getDailyVolume(),
+            exposure: {
+                total: this.exposure.total,
+                byMarket: { ...this.exposure.byMarket },
+                byCategory: { ...this.exposure.byCategory },
+                byTrader: { ...this.exposure.byTrader },
+            },
+            equity: this.equity,
+            dayStartEquity: this.dayStartEquity,
+            peakEquity: this.peakEquity,
+            dailyPnl: this.equity - this.dayStartEquity,
+            drawdownPercent:
+                this.peakEquity > 0 ? ((this.peakEquity - this.equity) / this.peakEquity) * 100 : 0,
+            killSwitch: { ...this.killSwitch },
+            updatedAt: this.updatedAt,
+        };
+    }
+}
+
+export const riskManager = new RiskManager({
+    maxDailyVolumeUSD: ENV.COPY_STRATEGY_CONFIG.maxDailyVolumeUSD,
+    maxTotalExposureUSD: ENV.MAX_TOTAL_EXPOSURE_USD,
+    maxMarketExposureUSD: ENV.MAX_MARKET_EXPOSURE_USD,
+    maxCategoryExposureUSD: ENV.MAX_CATEGORY_EXPOSURE_USD,
+    maxTraderExposureUSD: ENV.MAX_TRADER_EXPOSURE_USD,
+    maxDailyLossUSD: ENV.MAX_DAILY_LOSS_USD,
+});
+
+export default riskManager;
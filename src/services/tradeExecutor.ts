@@ -1,24 +1,51 @@
 import { ClobClient } from '@polymarket/clob-client';
-import { UserActivityInterface, UserPositionInterface } from '../interfaces/User';
+import { DataApiPosition } from '../interfaces/Polymarket';
+import { UserActivityInterface } from '../interfaces/User';
 import { ENV } from '../config/env';
 import { getUserActivityModel } from '../models/userHistory';
-import fetchData from '../utils/fetchData';
+import {
+    completeIntent,
+    getFilledBuyVolume,
+    getTraderByAsset,
+    openIntent,
+    reconcileExecutionJournal,
+} from './executionJournal';
+import riskManager from './riskManager';
+import equityRatioTracker from './equityRatio';
+import { setRiskState } from './appState';
+import watchlistManager from './watchlistManager';
+import polymarketApi from '../utils/polymarketApi';
 import getMyBalance from '../utils/getMyBalance';
 import postOrder from '../utils/postOrder';
-import Logger from '../utils/logger';
+import Logger, { getCorrelationId } from '../utils/logger';
 
-const USER_ADDRESSES = ENV.USER_ADDRESSES;
 const RETRY_LIMIT = ENV.RETRY_LIMIT;
 const PROXY_WALLET = ENV.PROXY_WALLET;
 const TRADE_AGGREGATION_ENABLED = ENV.TRADE_AGGREGATION_ENABLED;
 const TRADE_AGGREGATION_WINDOW_SECONDS = ENV.TRADE_AGGREGATION_WINDOW_SECONDS;
 const TRADE_AGGREGATION_MIN_TOTAL_USD = 1.0; // Polymarket minimum
 
-// Create activity models for each user
-const userActivityModels = USER_ADDRESSES.map((address) => ({
-    address,
-    model: getUserActivityModel(address),
-}));
+// Copy the watchlist's active traders (falls back to USER_ADDRESSES, like the monitor)
+let USER_ADDRESSES = watchlistManager.getActiveAddresses();
+if (USER_ADDRESSES.length === 0) {
+    USER_ADDRESSES = ENV.USER_ADDRESSES;
+}
+
+// Activity models for the traders currently being copied
+const userActivityModels = new Map<string, ReturnType<typeof getUserActivityModel>>();
+const syncUserActivityModels = () => {
+    for (const address of USER_ADDRESSES) {
+        if (!userActivityModels.has(address)) {
+            userActivityModels.set(address, getUserActivityModel(address));
+        }
+    }
+    for (const address of userActivityModels.keys()) {
+        if (!USER_ADDRESSES.includes(address)) {
+            userActivityModels.delete(address);
+        }
+    }
+};
+syncUserActivityModels();
 
 interface TradeWithUser extends UserActivityInterface {
     userAddress: string;
@@ -44,17 +71,19 @@ const tradeAggregationBuffer: Map<string, AggregatedTrade> = new Map();
 const readTempTrades = async (): Promise<TradeWithUser[]> => {
     const allTrades: TradeWithUser[] = [];
 
-    for (const { address, model } of userActivityModels) {
+    for (const [address, model] of userActivityModels) {
         // Only get trades that haven't been processed yet (bot: false AND botExcutedTime: 0)
         // This prevents processing the same trade multiple times
-        const trades = await model
-            .find({
-                $and: [{ type: 'TRADE' }, { bot: false }, { botExcutedTime: 0 }],
-            })
-            .exec();
+        const trades = await model.find({
+            $and: [
+                { type: { $in: ['TRADE', 'MERGE', 'REDEEM'] } },
+                { bot: false },
+                { botExcutedTime: 0 },
+            ],
+        });
 
         const tradesWithUser = trades.map((trade) => ({
-            ...(trade.toObject() as UserActivityInterface),
+            ...trade,
             userAddress: address,
         }));
 
@@ -133,7 +162,9 @@ const getReadyAggregatedTrades = (): AggregatedTrade[] => {
                 // Mark all trades in this aggregation as processed (bot: true)
                 for (const trade of agg.trades) {
                     const UserActivity = getUserActivityModel(trade.userAddress);
-                    UserActivity.updateOne({ _id: trade._id }, { bot: true }).exec();
+                    UserActivity.updateOne({ _id: trade._id }, { bot: true }).catch((error) =>
+                        Logger.error(`Failed to mark trade ${trade._id} as processed: ${error}`)
+                    );
                 }
             }
             // Remove from buffer either way
@@ -144,122 +175,273 @@ const getReadyAggregatedTrades = (): AggregatedTrade[] => {
     return ready;
 };
 
-const doTrading = async (clobClient: ClobClient, trades: TradeWithUser[]) => {
-    for (const trade of trades) {
-        // Mark trade as being processed immediately to prevent duplicate processing
-        const UserActivity = getUserActivityModel(trade.userAddress);
-        await UserActivity.updateOne({ _id: trade._id }, { $set: { botExcutedTime: 1 } });
+/**
+ * Drop a trader's pending aggregations once they stop being copied
+ * Their buffered trades are marked processed, so re-enabling the trader later doesn't copy
+ * stale fills.
+ */
+const drainAggregationBuffer = (address: string): void => {
+    for (const [key, agg] of tradeAggregationBuffer.entries()) {
+        if (agg.userAddress !== address) {
+            continue;
+        }
+        Logger.info(
+            `Dropping pending aggregation for ${address} on ${agg.slug || agg.asset}: $${agg.totalUsdcSize.toFixed(2)} from ${agg.trades.length} trades`
+        );
+        for (const trade of agg.trades) {
+            const UserActivity = getUserActivityModel(trade.userAddress);
+            UserActivity.updateOne({ _id: trade._id }, { bot: true }).catch((error) =>
+                Logger.error(`Failed to mark trade ${trade._id} as processed: ${error}`)
+            );
+        }
+        tradeAggregationBuffer.delete(key);
+    }
+};
 
-        Logger.trade(trade.userAddress, trade.side || 'UNKNOWN', {
-            asset: trade.asset,
-            side: trade.side,
-            amount: trade.usdcSize,
-            price: trade.price,
-            slug: trade.slug,
-            eventSlug: trade.eventSlug,
-            transactionHash: trade.transactionHash,
-        });
+// Start or stop copying traders as they are added, removed, enabled or disabled
+watchlistManager.onChange((newAddresses) => {
+    const added = newAddresses.filter((address) => !USER_ADDRESSES.includes(address));
+    const removed = USER_ADDRESSES.filter((address) => !newAddresses.includes(address));
+    USER_ADDRESSES = newAddresses;
+    syncUserActivityModels();
+    removed.forEach(drainAggregationBuffer);
 
-        const my_positions: UserPositionInterface[] = await fetchData(
-            `https://data-api.polymarket.com/positions?user=${PROXY_WALLET}`
-        );
-        const user_positions: UserPositionInterface[] = await fetchData(
-            `https://data-api.polymarket.com/positions?user=${trade.userAddress}`
-        );
-        const my_position = my_positions.find(
-            (position: UserPositionInterface) => position.conditionId === trade.conditionId
-        );
-        const user_position = user_positions.find(
-            (position: UserPositionInterface) => position.conditionId === trade.conditionId
+    if (added.length > 0 || removed.length > 0) {
+        Logger.info(
+            `Copy targets updated: +${added.length} / -${removed.length}, now copying ${USER_ADDRESSES.length} trader(s)`
         );
+    }
+});
 
-        // Get USDC balance
-        const my_balance = await getMyBalance(PROXY_WALLET);
+/**
+ * postOrder condition for a leader activity
+ */
+const getCondition = (trade: UserActivityInterface): string => {
+    if (trade.type === 'MERGE') return 'merge';
+    if (trade.type === 'REDEEM') return 'redeem';
+    return trade.side === 'BUY' ? 'buy' : 'sell';
+};
 
-        // Calculate trader's total portfolio value from positions
-        const user_balance = user_positions.reduce((total, pos) => {
-            return total + (pos.currentValue || 0);
-        }, 0);
+/**
+ * A trader's equity: open position value plus USDC cash held on-chain
+ * If the cash lookup fails, only positions are counted.
+ */
+const getTraderEquity = async (address: string, positions: DataApiPosition[]) => {
+    const positionValue = positions.reduce((total, pos) => total + (pos.currentValue || 0), 0);
+    try {
+        return positionValue + (await getMyBalance(address));
+    } catch (error) {
+        Logger.warning(`Could not read USDC balance for ${address}: ${error}`);
+        return positionValue;
+    }
+};
 
-        Logger.balance(my_balance, user_balance, trade.userAddress);
+/**
+ * Re-mark the risk manager's exposure and daily PnL before sizing a new order
+ */
+const refreshRisk = async (my_positions: DataApiPosition[], my_balance: number) => {
+    const traderByAsset = await getTraderByAsset(my_positions.map((p) => p.asset));
+    riskManager.updatePortfolio(my_positions, my_balance, traderByAsset);
+    setRiskState(riskManager.getState());
+};
 
+/**
+ * Copy one leader trade
+ */
+const copyTrade = async (clobClient: ClobClient, trade: TradeWithUser) => {
+    const condition = getCondition(trade);
+    // Journal the intent first, so a crash after this point can be reconciled on restart
+    const intentId = `${trade.userAddress}:${trade._id}`;
+    await openIntent({
+        intentId,
+        traderAddress: trade.userAddress,
+        tradeIds: [String(trade._id)],
+        transactionHash: trade.transactionHash,
+        conditionId: trade.conditionId,
+        asset: trade.asset,
+        side: trade.side || trade.type,
+        condition,
+    });
+
+    // Mark trade as being processed immediately to prevent duplicate processing
+    const UserActivity = getUserActivityModel(trade.userAddress);
+    await UserActivity.updateOne({ _id: trade._id }, { $set: { botExcutedTime: 1 } });
+
+    Logger.trade(trade.userAddress, trade.side || trade.type || 'UNKNOWN', {
+        asset: trade.asset,
+        side: trade.side,
+        amount: trade.usdcSize,
+        price: trade.price,
+        slug: trade.slug,
+        eventSlug: trade.eventSlug,
+        transactionHash: trade.transactionHash,
+    });
+
+    const my_positions = await polymarketApi.getPositions({ user: PROXY_WALLET });
+    const user_positions = await polymarketApi.getPositions({ user: trade.userAddress });
+    // Match the traded outcome token - a condition has one position per outcome
+    const my_position = my_positions.find(
+        (position: DataApiPosition) => position.asset === trade.asset
+    );
+    const user_position = user_positions.find(
+        (position: DataApiPosition) => position.asset === trade.asset
+    );
+
+    // Get USDC balance
+    const my_balance = await getMyBalance(PROXY_WALLET);
+
+    // Total capital on both sides (USDC + positions), for PROPORTIONAL sizing
+    const user_balance = await getTraderEquity(trade.userAddress, user_positions);
+    const my_equity =
+        my_balance + my_positions.reduce((total, pos) => total + (pos.currentValue || 0), 0);
+    equityRatioTracker.update(trade.userAddress, my_equity, user_balance);
+
+    Logger.balance(my_equity, user_balance, trade.userAddress);
+    await refreshRisk(my_positions, my_balance);
+
+    if (condition === 'merge') {
+        // A merge burns one token of each outcome: unwind the same share of our pairs
+        const ours = my_positions.filter(
+            (position: DataApiPosition) => position.conditionId === trade.conditionId
+        );
+        const pairs = ours.length >= 2 ? Math.min(...ours.map((p) => p.size)) : 0;
+        for (const position of pairs > 0 ? ours : [undefined]) {
+            await postOrder(
+                clobClient,
+                condition,
+                position && { ...position, size: pairs },
+                undefined,
+                position ? { ...trade, asset: position.asset } : trade,
+                my_balance,
+                user_balance,
+                trade.userAddress,
+                intentId
+            );
+        }
+    } else {
         // Execute the trade
         await postOrder(
             clobClient,
-            trade.side === 'BUY' ? 'buy' : 'sell',
+            condition,
             my_position,
             user_position,
             trade,
             my_balance,
             user_balance,
-            trade.userAddress
+            trade.userAddress,
+            intentId
         );
+    }
+    await completeIntent(intentId);
+    setRiskState(riskManager.getState());
 
-        Logger.separator();
+    Logger.separator();
+};
+
+const doTrading = async (clobClient: ClobClient, trades: TradeWithUser[]) => {
+    for (const trade of trades) {
+        await Logger.withContext(
+            {
+                component: 'tradeExecutor',
+                traderAddress: trade.userAddress,
+                correlationId: getCorrelationId(trade),
+            },
+            () => copyTrade(clobClient, trade)
+        );
     }
 };
 
+/**
+ * Copy trades combined by the aggregation buffer as one order
+ */
+const copyAggregatedTrade = async (clobClient: ClobClient, agg: AggregatedTrade) => {
+    Logger.header(`📊 AGGREGATED TRADE (${agg.trades.length} trades combined)`);
+    Logger.info(`Market: ${agg.slug || agg.asset}`);
+    Logger.info(`Side: ${agg.side}`);
+    Logger.info(`Total volume: $${agg.totalUsdcSize.toFixed(2)}`);
+    Logger.info(`Average price: $${agg.averagePrice.toFixed(4)}`);
+    Logger.info(`Combined trades: ${agg.trades.map((t) => getCorrelationId(t)).join(', ')}`);
+
+    // Journal the intent first, so a crash after this point can be reconciled on restart
+    const intentId = `agg:${agg.userAddress}:${agg.trades[0]._id}`;
+    await openIntent({
+        intentId,
+        traderAddress: agg.userAddress,
+        tradeIds: agg.trades.map((t) => String(t._id)),
+        conditionId: agg.conditionId,
+        asset: agg.asset,
+        side: agg.side,
+        condition: agg.side === 'BUY' ? 'buy' : 'sell',
+    });
+
+    // Mark all individual trades as being processed
+    for (const trade of agg.trades) {
+        const UserActivity = getUserActivityModel(trade.userAddress);
+        await UserActivity.updateOne({ _id: trade._id }, { $set: { botExcutedTime: 1 } });
+    }
+
+    const my_positions = await polymarketApi.getPositions({ user: PROXY_WALLET });
+    const user_positions = await polymarketApi.getPositions({ user: agg.userAddress });
+    const my_position = my_positions.find(
+        (position: DataApiPosition) => position.asset === agg.asset
+    );
+    const user_position = user_positions.find(
+        (position: DataApiPosition) => position.asset === agg.asset
+    );
+
+    // Get USDC balance
+    const my_balance = await getMyBalance(PROXY_WALLET);
+
+    // Total capital on both sides (USDC + positions), for PROPORTIONAL sizing
+    const user_balance = await getTraderEquity(agg.userAddress, user_positions);
+    const my_equity =
+        my_balance + my_positions.reduce((total, pos) => total + (pos.currentValue || 0), 0);
+    equityRatioTracker.update(agg.userAddress, my_equity, user_balance);
+
+    Logger.balance(my_equity, user_balance, agg.userAddress);
+    await refreshRisk(my_positions, my_balance);
+
+    // Create a synthetic trade object for postOrder using aggregated values
+    const syntheticTrade: UserActivityInterface = {
+        ...agg.trades[0], // Use first trade as template
+        usdcSize: agg.totalUsdcSize,
+        price: agg.averagePrice,
+        side: agg.side as 'BUY' | 'SELL',
+    };
+
+    // Execute the aggregated trade
+    await postOrder(
+        clobClient,
+        agg.side === 'BUY' ? 'buy' : 'sell',
+        my_position,
+        user_position,
+        syntheticTrade,
+        my_balance,
+        user_balance,
+        agg.userAddress,
+        intentId,
+        (Date.now() - agg.firstTradeTime) / 1000
+    );
+    await completeIntent(intentId);
+    setRiskState(riskManager.getState());
+
+    Logger.separator();
+};
+
 /**
  * Execute aggregated trades
+ * Lines carry the first trade's correlation ID; the others are listed once.
  */
 const doAggregatedTrading = async (clobClient: ClobClient, aggregatedTrades: AggregatedTrade[]) => {
     for (const agg of aggregatedTrades) {
-        Logger.header(`📊 AGGREGATED TRADE (${agg.trades.length} trades combined)`);
-        Logger.info(`Market: ${agg.slug || agg.asset}`);
-        Logger.info(`Side: ${agg.side}`);
-        Logger.info(`Total volume: $${agg.totalUsdcSize.toFixed(2)}`);
-        Logger.info(`Average price: $${agg.averagePrice.toFixed(4)}`);
-
-        // Mark all individual trades as being processed
-        for (const trade of agg.trades) {
-            const UserActivity = getUserActivityModel(trade.userAddress);
-            await UserActivity.updateOne({ _id: trade._id }, { $set: { botExcutedTime: 1 } });
-        }
-
-        const my_positions: UserPositionInterface[] = await fetchData(
-            `https://data-api.polymarket.com/positions?user=${PROXY_WALLET}`
-        );
-        const user_positions: UserPositionInterface[] = await fetchData(
-            `https://data-api.polymarket.com/positions?user=${agg.userAddress}`
-        );
-        const my_position = my_positions.find(
-            (position: UserPositionInterface) => position.conditionId === agg.conditionId
-        );
-        const user_position = user_positions.find(
-            (position: UserPositionInterface) => position.conditionId === agg.conditionId
-        );
-
-        // Get USDC balance
-        const my_balance = await getMyBalance(PROXY_WALLET);
-
-        // Calculate trader's total portfolio value from positions
-        const user_balance = user_positions.reduce((total, pos) => {
-            return total + (pos.currentValue || 0);
-        }, 0);
-
-        Logger.balance(my_balance, user_balance, agg.userAddress);
-
-        // Create a synthetic trade object for postOrder using aggregated values
-        const syntheticTrade: UserActivityInterface = {
-            ...agg.trades[0], // Use first trade as template
-            usdcSize: agg.totalUsdcSize,
-            price: agg.averagePrice,
-            side: agg.side as 'BUY' | 'SELL',
-        };
-
-        // Execute the aggregated trade
-        await postOrder(
-            clobClient,
-            agg.side === 'BUY' ? 'buy' : 'sell',
-            my_position,
-            user_position,
-            syntheticTrade,
-            my_balance,
-            user_balance,
-            agg.userAddress
+        await Logger.withContext(
+            {
+                component: 'tradeExecutor',
+                traderAddress: agg.userAddress,
+                correlationId: getCorrelationId(agg.trades[0]),
+            },
+            () => copyAggregatedTrade(clobClient, agg)
         );
-
-        Logger.separator();
     }
 };
 
@@ -282,6 +464,11 @@ const tradeExecutor = async (clobClient: ClobClient) => {
         );
     }
 
+    // Settle anything left in flight by a previous run before retrying trades
+    await reconcileExecutionJournal(clobClient);
+    // Rebuild the rolling daily volume so a restart doesn't reset the limit
+    riskManager.seedVolume(await getFilledBuyVolume(Date.now() - 24 * 60 * 60 * 1000));
+
     let lastCheck = Date.now();
     while (isRunning) {
         const trades = await readTempTrades();
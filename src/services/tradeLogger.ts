@@ -1,7 +1,7 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { ENV } from '../config/env';
-import fetchData from '../utils/fetchData';
+import polymarketApi from '../utils/polymarketApi';
 import priceStreamLogger from './priceStreamLogger';
 import { getRunId } from '../utils/runId';
 import marketTracker from './marketTracker';
@@ -195,15 +195,15 @@ class TradeLogger {
     private async fetchOrderbookPrices(assetUpId: string, assetDownId: string): Promise<{ priceUp: number; priceDown: number } | null> {
         try {
             const [bookUp, bookDown] = await Promise.all([
-                fetchData(`https://clob.polymarket.com/book?token_id=${assetUpId}`).catch(() => null),
-                fetchData(`https://clob.polymarket.com/book?token_id=${assetDownId}`).catch(() => null)
+                polymarketApi.getOrderBook(assetUpId).catch(() => null),
+                polymarketApi.getOrderBook(assetDownId).catch(() => null)
             ]);
 
             let priceUp: number | null = null;
             let priceDown: number | null = null;
 
             // For UP: Get the ASK price (what you pay to buy)
-            if (bookUp?.asks?.length > 0) {
+            if (bookUp?.asks && bookUp.asks.length > 0) {
                 const bestAskUp = Math.min(...bookUp.asks.map((a: any) => parseFloat(a.price || 1)));
                 if (bestAskUp > 0 && bestAskUp <= 1) {
                     priceUp = bestAskUp;
@@ -211,7 +211,7 @@ class TradeLogger {
             }
 
             // For DOWN: Get the ASK price (what you pay to buy)
-            if (bookDown?.asks?.length > 0) {
+            if (bookDown?.asks && bookDown.asks.length > 0) {
                 const bestAskDown = Math.min(...bookDown.asks.map((a: any) => parseFloat(a.price || 1)));
                 if (bestAskDown > 0 && bestAskDown <= 1) {
                     priceDown = bestAskDown;
@@ -246,11 +246,12 @@ class TradeLogger {
 
         try {
             // Try Gamma API to get asset IDs, then fetch REAL orderbook prices
-            const gammaUrl = `https://gamma-api.polymarket.com/markets?active=true&closed=false&limit=500`;
-            const marketList = await fetchData(gammaUrl).catch(() => null);
+            const marketList = await polymarketApi
+                .getMarkets({ active: true, closed: false, limit: 500 })
+                .catch(() => null);
 
             if (Array.isArray(marketList)) {
-                const marketData = marketList.find((m: any) => m.condition_id === conditionId);
+                const marketData: any = marketList.find((m: any) => m.condition_id === conditionId);
                 if (marketData && marketData.tokens && Array.isArray(marketData.tokens)) {
                     // Extract asset IDs for UP and DOWN tokens
                     let tokenUpId: string | null = null;
@@ -319,9 +320,9 @@ class TradeLogger {
         try {
             for (const traderAddress of ENV.USER_ADDRESSES) {
                 try {
-                    const positions = await fetchData(
-                        `https://data-api.polymarket.com/positions?user=${traderAddress}`
-                    ).catch(() => null);
+                    const positions = await polymarketApi
+                        .getPositions({ user: traderAddress })
+                        .catch(() => null);
 
                     if (Array.isArray(positions)) {
                         let priceUp = 0.5;
@@ -332,7 +333,7 @@ class TradeLogger {
                         for (const pos of positions) {
                             if (pos.conditionId === conditionId && pos.curPrice !== undefined) {
                                 const outcome = (pos.outcome || '').toLowerCase();
-                                const price = parseFloat(pos.curPrice) || 0.5;
+                                const price = Number(pos.curPrice) || 0.5;
 
                                 if (outcome.includes('up') || outcome.includes('yes')) {
                                     priceUp = price;
@@ -1,14 +1,30 @@
-import mongoose from 'mongoose';
 import { ENV } from '../config/env';
+import { ActivityType, DataApiActivity, DataApiPosition } from '../interfaces/Polymarket';
+import { isHistoryStoreAvailable } from '../models/historyStore';
 import { getUserActivityModel, getUserPositionModel } from '../models/userHistory';
-import fetchData from '../utils/fetchData';
-import Logger from '../utils/logger';
+import polymarketApi from '../utils/polymarketApi';
+import Logger, { getCorrelationId } from '../utils/logger';
+import { setDetectionLatency } from './appState';
 import marketTracker from './marketTracker';
+import { metrics } from './metrics';
+import pollScheduler from './pollScheduler';
+import { computeLeaderSnapshots, LeaderSnapshot, SnapshotSources } from './positionSnapshots';
 import tradeLogger from './tradeLogger';
 import watchlistManager from './watchlistManager';
 
+// Activity as returned by the Data API, plus live prices injected before logging
+type MonitoredActivity = DataApiActivity & {
+    user?: string;
+    marketPriceUp?: number;
+    marketPriceDown?: number;
+};
+
 const TOO_OLD_TIMESTAMP = ENV.TOO_OLD_TIMESTAMP;
 const FETCH_INTERVAL = ENV.FETCH_INTERVAL;
+// Floor on the monitor loop sleep so a burst of due wallets can't spin the loop
+const MIN_LOOP_SLEEP_MS = 100;
+// Activity the executor mirrors: trades, plus merges/redeems that shrink a position
+const MIRRORED_ACTIVITY_TYPES: ActivityType[] = ['TRADE', 'MERGE', 'REDEEM'];
 
 // Get initial addresses from watchlist manager (which loads from watchlist.json, wallet file, or env)
 let USER_ADDRESSES = watchlistManager.getActiveAddresses();
@@ -54,10 +70,10 @@ watchlistManager.onChange((newAddresses) => {
 });
 
 const init = async () => {
-    // Check if MongoDB is connected
-    const isMongoConnected = mongoose.connection.readyState === 1;
+    // Check if trade history storage is available (MongoDB connected, or the file backend)
+    const isHistoryAvailable = isHistoryStoreAvailable();
 
-    if (isMongoConnected) {
+    if (isHistoryAvailable) {
         const counts: number[] = [];
         for (const address of USER_ADDRESSES) {
             const { UserActivity } = getModelsForAddress(address);
@@ -75,8 +91,7 @@ const init = async () => {
     // Show your own positions first (skip in track-only mode)
     if (!ENV.TRACK_ONLY_MODE && ENV.PROXY_WALLET) {
         try {
-            const myPositionsUrl = `https://data-api.polymarket.com/positions?user=${ENV.PROXY_WALLET}`;
-            const myPositions = await fetchData(myPositionsUrl);
+            const myPositions = await polymarketApi.getPositions({ user: ENV.PROXY_WALLET });
 
             // Get current USDC balance
             const getMyBalance = (await import('../utils/getMyBalance')).default;
@@ -121,15 +136,15 @@ const init = async () => {
         }
     }
 
-    // Show current positions count with details for traders you're copying (only if MongoDB connected)
+    // Show current positions count with details for traders you're copying (only with history storage)
     const positionCounts: number[] = [];
     const positionDetails: any[][] = [];
     const profitabilities: number[] = [];
 
-    if (isMongoConnected) {
+    if (isHistoryAvailable) {
         for (const address of USER_ADDRESSES) {
             const { UserPosition } = getModelsForAddress(address);
-            const positions = await UserPosition.find().exec();
+            const positions = await UserPosition.find();
             positionCounts.push(positions.length);
 
             // Calculate overall profitability (weighted average by current value)
@@ -147,8 +162,7 @@ const init = async () => {
             // Get top 3 positions by profitability (PnL)
             const topPositions = positions
                 .sort((a, b) => (b.percentPnl || 0) - (a.percentPnl || 0))
-                .slice(0, 3)
-                .map((p) => p.toObject());
+                .slice(0, 3);
             positionDetails.push(topPositions);
         }
         Logger.clearLine();
@@ -160,10 +174,100 @@ const init = async () => {
     }
 };
 
-// Track processed trades in memory when MongoDB is not available
+// Track processed trades in memory when history storage is not available
 const processedTrades = new Set<string>();
 
-const fetchTradeData = async () => {
+/**
+ * Inputs for leader position snapshots: sizes stored at the previous poll, sizes fetched now,
+ * and which outcome assets belong to each condition
+ */
+const loadSnapshotSources = async (
+    UserPosition: ReturnType<typeof getUserPositionModel>,
+    livePositions: DataApiPosition[]
+): Promise<SnapshotSources> => {
+    const storedPositions = await UserPosition.find();
+    const stored = new Map<string, number>();
+    const live = new Map<string, number>();
+    const assetsByCondition = new Map<string, string[]>();
+    const addAsset = (conditionId?: string, asset?: string) => {
+        if (!conditionId || !asset) return;
+        const assets = assetsByCondition.get(conditionId) || [];
+        if (!assets.includes(asset)) {
+            assets.push(asset);
+            assetsByCondition.set(conditionId, assets);
+        }
+    };
+
+    for (const position of storedPositions) {
+        if (position.asset) {
+            stored.set(position.asset, position.size || 0);
+        }
+        addAsset(position.conditionId ?? undefined, position.asset ?? undefined);
+        addAsset(position.conditionId ?? undefined, position.oppositeAsset ?? undefined);
+    }
+    for (const position of livePositions) {
+        live.set(position.asset, position.size || 0);
+        addAsset(position.conditionId, position.asset);
+        addAsset(position.conditionId, position.oppositeAsset);
+    }
+    return { stored, live, assetsByCondition };
+};
+
+/**
+ * Persist the leader's current positions, zeroing the stored ones missing from the fetch
+ * An empty fetch means the leader exited everything; a failed fetch throws before this runs.
+ */
+export const storeLeaderPositions = async (
+    UserPosition: ReturnType<typeof getUserPositionModel>,
+    positions: DataApiPosition[]
+): Promise<void> => {
+    for (const position of positions) {
+        // Update or create position
+        await UserPosition.updateOne(
+            { asset: position.asset, conditionId: position.conditionId },
+            {
+                proxyWallet: position.proxyWallet,
+                asset: position.asset,
+                conditionId: position.conditionId,
+                size: position.size,
+                avgPrice: position.avgPrice,
+                initialValue: position.initialValue,
+                currentValue: position.currentValue,
+                cashPnl: position.cashPnl,
+                percentPnl: position.percentPnl,
+                totalBought: position.totalBought,
+                realizedPnl: position.realizedPnl,
+                percentRealizedPnl: position.percentRealizedPnl,
+                curPrice: position.curPrice,
+                redeemable: position.redeemable,
+                mergeable: position.mergeable,
+                title: position.title,
+                slug: position.slug,
+                icon: position.icon,
+                eventSlug: position.eventSlug,
+                outcome: position.outcome,
+                outcomeIndex: position.outcomeIndex,
+                oppositeOutcome: position.oppositeOutcome,
+                oppositeAsset: position.oppositeAsset,
+                endDate: position.endDate,
+                negativeRisk: position.negativeRisk,
+            },
+            { upsert: true }
+        );
+    }
+
+    // Positions missing from the response were closed - keep the next snapshot honest
+    await UserPosition.updateMany(
+        { asset: { $nin: positions.map((p) => p.asset) }, size: { $gt: 0 } },
+        { $set: { size: 0, currentValue: 0 } }
+    );
+};
+
+/**
+ * Poll one watched wallet: store/log its new trades and refresh its positions
+ * Returns the number of new trades found (drives the wallet's adaptive poll interval)
+ */
+const pollAddress = async (address: string): Promise<number> => {
     // Use a more lenient cutoff for watch mode - allow trades from last 48 hours
     // This ensures we catch new markets even if there's a slight delay
     const watchModeCutoffHours = ENV.TRACK_ONLY_MODE ? 48 : TOO_OLD_TIMESTAMP;
@@ -171,179 +275,200 @@ const fetchTradeData = async () => {
     // Also allow any trade from the last 5 minutes regardless of cutoff (catches new hourly markets)
     const recentCutoffSeconds = Math.floor(Date.now() / 1000) - (5 * 60);
 
-    const isMongoConnected = mongoose.connection.readyState === 1;
+    const isHistoryAvailable = isHistoryStoreAvailable();
 
-    // Get current addresses from watchlist (may have changed since last fetch)
-    const currentAddresses = watchlistManager.getActiveAddresses();
-    if (currentAddresses.length === 0) {
-        return; // No addresses to monitor
-    }
+    const { UserActivity, UserPosition } = getModelsForAddress(address);
+    let newTrades = 0;
+    try {
+        // Fetch trade (and merge/redeem) activities from Polymarket API
+        const activities: MonitoredActivity[] = await polymarketApi.getActivity({
+            user: address,
+            type: MIRRORED_ACTIVITY_TYPES,
+            limit: 200,
+        });
 
-    for (const address of currentAddresses) {
-        const { UserActivity, UserPosition } = getModelsForAddress(address);
-        try {
-            // Fetch trade activities from Polymarket API
-            const apiUrl = `https://data-api.polymarket.com/activity?user=${address}&type=TRADE&limit=200`;
-            const activities = await fetchData(apiUrl);
+        if (!Array.isArray(activities) || activities.length === 0) {
+            return 0;
+        }
 
-            if (!Array.isArray(activities) || activities.length === 0) {
+        // Collect the activities we haven't seen yet
+        const freshActivities: MonitoredActivity[] = [];
+        for (const activity of activities) {
+            // Allow trades from last 5 minutes OR within the normal cutoff window
+            // This ensures we catch new hourly markets even if timestamp is slightly off
+            const isRecent = activity.timestamp >= recentCutoffSeconds;
+            const isWithinWindow = activity.timestamp >= cutoffSeconds;
+            
+            if (!isRecent && !isWithinWindow) {
+                continue; // Skip if too old
+            }
+
+            // Verify this trade belongs to the watched wallet
+            // Check if activity has proxyWallet field and it matches, or if user field matches
+            if (activity.proxyWallet && activity.proxyWallet.toLowerCase() !== address.toLowerCase()) {
+                // Trade might be from a different wallet, skip it
+                continue;
+            }
+            if (activity.user && activity.user.toLowerCase() !== address.toLowerCase()) {
+                // Trade user doesn't match, skip it
                 continue;
             }
 
-            // Process each activity
-            for (const activity of activities) {
-                // Allow trades from last 5 minutes OR within the normal cutoff window
-                // This ensures we catch new hourly markets even if timestamp is slightly off
-                const isRecent = activity.timestamp >= recentCutoffSeconds;
-                const isWithinWindow = activity.timestamp >= cutoffSeconds;
-                
-                if (!isRecent && !isWithinWindow) {
-                    continue; // Skip if too old
-                }
+            const tradeKey = `${address}:${activity.transactionHash}`;
+            
+            if (isHistoryAvailable) {
+                // Check if this trade already exists in database
+                const existingActivity = await UserActivity.findOne({
+                    transactionHash: activity.transactionHash,
+                });
 
-                // Verify this trade belongs to the watched wallet
-                // Check if activity has proxyWallet field and it matches, or if user field matches
-                if (activity.proxyWallet && activity.proxyWallet.toLowerCase() !== address.toLowerCase()) {
-                    // Trade might be from a different wallet, skip it
-                    continue;
+                if (existingActivity) {
+                    continue; // Already processed this trade
                 }
-                if (activity.user && activity.user.toLowerCase() !== address.toLowerCase()) {
-                    // Trade user doesn't match, skip it
-                    continue;
+            } else {
+                // Memory-only mode: check if we've seen this trade
+                if (processedTrades.has(tradeKey)) {
+                    continue; // Already processed
                 }
+                processedTrades.add(tradeKey);
+            }
+            freshActivities.push(activity);
+        }
 
-                const tradeKey = `${address}:${activity.transactionHash}`;
-                
-                if (isMongoConnected) {
-                    // Check if this trade already exists in database
-                    const existingActivity = await UserActivity.findOne({
-                        transactionHash: activity.transactionHash,
-                    }).exec();
+        // Leader positions now, and their position before/after each new activity
+        // (the executor sizes SELL/MERGE exits from these)
+        let livePositions: DataApiPosition[] = [];
+        let snapshots: LeaderSnapshot[] = [];
+        if (isHistoryAvailable) {
+            livePositions = await polymarketApi.getPositions({ user: address });
+            if (freshActivities.length > 0) {
+                snapshots = computeLeaderSnapshots(
+                    freshActivities,
+                    await loadSnapshotSources(UserPosition, livePositions)
+                );
+            }
+        }
 
-                    if (existingActivity) {
-                        continue; // Already processed this trade
+        // Process each new activity
+        for (const [index, activity] of freshActivities.entries()) {
+            await Logger.withContext(
+                {
+                    component: 'tradeMonitor',
+                    traderAddress: address,
+                    correlationId: getCorrelationId(activity),
+                },
+                async () => {
+                    if (isHistoryAvailable) {
+                        // Save new trade to database
+                        await UserActivity.insertOne({
+                            proxyWallet: activity.proxyWallet,
+                            timestamp: activity.timestamp,
+                            conditionId: activity.conditionId,
+                            type: activity.type,
+                            size: activity.size,
+                            usdcSize: activity.usdcSize,
+                            transactionHash: activity.transactionHash,
+                            price: activity.price,
+                            asset: activity.asset,
+                            side: activity.side,
+                            outcomeIndex: activity.outcomeIndex,
+                            title: activity.title,
+                            slug: activity.slug,
+                            icon: activity.icon,
+                            eventSlug: activity.eventSlug,
+                            outcome: activity.outcome,
+                            name: activity.name,
+                            pseudonym: activity.pseudonym,
+                            bio: activity.bio,
+                            profileImage: activity.profileImage,
+                            profileImageOptimized: activity.profileImageOptimized,
+                            bot: false,
+                            botExcutedTime: 0,
+                            ...snapshots[index],
+                        });
                     }
 
-                    // Save new trade to database
-                    const newActivity = new UserActivity({
-                        proxyWallet: activity.proxyWallet,
-                        timestamp: activity.timestamp,
-                        conditionId: activity.conditionId,
+                    newTrades++;
+                    pollScheduler.recordDetection(address, activity.timestamp);
+                    metrics.tradesDetected.inc({ type: activity.type });
+                    Logger.debug(`Detected ${activity.type} in ${activity.title || activity.asset}`, {
                         type: activity.type,
-                        size: activity.size,
+                        side: activity.side,
+                        asset: activity.asset,
                         usdcSize: activity.usdcSize,
-                        transactionHash: activity.transactionHash,
                         price: activity.price,
-                        asset: activity.asset,
-                        side: activity.side,
-                        outcomeIndex: activity.outcomeIndex,
-                        title: activity.title,
-                        slug: activity.slug,
-                        icon: activity.icon,
-                        eventSlug: activity.eventSlug,
-                        outcome: activity.outcome,
-                        name: activity.name,
-                        pseudonym: activity.pseudonym,
-                        bio: activity.bio,
-                        profileImage: activity.profileImage,
-                        profileImageOptimized: activity.profileImageOptimized,
-                        bot: false,
-                        botExcutedTime: 0,
+                        transactionHash: activity.transactionHash,
                     });
 
-                    await newActivity.save();
-                } else {
-                    // Memory-only mode: check if we've seen this trade
-                    if (processedTrades.has(tradeKey)) {
-                        continue; // Already processed
-                    }
-                    processedTrades.add(tradeKey);
-                }
-                
-                // Fetch FRESH prices from CLOB API at the moment of trade
-                // This gets the ACTUAL orderbook prices for both UP and DOWN - no calculation
-                const freshPrices = await marketTracker.fetchFreshPricesBySlug(activity.slug || '');
-                if (freshPrices) {
-                    // Inject fresh API prices into activity for accurate logging
-                    activity.marketPriceUp = freshPrices.priceUp;
-                    activity.marketPriceDown = freshPrices.priceDown;
-                    // Only log prices in non-watcher mode (verbose logging clutters dashboard)
-                    if (!ENV.TRACK_ONLY_MODE) {
-                        console.log(`📊 FRESH API PRICES: UP=$${freshPrices.priceUp.toFixed(4)} DOWN=$${freshPrices.priceDown.toFixed(4)}`);
+                    if (activity.type !== 'TRADE') {
+                        // Merges/redeems only matter to the executor
+                        return;
                     }
-                } else {
-                    // Fallback to cached prices if fresh fetch fails
-                    const cachedPrices = marketTracker.getLivePricesBySlug(activity.slug || '');
-                    if (cachedPrices) {
-                        activity.marketPriceUp = cachedPrices.priceUp;
-                        activity.marketPriceDown = cachedPrices.priceDown;
-                        // Only log prices in non-watcher mode
+
+                    // Fetch FRESH prices from CLOB API at the moment of trade
+                    // This gets the ACTUAL orderbook prices for both UP and DOWN - no calculation
+                    const freshPrices = await marketTracker.fetchFreshPricesBySlug(activity.slug || '');
+                    if (freshPrices) {
+                        // Inject fresh API prices into activity for accurate logging
+                        activity.marketPriceUp = freshPrices.priceUp;
+                        activity.marketPriceDown = freshPrices.priceDown;
+                        // Only log prices in non-watcher mode (verbose logging clutters dashboard)
                         if (!ENV.TRACK_ONLY_MODE) {
-                            console.log(`📊 CACHED PRICES: UP=$${cachedPrices.priceUp.toFixed(4)} DOWN=$${cachedPrices.priceDown.toFixed(4)}`);
+                            Logger.info(`📊 FRESH API PRICES: UP=$${freshPrices.priceUp.toFixed(4)} DOWN=$${freshPrices.priceDown.toFixed(4)}`);
+                        }
+                    } else {
+                        // Fallback to cached prices if fresh fetch fails
+                        const cachedPrices = marketTracker.getLivePricesBySlug(activity.slug || '');
+                        if (cachedPrices) {
+                            activity.marketPriceUp = cachedPrices.priceUp;
+                            activity.marketPriceDown = cachedPrices.priceDown;
+                            // Only log prices in non-watcher mode
+                            if (!ENV.TRACK_ONLY_MODE) {
+                                Logger.info(`📊 CACHED PRICES: UP=$${cachedPrices.priceUp.toFixed(4)} DOWN=$${cachedPrices.priceDown.toFixed(4)}`);
+                            }
                         }
                     }
-                }
-
-                // Log trade with detailed information (including market prices)
-                tradeLogger.logTrade(activity, address).catch((error) => {
-                    Logger.error(`Error logging trade: ${error}`);
-                });
-                
-                // Process trade through market tracker (for both modes)
-                // Note: processTrade is now async, but we don't await to avoid blocking
-                marketTracker.processTrade(activity).catch((error) => {
-                    Logger.error(`Error processing trade in market tracker: ${error}`);
-                });
-            }
 
-            // Also fetch and update positions (only if MongoDB is connected)
-            if (isMongoConnected) {
-                const positionsUrl = `https://data-api.polymarket.com/positions?user=${address}`;
-                const positions = await fetchData(positionsUrl);
-
-                if (Array.isArray(positions) && positions.length > 0) {
-                    for (const position of positions) {
-                        // Update or create position
-                        await UserPosition.findOneAndUpdate(
-                            { asset: position.asset, conditionId: position.conditionId },
-                            {
-                                proxyWallet: position.proxyWallet,
-                                asset: position.asset,
-                                conditionId: position.conditionId,
-                                size: position.size,
-                                avgPrice: position.avgPrice,
-                                initialValue: position.initialValue,
-                                currentValue: position.currentValue,
-                                cashPnl: position.cashPnl,
-                                percentPnl: position.percentPnl,
-                                totalBought: position.totalBought,
-                                realizedPnl: position.realizedPnl,
-                                percentRealizedPnl: position.percentRealizedPnl,
-                                curPrice: position.curPrice,
-                                redeemable: position.redeemable,
-                                mergeable: position.mergeable,
-                                title: position.title,
-                                slug: position.slug,
-                                icon: position.icon,
-                                eventSlug: position.eventSlug,
-                                outcome: position.outcome,
-                                outcomeIndex: position.outcomeIndex,
-                                oppositeOutcome: position.oppositeOutcome,
-                                oppositeAsset: position.oppositeAsset,
-                                endDate: position.endDate,
-                                negativeRisk: position.negativeRisk,
-                            },
-                            { upsert: true }
-                        );
-                    }
+                    // Log trade with detailed information (including market prices)
+                    tradeLogger.logTrade(activity, address).catch((error) => {
+                        Logger.error(`Error logging trade: ${error}`);
+                    });
+            
+                    // Process trade through market tracker (for both modes)
+                    // Note: processTrade is now async, but we don't await to avoid blocking
+                    marketTracker.processTrade(activity).catch((error) => {
+                        Logger.error(`Error processing trade in market tracker: ${error}`);
+                    });
                 }
-            }
-        } catch (error) {
-            Logger.error(
-                `Error fetching data for ${address.slice(0, 6)}...${address.slice(-4)}: ${error}`
             );
         }
+
+        // Also update stored positions (only with history storage)
+        if (isHistoryAvailable) {
+            await storeLeaderPositions(UserPosition, livePositions);
+        }
+    } catch (error) {
+        Logger.error(
+            `Error fetching data for ${address.slice(0, 6)}...${address.slice(-4)}: ${error}`
+        );
+    }
+
+    return newTrades;
+};
+
+const fetchTradeData = async () => {
+    // Get current addresses from watchlist (may have changed since last fetch)
+    const currentAddresses = watchlistManager.getActiveAddresses();
+    if (currentAddresses.length === 0) {
+        return; // No addresses to monitor
     }
+
+    // Poll the wallets that are due, several at a time
+    const startedAt = Date.now();
+    pollScheduler.setAddresses(currentAddresses);
+    await pollScheduler.runDue(pollAddress);
+    metrics.pollCycleSeconds.observe((Date.now() - startedAt) / 1000);
+    setDetectionLatency(pollScheduler.getLatencyStats());
 };
 
 // Track if this is the first run
@@ -361,13 +486,16 @@ export const stopTradeMonitor = () => {
 
 const tradeMonitor = async () => {
     await init();
-    Logger.success(`Monitoring ${USER_ADDRESSES.length} trader(s) every ${FETCH_INTERVAL}s`);
+    Logger.success(
+        `Monitoring ${USER_ADDRESSES.length} trader(s) (${ENV.MONITOR_CONCURRENCY} in parallel, ` +
+            `${ENV.POLL_HOT_INTERVAL_SECONDS}s-${ENV.POLL_IDLE_INTERVAL_SECONDS}s per trader)`
+    );
     Logger.separator();
 
-    // On first run, mark all existing historical trades as already processed (only if MongoDB connected)
+    // On first run, mark all existing historical trades as already processed (only with history storage)
     if (isFirstRun) {
-        const isMongoConnected = mongoose.connection.readyState === 1;
-        if (isMongoConnected) {
+        const isHistoryAvailable = isHistoryStoreAvailable();
+        if (isHistoryAvailable) {
             Logger.info('First run: marking all historical trades as processed...');
             for (const address of USER_ADDRESSES) {
                 const { UserActivity } = getModelsForAddress(address);
@@ -399,9 +527,14 @@ const tradeMonitor = async () => {
         await marketTracker.displayStats();
         
         if (!isRunning) break;
-        // Use faster polling for watch mode to catch new markets quickly
+        // Sleep until the next wallet is due, but wake at least every poll interval
+        // (faster in watch mode) so market discovery and the display keep ticking
         const pollInterval = ENV.TRACK_ONLY_MODE ? Math.min(FETCH_INTERVAL, 2) : FETCH_INTERVAL;
-        await new Promise((resolve) => setTimeout(resolve, pollInterval * 1000));
+        const sleepMs = Math.min(
+            pollInterval * 1000,
+            Math.max(MIN_LOOP_SLEEP_MS, pollScheduler.msUntilNextDue())
+        );
+        await new Promise((resolve) => setTimeout(resolve, sleepMs));
     }
 
     Logger.info('Trade monitor stopped');
@@ -0,0 +1,138 @@
+/**
+ * Trader Edge
+ * Measures how often a watched trader's BUYs win compared with the price they paid, from the
+ * activity and position history the monitor stores, for the KELLY copy strategy.
+ *
+ * A BUY counts once its outcome has resolved (the stored position is priced at ~1 or ~0).
+ * Samples are bucketed by market category and entry price; the estimate for a new trade comes
+ * from the most specific bucket with enough samples (category + price, then category, then
+ * price, then everything). Win rates are shrunk toward breakeven by PRIOR_TRADES imaginary
+ * trades, so a short lucky streak doesn't read as a large edge.
+ */
+
+import { TraderEdge } from '../config/copyStrategy';
+import { UserActivityInterface, UserPositionInterface } from '../interfaces/User';
+import { getUserActivityModel, getUserPositionModel } from '../models/userHistory';
+import { getMarketCategory } from './riskManager';
+
+export interface EdgeSample {
+    category: string;
+    price: number;
+    won: boolean;
+}
+
+// Width of the entry price buckets (0-0.2, 0.2-0.4, ...)
+const PRICE_BUCKET_WIDTH = 0.2;
+// Breakeven trades blended into every bucket before measuring its win rate
+const PRIOR_TRADES = 10;
+// Positions priced within this distance of 0 or 1 count as resolved
+const RESOLVED_EPSILON = 0.01;
+// How long a trader's samples are reused before the history is read again
+const CACHE_TTL_MS = 5 * 60 * 1000;
+
+const priceBucket = (price: number): number =>
+    Math.min(Math.floor(price / PRICE_BUCKET_WIDTH), Math.round(1 / PRICE_BUCKET_WIDTH) - 1);
+
+const bucketLabel = (bucket: number): string =>
+    `${(bucket * PRICE_BUCKET_WIDTH).toFixed(1)}-${((bucket + 1) * PRICE_BUCKET_WIDTH).toFixed(1)}`;
+
+/**
+ * Resolved BUY samples: each trader BUY whose outcome token has since settled
+ */
+export const buildEdgeSamples = (
+    activities: Array<
+        Pick<UserActivityInterface, 'type' | 'side' | 'asset' | 'price' | 'eventSlug' | 'slug'>
+    >,
+    positions: Array<Pick<UserPositionInterface, 'asset' | 'curPrice'>>
+): EdgeSample[] => {
+    const settledPrice = new Map<string, number>();
+    for (const position of positions) {
+        if (position.curPrice >= 1 - RESOLVED_EPSILON || position.curPrice <= RESOLVED_EPSILON) {
+            settledPrice.set(position.asset, position.curPrice);
+        }
+    }
+
+    return activities
+        .filter(
+            (a) =>
+                a.type === 'TRADE' &&
+                a.side === 'BUY' &&
+                a.price > 0 &&
+                a.price < 1 &&
+                settledPrice.has(a.asset)
+        )
+        .map((a) => ({
+            category: getMarketCategory(a.eventSlug || a.slug),
+            price: a.price,
+            won: settledPrice.get(a.asset)! >= 1 - RESOLVED_EPSILON,
+        }));
+};
+
+/**
+ * Edge for a new trade in `category` at `price`, or undefined without enough history
+ */
+export const estimateEdge = (
+    samples: EdgeSample[],
+    category: string,
+    price: number,
+    minSamples: number
+): TraderEdge | undefined => {
+    const bucket = priceBucket(price);
+    const candidates: Array<[string, EdgeSample[]]> = [
+        [
+            `${category} @ ${bucketLabel(bucket)}`,
+            samples.filter((s) => s.category === category && priceBucket(s.price) === bucket),
+        ],
+        [category, samples.filter((s) => s.category === category)],
+        [`all @ ${bucketLabel(bucket)}`, samples.filter((s) => priceBucket(s.price) === bucket)],
+        ['all', samples],
+    ];
+
+    const match = candidates.find(([, group]) => group.length > 0 && group.length >= minSamples);
+    if (!match) {
+        return undefined;
+    }
+
+    const [label, group] = match;
+    const wins = group.filter((s) => s.won).length;
+    const avgPrice = group.reduce((sum, s) => sum + s.price, 0) / group.length;
+    const winRate = (wins + PRIOR_TRADES * avgPrice) / (group.length + PRIOR_TRADES);
+    return { edge: winRate - avgPrice, winRate, avgPrice, samples: group.length, bucket: label };
+};
+
+export class TraderEdgeTracker {
+    private cache = new Map<string, { samples: EdgeSample[]; loadedAt: number }>();
+
+    constructor(private readonly now: () => number = Date.now) {}
+
+    /**
+     * Measured edge of `trader` for a trade in `category` at `price`
+     */
+    async getEdge(
+        trader: string,
+        category: string,
+        price: number,
+        minSamples: number
+    ): Promise<TraderEdge | undefined> {
+        return estimateEdge(await this.getSamples(trader), category, price, minSamples);
+    }
+
+    private async getSamples(trader: string): Promise<EdgeSample[]> {
+        const cached = this.cache.get(trader);
+        if (cached && this.now() - cached.loadedAt < CACHE_TTL_MS) {
+            return cached.samples;
+        }
+
+        const [activities, positions] = await Promise.all([
+            getUserActivityModel(trader).find({ type: 'TRADE', side: 'BUY' }),
+            getUserPositionModel(trader).find(),
+        ]);
+        const samples = buildEdgeSamples(activities, positions);
+        this.cache.set(trader, { samples, loadedAt: this.now() });
+        return samples;
+    }
+}
+
+export const traderEdgeTracker = new TraderEdgeTracker();
+
+export default traderEdgeTracker;
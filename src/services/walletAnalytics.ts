@@ -1,36 +1,8 @@
 import Logger from '../utils/logger';
-import fetchData from '../utils/fetchData';
+import polymarketApi from '../utils/polymarketApi';
+import { DataApiPosition, DataApiTrade } from '../interfaces/Polymarket';
 import { MarketSummary, PnlHistoryEntry } from './appState';
 
-interface PolymarketPosition {
-    proxyWallet: string;
-    conditionId: string;
-    asset: string;
-    size: number;
-    avgPrice: number;
-    curPrice: number;
-    initialValue: number;
-    currentValue: number;
-    cashPnl: number;
-    percentPnl: number;
-    outcome: string;
-    title: string;
-    slug: string;
-    endDate: string;
-}
-
-interface PolymarketTrade {
-    id: string;
-    timestamp: string;
-    side: 'BUY' | 'SELL';
-    price: number;
-    size: number;
-    outcome: string;
-    market: string;
-    asset: string;
-    conditionId: string;
-}
-
 export interface WalletAnalyticsResult {
     portfolio: {
         balance: number;
@@ -57,8 +29,8 @@ interface MarketGroup {
     marketName: string;
     endDate: number;
     category: string;
-    up?: PolymarketPosition;
-    down?: PolymarketPosition;
+    up?: DataApiPosition;
+    down?: DataApiPosition;
 }
 
 const parseCategory = (marketName: string): string => {
@@ -90,7 +62,7 @@ const formatTimeRemaining = (endDate: number): { timeRemaining: string; isExpire
     return { timeRemaining: `${mins}m ${secs.toString().padStart(2, '0')}s`, isExpired: false };
 };
 
-const groupPositionsByMarket = (positions: PolymarketPosition[]): Map<string, MarketGroup> => {
+const groupPositionsByMarket = (positions: DataApiPosition[]): Map<string, MarketGroup> => {
     const map = new Map<string, MarketGroup>();
     for (const pos of positions) {
         const existing = map.get(pos.conditionId) || {
@@ -113,8 +85,8 @@ const calculatePortfolioBuckets = (marketType: '5m' | '15m' | '1h' | 'OTHER',
     marketCost: number,
     marketPnL: number,
     buckets: Record<'5m' | '15m' | '1h', { pnl: number; invested: number; trades: number }>,
-    upPosition?: PolymarketPosition,
-    downPosition?: PolymarketPosition) => {
+    upPosition?: DataApiPosition,
+    downPosition?: DataApiPosition) => {
     const trades = (upPosition ? 1 : 0) + (downPosition ? 1 : 0);
     if (marketType === '5m') {
         buckets['5m'].pnl += marketPnL;
@@ -207,14 +179,15 @@ export const getWalletAnalytics = async (address?: string): Promise<WalletAnalyt
     const normalizedAddress = address.toLowerCase();
 
     try {
-        const [positionsRaw, tradesRaw] = await Promise.all([
-            fetchData(`https://data-api.polymarket.com/positions?user=${normalizedAddress}`).catch(() => []),
-            fetchData(`https://data-api.polymarket.com/trades?user=${normalizedAddress}&limit=200`).catch(() => []),
+        const [positions, trades] = await Promise.all([
+            polymarketApi
+                .getPositions({ user: normalizedAddress })
+                .catch((): DataApiPosition[] => []),
+            polymarketApi
+                .getTrades({ user: normalizedAddress, limit: 200 })
+                .catch((): DataApiTrade[] => []),
         ]);
 
-        const positions: PolymarketPosition[] = Array.isArray(positionsRaw) ? positionsRaw : [];
-        const trades: PolymarketTrade[] = Array.isArray(tradesRaw) ? tradesRaw : [];
-
         const grouped = groupPositionsByMarket(positions);
         const markets: MarketSummary[] = [];
         let totalInvested = 0;
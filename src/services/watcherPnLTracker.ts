@@ -7,13 +7,15 @@
  * - Stores market PnL data in memory
  * - Groups markets by hour window (15-min + 1-hour)
  * - Generates formatted TXT reports
- * - Calculates settled PnL (winner=$1, loser=$0)
+ * - Calculates settled PnL (winner=$1, loser=$0), gross and net of fees, gas and rounding
  */
 
 import * as fs from 'fs';
 import * as path from 'path';
 import { getRunId } from '../utils/runId';
 import Logger from '../utils/logger';
+import notifier from './notifier';
+import { emptyCosts, getPnLBreakdown, getRedemptionGas, TradingCosts } from './pnlAccounting';
 
 interface MarketPnLData {
     marketName: string;
@@ -23,6 +25,15 @@ interface MarketPnLData {
     priceDown: number;
     totalPnl: number;
     pnlPercent: number;
+    // Missing on history saved before net PnL was tracked (treated as gross, no costs)
+    netPnl?: number;
+    feesUSD?: number;
+    gasUSD?: number;
+    roundingUSD?: number;
+    redemptionGasUSD?: number; // Part of gasUSD spent (or expected) on redeeming
+    // Set once the market's position was redeemed on-chain (see recordRedemption)
+    redeemedUSD?: number;
+    redeemTxHash?: string;
     sharesUp: number;
     sharesDown: number;
     totalCostUp: number;
@@ -32,10 +43,25 @@ interface MarketPnLData {
     timestamp: number;
 }
 
+export interface RedemptionRecord {
+    conditionId: string;
+    marketName: string;
+    payoutUSD: number;
+    sharesUp: number;
+    sharesDown: number;
+    totalCostUp: number;
+    totalCostDown: number;
+    txHash?: string; // Absent for worthless positions that were not worth redeeming
+}
+
 interface MarketData {
     name: string;
     pnl: number;
     pnlPercent: number;
+    netPnl: number;
+    feesUSD: number;
+    gasUSD: number;
+    roundingUSD: number;
     avgCostUp: number;
     avgCostDown: number;
     avgPriceUp: number;
@@ -210,7 +236,8 @@ class WatcherPnLTracker {
         priceUp: number,
         priceDown: number,
         tradesUp: number = 0,
-        tradesDown: number = 0
+        tradesDown: number = 0,
+        costs: TradingCosts = emptyCosts()
     ): void {
         // Use conditionId when available, otherwise fall back to marketKey
         // This prevents losing PnL for markets where conditionId wasn't resolved
@@ -256,6 +283,13 @@ class WatcherPnLTracker {
             const settledTotalValue = settledValueUp + settledValueDown;
             const settledPnl = settledTotalValue - totalInvested;
             const settledPnlPercent = totalInvested > 0 ? (settledPnl / totalInvested) * 100 : 0;
+            const winningShares = sharesUp * settledPriceUp + sharesDown * settledPriceDown;
+            const redemptionGasUSD = getRedemptionGas(winningShares);
+            const { netPnl, feesUSD, gasUSD, roundingUSD } = getPnLBreakdown(
+                settledPnl,
+                costs,
+                redemptionGasUSD
+            );
 
             // Store data
             this.marketPnLData.set(uniqueKey, {
@@ -266,6 +300,11 @@ class WatcherPnLTracker {
                 priceDown,
                 totalPnl: settledPnl,
                 pnlPercent: settledPnlPercent,
+                netPnl,
+                feesUSD,
+                gasUSD,
+                roundingUSD,
+                redemptionGasUSD,
                 sharesUp,
                 sharesDown,
                 totalCostUp,
@@ -277,11 +316,25 @@ class WatcherPnLTracker {
 
             this.loggedMarkets.add(uniqueKey);
 
-            Logger.info(`📊 Watcher PnL captured: ${marketName} - ${settledPnl >= 0 ? '+' : ''}$${settledPnl.toFixed(2)} (${settledPnlPercent >= 0 ? '+' : ''}${settledPnlPercent.toFixed(1)}%)`);
+            Logger.info(`📊 Watcher PnL captured: ${marketName} - ${settledPnl >= 0 ? '+' : ''}$${settledPnl.toFixed(2)} (${settledPnlPercent >= 0 ? '+' : ''}${settledPnlPercent.toFixed(1)}%), net $${netPnl.toFixed(2)}`);
 
             // Log to CSV (same format as paper mode)
             this.logPnlToCsv(marketName, settledPnl);
 
+            void notifier.notify({
+                event: 'market_closed',
+                severity: 'info',
+                title: `Market closed: ${settledPnl >= 0 ? '+' : '-'}$${Math.abs(settledPnl).toFixed(2)}`,
+                message: marketName,
+                fields: {
+                    Invested: `$${totalInvested.toFixed(2)}`,
+                    PnL: `${settledPnlPercent >= 0 ? '+' : ''}${settledPnlPercent.toFixed(1)}%`,
+                    'Net PnL': `$${netPnl.toFixed(2)}`,
+                    Trades: tradesUp + tradesDown,
+                },
+                dedupeKey: uniqueKey,
+            });
+
             // Save PnL history to disk for persistence
             this.savePnLHistory();
 
@@ -292,6 +345,70 @@ class WatcherPnLTracker {
         }
     }
 
+    /**
+     * Settle a market at what redeeming our position actually paid
+     * Replaces the winner=$1/loser=$0 estimate (keeping the fees and rounding tracked for the
+     * market) so realized PnL matches the USDC received. Markets not captured by logMarketPnL,
+     * e.g. positions opened before a restart, get an entry of their own.
+     */
+    recordRedemption(redemption: RedemptionRecord): void {
+        const existing = this.marketPnLData.get(redemption.conditionId);
+        if (existing?.redeemedUSD !== undefined) {
+            return;
+        }
+
+        try {
+            const totalInvested = redemption.totalCostUp + redemption.totalCostDown;
+            const totalPnl = redemption.payoutUSD - totalInvested;
+            const redemptionGasUSD = getRedemptionGas(redemption.txHash ? redemption.payoutUSD : 0);
+            const { netPnl, feesUSD, gasUSD, roundingUSD } = getPnLBreakdown(
+                totalPnl,
+                {
+                    feesUSD: existing?.feesUSD ?? 0,
+                    // Fill gas only - the redemption estimate is replaced
+                    gasUSD: (existing?.gasUSD ?? 0) - (existing?.redemptionGasUSD ?? 0),
+                    roundingUSD: existing?.roundingUSD ?? 0,
+                },
+                redemptionGasUSD
+            );
+
+            this.marketPnLData.set(redemption.conditionId, {
+                marketName: existing?.marketName ?? redemption.marketName,
+                conditionId: redemption.conditionId,
+                marketKey: existing?.marketKey ?? redemption.conditionId,
+                priceUp: existing?.priceUp ?? 0,
+                priceDown: existing?.priceDown ?? 0,
+                totalPnl,
+                pnlPercent: totalInvested > 0 ? (totalPnl / totalInvested) * 100 : 0,
+                netPnl,
+                feesUSD,
+                gasUSD,
+                roundingUSD,
+                redemptionGasUSD,
+                redeemedUSD: redemption.payoutUSD,
+                redeemTxHash: redemption.txHash,
+                sharesUp: redemption.sharesUp,
+                sharesDown: redemption.sharesDown,
+                totalCostUp: redemption.totalCostUp,
+                totalCostDown: redemption.totalCostDown,
+                tradesUp: existing?.tradesUp ?? 0,
+                tradesDown: existing?.tradesDown ?? 0,
+                timestamp: existing?.timestamp ?? Date.now()
+            });
+            this.loggedMarkets.add(redemption.conditionId);
+
+            Logger.info(`📊 Redemption settled: ${redemption.marketName} - $${redemption.payoutUSD.toFixed(2)} received, PnL ${totalPnl >= 0 ? '+' : ''}$${totalPnl.toFixed(2)}`);
+
+            if (!existing) {
+                this.logPnlToCsv(redemption.marketName, totalPnl);
+            }
+            this.savePnLHistory();
+            this.generateFormattedPnLReport();
+        } catch (error) {
+            Logger.error(`Failed to record redemption: ${error}`);
+        }
+    }
+
     /**
      * Generate formatted PnL report grouped by hour window
      */
@@ -380,6 +497,10 @@ class WatcherPnLTracker {
                     name: marketName,
                     pnl: data.totalPnl,
                     pnlPercent: data.pnlPercent,
+                    netPnl: data.netPnl ?? data.totalPnl,
+                    feesUSD: data.feesUSD ?? 0,
+                    gasUSD: data.gasUSD ?? 0,
+                    roundingUSD: data.roundingUSD ?? 0,
                     avgCostUp,
                     avgCostDown,
                     avgPriceUp: priceUp,
@@ -427,6 +548,7 @@ class WatcherPnLTracker {
             });
 
             let totalPnL = 0;
+            let totalNetPnL = 0;
             let totalInvested = 0;
             let totalTrades = 0;
 
@@ -448,6 +570,7 @@ class WatcherPnLTracker {
                 report += "─".repeat(100) + "\n\n";
 
                 let windowPnL = 0;
+                let windowNetPnL = 0;
                 let windowInvested = 0;
                 let windowTrades = 0;
 
@@ -463,6 +586,7 @@ class WatcherPnLTracker {
 
                     report += `  Outcome: ${market.outcome}\n`;
                     report += `  Settled PnL: ${pnlSign}$${market.pnl.toFixed(2)} (${pnlSign}${market.pnlPercent.toFixed(2)}%)\n`;
+                    report += `  Net PnL: ${market.netPnl >= 0 ? "+" : ""}$${market.netPnl.toFixed(2)}  (fees $${market.feesUSD.toFixed(2)}, gas $${market.gasUSD.toFixed(2)}, rounding $${market.roundingUSD.toFixed(2)})\n`;
                     report += `  ${"─".repeat(96)}\n`;
 
                     if (market.sharesUp > 0 || market.sharesDown > 0) {
@@ -489,6 +613,7 @@ class WatcherPnLTracker {
                     report += `  ${"═".repeat(96)}\n\n`;
 
                     windowPnL += market.pnl;
+                    windowNetPnL += market.netPnl;
                     windowInvested += market.totalInvested;
                     windowTrades += market.tradesUp + market.tradesDown;
                 }
@@ -496,10 +621,11 @@ class WatcherPnLTracker {
                 const windowPnLSign = windowPnL >= 0 ? "+" : "";
                 const windowPnLPercent = windowInvested > 0 ? (windowPnL / windowInvested) * 100 : 0;
                 report += `  ${"─".repeat(88)}\n`;
-                report += `  Window Summary:  PnL: ${windowPnLSign}$${windowPnL.toFixed(2)} (${windowPnLSign}${windowPnLPercent.toFixed(2)}%)  |  Invested: $${windowInvested.toFixed(2)}  |  Trades: ${windowTrades}\n`;
+                report += `  Window Summary:  PnL: ${windowPnLSign}$${windowPnL.toFixed(2)} (${windowPnLSign}${windowPnLPercent.toFixed(2)}%)  |  Net: ${windowNetPnL >= 0 ? "+" : ""}$${windowNetPnL.toFixed(2)}  |  Invested: $${windowInvested.toFixed(2)}  |  Trades: ${windowTrades}\n`;
                 report += `  ${"─".repeat(88)}\n\n`;
 
                 totalPnL += windowPnL;
+                totalNetPnL += windowNetPnL;
                 totalInvested += windowInvested;
                 totalTrades += windowTrades;
             }
@@ -511,6 +637,8 @@ class WatcherPnLTracker {
             const totalPnLSign = totalPnL >= 0 ? "+" : "";
             const totalPnLPercent = totalInvested > 0 ? (totalPnL / totalInvested) * 100 : 0;
             report += `  Total PnL: ${totalPnLSign}$${totalPnL.toFixed(2)} (${totalPnLSign}${totalPnLPercent.toFixed(2)}%)\n`;
+            const totalNetPnLPercent = totalInvested > 0 ? (totalNetPnL / totalInvested) * 100 : 0;
+            report += `  Total Net PnL: ${totalNetPnL >= 0 ? "+" : ""}$${totalNetPnL.toFixed(2)} (${totalNetPnL >= 0 ? "+" : ""}${totalNetPnLPercent.toFixed(2)}%)\n`;
             report += `  Total Invested: $${totalInvested.toFixed(2)}\n`;
             report += `  Total Trades: ${totalTrades}\n`;
             report += `  Markets Tracked: ${markets.length}\n`;
@@ -529,17 +657,27 @@ class WatcherPnLTracker {
     /**
      * Get summary stats
      */
-    getStats(): { totalPnL: number; totalInvested: number; marketsTracked: number } {
+    getStats(): {
+        totalPnL: number;
+        totalNetPnL: number;
+        totalCosts: number;
+        totalInvested: number;
+        marketsTracked: number;
+    } {
         let totalPnL = 0;
+        let totalNetPnL = 0;
         let totalInvested = 0;
 
         for (const data of this.marketPnLData.values()) {
             totalPnL += data.totalPnl;
+            totalNetPnL += data.netPnl ?? data.totalPnl;
             totalInvested += data.totalCostUp + data.totalCostDown;
         }
 
         return {
             totalPnL,
+            totalNetPnL,
+            totalCosts: totalPnL - totalNetPnL,
             totalInvested,
             marketsTracked: this.marketPnLData.size
         };
@@ -550,6 +688,10 @@ class WatcherPnLTracker {
      */
     getDashboardSnapshot(): {
         totalPnL: number;
+        totalNetPnL: number;
+        totalFeesUSD: number;
+        totalGasUSD: number;
+        totalRoundingUSD: number;
         totalInvested: number;
         totalTrades: number;
         marketsTracked: number;
@@ -566,6 +708,7 @@ class WatcherPnLTracker {
             conditionId: string;
             totalPnl: number;
             pnlPercent: number;
+            netPnl: number;
             priceUp: number;
             priceDown: number;
             sharesUp: number;
@@ -575,6 +718,10 @@ class WatcherPnLTracker {
         }[];
     } {
         let totalPnL = 0;
+        let totalNetPnL = 0;
+        let totalFeesUSD = 0;
+        let totalGasUSD = 0;
+        let totalRoundingUSD = 0;
         let totalInvested = 0;
         let totalTrades = 0;
 
@@ -591,6 +738,7 @@ class WatcherPnLTracker {
             conditionId: string;
             totalPnl: number;
             pnlPercent: number;
+            netPnl: number;
             priceUp: number;
             priceDown: number;
             sharesUp: number;
@@ -602,7 +750,13 @@ class WatcherPnLTracker {
         for (const data of this.marketPnLData.values()) {
             const investedForMarket = data.totalCostUp + data.totalCostDown;
 
+            const netPnl = data.netPnl ?? data.totalPnl;
+
             totalPnL += data.totalPnl;
+            totalNetPnL += netPnl;
+            totalFeesUSD += data.feesUSD ?? 0;
+            totalGasUSD += data.gasUSD ?? 0;
+            totalRoundingUSD += data.roundingUSD ?? 0;
             totalInvested += investedForMarket;
             const tradesForMarket = data.tradesUp + data.tradesDown;
             totalTrades += tradesForMarket;
@@ -649,6 +803,7 @@ class WatcherPnLTracker {
                 conditionId: data.conditionId || '',
                 totalPnl: data.totalPnl,
                 pnlPercent: data.pnlPercent,
+                netPnl,
                 priceUp: data.priceUp,
                 priceDown: data.priceDown,
                 sharesUp: data.sharesUp,
@@ -668,6 +823,10 @@ class WatcherPnLTracker {
 
         return {
             totalPnL,
+            totalNetPnL,
+            totalFeesUSD,
+            totalGasUSD,
+            totalRoundingUSD,
             totalInvested,
             totalTrades,
             marketsTracked: this.marketPnLData.size,
@@ -1,6 +1,12 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import Logger from '../utils/logger';
+import { ENV } from '../config/env';
+import {
+    mergeTraderSettings,
+    TraderSettings,
+    validateTraderSettings,
+} from '../config/traderSettings';
 
 /**
  * Watchlist Manager - Manages watched addresses dynamically
@@ -8,7 +14,7 @@ import Logger from '../utils/logger';
  * Supports external updates from webapp via file watching or direct API calls
  */
 
-interface WatchedAddress {
+interface WatchedAddress extends TraderSettings {
     address: string;
     alias?: string;  // Optional friendly name
     addedAt: number; // Timestamp when added
@@ -334,6 +340,63 @@ class WatchlistManager {
         return true;
     }
 
+    /**
+     * Update per-trader copy settings (merged into any existing ones)
+     * Returns the validation errors; nothing is saved unless the list is empty.
+     */
+    updateSettings(addressOrAlias: string, patch: TraderSettings): string[] {
+        const entry = this.getAddress(addressOrAlias);
+        if (!entry) {
+            Logger.warning(`Address not found: ${addressOrAlias}`);
+            return [`Address not found: ${addressOrAlias}`];
+        }
+
+        const settings = mergeTraderSettings(this.getSettings(entry.address), patch);
+        const errors = validateTraderSettings(ENV.COPY_STRATEGY_CONFIG, settings);
+        if (errors.length > 0) {
+            Logger.warning(`Invalid settings for ${entry.alias || entry.address}: ${errors.join('; ')}`);
+            return errors;
+        }
+
+        Object.assign(entry, settings);
+        this.saveWatchlist();
+
+        Logger.success(`Updated copy settings for ${entry.alias || entry.address.slice(0, 10) + '...'}`);
+        return [];
+    }
+
+    /**
+     * Drop per-trader settings so the trader follows the global config again
+     */
+    resetSettings(addressOrAlias: string): boolean {
+        const entry = this.getAddress(addressOrAlias);
+        if (!entry) {
+            Logger.warning(`Address not found: ${addressOrAlias}`);
+            return false;
+        }
+
+        delete entry.copyStrategy;
+        delete entry.allowedCategories;
+        delete entry.blockedCategories;
+        delete entry.capitalAllocationUSD;
+        this.saveWatchlist();
+
+        Logger.success(`Reset copy settings for ${entry.alias || entry.address.slice(0, 10) + '...'}`);
+        return true;
+    }
+
+    /**
+     * Per-trader copy settings (empty if the trader uses the global config)
+     */
+    getSettings(addressOrAlias: string): TraderSettings {
+        const entry = this.getAddress(addressOrAlias);
+        if (!entry) {
+            return {};
+        }
+        const { copyStrategy, allowedCategories, blockedCategories, capitalAllocationUSD } = entry;
+        return { copyStrategy, allowedCategories, blockedCategories, capitalAllocationUSD };
+    }
+
     /**
      * Get all watched addresses (only enabled ones)
      */
@@ -420,7 +483,8 @@ class WatchlistManager {
                 const status = entry.enabled ? '✅' : '⏸️ ';
                 const alias = entry.alias ? ` (${entry.alias})` : '';
                 const shortAddr = `${entry.address.slice(0, 6)}...${entry.address.slice(-4)}`;
-                const line = `  ${i + 1}. ${status} ${shortAddr}${alias}`;
+                const custom = entry.copyStrategy || entry.allowedCategories || entry.blockedCategories || entry.capitalAllocationUSD ? ' ⚙️' : '';
+                const line = `  ${i + 1}. ${status} ${shortAddr}${alias}${custom}`;
                 console.log(`║${line.padEnd(62)}║`);
             }
         }
@@ -431,6 +495,7 @@ class WatchlistManager {
         console.log('║    /remove <address|alias> - Remove address from watchlist   ║');
         console.log('║    /toggle <address|alias> - Enable/disable an address       ║');
         console.log('║    /alias <address> <name> - Set alias for address           ║');
+        console.log('║    /config <address|alias> - Show/set per-trader settings    ║');
         console.log('║    /list                   - Show this watchlist             ║');
         console.log('╚══════════════════════════════════════════════════════════════╝\n');
     }
@@ -0,0 +1,84 @@
+/**
+ * Tests for the record/replay fixture store
+ */
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+jest.mock('../../config/env', () => ({
+    ENV: { FIXTURE_MODE: 'off', FIXTURE_DIR: 'fixtures' },
+}));
+
+import { FixtureMissingError, FixtureStore } from '../fixtureStore';
+
+describe('FixtureStore', () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'fixtures-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should pass through to the live call when off', async () => {
+        const store = new FixtureStore('off', dir);
+        const live = jest.fn().mockResolvedValue({ ok: true });
+
+        await expect(store.withFixture('http', 'https://x/a', live)).resolves.toEqual({ ok: true });
+        expect(live).toHaveBeenCalledTimes(1);
+        expect(fs.readdirSync(dir)).toHaveLength(0);
+    });
+
+    it('should replay recorded responses in order without calling live', async () => {
+        const recorder = new FixtureStore('record', dir);
+        await recorder.withFixture('http', 'https://x/a', async () => [1]);
+        await recorder.withFixture('http', 'https://x/a', async () => [1, 2]);
+
+        const player = new FixtureStore('replay', dir);
+        const live = jest.fn();
+
+        await expect(player.withFixture('http', 'https://x/a', live)).resolves.toEqual([1]);
+        await expect(player.withFixture('http', 'https://x/a', live)).resolves.toEqual([1, 2]);
+        // Exhausted recordings keep returning the last response
+        await expect(player.withFixture('http', 'https://x/a', live)).resolves.toEqual([1, 2]);
+        expect(live).not.toHaveBeenCalled();
+    });
+
+    it('should append each recorded response as one line', async () => {
+        const recorder = new FixtureStore('record', dir);
+        for (let i = 0; i < 3; i++) {
+            await recorder.withFixture('clob', 'getOrder:["o1"]', async () => ({ i }));
+        }
+
+        const [file] = fs.readdirSync(path.join(dir, 'clob'));
+        const lines = fs
+            .readFileSync(path.join(dir, 'clob', file), 'utf8')
+            .trim()
+            .split('\n');
+        expect(lines.map((line) => JSON.parse(line))).toEqual([
+            { namespace: 'clob', key: 'getOrder:["o1"]' },
+            { i: 0 },
+            { i: 1 },
+            { i: 2 },
+        ]);
+    });
+
+    it('should replace an earlier recording of the same key on a new run', async () => {
+        await new FixtureStore('record', dir).withFixture('rpc', 'k', async () => 'old');
+        await new FixtureStore('record', dir).withFixture('rpc', 'k', async () => 'new');
+
+        const player = new FixtureStore('replay', dir);
+        expect(player.replay('rpc', 'k')).toBe('new');
+        expect(player.replay('rpc', 'k')).toBe('new');
+    });
+
+    it('should throw FixtureMissingError for unrecorded keys in replay', async () => {
+        const player = new FixtureStore('replay', dir);
+
+        await expect(player.withFixture('http', 'https://x/missing', jest.fn())).rejects.toThrow(
+            FixtureMissingError
+        );
+    });
+});
@@ -0,0 +1,156 @@
+/**
+ * Tests for resting limit order execution (pricing, partial fills, cancel and reprice)
+ */
+jest.mock('../../config/env', () => ({
+    ENV: {
+        LIMIT_ORDER_TYPE: 'GTC',
+        LIMIT_ORDER_PRICE_OFFSET: 0.01,
+        LIMIT_ORDER_TTL_SECONDS: 10,
+        LIMIT_ORDER_REPRICE_ATTEMPTS: 1,
+        LIMIT_ORDER_POLL_INTERVAL_MS: 1000,
+    },
+}));
+jest.mock('../logger', () => ({
+    __esModule: true,
+    default: { info: jest.fn(), warning: jest.fn(), error: jest.fn() },
+}));
+jest.mock('../../services/executionJournal', () => ({
+    recordOrderAttempt: jest.fn().mockResolvedValue(0),
+    recordOrderPlaced: jest.fn(),
+    recordOrderResult: jest.fn(),
+}));
+
+import { ClobClient, OrderType, Side } from '@polymarket/clob-client';
+import { LimitOrderExecutor, limitPriceFor, roundToTick } from '../limitOrderExecutor';
+
+const config = {
+    orderType: OrderType.GTC as OrderType.GTC,
+    priceOffset: 0.01,
+    ttlSeconds: 10,
+    repriceAttempts: 1,
+    pollIntervalMs: 5000,
+};
+
+/**
+ * Fake CLOB where each posted order fills `fills[n]` tokens by the time it is polled
+ */
+const fakeClob = (fills: number[]) => {
+    const posted: Array<{ price: number; size: number }> = [];
+    const cancelled: string[] = [];
+    const client = {
+        getOrderBook: jest.fn().mockResolvedValue({ tick_size: '0.01', min_order_size: '5' }),
+        createOrder: jest.fn(async (order) => order),
+        postOrder: jest.fn(async (order) => {
+            posted.push({ price: order.price, size: order.size });
+            return { success: true, orderID: `order-${posted.length}` };
+        }),
+        getOrder: jest.fn(async (orderId: string) => {
+            const n = parseInt(orderId.split('-')[1], 10) - 1;
+            return { status: 'LIVE', size_matched: String(fills[n] ?? 0) };
+        }),
+        cancelOrder: jest.fn(async ({ orderID }) => {
+            cancelled.push(orderID);
+            return { canceled: [orderID] };
+        }),
+    };
+    return { client: client as unknown as ClobClient, posted, cancelled };
+};
+
+describe('limit order pricing', () => {
+    it('should round bids down and asks up onto the tick grid', () => {
+        expect(roundToTick(0.537, 0.01, Side.BUY)).toBe(0.53);
+        expect(roundToTick(0.531, 0.01, Side.SELL)).toBe(0.54);
+        expect(roundToTick(1.2, 0.01, Side.BUY)).toBe(0.99);
+        expect(roundToTick(-0.1, 0.01, Side.SELL)).toBe(0.01);
+    });
+
+    it('should step one offset further from the trader price on each reprice', () => {
+        expect(limitPriceFor(Side.BUY, 0.5, 0.01, 0, 0.01)).toBe(0.51);
+        expect(limitPriceFor(Side.BUY, 0.5, 0.01, 1, 0.01)).toBe(0.52);
+        expect(limitPriceFor(Side.SELL, 0.5, 0.01, 1, 0.01)).toBe(0.48);
+    });
+
+    it('should never bid above the slippage cap', () => {
+        expect(limitPriceFor(Side.BUY, 0.5, 0.01, 3, 0.01, 0.52)).toBe(0.52);
+        expect(limitPriceFor(Side.BUY, 0.5, 0.01, 0, 0.01, 0.505)).toBe(0.5);
+    });
+});
+
+describe('LimitOrderExecutor', () => {
+    let now: number;
+    const executor = () =>
+        new LimitOrderExecutor(
+            config,
+            () => now,
+            async (ms) => {
+                now += ms;
+            }
+        );
+
+    beforeEach(() => {
+        now = 1_000_000;
+    });
+
+    it('should stop after a complete fill without cancelling', async () => {
+        const { client, posted, cancelled } = fakeClob([20]);
+        const result = await executor().execute(client, {
+            side: Side.SELL,
+            tokenID: 'token',
+            amount: 20,
+            referencePrice: 0.5,
+        });
+
+        expect(result.status).toBe('FILLED');
+        expect(result.filledTokens).toBe(20);
+        expect(posted).toEqual([{ price: 0.49, size: 20 }]);
+        expect(cancelled).toEqual([]);
+    });
+
+    it('should cancel on timeout and reprice the remaining budget', async () => {
+        const { client, posted, cancelled } = fakeClob([8, 11.76]);
+        const result = await executor().execute(client, {
+            side: Side.BUY,
+            tokenID: 'token',
+            amount: 10.2, // $10.20 at $0.51 = 20 tokens
+            referencePrice: 0.5,
+        });
+
+        expect(cancelled).toEqual(['order-1']);
+        expect(posted).toEqual([
+            { price: 0.51, size: 20 },
+            // $6.12 left at $0.52
+            { price: 0.52, size: 11.76 },
+        ]);
+        expect(result.status).toBe('FILLED');
+        expect(result.filledTokens).toBeCloseTo(19.76);
+        expect(result.filledUsd).toBeCloseTo(8 * 0.51 + 11.76 * 0.52);
+        expect(result.filledUsd).toBeLessThanOrEqual(10.2);
+    });
+
+    it('should report a partial fill when reprices run out', async () => {
+        const { client, cancelled } = fakeClob([5, 0]);
+        const result = await executor().execute(client, {
+            side: Side.SELL,
+            tokenID: 'token',
+            amount: 20,
+            referencePrice: 0.5,
+        });
+
+        expect(cancelled).toEqual(['order-1', 'order-2']);
+        expect(result.status).toBe('PARTIAL');
+        expect(result.filledTokens).toBe(5);
+    });
+
+    it('should skip orders below the market minimum size', async () => {
+        const { client, posted } = fakeClob([]);
+        const result = await executor().execute(client, {
+            side: Side.SELL,
+            tokenID: 'token',
+            amount: 3,
+            referencePrice: 0.5,
+        });
+
+        expect(posted).toEqual([]);
+        expect(result.status).toBe('UNFILLED');
+    });
+});
@@ -0,0 +1,110 @@
+/**
+ * Tests for structured log files: JSON lines, level filtering, context and rotation
+ */
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+jest.mock('../../config/env', () => ({
+    ENV: {
+        LOG_FORMAT: 'json',
+        LOG_LEVEL: 'info',
+        LOG_DIR: '',
+        LOG_ROTATION: 'daily',
+        LOG_MAX_FILE_MB: 0,
+        LOG_RETENTION_DAYS: 0,
+    },
+}));
+
+// chalk is ESM-only; every style is the identity here
+jest.mock('chalk', () => {
+    const style: unknown = new Proxy((text: string) => text, { get: () => style });
+    return { __esModule: true, default: style };
+});
+
+import { ENV } from '../../config/env';
+import Logger, { getCorrelationId } from '../logger';
+
+const readLines = (dir: string): string[] =>
+    fs
+        .readdirSync(dir)
+        .sort()
+        .flatMap((file) => fs.readFileSync(path.join(dir, file), 'utf8').trim().split('\n'));
+
+describe('Logger files', () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'logs-'));
+        Object.assign(ENV, {
+            LOG_DIR: dir,
+            LOG_FORMAT: 'json',
+            LOG_LEVEL: 'info',
+            LOG_MAX_FILE_MB: 0,
+        });
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should write JSON lines with the context of the async call chain', async () => {
+        await Logger.withContext({ component: 'tradeExecutor', correlationId: 'abc' }, async () => {
+            await Promise.resolve();
+            await Logger.withContext({ component: 'postOrder' }, async () =>
+                Logger.info('Bought', { price: 0.5 })
+            );
+        });
+        Logger.info('Idle');
+
+        const [bought, idle] = readLines(dir).map((line) => JSON.parse(line));
+        expect(bought).toMatchObject({
+            level: 'info',
+            component: 'postOrder',
+            correlationId: 'abc',
+            msg: 'Bought',
+            price: 0.5,
+        });
+        expect(bought.runId).toEqual(expect.any(String));
+        expect(idle.correlationId).toBeUndefined();
+    });
+
+    it('should drop lines below LOG_LEVEL', () => {
+        ENV.LOG_LEVEL = 'warn';
+        Logger.debug('debug');
+        Logger.info('info');
+        Logger.warning('warning');
+
+        expect(readLines(dir).map((line) => JSON.parse(line).msg)).toEqual(['warning']);
+        expect(console.log).toHaveBeenCalledTimes(1);
+    });
+
+    it('should roll over to a new part at LOG_MAX_FILE_MB', () => {
+        ENV.LOG_MAX_FILE_MB = 200 / (1024 * 1024);
+        for (let i = 0; i < 3; i++) {
+            Logger.info('x'.repeat(100));
+        }
+
+        const suffixes = fs.readdirSync(dir).map((file) => file.replace(/^bot-[\d-]+/, ''));
+        expect(suffixes.sort()).toEqual(['.1.jsonl', '.2.jsonl', '.jsonl']);
+    });
+
+    it('should tag text lines with the correlation ID', () => {
+        ENV.LOG_FORMAT = 'text';
+        Logger.withContext({ correlationId: 'abc' }, () => Logger.error('Order failed'));
+
+        expect(readLines(dir)[0]).toMatch(/^\[.+\] \[abc\] ERROR: Order failed$/);
+    });
+});
+
+describe('getCorrelationId', () => {
+    it('should be stable per leader trade and differ per outcome', () => {
+        const trade = { transactionHash: '0xabc', asset: '1' };
+
+        expect(getCorrelationId(trade)).toBe(getCorrelationId({ ...trade }));
+        expect(getCorrelationId(trade)).not.toBe(getCorrelationId({ ...trade, asset: '2' }));
+        expect(getCorrelationId(trade)).toHaveLength(12);
+    });
+});
@@ -0,0 +1,53 @@
+/**
+ * Tests for neg-risk market detection and adapter redemption amounts
+ */
+import { BigNumber } from 'ethers';
+import { ClobClient } from '@polymarket/clob-client';
+import {
+    getExchangeAddress,
+    getNegRiskRedeemAmounts,
+    isNegRiskToken,
+    POLYMARKET_CONTRACTS,
+} from '../negRisk';
+
+describe('isNegRiskToken', () => {
+    const getNegRisk = jest.fn().mockResolvedValue(true);
+    const clobClient = { getNegRisk } as unknown as ClobClient;
+
+    beforeEach(() => getNegRisk.mockClear());
+
+    it('should use a known flag without asking the CLOB', async () => {
+        await expect(isNegRiskToken(clobClient, 'token', false)).resolves.toBe(false);
+        expect(getNegRisk).not.toHaveBeenCalled();
+    });
+
+    it('should ask the CLOB when the flag is unknown', async () => {
+        await expect(isNegRiskToken(clobClient, 'token')).resolves.toBe(true);
+        expect(getNegRisk).toHaveBeenCalledWith('token');
+    });
+});
+
+describe('getExchangeAddress', () => {
+    it('should sign neg-risk orders against the neg-risk exchange', () => {
+        expect(getExchangeAddress(true)).toBe(POLYMARKET_CONTRACTS.negRiskExchange);
+        expect(getExchangeAddress(false)).toBe(POLYMARKET_CONTRACTS.exchange);
+    });
+});
+
+describe('getNegRiskRedeemAmounts', () => {
+    it('should sum balances into [YES, NO] amounts', () => {
+        const amounts = getNegRiskRedeemAmounts([
+            { outcomeIndex: 1, balance: BigNumber.from(5) },
+            { outcomeIndex: 0, balance: BigNumber.from(2) },
+            { outcomeIndex: 1, balance: BigNumber.from(3) },
+        ]);
+
+        expect(amounts.map((a) => a.toNumber())).toEqual([2, 8]);
+    });
+
+    it('should redeem zero of an outcome the wallet does not hold', () => {
+        const amounts = getNegRiskRedeemAmounts([{ outcomeIndex: 0, balance: BigNumber.from(7) }]);
+
+        expect(amounts.map((a) => a.toNumber())).toEqual([7, 0]);
+    });
+});
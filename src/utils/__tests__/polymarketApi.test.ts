@@ -0,0 +1,75 @@
+/**
+ * Tests for the typed Polymarket API client (URL building and pagination)
+ */
+
+jest.mock('../../config/env', () => ({
+    ENV: {
+        DATA_API_URL: 'https://data-api.example.com',
+        GAMMA_API_URL: 'https://gamma-api.example.com',
+        CLOB_HTTP_URL: 'https://clob.example.com/',
+    },
+}));
+jest.mock('../fetchData', () => jest.fn());
+
+import fetchData from '../fetchData';
+import { PolymarketApi } from '../polymarketApi';
+
+const mockFetchData = fetchData as jest.MockedFunction<typeof fetchData>;
+
+describe('PolymarketApi', () => {
+    beforeEach(() => {
+        mockFetchData.mockReset();
+    });
+
+    it('should build activity URLs from ENV base URL and skip undefined params', async () => {
+        mockFetchData.mockResolvedValue([]);
+        const api = new PolymarketApi();
+
+        await api.getActivity({ user: '0xabc', type: 'TRADE', limit: 50, market: undefined });
+
+        expect(mockFetchData).toHaveBeenCalledWith(
+            'https://data-api.example.com/activity?user=0xabc&type=TRADE&limit=50'
+        );
+    });
+
+    it('should use overridden base URLs and strip trailing slashes', async () => {
+        mockFetchData.mockResolvedValue({ bids: [], asks: [] });
+        const api = new PolymarketApi({ clob: 'http://localhost:4000/' });
+
+        await api.getOrderBook('123');
+
+        expect(mockFetchData).toHaveBeenCalledWith('http://localhost:4000/book?token_id=123');
+    });
+
+    it('should return an empty array when the API responds with an error object', async () => {
+        mockFetchData.mockResolvedValue({ error: 'invalid user' });
+        const api = new PolymarketApi();
+
+        await expect(api.getPositions({ user: 'bad' })).resolves.toEqual([]);
+    });
+
+    it('should follow offset pagination until a short page', async () => {
+        mockFetchData
+            .mockResolvedValueOnce([{ asset: 'a' }, { asset: 'b' }])
+            .mockResolvedValueOnce([{ asset: 'c' }]);
+        const api = new PolymarketApi();
+
+        const positions = await api.getAllPositions({ user: '0xabc' }, { pageSize: 2 });
+
+        expect(positions.map((p) => p.asset)).toEqual(['a', 'b', 'c']);
+        expect(mockFetchData).toHaveBeenCalledTimes(2);
+        expect(mockFetchData).toHaveBeenLastCalledWith(
+            'https://data-api.example.com/positions?user=0xabc&limit=2&offset=2'
+        );
+    });
+
+    it('should stop at maxPages', async () => {
+        mockFetchData.mockResolvedValue([{ asset: 'a' }]);
+        const api = new PolymarketApi();
+
+        const activity = await api.getAllActivity({ user: '0xabc' }, { pageSize: 1, maxPages: 3 });
+
+        expect(activity).toHaveLength(3);
+        expect(mockFetchData).toHaveBeenCalledTimes(3);
+    });
+});
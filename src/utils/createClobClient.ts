@@ -2,21 +2,63 @@ import { ethers } from 'ethers';
 import { ClobClient } from '@polymarket/clob-client';
 import { SignatureType } from '@polymarket/order-utils';
 import { ENV } from '../config/env';
+import fixtureStore from './fixtureStore';
 import Logger from './logger';
+import { POLYMARKET_CONTRACTS, TRADING_SPENDERS } from './negRisk';
 
 const PROXY_WALLET = ENV.PROXY_WALLET;
 const PRIVATE_KEY = ENV.PRIVATE_KEY;
 const CLOB_HTTP_URL = ENV.CLOB_HTTP_URL;
 const RPC_URL = ENV.RPC_URL;
 
+// Network-bound ClobClient methods that are captured/served by the fixture store
+const RECORDED_METHODS = new Set([
+    'getOrderBook',
+    'getTickSize',
+    'getNegRisk',
+    'createOrder',
+    'createMarketOrder',
+    'postOrder',
+    'cancelOrder',
+    'getOrder',
+    'getTrades',
+    'getOpenOrders',
+    'getBalanceAllowance',
+    'updateBalanceAllowance',
+]);
+
+/**
+ * Route ClobClient network calls through the fixture store (FIXTURE_MODE=record|replay)
+ * Calls are keyed by method name + arguments. Replayed createMarketOrder returns the recorded
+ * signed order, so the postOrder that follows hits the same recorded key.
+ */
+const withClobFixtures = (clobClient: ClobClient): ClobClient =>
+    new Proxy(clobClient, {
+        get(target, prop, receiver) {
+            const value = Reflect.get(target, prop, receiver);
+            if (
+                typeof prop !== 'string' ||
+                typeof value !== 'function' ||
+                !RECORDED_METHODS.has(prop)
+            ) {
+                return value;
+            }
+            return (...args: unknown[]) =>
+                fixtureStore.withFixture('clob', `${prop}:${JSON.stringify(args)}`, () =>
+                    value.apply(target, args)
+                );
+        },
+    });
+
 /**
  * Determines if a wallet is a Gnosis Safe by checking if it has contract code
  */
 const isGnosisSafe = async (address: string): Promise<boolean> => {
     try {
         // Using ethers v5 syntax
-        const provider = new ethers.providers.JsonRpcProvider(RPC_URL);
-        const code = await provider.getCode(address);
+        const code = await fixtureStore.withFixture('rpc', `getCode:${address.toLowerCase()}`, () =>
+            new ethers.providers.JsonRpcProvider(RPC_URL).getCode(address)
+        );
         // If code is not "0x", then it's a contract (likely Gnosis Safe)
         return code !== '0x';
     } catch (error) {
@@ -25,6 +67,34 @@ const isGnosisSafe = async (address: string): Promise<boolean> => {
     }
 };
 
+/**
+ * Warn when the proxy wallet hasn't approved every exchange for its outcome tokens
+ * Without the neg-risk approvals, sells on multi-outcome markets are rejected by the CLOB.
+ */
+const warnMissingApprovals = async (): Promise<void> => {
+    try {
+        const ctf = new ethers.Contract(
+            POLYMARKET_CONTRACTS.conditionalTokens,
+            ['function isApprovedForAll(address account, address operator) view returns (bool)'],
+            new ethers.providers.JsonRpcProvider(RPC_URL)
+        );
+        for (const spender of TRADING_SPENDERS) {
+            const approved = await fixtureStore.withFixture(
+                'rpc',
+                `isApprovedForAll:${PROXY_WALLET.toLowerCase()}:${spender.address.toLowerCase()}`,
+                () => ctf.isApprovedForAll(PROXY_WALLET, spender.address) as Promise<boolean>
+            );
+            if (!approved) {
+                Logger.warning(
+                    `Outcome tokens are not approved for the ${spender.name} - run npm run set-token-allowance`
+                );
+            }
+        }
+    } catch (error) {
+        Logger.error(`Error checking token approvals: ${error}`);
+    }
+};
+
 const createClobClient = async (): Promise<ClobClient> => {
     const chainId = 137;
     const host = CLOB_HTTP_URL as string;
@@ -47,6 +117,14 @@ const createClobClient = async (): Promise<ClobClient> => {
         isProxySafe ? (PROXY_WALLET as string) : undefined
     );
 
+    // Replayed calls never reach the CLOB, so no API key is needed (and none is stored)
+    if (fixtureStore.getMode() === 'replay') {
+        Logger.info(`Replaying CLOB responses from ${ENV.FIXTURE_DIR}`);
+        return withClobFixtures(clobClient);
+    }
+
+    await warnMissingApprovals();
+
     // Suppress console output during API key creation
     const originalConsoleLog = console.log;
     const originalConsoleError = console.error;
@@ -71,7 +149,7 @@ const createClobClient = async (): Promise<ClobClient> => {
     console.log = originalConsoleLog;
     console.error = originalConsoleError;
 
-    return clobClient;
+    return fixtureStore.getMode() === 'record' ? withClobFixtures(clobClient) : clobClient;
 };
 
 export default createClobClient;
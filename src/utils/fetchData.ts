@@ -1,5 +1,8 @@
 import axios, { AxiosError } from 'axios';
 import { ENV } from '../config/env';
+import fixtureStore from './fixtureStore';
+import hostRateLimiter from './rateLimiter';
+import { metrics } from '../services/metrics';
 
 const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
 
@@ -19,13 +22,14 @@ const isNetworkError = (error: unknown): boolean => {
     return false;
 };
 
-const fetchData = async (url: string) => {
+const fetchLive = async (url: string) => {
     const retries = ENV.NETWORK_RETRY_LIMIT;
     const timeout = ENV.REQUEST_TIMEOUT_MS;
     const retryDelay = 1000; // 1 second base delay
 
     for (let attempt = 1; attempt <= retries; attempt++) {
         try {
+            await hostRateLimiter.acquire(url);
             const response = await axios.get(url, {
                 timeout,
                 headers: {
@@ -54,9 +58,14 @@ const fetchData = async (url: string) => {
                     axios.isAxiosError(error) ? error.code : 'Unknown error'
                 );
             }
+            metrics.apiErrors.inc({ host: new URL(url).host });
             throw error;
         }
     }
 };
 
+// Responses are recorded/replayed by URL when FIXTURE_MODE is set
+const fetchData = async (url: string) =>
+    fixtureStore.withFixture('http', url, () => fetchLive(url));
+
 export default fetchData;
@@ -0,0 +1,124 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ENV } from '../config/env';
+
+/**
+ * Record/replay layer for external calls (HTTP, CLOB client, Polygon RPC)
+ *
+ * FIXTURE_MODE=record  - calls go to the network and every response is appended to FIXTURE_DIR
+ * FIXTURE_MODE=replay  - calls never leave the process; responses are served from FIXTURE_DIR
+ * FIXTURE_MODE=off     - (default) pass-through
+ *
+ * A fixture is keyed by namespace + request key (e.g. 'http' + URL). Repeated calls with the
+ * same key are recorded in order and replayed in the same order; once the recording is
+ * exhausted the last response keeps being returned, so polling loops stay deterministic.
+ * Each key is a JSON-lines file: a { namespace, key } header, then one response per line.
+ */
+
+export type FixtureMode = 'off' | 'record' | 'replay';
+
+export class FixtureMissingError extends Error {
+    constructor(namespace: string, key: string) {
+        super(`No recorded fixture for ${namespace}: ${key} (run once with FIXTURE_MODE=record)`);
+        this.name = 'FixtureMissingError';
+    }
+}
+
+interface FixtureFile {
+    namespace: string;
+    key: string;
+    responses: unknown[];
+}
+
+const parseFixtureFile = (content: string): FixtureFile => {
+    const [header, ...lines] = content.split('\n').filter((line) => line.trim());
+    const responses: unknown[] = [];
+    for (const line of lines) {
+        try {
+            responses.push(JSON.parse(line));
+        } catch {
+            // Torn write from a recording that was killed - everything before it is intact
+        }
+    }
+    return { ...(JSON.parse(header) as Omit<FixtureFile, 'responses'>), responses };
+};
+
+export class FixtureStore {
+    private dir: string;
+    private mode: FixtureMode;
+    private files = new Map<string, FixtureFile>();
+    private cursors = new Map<string, number>();
+    // Fixture files this process has started recording (later responses are appended)
+    private recording = new Set<string>();
+
+    constructor(mode: FixtureMode, dir: string) {
+        this.mode = mode;
+        this.dir = dir;
+    }
+
+    getMode(): FixtureMode {
+        return this.mode;
+    }
+
+    /**
+     * Run a live call, or record/replay it depending on FIXTURE_MODE
+     */
+    async withFixture<T>(namespace: string, key: string, live: () => Promise<T>): Promise<T> {
+        if (this.mode === 'replay') {
+            return this.replay<T>(namespace, key);
+        }
+        const result = await live();
+        if (this.mode === 'record') {
+            this.record(namespace, key, result);
+        }
+        return result;
+    }
+
+    /**
+     * Append a response to the fixture for this key
+     * The first write in a process replaces any earlier recording of the same key.
+     */
+    record(namespace: string, key: string, response: unknown): void {
+        const filePath = this.filePath(namespace, key);
+        const line = JSON.stringify(response === undefined ? null : response) + '\n';
+        if (this.recording.has(filePath)) {
+            fs.appendFileSync(filePath, line);
+            return;
+        }
+
+        this.recording.add(filePath);
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        fs.writeFileSync(filePath, JSON.stringify({ namespace, key }) + '\n' + line);
+    }
+
+    /**
+     * Next recorded response for this key
+     */
+    replay<T>(namespace: string, key: string): T {
+        const filePath = this.filePath(namespace, key);
+        let file = this.files.get(filePath);
+        if (!file) {
+            if (!fs.existsSync(filePath)) {
+                throw new FixtureMissingError(namespace, key);
+            }
+            file = parseFixtureFile(fs.readFileSync(filePath, 'utf8'));
+            this.files.set(filePath, file);
+        }
+        if (file.responses.length === 0) {
+            throw new FixtureMissingError(namespace, key);
+        }
+
+        const cursor = this.cursors.get(filePath) ?? 0;
+        this.cursors.set(filePath, cursor + 1);
+        return file.responses[Math.min(cursor, file.responses.length - 1)] as T;
+    }
+
+    private filePath(namespace: string, key: string): string {
+        const hash = crypto.createHash('sha1').update(key).digest('hex').slice(0, 16);
+        return path.join(this.dir, namespace, `${hash}.jsonl`);
+    }
+}
+
+const fixtureStore = new FixtureStore(ENV.FIXTURE_MODE, ENV.FIXTURE_DIR);
+export default fixtureStore;
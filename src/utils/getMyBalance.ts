@@ -1,17 +1,19 @@
 import { ethers } from 'ethers';
 import { ENV } from '../config/env';
+import fixtureStore from './fixtureStore';
 
 const RPC_URL = ENV.RPC_URL;
 const USDC_CONTRACT_ADDRESS = ENV.USDC_CONTRACT_ADDRESS;
 
 const USDC_ABI = ['function balanceOf(address owner) view returns (uint256)'];
 
-const getMyBalance = async (address: string): Promise<number> => {
-    const rpcProvider = new ethers.providers.JsonRpcProvider(RPC_URL);
-    const usdcContract = new ethers.Contract(USDC_CONTRACT_ADDRESS, USDC_ABI, rpcProvider);
-    const balance_usdc = await usdcContract.balanceOf(address);
-    const balance_usdc_real = ethers.utils.formatUnits(balance_usdc, 6);
-    return parseFloat(balance_usdc_real);
-};
+const getMyBalance = async (address: string): Promise<number> =>
+    fixtureStore.withFixture('rpc', `usdc.balanceOf:${address.toLowerCase()}`, async () => {
+        const rpcProvider = new ethers.providers.JsonRpcProvider(RPC_URL);
+        const usdcContract = new ethers.Contract(USDC_CONTRACT_ADDRESS, USDC_ABI, rpcProvider);
+        const balance_usdc = await usdcContract.balanceOf(address);
+        const balance_usdc_real = ethers.utils.formatUnits(balance_usdc, 6);
+        return parseFloat(balance_usdc_real);
+    });
 
 export default getMyBalance;
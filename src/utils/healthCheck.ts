@@ -1,7 +1,8 @@
+import * as fs from 'fs';
 import mongoose from 'mongoose';
 import { ENV } from '../config/env';
 import getMyBalance from './getMyBalance';
-import fetchData from './fetchData';
+import polymarketApi from './polymarketApi';
 import Logger from './logger';
 
 export interface HealthCheckResult {
@@ -26,9 +27,12 @@ export const performHealthCheck = async (): Promise<HealthCheckResult> => {
         polymarketApi: { status: 'error', message: 'Not checked' },
     };
 
-    // Check MongoDB connection
+    // Check MongoDB connection (or the storage directory with the file backend)
     try {
-        if (mongoose.connection.readyState === 1) {
+        if (ENV.STORAGE_BACKEND === 'file') {
+            fs.accessSync(ENV.STORAGE_DIR, fs.constants.W_OK);
+            checks.database = { status: 'ok', message: `File storage (${ENV.STORAGE_DIR})` };
+        } else if (mongoose.connection.readyState === 1) {
             // Ping the database
             if (mongoose.connection.db) {
                 await mongoose.connection.db.admin().ping();
@@ -49,35 +53,39 @@ export const performHealthCheck = async (): Promise<HealthCheckResult> => {
         };
     }
 
-    // Check RPC endpoint
-    try {
-        const response = await fetch(ENV.RPC_URL, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-                jsonrpc: '2.0',
-                method: 'eth_blockNumber',
-                params: [],
-                id: 1,
-            }),
-            signal: AbortSignal.timeout(5000), // 5 second timeout
-        });
+    // Check RPC endpoint (skip when replaying fixtures - there is no network)
+    if (ENV.FIXTURE_MODE === 'replay') {
+        checks.rpc = { status: 'ok', message: 'Skipped (replaying fixtures)' };
+    } else {
+        try {
+            const response = await fetch(ENV.RPC_URL, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    jsonrpc: '2.0',
+                    method: 'eth_blockNumber',
+                    params: [],
+                    id: 1,
+                }),
+                signal: AbortSignal.timeout(5000), // 5 second timeout
+            });
 
-        if (response.ok) {
-            const data = await response.json();
-            if (data.result) {
-                checks.rpc = { status: 'ok', message: 'RPC endpoint responding' };
+            if (response.ok) {
+                const data = await response.json();
+                if (data.result) {
+                    checks.rpc = { status: 'ok', message: 'RPC endpoint responding' };
+                } else {
+                    checks.rpc = { status: 'error', message: 'Invalid RPC response' };
+                }
             } else {
-                checks.rpc = { status: 'error', message: 'Invalid RPC response' };
+                checks.rpc = { status: 'error', message: `HTTP ${response.status}` };
             }
-        } else {
-            checks.rpc = { status: 'error', message: `HTTP ${response.status}` };
+        } catch (error) {
+            checks.rpc = {
+                status: 'error',
+                message: `RPC check failed: ${error instanceof Error ? error.message : String(error)}`,
+            };
         }
-    } catch (error) {
-        checks.rpc = {
-            status: 'error',
-            message: `RPC check failed: ${error instanceof Error ? error.message : String(error)}`,
-        };
     }
 
     // Check USDC balance (skip in track-only mode)
@@ -116,9 +124,7 @@ export const performHealthCheck = async (): Promise<HealthCheckResult> => {
 
     // Check Polymarket API
     try {
-        const testUrl =
-            'https://data-api.polymarket.com/positions?user=0x0000000000000000000000000000000000000000';
-        await fetchData(testUrl);
+        await polymarketApi.getPositions({ user: '0x0000000000000000000000000000000000000000' });
         checks.polymarketApi = { status: 'ok', message: 'API responding' };
     } catch (error) {
         checks.polymarketApi = {
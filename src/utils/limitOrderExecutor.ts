@@ -0,0 +1,238 @@
+import { ClobClient, OrderType, Side } from '@polymarket/clob-client';
+import { ENV } from '../config/env';
+import {
+    recordOrderAttempt,
+    recordOrderPlaced,
+    recordOrderResult,
+} from '../services/executionJournal';
+import Logger from './logger';
+
+export interface LimitOrderConfig {
+    orderType: OrderType.GTC | OrderType.GTD;
+    // How far past the trader's fill price we are willing to rest (and to step on each reprice)
+    priceOffset: number;
+    ttlSeconds: number;
+    repriceAttempts: number;
+    pollIntervalMs: number;
+}
+
+export interface LimitOrderRequest {
+    side: Side;
+    tokenID: string;
+    // USD for BUY, tokens for SELL (same as market orders)
+    amount: number;
+    // The trader's fill price
+    referencePrice: number;
+    // Highest price a BUY may rest at (the slippage limit), whatever the reprice step
+    maxPrice?: number;
+}
+
+export interface LimitOrderResult {
+    status: 'FILLED' | 'PARTIAL' | 'UNFILLED' | 'REJECTED';
+    filledTokens: number;
+    filledUsd: number;
+    ordersPlaced: number;
+    // Raw CLOB response when an order was rejected
+    rejection?: unknown;
+}
+
+// GTD expirations must be at least a minute out (CLOB security threshold)
+const GTD_MIN_LIFETIME_SECONDS = 60;
+const FILL_EPSILON = 1e-6;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Round a limit price onto the market's tick grid without crossing our limit
+ * (down for bids, up for asks), keeping it strictly inside (0, 1).
+ */
+export const roundToTick = (price: number, tickSize: number, side: Side): number => {
+    const ticks = price / tickSize;
+    const rounded =
+        side === Side.BUY ? Math.floor(ticks + FILL_EPSILON) : Math.ceil(ticks - FILL_EPSILON);
+    const clamped = Math.min(Math.max(rounded, 1), Math.round(1 / tickSize) - 1);
+    return parseFloat((clamped * tickSize).toFixed(6));
+};
+
+/**
+ * Limit price for a given attempt: the trader's price plus one offset step per attempt
+ * (BUY pays up, SELL gives down), with BUYs capped at `maxPrice`
+ */
+export const limitPriceFor = (
+    side: Side,
+    referencePrice: number,
+    priceOffset: number,
+    attempt: number,
+    tickSize: number,
+    maxPrice: number = Infinity
+): number => {
+    const step = priceOffset * (attempt + 1);
+    const raw =
+        side === Side.BUY ? Math.min(referencePrice + step, maxPrice) : referencePrice - step;
+    return roundToTick(raw, tickSize, side);
+};
+
+/**
+ * Places resting GTC/GTD copy orders near the trader's price, waits for fills up to the TTL,
+ * then cancels and reprices the remainder (or gives up after the last attempt)
+ */
+export class LimitOrderExecutor {
+    constructor(
+        private readonly config: LimitOrderConfig,
+        private readonly now: () => number = Date.now,
+        private readonly wait: (ms: number) => Promise<unknown> = sleep
+    ) {}
+
+    async execute(
+        clobClient: ClobClient,
+        request: LimitOrderRequest,
+        intentId?: string
+    ): Promise<LimitOrderResult> {
+        const { side, tokenID } = request;
+        const book = await clobClient.getOrderBook(tokenID);
+        const tickSize = parseFloat(book.tick_size) || 0.01;
+        const minSize = parseFloat(book.min_order_size) || 1;
+        // Neg-risk tokens must be signed against the neg-risk exchange
+        const negRisk = book.neg_risk === true;
+
+        const result: LimitOrderResult = {
+            status: 'UNFILLED',
+            filledTokens: 0,
+            filledUsd: 0,
+            ordersPlaced: 0,
+        };
+        let complete = false;
+
+        for (let attempt = 0; attempt <= this.config.repriceAttempts; attempt++) {
+            const price = limitPriceFor(
+                side,
+                request.referencePrice,
+                this.config.priceOffset,
+                attempt,
+                tickSize,
+                request.maxPrice
+            );
+            // BUY amounts are in USD: size what is left of the budget at this attempt's price,
+            // so a reprice never spends more than the sized amount
+            const remaining =
+                side === Side.SELL
+                    ? request.amount - result.filledTokens
+                    : (request.amount - result.filledUsd) / price;
+            const size = Math.floor(remaining * 100) / 100;
+            if (size < minSize) {
+                if (attempt === 0) {
+                    Logger.warning(
+                        `Limit order size ${size.toFixed(2)} below market minimum (${minSize}) - skipping`
+                    );
+                }
+                break;
+            }
+
+            const index = intentId
+                ? await recordOrderAttempt(intentId, { side, tokenID, amount: size, price })
+                : -1;
+            const expiration =
+                this.config.orderType === OrderType.GTD
+                    ? Math.floor(this.now() / 1000) +
+                      GTD_MIN_LIFETIME_SECONDS +
+                      this.config.ttlSeconds
+                    : undefined;
+            const signedOrder = await clobClient.createOrder(
+                {
+                    side,
+                    tokenID,
+                    price,
+                    size,
+                    expiration,
+                },
+                { negRisk }
+            );
+            const resp = await clobClient.postOrder(signedOrder, this.config.orderType);
+            if (!resp || resp.success !== true || !resp.orderID) {
+                if (intentId) {
+                    await recordOrderResult(intentId, index, {
+                        success: false,
+                        error: resp?.errorMsg || resp?.error,
+                    });
+                }
+                result.rejection = resp;
+                result.status = result.filledTokens > 0 ? 'PARTIAL' : 'REJECTED';
+                return result;
+            }
+
+            result.ordersPlaced += 1;
+            const orderId: string = resp.orderID;
+            if (intentId) {
+                await recordOrderPlaced(intentId, index, orderId);
+            }
+            Logger.info(
+                `Resting ${side} ${this.config.orderType} order: ${size.toFixed(2)} tokens @ $${price} (TTL ${this.config.ttlSeconds}s)`
+            );
+
+            const matched = await this.waitForFill(clobClient, orderId, size);
+            if (intentId) {
+                await recordOrderResult(intentId, index, {
+                    success: matched > 0,
+                    orderId,
+                    filledTokens: matched,
+                });
+            }
+            result.filledTokens += matched;
+            result.filledUsd += matched * price;
+
+            if (size - matched < FILL_EPSILON) {
+                complete = true;
+                break;
+            }
+            if (attempt < this.config.repriceAttempts) {
+                Logger.warning(
+                    `Filled ${matched.toFixed(2)}/${size.toFixed(2)} tokens before timeout - repricing remainder`
+                );
+            }
+        }
+
+        if (result.filledTokens > 0) {
+            result.status = complete ? 'FILLED' : 'PARTIAL';
+        }
+        return result;
+    }
+
+    /**
+     * Poll a resting order until it fills or its TTL expires, then cancel what is left.
+     * Returns the matched size, re-read after the cancel so a racing fill is not lost.
+     */
+    private async waitForFill(
+        clobClient: ClobClient,
+        orderId: string,
+        size: number
+    ): Promise<number> {
+        const deadline = this.now() + this.config.ttlSeconds * 1000;
+        let matched = 0;
+        while (this.now() < deadline) {
+            await this.wait(Math.min(this.config.pollIntervalMs, deadline - this.now()));
+            const order = await clobClient.getOrder(orderId);
+            matched = parseFloat(order?.size_matched || '0') || 0;
+            // Also stop if the order was cancelled elsewhere (or a GTD order expired)
+            const cancelled = String(order?.status || '')
+                .toUpperCase()
+                .includes('CANCEL');
+            if (size - matched < FILL_EPSILON || cancelled) {
+                return matched;
+            }
+        }
+
+        await clobClient.cancelOrder({ orderID: orderId });
+        const order = await clobClient.getOrder(orderId);
+        return parseFloat(order?.size_matched || '0') || matched;
+    }
+}
+
+export const limitOrderExecutor = new LimitOrderExecutor({
+    orderType: ENV.LIMIT_ORDER_TYPE === 'GTD' ? OrderType.GTD : OrderType.GTC,
+    priceOffset: ENV.LIMIT_ORDER_PRICE_OFFSET,
+    ttlSeconds: ENV.LIMIT_ORDER_TTL_SECONDS,
+    repriceAttempts: ENV.LIMIT_ORDER_REPRICE_ATTEMPTS,
+    pollIntervalMs: ENV.LIMIT_ORDER_POLL_INTERVAL_MS,
+});
+
+export default limitOrderExecutor;
@@ -1,29 +1,169 @@
+/**
+ * Logger
+ * Console output for humans, plus a log file per day (or hour) in LOG_DIR:
+ * - LOG_FORMAT=text writes ANSI-stripped lines, LOG_FORMAT=json one JSON object per line with
+ *   level, runId, component, trader address, correlation ID and any structured fields
+ * - LOG_LEVEL (debug | info | warn | error) filters both the console and the file
+ * - Files roll over every LOG_ROTATION period and at LOG_MAX_FILE_MB, and files older than
+ *   LOG_RETENTION_DAYS are deleted
+ *
+ * Context set with Logger.withContext follows the async call chain, so every line logged while
+ * copying one leader trade - tradeMonitor, tradeExecutor, postOrder - carries its correlation ID.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
 import chalk from 'chalk';
+import { createHash } from 'crypto';
 import * as fs from 'fs';
 import * as path from 'path';
+import { ENV } from '../config/env';
+import { getRunId } from './runId';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export interface LogContext {
+    component?: string;
+    traderAddress?: string;
+    correlationId?: string;
+}
+
+export type LogFields = Record<string, unknown>;
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+const LOG_FILE_PATTERN = /^bot-.*\.(log|jsonl)$/;
+
+/**
+ * Correlation ID of one leader trade
+ * Derived from the trade itself, so the monitor, the executor and a restarted bot agree on it.
+ */
+export const getCorrelationId = (trade: { transactionHash: string; asset?: string }): string =>
+    createHash('sha1')
+        .update(`${trade.transactionHash}:${trade.asset ?? ''}`)
+        .digest('hex')
+        .slice(0, 12);
 
 class Logger {
-    private static logsDir = path.join(process.cwd(), 'logs');
+    private static contextStore = new AsyncLocalStorage<LogContext>();
     private static currentLogFile = '';
+    private static currentBaseFile = '';
+    private static currentPeriod = '';
+    private static currentPart = 0;
+    private static currentSize = 0;
+
+    /**
+     * Run fn with context added to every line it logs, including from awaited calls
+     */
+    static withContext<T>(context: LogContext, fn: () => T): T {
+        return this.contextStore.run({ ...this.contextStore.getStore(), ...context }, fn);
+    }
+
+    static getContext(): LogContext {
+        return this.contextStore.getStore() ?? {};
+    }
+
+    static isLevelEnabled(level: LogLevel): boolean {
+        return LEVEL_ORDER[level] >= (LEVEL_ORDER[ENV.LOG_LEVEL] ?? LEVEL_ORDER.info);
+    }
+
+    private static getLogPeriod(now: Date): string {
+        const iso = now.toISOString();
+        // YYYY-MM-DD, or YYYY-MM-DD-HH for hourly rotation
+        return ENV.LOG_ROTATION === 'hourly'
+            ? `${iso.slice(0, 10)}-${iso.slice(11, 13)}`
+            : iso.slice(0, 10);
+    }
 
-    private static getLogFileName(): string {
-        const date = new Date().toISOString().split('T')[0]; // YYYY-MM-DD
-        return path.join(this.logsDir, `bot-${date}.log`);
+    private static getLogFileName(period: string, part: number): string {
+        const extension = ENV.LOG_FORMAT === 'json' ? 'jsonl' : 'log';
+        const suffix = part > 0 ? `.${part}` : '';
+        return path.join(ENV.LOG_DIR, `bot-${period}${suffix}.${extension}`);
     }
 
     private static ensureLogsDir(): void {
-        if (!fs.existsSync(this.logsDir)) {
-            fs.mkdirSync(this.logsDir, { recursive: true });
+        if (!fs.existsSync(ENV.LOG_DIR)) {
+            fs.mkdirSync(ENV.LOG_DIR, { recursive: true });
+        }
+    }
+
+    /**
+     * File for the next entry: a new one each period, and a new part once LOG_MAX_FILE_MB is reached
+     */
+    private static getLogFile(now: Date, entryBytes: number): string {
+        const period = this.getLogPeriod(now);
+        const baseFile = this.getLogFileName(period, 0);
+        const maxBytes = ENV.LOG_MAX_FILE_MB * 1024 * 1024;
+        // A new period (or a changed LOG_DIR / LOG_FORMAT) starts a new file
+        if (baseFile !== this.currentBaseFile) {
+            this.currentBaseFile = baseFile;
+            this.currentPeriod = period;
+            this.currentPart = 0;
+            this.openLogFile();
+            this.pruneOldLogs(now);
+        }
+        while (maxBytes > 0 && this.currentSize > 0 && this.currentSize + entryBytes > maxBytes) {
+            this.currentPart++;
+            this.openLogFile();
         }
+        return this.currentLogFile;
     }
 
-    private static writeToFile(message: string): void {
+    private static openLogFile(): void {
+        this.currentLogFile = this.getLogFileName(this.currentPeriod, this.currentPart);
+        this.currentSize = fs.existsSync(this.currentLogFile)
+            ? fs.statSync(this.currentLogFile).size
+            : 0;
+    }
+
+    private static pruneOldLogs(now: Date): void {
+        if (ENV.LOG_RETENTION_DAYS <= 0) {
+            return;
+        }
+        const cutoff = now.getTime() - ENV.LOG_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+        for (const file of fs.readdirSync(ENV.LOG_DIR)) {
+            const filePath = path.join(ENV.LOG_DIR, file);
+            if (LOG_FILE_PATTERN.test(file) && fs.statSync(filePath).mtimeMs < cutoff) {
+                fs.unlinkSync(filePath);
+            }
+        }
+    }
+
+    private static formatEntry(
+        now: Date,
+        level: LogLevel,
+        label: string,
+        message: string,
+        fields?: LogFields
+    ): string {
+        const context = this.getContext();
+        if (ENV.LOG_FORMAT === 'json') {
+            return (
+                JSON.stringify({
+                    time: now.toISOString(),
+                    level,
+                    runId: getRunId(),
+                    ...context,
+                    msg: this.stripAnsi(message),
+                    ...fields,
+                }) + '\n'
+            );
+        }
+        const correlation = context.correlationId ? ` [${context.correlationId}]` : '';
+        return `[${now.toISOString()}]${correlation} ${label}: ${this.stripAnsi(message)}\n`;
+    }
+
+    private static writeToFile(
+        level: LogLevel,
+        label: string,
+        message: string,
+        fields?: LogFields
+    ): void {
         try {
             this.ensureLogsDir();
-            const logFile = this.getLogFileName();
-            const timestamp = new Date().toISOString();
-            const logEntry = `[${timestamp}] ${message}\n`;
-            fs.appendFileSync(logFile, logEntry, 'utf8');
+            const now = new Date();
+            const logEntry = this.formatEntry(now, level, label, message, fields);
+            const entryBytes = Buffer.byteLength(logEntry, 'utf8');
+            fs.appendFileSync(this.getLogFile(now, entryBytes), logEntry, 'utf8');
+            this.currentSize += entryBytes;
         } catch (error) {
             // Silently fail to avoid infinite loops
         }
@@ -44,33 +184,60 @@ class Logger {
     }
 
     static header(title: string) {
+        if (!this.isLevelEnabled('info')) {
+            return;
+        }
         console.log('\n' + chalk.cyan('━'.repeat(70)));
         console.log(chalk.cyan.bold(`  ${title}`));
         console.log(chalk.cyan('━'.repeat(70)) + '\n');
-        this.writeToFile(`HEADER: ${title}`);
+        this.writeToFile('info', 'HEADER', title);
     }
 
-    static info(message: string) {
+    static debug(message: string, fields?: LogFields) {
+        if (!this.isLevelEnabled('debug')) {
+            return;
+        }
+        console.log(chalk.gray('·'), chalk.gray(message));
+        this.writeToFile('debug', 'DEBUG', message, fields);
+    }
+
+    static info(message: string, fields?: LogFields) {
+        if (!this.isLevelEnabled('info')) {
+            return;
+        }
         console.log(chalk.blue('ℹ'), message);
-        this.writeToFile(`INFO: ${message}`);
+        this.writeToFile('info', 'INFO', message, fields);
     }
 
-    static success(message: string) {
+    static success(message: string, fields?: LogFields) {
+        if (!this.isLevelEnabled('info')) {
+            return;
+        }
         console.log(chalk.green('✓'), message);
-        this.writeToFile(`SUCCESS: ${message}`);
+        this.writeToFile('info', 'SUCCESS', message, fields);
     }
 
-    static warning(message: string) {
+    static warning(message: string, fields?: LogFields) {
+        if (!this.isLevelEnabled('warn')) {
+            return;
+        }
         console.log(chalk.yellow('⚠'), message);
-        this.writeToFile(`WARNING: ${message}`);
+        this.writeToFile('warn', 'WARNING', message, fields);
     }
 
-    static error(message: string) {
+    static error(message: string, fields?: LogFields) {
+        if (!this.isLevelEnabled('error')) {
+            return;
+        }
         console.log(chalk.red('✗'), message);
-        this.writeToFile(`ERROR: ${message}`);
+        this.writeToFile('error', 'ERROR', message, fields);
     }
 
     static trade(traderAddress: string, action: string, details: any) {
+        if (!this.isLevelEnabled('info')) {
+            return;
+        }
+        const { correlationId } = this.getContext();
         console.log('\n' + chalk.magenta('─'.repeat(70)));
         console.log(chalk.magenta.bold('📊 NEW TRADE DETECTED'));
         console.log(chalk.gray(`Trader: ${this.formatAddress(traderAddress)}`));
@@ -98,6 +265,9 @@ class Logger {
             const txUrl = `https://polygonscan.com/tx/${details.transactionHash}`;
             console.log(chalk.gray(`TX:     ${chalk.blue.underline(txUrl)}`));
         }
+        if (correlationId) {
+            console.log(chalk.gray(`ID:     ${correlationId}`));
+        }
         console.log(chalk.magenta('─'.repeat(70)) + '\n');
 
         // Log to file
@@ -107,7 +277,15 @@ class Logger {
         if (details.price) tradeLog += ` | Price: ${details.price}`;
         if (details.title) tradeLog += ` | Market: ${details.title}`;
         if (details.transactionHash) tradeLog += ` | TX: ${details.transactionHash}`;
-        this.writeToFile(tradeLog);
+        this.writeToFile('info', 'TRADE', tradeLog, {
+            action,
+            side: details.side,
+            asset: details.asset,
+            usdcSize: details.amount,
+            price: details.price,
+            slug: details.eventSlug || details.slug,
+            transactionHash: details.transactionHash,
+        });
     }
 
     static balance(myBalance: number, traderBalance: number, traderAddress: string) {
@@ -122,13 +300,16 @@ class Logger {
         );
     }
 
-    static orderResult(success: boolean, message: string) {
+    static orderResult(success: boolean, message: string, fields?: LogFields) {
+        if (!this.isLevelEnabled(success ? 'info' : 'error')) {
+            return;
+        }
         if (success) {
             console.log(chalk.green('✓'), chalk.green.bold('Order executed:'), message);
-            this.writeToFile(`ORDER SUCCESS: ${message}`);
+            this.writeToFile('info', 'ORDER SUCCESS', message, { orderSuccess: true, ...fields });
         } else {
             console.log(chalk.red('✗'), chalk.red.bold('Order failed:'), message);
-            this.writeToFile(`ORDER FAILED: ${message}`);
+            this.writeToFile('error', 'ORDER FAILED', message, { orderSuccess: false, ...fields });
         }
     }
 
@@ -0,0 +1,54 @@
+/**
+ * Neg-risk markets
+ * Multi-outcome events (elections, "who will win" markets) are neg-risk: each outcome is its own
+ * YES/NO condition under one market, traded on the NegRiskCtfExchange and redeemed through the
+ * NegRiskAdapter instead of the CTF contract. Orders signed for the plain exchange are rejected,
+ * and the wallet needs USDC allowance and CTF operator approval for all three contracts.
+ */
+
+import { BigNumber, ethers } from 'ethers';
+import { ClobClient, getContractConfig } from '@polymarket/clob-client';
+
+const POLYGON_CHAIN_ID = 137;
+
+export const POLYMARKET_CONTRACTS = getContractConfig(POLYGON_CHAIN_ID);
+
+// Contracts the proxy wallet must approve (USDC allowance + CTF setApprovalForAll) to trade both kinds
+export const TRADING_SPENDERS: { name: string; address: string }[] = [
+    { name: 'CTF Exchange', address: POLYMARKET_CONTRACTS.exchange },
+    { name: 'Neg Risk CTF Exchange', address: POLYMARKET_CONTRACTS.negRiskExchange },
+    { name: 'Neg Risk Adapter', address: POLYMARKET_CONTRACTS.negRiskAdapter },
+];
+
+export const NEG_RISK_ADAPTER_ABI = [
+    'function redeemPositions(bytes32 _conditionId, uint256[] _amounts) external',
+];
+
+/**
+ * Exchange an order for the token must be signed against
+ */
+export const getExchangeAddress = (negRisk: boolean): string =>
+    negRisk ? POLYMARKET_CONTRACTS.negRiskExchange : POLYMARKET_CONTRACTS.exchange;
+
+/**
+ * Whether a token trades on the neg-risk exchange
+ * Uses what the caller already knows (e.g. a position's negativeRisk) before asking the CLOB,
+ * which caches the answer per token.
+ */
+export const isNegRiskToken = async (
+    clobClient: ClobClient,
+    tokenID: string,
+    known?: boolean
+): Promise<boolean> => (typeof known === 'boolean' ? known : clobClient.getNegRisk(tokenID));
+
+/**
+ * Token amounts (base units) per outcome for NegRiskAdapter.redeemPositions: [YES, NO]
+ */
+export const getNegRiskRedeemAmounts = (
+    balances: { outcomeIndex: number; balance: BigNumber }[]
+): BigNumber[] =>
+    [0, 1].map((outcomeIndex) =>
+        balances
+            .filter((b) => b.outcomeIndex === outcomeIndex)
+            .reduce((sum, b) => sum.add(b.balance), ethers.constants.Zero)
+    );
@@ -0,0 +1,203 @@
+import { ENV } from '../config/env';
+import {
+    ActivityType,
+    DataApiActivity,
+    DataApiPosition,
+    DataApiTrade,
+    GammaEvent,
+    GammaMarket,
+    OrderBookSummary,
+} from '../interfaces/Polymarket';
+import fetchData from './fetchData';
+
+/**
+ * Typed client for the public Polymarket HTTP APIs
+ * All requests go through fetchData, so they share its retry/backoff and timeout.
+ * Base URLs come from ENV (DATA_API_URL, GAMMA_API_URL, CLOB_HTTP_URL) and can be
+ * overridden per instance, e.g. to point tests at a local mock server.
+ */
+
+export interface PolymarketApiUrls {
+    dataApi: string;
+    gammaApi: string;
+    clob: string;
+}
+
+export interface PaginationOptions {
+    limit?: number;
+    offset?: number;
+}
+
+export interface ActivityQuery extends PaginationOptions {
+    user: string;
+    type?: ActivityType | ActivityType[]; // Several types are sent comma-separated
+    market?: string; // conditionId
+    start?: number; // unix seconds
+    end?: number; // unix seconds
+    sortBy?: 'TIMESTAMP' | 'TOKENS' | 'CASH';
+    sortDirection?: 'ASC' | 'DESC';
+}
+
+export interface PositionsQuery extends PaginationOptions {
+    user: string;
+    market?: string; // conditionId
+    sizeThreshold?: number;
+    redeemable?: boolean;
+    mergeable?: boolean;
+}
+
+export interface TradesQuery extends PaginationOptions {
+    user?: string;
+    market?: string; // conditionId
+    side?: 'BUY' | 'SELL';
+    takerOnly?: boolean;
+}
+
+export interface GammaMarketsQuery extends PaginationOptions {
+    active?: boolean;
+    closed?: boolean;
+    slug?: string;
+}
+
+export interface PaginateOptions {
+    pageSize?: number;
+    maxPages?: number;
+}
+
+type QueryValue = string | number | boolean | string[] | undefined;
+
+const DEFAULT_PAGE_SIZE = 500;
+const DEFAULT_MAX_PAGES = 20;
+
+const buildUrl = (baseUrl: string, path: string, query: object = {}): string => {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(query as Record<string, QueryValue>)) {
+        if (value !== undefined) {
+            params.append(key, String(value));
+        }
+    }
+    const qs = params.toString();
+    return `${baseUrl.replace(/\/+$/, '')}${path}${qs ? `?${qs}` : ''}`;
+};
+
+// Data/Gamma endpoints return an error object instead of an array on bad input
+const asArray = <T>(data: unknown): T[] => (Array.isArray(data) ? (data as T[]) : []);
+
+export class PolymarketApi {
+    private urls: PolymarketApiUrls;
+
+    constructor(urls: Partial<PolymarketApiUrls> = {}) {
+        this.urls = {
+            dataApi: urls.dataApi || ENV.DATA_API_URL,
+            gammaApi: urls.gammaApi || ENV.GAMMA_API_URL,
+            clob: urls.clob || ENV.CLOB_HTTP_URL,
+        };
+    }
+
+    /**
+     * Wallet activity (trades, merges, redeems...), newest first
+     */
+    async getActivity(query: ActivityQuery): Promise<DataApiActivity[]> {
+        return asArray(await fetchData(buildUrl(this.urls.dataApi, '/activity', query)));
+    }
+
+    /**
+     * All activity pages for a wallet, following offset pagination
+     */
+    async getAllActivity(
+        query: Omit<ActivityQuery, 'limit' | 'offset'>,
+        options: PaginateOptions = {}
+    ): Promise<DataApiActivity[]> {
+        return this.paginate(
+            (limit, offset) => this.getActivity({ ...query, limit, offset }),
+            options
+        );
+    }
+
+    /**
+     * Current positions for a wallet
+     */
+    async getPositions(query: PositionsQuery): Promise<DataApiPosition[]> {
+        return asArray(await fetchData(buildUrl(this.urls.dataApi, '/positions', query)));
+    }
+
+    /**
+     * All position pages for a wallet
+     */
+    async getAllPositions(
+        query: Omit<PositionsQuery, 'limit' | 'offset'>,
+        options: PaginateOptions = {}
+    ): Promise<DataApiPosition[]> {
+        return this.paginate(
+            (limit, offset) => this.getPositions({ ...query, limit, offset }),
+            options
+        );
+    }
+
+    /**
+     * Public profile of a wallet (raw Data API response)
+     */
+    async getUserProfile(address: string): Promise<Record<string, unknown>> {
+        return fetchData(buildUrl(this.urls.dataApi, `/users/${address}`));
+    }
+
+    /**
+     * Trade fills, filtered by wallet and/or market
+     */
+    async getTrades(query: TradesQuery): Promise<DataApiTrade[]> {
+        return asArray(await fetchData(buildUrl(this.urls.dataApi, '/trades', query)));
+    }
+
+    /**
+     * Gamma market listing
+     */
+    async getMarkets(query: GammaMarketsQuery = {}): Promise<GammaMarket[]> {
+        return asArray(await fetchData(buildUrl(this.urls.gammaApi, '/markets', query)));
+    }
+
+    /**
+     * Gamma markets matching a market slug
+     */
+    async getMarketsBySlug(slug: string): Promise<GammaMarket[]> {
+        return this.getMarkets({ slug });
+    }
+
+    /**
+     * Gamma events (with nested markets) matching an event slug
+     */
+    async getEventsBySlug(slug: string): Promise<GammaEvent[]> {
+        return asArray(await fetchData(buildUrl(this.urls.gammaApi, '/events', { slug })));
+    }
+
+    /**
+     * CLOB order book for a single outcome token
+     */
+    async getOrderBook(tokenId: string): Promise<OrderBookSummary> {
+        return fetchData(buildUrl(this.urls.clob, '/book', { token_id: tokenId }));
+    }
+
+    /**
+     * Fetch pages until a short page, an empty page, or maxPages
+     */
+    private async paginate<T>(
+        fetchPage: (limit: number, offset: number) => Promise<T[]>,
+        options: PaginateOptions
+    ): Promise<T[]> {
+        const pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE;
+        const maxPages = options.maxPages ?? DEFAULT_MAX_PAGES;
+        const results: T[] = [];
+
+        for (let page = 0; page < maxPages; page++) {
+            const items = await fetchPage(pageSize, page * pageSize);
+            results.push(...items);
+            if (items.length < pageSize) {
+                break;
+            }
+        }
+
+        return results;
+    }
+}
+
+const polymarketApi = new PolymarketApi();
+export default polymarketApi;
@@ -1,9 +1,42 @@
-import { ClobClient, OrderType, Side } from '@polymarket/clob-client';
+import {
+    ClobClient,
+    OrderResponse,
+    OrderType,
+    Side,
+    UserMarketOrder,
+} from '@polymarket/clob-client';
 import { ENV } from '../config/env';
-import { UserActivityInterface, UserPositionInterface } from '../interfaces/User';
+import { DataApiPosition } from '../interfaces/Polymarket';
+import { UserActivityInterface } from '../interfaces/User';
 import { getUserActivityModel } from '../models/userHistory';
+import { getLeaderSellRatio } from '../services/positionSnapshots';
+import marketTracker from '../services/marketTracker';
+import riskManager, { getMarketCategory, OrderRiskContext } from '../services/riskManager';
+import watchlistManager from '../services/watchlistManager';
+import equityRatioTracker from '../services/equityRatio';
+import traderEdgeTracker from '../services/traderEdge';
+import { isCategoryAllowed, resolveCopyStrategyConfig } from '../config/traderSettings';
+import {
+    recordOrderAttempt,
+    recordOrderResult,
+    setComputedSize,
+} from '../services/executionJournal';
+import { metrics, SkipReason } from '../services/metrics';
+import notifier from '../services/notifier';
 import Logger from './logger';
-import { calculateOrderSize, getTradeMultiplier } from '../config/copyStrategy';
+import { getExchangeAddress, isNegRiskToken } from './negRisk';
+import limitOrderExecutor, { LimitOrderResult } from './limitOrderExecutor';
+import {
+    applyCopyDelayFilter,
+    applySlippageGuard,
+    calculateOrderSize,
+    CopyDelayLimits,
+    CopyStrategy,
+    DEFAULT_KELLY_MIN_SAMPLES,
+    getMaxAcceptablePrice,
+    getTradeMultiplier,
+    SlippageLimits,
+} from '../config/copyStrategy';
 
 const RETRY_LIMIT = ENV.RETRY_LIMIT;
 const COPY_STRATEGY_CONFIG = ENV.COPY_STRATEGY_CONFIG;
@@ -16,6 +49,21 @@ const COPY_PERCENTAGE = ENV.COPY_PERCENTAGE;
 const MIN_ORDER_SIZE_USD = 1.0; // Minimum order size in USD for BUY orders
 const MIN_ORDER_SIZE_TOKENS = 1.0; // Minimum order size in tokens for SELL/MERGE orders
 
+const USE_LIMIT_ORDERS = ENV.ORDER_EXECUTION_MODE === 'LIMIT';
+const SLIPPAGE_LIMITS: SlippageLimits = {
+    maxSlippageCents: ENV.MAX_SLIPPAGE_CENTS,
+    maxSlippagePercent: ENV.MAX_SLIPPAGE_PERCENT,
+};
+const COPY_DELAY_LIMITS: CopyDelayLimits = {
+    maxDelaySeconds: ENV.COPY_MAX_DELAY_SECONDS,
+    maxPriceDriftCents: ENV.COPY_MAX_PRICE_DRIFT_CENTS,
+    maxPriceDriftPercent: ENV.COPY_MAX_PRICE_DRIFT_PERCENT,
+    minTimeToEndSeconds: ENV.COPY_MIN_TIME_TO_END_SECONDS,
+    resize: ENV.COPY_DELAY_RESIZE,
+};
+const CHECK_PRICE_DRIFT =
+    ENV.COPY_MAX_PRICE_DRIFT_CENTS > 0 || ENV.COPY_MAX_PRICE_DRIFT_PERCENT > 0;
+
 const extractOrderError = (response: unknown): string | undefined => {
     if (!response) {
         return undefined;
@@ -63,42 +111,203 @@ const isInsufficientBalanceOrAllowanceError = (message: string | undefined): boo
     return lower.includes('not enough balance') || lower.includes('allowance');
 };
 
-const postOrder = async (
+const getRejectionReason = (message: string | undefined): string =>
+    isInsufficientBalanceOrAllowanceError(message) ? 'balance_allowance' : 'other';
+
+/**
+ * Count a rejected order and alert on it; balance/allowance rejections need the operator
+ */
+const recordRejection = (tokenID: string, side: Side, message: string | undefined): void => {
+    const reason = getRejectionReason(message);
+    metrics.orderRejections.inc({ reason });
+    void notifier.notify({
+        event: 'order_failed',
+        severity: reason === 'balance_allowance' ? 'critical' : 'warning',
+        title:
+            reason === 'balance_allowance'
+                ? `${side} order rejected: insufficient balance or allowance`
+                : `${side} order rejected`,
+        message:
+            reason === 'balance_allowance'
+                ? 'Top up funds or run `npm run check-allowance`, copying is failing until then'
+                : message || 'No error message from the CLOB',
+        fields: { Token: tokenID },
+        // One balance/allowance alert covers every token until it is fixed
+        dedupeKey: reason === 'balance_allowance' ? reason : `${tokenID}:${message}`,
+    });
+};
+
+/**
+ * Count a leader trade as copied when anything filled (and notify), otherwise as skipped
+ */
+const recordCopyOutcome = (
+    trade: UserActivityInterface,
+    side: string,
+    filledTokens: number,
+    skipReason: SkipReason
+): void => {
+    if (filledTokens > 0) {
+        metrics.tradesCopied.inc({ side });
+        void notifier.notify({
+            event: 'trade_copied',
+            severity: 'info',
+            title: `Copied ${side} ${filledTokens.toFixed(2)} tokens`,
+            message: trade.title || trade.slug || trade.asset,
+            fields: {
+                Outcome: trade.outcome || '-',
+                'Leader price': trade.price,
+                'Leader size': `$${trade.usdcSize.toFixed(2)}`,
+                Leader: `${trade.proxyWallet.slice(0, 6)}...${trade.proxyWallet.slice(-4)}`,
+            },
+            dedupeKey: `${trade.transactionHash}:${trade.asset}`,
+        });
+    } else {
+        metrics.tradesSkipped.inc({ reason: skipReason });
+    }
+};
+
+/**
+ * Sign and post a FOK market order, journaling it first when part of an execution intent
+ * Neg-risk tokens are signed against the neg-risk exchange (see negRisk).
+ */
+const submitOrder = async (
+    clobClient: ClobClient,
+    orderArgs: UserMarketOrder & { side: Side; price: number },
+    intentId: string | undefined,
+    knownNegRisk?: boolean
+): Promise<OrderResponse> => {
+    const negRisk = await isNegRiskToken(clobClient, orderArgs.tokenID, knownNegRisk);
+    if (negRisk) {
+        Logger.info(`Neg-risk market - signing against ${getExchangeAddress(true)}`);
+    }
+    const index = intentId ? await recordOrderAttempt(intentId, orderArgs) : -1;
+    const startedAt = Date.now();
+    const signedOrder = await clobClient.createMarketOrder(orderArgs, { negRisk });
+    const resp = await clobClient.postOrder(signedOrder, OrderType.FOK);
+    metrics.orderLatencySeconds.observe((Date.now() - startedAt) / 1000, { side: orderArgs.side });
+    if (resp.success !== true) {
+        recordRejection(orderArgs.tokenID, orderArgs.side, extractOrderError(resp));
+    }
+    Logger.debug(`Posted ${orderArgs.side} order for ${orderArgs.tokenID}`, {
+        side: orderArgs.side,
+        asset: orderArgs.tokenID,
+        amount: orderArgs.amount,
+        price: orderArgs.price,
+        negRisk,
+        orderId: resp.orderID,
+        success: resp.success === true,
+        error: resp.success === true ? undefined : extractOrderError(resp),
+    });
+    if (intentId) {
+        const filledTokens =
+            orderArgs.side === Side.BUY ? orderArgs.amount / orderArgs.price : orderArgs.amount;
+        await recordOrderResult(intentId, index, {
+            success: resp.success === true,
+            orderId: resp.orderID || undefined,
+            filledTokens,
+            error: resp.success === true ? undefined : extractOrderError(resp),
+        });
+    }
+    return resp;
+};
+
+/**
+ * Best ask right now for the token the trader bought, if the market tracker can price it
+ */
+const fetchCurrentAsk = async (trade: UserActivityInterface): Promise<number | undefined> => {
+    const prices = await marketTracker
+        .fetchFreshPricesBySlug(trade.slug || trade.eventSlug || '', 'ask')
+        .catch(() => null);
+    if (prices?.assetUp === trade.asset) {
+        return prices.priceUp;
+    }
+    if (prices?.assetDown === trade.asset) {
+        return prices.priceDown;
+    }
+    return undefined;
+};
+
+/**
+ * Log the outcome of a limit order execution
+ */
+const logLimitResult = (result: LimitOrderResult, side: Side, tokenID: string): void => {
+    const verb = side === Side.BUY ? 'Bought' : 'Sold';
+    if (result.filledTokens > 0) {
+        const avgPrice = result.filledUsd / result.filledTokens;
+        Logger.orderResult(
+            true,
+            `${verb} ${result.filledTokens.toFixed(2)} tokens at avg $${avgPrice.toFixed(4)} via ${result.ordersPlaced} limit order(s)${result.status === 'PARTIAL' ? ' (partial fill)' : ''}`
+        );
+    } else if (result.status === 'REJECTED') {
+        recordRejection(tokenID, side, extractOrderError(result.rejection));
+        Logger.orderResult(
+            false,
+            `Limit order rejected${extractOrderError(result.rejection) ? ` - ${extractOrderError(result.rejection)}` : ''}`
+        );
+    } else {
+        Logger.orderResult(false, 'Limit order expired without fills');
+    }
+};
+
+const executeOrder = async (
     clobClient: ClobClient,
     condition: string,
-    my_position: UserPositionInterface | undefined,
-    user_position: UserPositionInterface | undefined,
+    my_position: DataApiPosition | undefined,
+    user_position: DataApiPosition | undefined,
     trade: UserActivityInterface,
     my_balance: number,
     user_balance: number,
-    userAddress: string
+    userAddress: string,
+    intentId?: string,
+    // Time the trade waited in the aggregation buffer, which doesn't count as copy delay
+    heldSeconds: number = 0
 ) => {
     const UserActivity = getUserActivityModel(userAddress);
+    // Watchlist overrides for this trader, layered over the global copy strategy
+    const traderSettings = watchlistManager.getSettings(userAddress);
+    const copyConfig = resolveCopyStrategyConfig(COPY_STRATEGY_CONFIG, traderSettings);
+    // Known from the positions when either side holds the market; otherwise asked of the CLOB
+    const knownNegRisk = my_position?.negativeRisk ?? user_position?.negativeRisk;
     //Merge strategy
     if (condition === 'merge') {
         Logger.info('Executing MERGE strategy...');
         if (!my_position) {
             Logger.warning('No position to merge');
+            recordCopyOutcome(trade, 'MERGE', 0, 'no_position');
             await UserActivity.updateOne({ _id: trade._id }, { bot: true });
             return;
         }
-        let remaining = my_position.size;
+        // Unwind the same share of our pairs the trader merged (all of them without a snapshot)
+        const mergeRatio = getLeaderSellRatio(trade);
+        let remaining = my_position.size * (mergeRatio ? mergeRatio.ratio : 1);
+        if (mergeRatio) {
+            Logger.info(
+                `Trader merged ${(mergeRatio.ratio * 100).toFixed(2)}% of their pairs → Selling ${remaining.toFixed(2)} of your ${my_position.size.toFixed(2)} tokens`
+            );
+        }
 
         // Check minimum order size
         if (remaining < MIN_ORDER_SIZE_TOKENS) {
             Logger.warning(
                 `Position size (${remaining.toFixed(2)} tokens) too small to merge - skipping`
             );
+            recordCopyOutcome(trade, 'MERGE', 0, 'below_minimum');
             await UserActivity.updateOne({ _id: trade._id }, { bot: true });
             return;
         }
+        if (intentId) {
+            await setComputedSize(intentId, remaining);
+        }
 
         let retry = 0;
         let abortDueToFunds = false;
+        let mergedTokens = 0;
+        let skipReason: SkipReason = 'order_failed';
         while (remaining > 0 && retry < RETRY_LIMIT) {
             const orderBook = await clobClient.getOrderBook(trade.asset);
             if (!orderBook.bids || orderBook.bids.length === 0) {
                 Logger.warning('No bids available in order book');
+                skipReason = 'no_liquidity';
                 await UserActivity.updateOne({ _id: trade._id }, { bot: true });
                 break;
             }
@@ -125,8 +334,7 @@ const postOrder = async (
                 };
             }
             // Order args logged internally
-            const signedOrder = await clobClient.createMarketOrder(order_arges);
-            const resp = await clobClient.postOrder(signedOrder, OrderType.FOK);
+            const resp = await submitOrder(clobClient, order_arges, intentId, knownNegRisk);
             if (resp.success === true) {
                 retry = 0;
                 Logger.orderResult(
@@ -134,10 +342,12 @@ const postOrder = async (
                     `Sold ${order_arges.amount} tokens at $${order_arges.price}`
                 );
                 remaining -= order_arges.amount;
+                mergedTokens += order_arges.amount;
             } else {
                 const errorMessage = extractOrderError(resp);
                 if (isInsufficientBalanceOrAllowanceError(errorMessage)) {
                     abortDueToFunds = true;
+                    skipReason = 'insufficient_funds';
                     Logger.warning(
                         `Order rejected: ${errorMessage || 'Insufficient balance or allowance'}`
                     );
@@ -152,6 +362,7 @@ const postOrder = async (
                 );
             }
         }
+        recordCopyOutcome(trade, 'MERGE', mergedTokens, skipReason);
         if (abortDueToFunds) {
             await UserActivity.updateOne(
                 { _id: trade._id },
@@ -171,40 +382,163 @@ const postOrder = async (
         Logger.info(`Your balance: $${my_balance.toFixed(2)}`);
         Logger.info(`Trader bought: $${trade.usdcSize.toFixed(2)}`);
 
+        const riskContext: OrderRiskContext = {
+            trader: userAddress,
+            conditionId: trade.conditionId,
+            category: getMarketCategory(trade.eventSlug || trade.slug),
+            traderDailyVolumeUSD: traderSettings.copyStrategy?.maxDailyVolumeUSD,
+        };
+        if (!isCategoryAllowed(riskContext.category, traderSettings)) {
+            Logger.warning(`Skipping ${riskContext.category}: category not copied for this trader`);
+            recordCopyOutcome(trade, Side.BUY, 0, 'category');
+            await UserActivity.updateOne({ _id: trade._id }, { bot: true });
+            return;
+        }
+
+        // Size against what's left of the trader's capital allocation, if they have one
+        let sizingBalance = my_balance;
+        if (traderSettings.capitalAllocationUSD !== undefined) {
+            const unallocated =
+                traderSettings.capitalAllocationUSD - riskManager.getTraderExposure(userAddress);
+            sizingBalance = Math.min(my_balance, Math.max(0, unallocated));
+            Logger.info(
+                `Trader allocation: $${sizingBalance.toFixed(2)} of $${traderSettings.capitalAllocationUSD.toFixed(2)} available`
+            );
+        }
+
         // Get current position size for position limit checks
         const currentPositionValue = my_position ? my_position.size * my_position.avgPrice : 0;
 
         // Use new copy strategy system
-        const orderCalc = calculateOrderSize(
-            COPY_STRATEGY_CONFIG,
+        // KELLY sizes by the trader's track record in this kind of market
+        const edge =
+            copyConfig.strategy === CopyStrategy.KELLY
+                ? await traderEdgeTracker.getEdge(
+                      userAddress,
+                      riskContext.category,
+                      trade.price,
+                      copyConfig.kellyMinSamples ?? DEFAULT_KELLY_MIN_SAMPLES
+                  )
+                : undefined;
+
+        let orderCalc = calculateOrderSize(
+            copyConfig,
             trade.usdcSize,
-            my_balance,
-            currentPositionValue
+            sizingBalance,
+            currentPositionValue,
+            {
+                equityRatio: equityRatioTracker.get(userAddress),
+                edge,
+                price: trade.price,
+            }
         );
 
+        // Late copies: how long ago the trader filled, how far the ask has moved since,
+        // and how long the market has left
+        if (orderCalc.finalAmount > 0) {
+            const endDate = marketTracker.getMarketByConditionId(trade.conditionId)?.endDate;
+            orderCalc = applyCopyDelayFilter(
+                orderCalc,
+                {
+                    delaySeconds: Math.max(0, Date.now() / 1000 - trade.timestamp - heldSeconds),
+                    referencePrice: trade.price,
+                    currentAsk: CHECK_PRICE_DRIFT ? await fetchCurrentAsk(trade) : undefined,
+                    timeToEndSeconds:
+                        endDate !== undefined ? (endDate - Date.now()) / 1000 : undefined,
+                },
+                COPY_DELAY_LIMITS,
+                copyConfig.minOrderSizeUSD
+            );
+        }
+
+        // Price protection: check the VWAP for this size against the full book
+        // (limit orders are already bounded by their limit price)
+        if (!USE_LIMIT_ORDERS && orderCalc.finalAmount > 0) {
+            const book = await clobClient.getOrderBook(trade.asset);
+            orderCalc = applySlippageGuard(
+                orderCalc,
+                (book.asks || []).map((ask) => ({
+                    price: parseFloat(ask.price),
+                    size: parseFloat(ask.size),
+                })),
+                trade.price,
+                SLIPPAGE_LIMITS,
+                copyConfig.minOrderSizeUSD
+            );
+        }
+
+        // Portfolio limits: daily volume, exposure and the daily-loss kill-switch
+        orderCalc = riskManager.applyToOrder(orderCalc, riskContext, copyConfig.minOrderSizeUSD);
+
         // Log the calculation reasoning
         Logger.info(`📊 ${orderCalc.reasoning}`);
 
         // Check if order should be executed
         if (orderCalc.finalAmount === 0) {
             Logger.warning(`❌ Cannot execute: ${orderCalc.reasoning}`);
+            let reason: SkipReason = 'sizing';
             if (orderCalc.belowMinimum) {
+                reason = 'below_minimum';
                 Logger.warning(`💡 Increase COPY_SIZE or wait for larger trades`);
+            } else if (orderCalc.reducedBySlippage) {
+                reason = 'slippage';
+                Logger.warning(`💡 Order book too thin or too far from the trader's price`);
+            } else if (orderCalc.reducedByDelay) {
+                reason = 'late';
+                Logger.warning(`💡 Trader's fill was seen too late to copy`);
+            } else if (orderCalc.reducedByRisk) {
+                reason = 'risk_limit';
+                Logger.warning(`💡 Portfolio risk limit reached - see /health for details`);
             }
+            recordCopyOutcome(trade, Side.BUY, 0, reason);
             await UserActivity.updateOne({ _id: trade._id }, { bot: true });
             return;
         }
 
         let remaining = orderCalc.finalAmount;
+        if (intentId) {
+            await setComputedSize(intentId, remaining);
+        }
 
         let retry = 0;
         let abortDueToFunds = false;
         let totalBoughtTokens = 0; // Track total tokens bought for this trade
+        let totalSpentUsd = 0;
+        let skipReason: SkipReason = 'order_failed';
+        const maxAcceptablePrice = getMaxAcceptablePrice(trade.price, SLIPPAGE_LIMITS);
+
+        if (USE_LIMIT_ORDERS) {
+            // Rest a limit order near the trader's price instead of chasing the book
+            const result = await limitOrderExecutor.execute(
+                clobClient,
+                {
+                    side: Side.BUY,
+                    tokenID: trade.asset,
+                    amount: remaining,
+                    referencePrice: trade.price,
+                    maxPrice: maxAcceptablePrice,
+                },
+                intentId
+            );
+            logLimitResult(result, Side.BUY, trade.asset);
+            totalBoughtTokens = result.filledTokens;
+            totalSpentUsd = result.filledUsd;
+            abortDueToFunds = isInsufficientBalanceOrAllowanceError(
+                extractOrderError(result.rejection)
+            );
+            if (result.status !== 'REJECTED') {
+                skipReason = 'limit_expired';
+            } else if (abortDueToFunds) {
+                skipReason = 'insufficient_funds';
+            }
+            remaining = 0;
+        }
 
         while (remaining > 0 && retry < RETRY_LIMIT) {
             const orderBook = await clobClient.getOrderBook(trade.asset);
             if (!orderBook.asks || orderBook.asks.length === 0) {
                 Logger.warning('No asks available in order book');
+                skipReason = 'no_liquidity';
                 await UserActivity.updateOne({ _id: trade._id }, { bot: true });
                 break;
             }
@@ -214,8 +548,9 @@ const postOrder = async (
             }, orderBook.asks[0]);
 
             Logger.info(`Best ask: ${minPriceAsk.size} @ $${minPriceAsk.price}`);
-            if (parseFloat(minPriceAsk.price) - 0.05 > trade.price) {
+            if (parseFloat(minPriceAsk.price) > maxAcceptablePrice) {
                 Logger.warning('Price slippage too high - skipping trade');
+                skipReason = 'slippage';
                 await UserActivity.updateOne({ _id: trade._id }, { bot: true });
                 break;
             }
@@ -225,6 +560,7 @@ const postOrder = async (
                 Logger.info(
                     `Remaining amount ($${remaining.toFixed(2)}) below minimum - completing trade`
                 );
+                skipReason = 'below_minimum';
                 await UserActivity.updateOne(
                     { _id: trade._id },
                     { bot: true, myBoughtSize: totalBoughtTokens }
@@ -246,12 +582,12 @@ const postOrder = async (
                 `Creating order: $${orderSize.toFixed(2)} @ $${minPriceAsk.price} (Balance: $${my_balance.toFixed(2)})`
             );
             // Order args logged internally
-            const signedOrder = await clobClient.createMarketOrder(order_arges);
-            const resp = await clobClient.postOrder(signedOrder, OrderType.FOK);
+            const resp = await submitOrder(clobClient, order_arges, intentId, knownNegRisk);
             if (resp.success === true) {
                 retry = 0;
                 const tokensBought = order_arges.amount / order_arges.price;
                 totalBoughtTokens += tokensBought;
+                totalSpentUsd += order_arges.amount;
                 Logger.orderResult(
                     true,
                     `Bought $${order_arges.amount.toFixed(2)} at $${order_arges.price} (${tokensBought.toFixed(2)} tokens)`
@@ -261,6 +597,7 @@ const postOrder = async (
                 const errorMessage = extractOrderError(resp);
                 if (isInsufficientBalanceOrAllowanceError(errorMessage)) {
                     abortDueToFunds = true;
+                    skipReason = 'insufficient_funds';
                     Logger.warning(
                         `Order rejected: ${errorMessage || 'Insufficient balance or allowance'}`
                     );
@@ -275,6 +612,8 @@ const postOrder = async (
                 );
             }
         }
+        riskManager.recordBuy(totalSpentUsd, riskContext);
+        recordCopyOutcome(trade, Side.BUY, totalBoughtTokens, skipReason);
         if (abortDueToFunds) {
             await UserActivity.updateOne(
                 { _id: trade._id },
@@ -306,6 +645,7 @@ const postOrder = async (
         let remaining = 0;
         if (!my_position) {
             Logger.warning('No position to sell');
+            recordCopyOutcome(trade, Side.SELL, 0, 'no_position');
             await UserActivity.updateOne({ _id: trade._id }, { bot: true });
             return;
         }
@@ -317,7 +657,7 @@ const postOrder = async (
             side: 'BUY',
             bot: true,
             myBoughtSize: { $exists: true, $gt: 0 },
-        }).exec();
+        });
 
         const totalBoughtTokens = previousBuys.reduce(
             (sum, buy) => sum + (buy.myBoughtSize || 0),
@@ -330,7 +670,20 @@ const postOrder = async (
             );
         }
 
-        if (!user_position) {
+        // Size the exit from the trader's position before/after this sell, when we have it
+        const sellRatio = getLeaderSellRatio(trade);
+        if (sellRatio) {
+            remaining = my_position.size * sellRatio.ratio;
+            if (sellRatio.fullExit) {
+                Logger.info(
+                    `Trader closed entire position (${trade.leaderPositionBefore!.toFixed(2)} tokens) → Selling all your ${remaining.toFixed(2)} tokens`
+                );
+            } else {
+                Logger.info(
+                    `Trader sold ${(sellRatio.ratio * 100).toFixed(2)}% of their position (${trade.leaderPositionBefore!.toFixed(2)} → ${trade.leaderPositionAfter!.toFixed(2)} tokens) → Selling ${remaining.toFixed(2)} of your ${my_position.size.toFixed(2)} tokens`
+                );
+            }
+        } else if (!user_position) {
             // Trader sold entire position - we sell entire position too
             remaining = my_position.size;
             Logger.info(
@@ -363,7 +716,7 @@ const postOrder = async (
             }
 
             // Apply tiered or single multiplier based on trader's order size (symmetrical with BUY logic)
-            const multiplier = getTradeMultiplier(COPY_STRATEGY_CONFIG, trade.usdcSize);
+            const multiplier = getTradeMultiplier(copyConfig, trade.usdcSize);
             remaining = baseSellSize * multiplier;
 
             if (multiplier !== 1.0) {
@@ -379,6 +732,7 @@ const postOrder = async (
                 `❌ Cannot execute: Sell amount ${remaining.toFixed(2)} tokens below minimum (${MIN_ORDER_SIZE_TOKENS} token)`
             );
             Logger.warning(`💡 This happens when position sizes are too small or mismatched`);
+            recordCopyOutcome(trade, Side.SELL, 0, 'below_minimum');
             await UserActivity.updateOne({ _id: trade._id }, { bot: true });
             return;
         }
@@ -391,16 +745,45 @@ const postOrder = async (
             Logger.warning(`Capping to maximum available: ${my_position.size.toFixed(2)} tokens`);
             remaining = my_position.size;
         }
+        if (intentId) {
+            await setComputedSize(intentId, remaining);
+        }
 
         let retry = 0;
         let abortDueToFunds = false;
         let totalSoldTokens = 0; // Track total tokens sold
+        let skipReason: SkipReason = 'order_failed';
+
+        if (USE_LIMIT_ORDERS) {
+            const result = await limitOrderExecutor.execute(
+                clobClient,
+                {
+                    side: Side.SELL,
+                    tokenID: trade.asset,
+                    amount: remaining,
+                    referencePrice: trade.price,
+                },
+                intentId
+            );
+            logLimitResult(result, Side.SELL, trade.asset);
+            totalSoldTokens = result.filledTokens;
+            abortDueToFunds = isInsufficientBalanceOrAllowanceError(
+                extractOrderError(result.rejection)
+            );
+            if (result.status !== 'REJECTED') {
+                skipReason = 'limit_expired';
+            } else if (abortDueToFunds) {
+                skipReason = 'insufficient_funds';
+            }
+            remaining = 0;
+        }
 
         while (remaining > 0 && retry < RETRY_LIMIT) {
             const orderBook = await clobClient.getOrderBook(trade.asset);
             if (!orderBook.bids || orderBook.bids.length === 0) {
                 await UserActivity.updateOne({ _id: trade._id }, { bot: true });
                 Logger.warning('No bids available in order book');
+                skipReason = 'no_liquidity';
                 break;
             }
 
@@ -415,6 +798,7 @@ const postOrder = async (
                 Logger.info(
                     `Remaining amount (${remaining.toFixed(2)} tokens) below minimum - completing trade`
                 );
+                skipReason = 'below_minimum';
                 await UserActivity.updateOne({ _id: trade._id }, { bot: true });
                 break;
             }
@@ -426,6 +810,7 @@ const postOrder = async (
                 Logger.info(
                     `Order amount (${sellAmount.toFixed(2)} tokens) below minimum - completing trade`
                 );
+                skipReason = 'below_minimum';
                 await UserActivity.updateOne({ _id: trade._id }, { bot: true });
                 break;
             }
@@ -437,8 +822,7 @@ const postOrder = async (
                 price: parseFloat(maxPriceBid.price),
             };
             // Order args logged internally
-            const signedOrder = await clobClient.createMarketOrder(order_arges);
-            const resp = await clobClient.postOrder(signedOrder, OrderType.FOK);
+            const resp = await submitOrder(clobClient, order_arges, intentId, knownNegRisk);
             if (resp.success === true) {
                 retry = 0;
                 totalSoldTokens += order_arges.amount;
@@ -451,6 +835,7 @@ const postOrder = async (
                 const errorMessage = extractOrderError(resp);
                 if (isInsufficientBalanceOrAllowanceError(errorMessage)) {
                     abortDueToFunds = true;
+                    skipReason = 'insufficient_funds';
                     Logger.warning(
                         `Order rejected: ${errorMessage || 'Insufficient balance or allowance'}`
                     );
@@ -466,6 +851,8 @@ const postOrder = async (
             }
         }
 
+        recordCopyOutcome(trade, Side.SELL, totalSoldTokens, skipReason);
+
         // Update tracked purchases after successful sell
         if (totalSoldTokens > 0 && totalBoughtTokens > 0) {
             const sellPercentage = totalSoldTokens / totalBoughtTokens;
@@ -512,9 +899,23 @@ const postOrder = async (
         } else {
             await UserActivity.updateOne({ _id: trade._id }, { bot: true });
         }
+    } else if (condition === 'redeem') {
+        // Resolved market: there is no book to sell into, our tokens are redeemed on-chain
+        Logger.info(
+            `Trader redeemed ${trade.size.toFixed(2)} tokens ($${trade.usdcSize.toFixed(2)}) on a resolved market - nothing to trade`
+        );
+        metrics.tradesSkipped.inc({ reason: 'resolved_market' });
+        await UserActivity.updateOne({ _id: trade._id }, { bot: true });
     } else {
         Logger.error(`Unknown condition: ${condition}`);
+        metrics.tradesSkipped.inc({ reason: 'unknown_condition' });
     }
 };
 
+/**
+ * Copy a leader trade (buy, sell or merge); lines logged while executing are tagged postOrder
+ */
+const postOrder = (...args: Parameters<typeof executeOrder>): Promise<void> =>
+    Logger.withContext({ component: 'postOrder' }, () => executeOrder(...args));
+
 export default postOrder;
@@ -0,0 +1,80 @@
+import { ENV } from '../config/env';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Token bucket: up to `capacity` requests in a burst, refilled at `ratePerSecond`
+ */
+export class TokenBucket {
+    private tokens: number;
+    private lastRefill: number;
+
+    constructor(
+        private readonly ratePerSecond: number,
+        private readonly capacity: number = ratePerSecond,
+        private readonly now: () => number = Date.now
+    ) {
+        this.tokens = capacity;
+        this.lastRefill = now();
+    }
+
+    /**
+     * Take a token if one is available, otherwise return how long to wait (ms)
+     */
+    tryTake(): number {
+        this.refill();
+        if (this.tokens >= 1) {
+            this.tokens -= 1;
+            return 0;
+        }
+        return Math.ceil(((1 - this.tokens) / this.ratePerSecond) * 1000);
+    }
+
+    /**
+     * Wait until a token is available and take it
+     */
+    async take(): Promise<void> {
+        let waitMs = this.tryTake();
+        while (waitMs > 0) {
+            await sleep(waitMs);
+            waitMs = this.tryTake();
+        }
+    }
+
+    private refill(): void {
+        const now = this.now();
+        const elapsedSeconds = (now - this.lastRefill) / 1000;
+        this.tokens = Math.min(this.capacity, this.tokens + elapsedSeconds * this.ratePerSecond);
+        this.lastRefill = now;
+    }
+}
+
+/**
+ * One token bucket per host, so a busy Data API doesn't starve CLOB/Gamma requests
+ */
+export class HostRateLimiter {
+    private buckets = new Map<string, TokenBucket>();
+
+    constructor(private readonly ratePerSecond: number) {}
+
+    async acquire(url: string): Promise<void> {
+        if (this.ratePerSecond <= 0) {
+            return; // Disabled
+        }
+        let host: string;
+        try {
+            host = new URL(url).host;
+        } catch {
+            return;
+        }
+        let bucket = this.buckets.get(host);
+        if (!bucket) {
+            bucket = new TokenBucket(this.ratePerSecond);
+            this.buckets.set(host, bucket);
+        }
+        await bucket.take();
+    }
+}
+
+const hostRateLimiter = new HostRateLimiter(ENV.HTTP_RATE_LIMIT_PER_SECOND);
+export default hostRateLimiter;